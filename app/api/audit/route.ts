@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { resolveActiveHome } from '@/lib/homes'
+import { AUDIT_ACTORS, listAuditEntries, type AuditActor } from '@/lib/audit'
+
+// ✅ Journal des modifications du foyer, filtrable :
+// ?homeId=&room=&action=&actor=&userId=&from=&to=&limit=
+export async function GET(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const params = new URL(req.url).searchParams
+  const actor = params.get('actor')
+  const limit = Number(params.get('limit'))
+
+  if (actor && !AUDIT_ACTORS.includes(actor as AuditActor)) {
+    return NextResponse.json(
+      { message: `❌ actor must be one of ${AUDIT_ACTORS.join(', ')}.` },
+      { status: 400 }
+    )
+  }
+  for (const bound of ['from', 'to']) {
+    const value = params.get(bound)
+    if (value && Number.isNaN(Date.parse(value))) {
+      return NextResponse.json(
+        { message: `❌ ${bound} must be an ISO date.` },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    const home = await resolveActiveHome(
+      auth.user.id,
+      params.get('homeId') ?? undefined
+    )
+    if (!home) return forbidden()
+
+    const entries = await listAuditEntries(home, {
+      room: params.get('room') || undefined,
+      action: params.get('action') || undefined,
+      actor: (actor as AuditActor) || undefined,
+      userId: params.get('userId') || undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      limit: limit > 0 ? limit : undefined,
+    })
+    return NextResponse.json({ entries, homeId: home.homeId })
+  } catch (error) {
+    console.error('❌ Error fetching audit log:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { translate } from '@/lib/i18n'
+import {
+  prepareChatRequest,
+  runAgent,
+  saveChatHistory,
+  type ChatEvent,
+} from '@/lib/chatAgent'
+
+// ✅ Variante streaming de /api/chat : tokens et étapes d'outils envoyés en SSE
+export async function POST(req: Request) {
+  const { chat, response } = await prepareChatRequest(req)
+  if (!chat) return response
+
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        )
+      }
+
+      try {
+        const result = await runAgent(chat.llm, chat.home, chat.messages, {
+          conversationId: chat.conversation.id,
+          preferences: chat.preferences,
+          signal: req.signal,
+          onEvent: ({ type, ...data }: ChatEvent) => send(type, data),
+        })
+
+        if (result.message) {
+          await saveChatHistory(
+            chat.userId,
+            chat.conversation.id,
+            chat.userMessage,
+            result.message
+          )
+        }
+
+        send('done', { ...result, conversationId: chat.conversation.id })
+      } catch (error) {
+        // 🛑 Le client a annulé : rien à envoyer
+        if (req.signal.aborted) {
+          console.log('⏹️ Chat stream cancelled by client.')
+        } else {
+          console.error('OpenAI API Error:', error)
+          send('error', { message: translate(chat.language, 'chat.serverError') })
+        }
+      } finally {
+        if (!closed) controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -1,57 +1,42 @@
 import { NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabaseClient'
+import { authenticateCronRequest } from '@/lib/auth'
+import { expandHeatingPrograms } from '@/lib/programs'
+import { runDueJobs } from '@/lib/scheduler'
+import { evaluateRules } from '@/lib/rules'
 
 // ✅ Fonction pour mettre à jour les températures planifiées
 async function processScheduledTemperatureUpdates() {
   console.log('⏳ Checking for scheduled temperature updates...')
 
-  const currentTime = new Date().toISOString()
+  // 📅 Les programmes récurrents arrivés à échéance deviennent des changements planifiés
+  await expandHeatingPrograms()
 
-  // 🔍 Récupérer les températures à modifier
-  const { data, error } = await supabase
-    .from('scheduled_temperatures')
-    .select('*')
-    .lte('execute_at', currentTime) // ⚠️ Vérifie que "execute_at" est bien le bon nom de la colonne dans ta BDD
+  // 🔒 Chaque job est réservé avant exécution : deux invocations simultanées ne l'appliquent qu'une fois
+  const summary = await runDueJobs()
 
-  if (error) {
-    console.error('❌ Error fetching scheduled updates:', error)
-    return NextResponse.json(
-      { error: 'Error fetching scheduled updates' },
-      { status: 500 }
-    )
-  }
+  // ⚡ Règles d'automatisation : seuils (mesures des thermostats sans capteur) et déclencheurs horaires
+  const rules = await evaluateRules().catch((rulesError) => {
+    console.error('❌ Error evaluating automation rules:', rulesError)
+    return null
+  })
 
-  if (!data || data.length === 0) {
+  if (summary.claimed === 0) {
     console.log('✅ No scheduled temperature updates at this time.')
-    return NextResponse.json({ message: 'No scheduled updates' })
+    return NextResponse.json({ message: 'No scheduled updates', ...summary, rules })
   }
 
-  for (const entry of data) {
-    const { user_id, room, temperature, id } = entry
-
-    // 🔥 Appliquer la mise à jour de la température
-    const { error: updateError } = await supabase
-      .from('room_temperatures')
-      .update({ temperature })
-      .eq('user_id', user_id)
-      .eq('room', room)
-
-    if (updateError) {
-      console.error(`❌ Failed to update temperature for ${room}:`, updateError)
-      continue
-    }
-
-    console.log(`🔥 Updated temperature for ${room} to ${temperature}°C.`)
-
-    // 🗑️ Supprimer l'entrée après exécution
-    await supabase.from('scheduled_temperatures').delete().eq('id', id)
-  }
-
-  return NextResponse.json({ message: 'Scheduled temperature updates applied' })
+  return NextResponse.json({
+    message: 'Scheduled temperature updates applied',
+    ...summary,
+    rules,
+  })
 }
 
 // ✅ Route GET pour exécuter manuellement le cron
-export async function GET() {
+export async function GET(req: Request) {
+  const authError = authenticateCronRequest(req)
+  if (authError) return authError
+
   try {
     return await processScheduledTemperatureUpdates()
   } catch (error) {
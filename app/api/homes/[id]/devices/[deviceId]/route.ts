@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getHomeAccess, HomePermissionError } from '@/lib/homes'
+import { revokeDevice } from '@/lib/devices'
+
+// ✅ Révoque la clé d'API d'un appareil
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; deviceId: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id, deviceId } = await params
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const revoked = await revokeDevice(access, deviceId)
+    if (!revoked) {
+      return NextResponse.json(
+        { message: '❌ No active device with this id.' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Device revoked' })
+  } catch (error) {
+    if (error instanceof HomePermissionError) {
+      return forbidden(`❌ ${error.message}`)
+    }
+    console.error('❌ Error revoking device:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getHomeAccess, HomePermissionError } from '@/lib/homes'
+import { createDevice, listDevices } from '@/lib/devices'
+
+// ✅ Appareils du foyer (sans leurs clés)
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const devices = await listDevices(access)
+    return NextResponse.json({ devices })
+  } catch (error) {
+    console.error('❌ Error fetching devices:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
+
+// 🔑 Enregistre un appareil { name, room? } ; la clé d'API n'est renvoyée qu'une fois
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const { name, room } = await req.json()
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return NextResponse.json(
+      { message: '❌ Expected a non-empty "name".' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const { device, apiKey } = await createDevice(
+      access,
+      name,
+      typeof room === 'string' && room.trim() ? room.trim() : null
+    )
+    return NextResponse.json({ device, apiKey }, { status: 201 })
+  } catch (error) {
+    if (error instanceof HomePermissionError) {
+      return forbidden(`❌ ${error.message}`)
+    }
+    console.error('❌ Error registering device:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
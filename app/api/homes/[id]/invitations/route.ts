@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import {
+  getHomeAccess,
+  HOME_ROLES,
+  HomePermissionError,
+  inviteToHome,
+  type HomeRole,
+} from '@/lib/homes'
+
+// ✉️ Invite { email, role, readOnly?, accessExpiresAt? } dans le foyer (propriétaires uniquement)
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const { email, role = 'member', readOnly, accessExpiresAt } = await req.json()
+
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return NextResponse.json(
+      { message: '❌ Expected a valid "email".' },
+      { status: 400 }
+    )
+  }
+  if (!HOME_ROLES.includes(role)) {
+    return NextResponse.json(
+      { message: `❌ role must be one of ${HOME_ROLES.join(', ')}.` },
+      { status: 400 }
+    )
+  }
+  if (
+    accessExpiresAt !== undefined &&
+    accessExpiresAt !== null &&
+    Number.isNaN(Date.parse(accessExpiresAt))
+  ) {
+    return NextResponse.json(
+      { message: '❌ accessExpiresAt must be an ISO date.' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const invitation = await inviteToHome(access, email, {
+      role: role as HomeRole,
+      readOnly: typeof readOnly === 'boolean' ? readOnly : undefined,
+      accessExpiresAt: accessExpiresAt ?? null,
+    })
+    return NextResponse.json({ invitation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof HomePermissionError) {
+      return forbidden(`❌ ${error.message}`)
+    }
+    console.error('❌ Error creating invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getHomeAccess } from '@/lib/homes'
+import { isValidLocation, saveHomeLocation } from '@/lib/outdoorWeather'
+import { createWeatherProvider, type WeatherLocation } from '@/lib/weather'
+
+// 📍 Position du foyer { query } (lieu géocodé) ou { latitude, longitude, name? } (membres pouvant modifier le foyer)
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const { query, latitude, longitude, name } = await req.json()
+
+  const hasCoordinates = latitude !== undefined || longitude !== undefined
+  if (
+    hasCoordinates
+      ? !isValidLocation(latitude, longitude) || (name !== undefined && typeof name !== 'string')
+      : typeof query !== 'string' || !query.trim()
+  ) {
+    return NextResponse.json(
+      {
+        message:
+          '❌ Give a query, or a latitude (-90 to 90) and a longitude (-180 to 180).',
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access?.canWrite) return forbidden()
+
+    let location: WeatherLocation | null
+    if (hasCoordinates) {
+      location = { latitude, longitude, name: name?.trim() || null }
+    } else {
+      try {
+        location = await createWeatherProvider().findLocation(query.trim())
+      } catch (searchError) {
+        console.error('❌ Error looking up a place:', searchError)
+        return NextResponse.json(
+          { message: '❌ The weather service is unavailable.' },
+          { status: 502 }
+        )
+      }
+      if (!location) {
+        return NextResponse.json(
+          { message: `❌ No place called "${query.trim()}" was found.` },
+          { status: 404 }
+        )
+      }
+    }
+
+    await saveHomeLocation(access, location)
+    return NextResponse.json({ location })
+  } catch (error) {
+    console.error('❌ Error saving home location:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import {
+  getHomeAccess,
+  HomePermissionError,
+  listHomeMembers,
+  removeHomeMember,
+} from '@/lib/homes'
+
+// ✅ Membres du foyer (visible par tous les membres)
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const members = await listHomeMembers(access)
+    return NextResponse.json({ members })
+  } catch (error) {
+    console.error('❌ Error fetching home members:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ✅ Retire un membre (?userId=) ; sans userId, l'utilisateur quitte le foyer
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const memberId = new URL(req.url).searchParams.get('userId') ?? auth.user.id
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const removed = await removeHomeMember(access, memberId)
+    if (!removed) {
+      return NextResponse.json(
+        { message: '❌ This user is not a member of the home.' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Member removed' })
+  } catch (error) {
+    if (error instanceof HomePermissionError) {
+      return forbidden(`❌ ${error.message}`)
+    }
+    console.error('❌ Error removing home member:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getHomeAccess } from '@/lib/homes'
+import {
+  applyHomeMode,
+  getHomeMode,
+  isHomeMode,
+  listModeProfiles,
+  parseModeUntil,
+} from '@/lib/homeModes'
+
+// ✅ Mode courant du foyer et consignes de chaque mode
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const [state, profiles] = await Promise.all([
+      getHomeMode(access),
+      listModeProfiles(access),
+    ])
+    return NextResponse.json({ ...state, profiles })
+  } catch (error) {
+    console.error('❌ Error fetching home mode:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
+
+// 🏡 Change le mode { mode, until?, revertTo? } (membres pouvant modifier le foyer)
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const { mode, until, revertTo } = await req.json()
+
+  if (!isHomeMode(mode) || (revertTo !== undefined && !isHomeMode(revertTo))) {
+    return NextResponse.json(
+      { message: '❌ mode and revertTo must be home, away, sleep or vacation.' },
+      { status: 400 }
+    )
+  }
+
+  const end = parseModeUntil(until)
+  if (end === undefined) {
+    return NextResponse.json(
+      { message: '❌ until must be a valid date in the future.' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access?.canWrite) return forbidden()
+
+    const result = await applyHomeMode(access, mode, { until: end, revertTo })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('❌ Error switching home mode:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getHomeAccess } from '@/lib/homes'
+import { getHomeLocation, getWeather } from '@/lib/outdoorWeather'
+
+// 🌦️ Météo du foyer : conditions actuelles et prévisions horaires (null tant que le foyer n'a pas de position)
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+
+  try {
+    const access = await getHomeAccess(auth.user.id, id)
+    if (!access) return forbidden()
+
+    const location = await getHomeLocation(access)
+    if (!location) {
+      return NextResponse.json({ location: null, report: null })
+    }
+
+    try {
+      return NextResponse.json({ location, report: await getWeather(access) })
+    } catch (weatherError) {
+      console.error('❌ Error fetching the weather:', weatherError)
+      return NextResponse.json(
+        { message: '❌ The weather service is unavailable.' },
+        { status: 502 }
+      )
+    }
+  } catch (error) {
+    console.error('❌ Error fetching home weather:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
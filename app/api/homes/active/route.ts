@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { setActiveHome } from '@/lib/homes'
+
+// ✅ Change le foyer actif { homeId } (utilisé par le chat et le tableau de bord)
+export async function PUT(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { homeId } = await req.json()
+
+  if (typeof homeId !== 'string') {
+    return NextResponse.json(
+      { message: '❌ Expected a "homeId".' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const home = await setActiveHome(auth.user.id, homeId)
+    if (!home) return forbidden()
+
+    return NextResponse.json({ home })
+  } catch (error) {
+    console.error('❌ Error saving active home:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
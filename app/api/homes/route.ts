@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import {
+  createHome,
+  listInvitationsFor,
+  listUserHomes,
+  resolveActiveHome,
+  setActiveHome,
+} from '@/lib/homes'
+
+// ✅ Foyers de l'utilisateur, foyer actif et invitations en attente
+export async function GET(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  try {
+    const active = await resolveActiveHome(auth.user.id)
+    const homes = await listUserHomes(auth.user.id)
+    const invitations = await listInvitationsFor(auth.user)
+
+    return NextResponse.json({
+      homes,
+      activeHomeId: active?.homeId ?? null,
+      invitations,
+    })
+  } catch (error) {
+    console.error('❌ Error fetching homes:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ✅ Crée un foyer { name } dont l'utilisateur est propriétaire, et le rend actif
+export async function POST(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { name } = await req.json()
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return NextResponse.json(
+      { message: '❌ Expected a non-empty "name".' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const home = await createHome(auth.user.id, name)
+    await setActiveHome(auth.user.id, home.homeId)
+    return NextResponse.json({ home }, { status: 201 })
+  } catch (error) {
+    console.error('❌ Error creating home:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { respondToInvitation } from '@/lib/homes'
+
+// ✅ Accepte ou décline une invitation { decision } adressée à l'utilisateur
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const { decision } = await req.json()
+
+  if (decision !== 'accept' && decision !== 'decline') {
+    return NextResponse.json(
+      { message: '❌ decision must be "accept" or "decline".' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await respondToInvitation(auth.user, id, decision)
+
+    if (!result) {
+      return NextResponse.json(
+        { message: '❌ No pending invitation with this id, or it has expired.' },
+        { status: 404 }
+      )
+    }
+
+    return result === 'declined'
+      ? NextResponse.json({ message: 'Invitation declined' })
+      : NextResponse.json({ message: 'Invitation accepted', home: result })
+  } catch (error) {
+    console.error('❌ Error answering invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
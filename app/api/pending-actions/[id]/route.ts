@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { executeConfirmedAction, saveChatHistory } from '@/lib/chatAgent'
+import {
+  getPendingAction,
+  reopenPendingAction,
+  settlePendingAction,
+} from '@/lib/pendingActions'
+import { getHomeAccess, resolveActiveHome } from '@/lib/homes'
+import { getUserPreferences } from '@/lib/preferences'
+import { createFormatter } from '@/lib/format'
+import { detectLanguage, translate } from '@/lib/i18n'
+
+// ✅ Accepte ou refuse une action sensible proposée dans le chat
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const userId = auth.user.id
+  const { id } = await params
+  const body = await req.json().catch(() => null)
+  const decision = body?.decision
+  const language = detectLanguage(req.headers.get('accept-language'))
+
+  try {
+    const format = createFormatter(await getUserPreferences(userId, language))
+
+    if (decision !== 'accept' && decision !== 'reject') {
+      return NextResponse.json(
+        { message: format.t('pending.invalidDecision') },
+        { status: 400 }
+      )
+    }
+
+    const pending = await getPendingAction(userId, id)
+
+    if (!pending) {
+      return NextResponse.json(
+        { message: format.t('pending.notFound') },
+        { status: 404 }
+      )
+    }
+
+    // 🏠 L'action s'applique au foyer où elle a été proposée, si l'utilisateur y a encore accès
+    const home = pending.home_id
+      ? await getHomeAccess(userId, pending.home_id)
+      : await resolveActiveHome(userId)
+    if (!home) {
+      return forbidden(format.t('home.forbidden'))
+    }
+
+    // La mise à jour conditionnelle empêche de traiter deux fois la même action
+    const action = await settlePendingAction(userId, id, decision)
+    if (!action) {
+      return NextResponse.json(
+        { message: format.t('pending.notFound') },
+        { status: 404 }
+      )
+    }
+
+    const { result: message, data } =
+      decision === 'accept'
+        ? await executeConfirmedAction(home, action, format).catch(async (error) => {
+            // 🔁 Échec : l'action redevient acceptable plutôt que de rester "accepted" sans effet
+            await reopenPendingAction(userId, id)
+            throw error
+          })
+        : { result: format.t('pending.rejected', { reason: action.reason }) }
+
+    // 🔁 Réglage refusé par le thermostat ou la base : l'action reste acceptable
+    const failed = data?.ok === false
+    if (failed) {
+      await reopenPendingAction(userId, id)
+    }
+
+    // La décision apparaît dans la conversation d'origine
+    if (action.conversation_id) {
+      await saveChatHistory(
+        userId,
+        action.conversation_id,
+        format.t(
+          decision === 'accept' ? 'pending.acceptedEntry' : 'pending.rejectedEntry'
+        ),
+        message
+      )
+    }
+
+    return NextResponse.json({
+      message,
+      status: failed ? 'pending' : action.status,
+      data,
+    })
+  } catch (error) {
+    console.error('❌ Error settling pending action:', error)
+    return NextResponse.json(
+      { message: translate(language, 'chat.serverError') },
+      { status: 500 }
+    )
+  }
+}
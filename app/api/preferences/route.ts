@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { getUserPreferences, saveUserPreferences } from '@/lib/preferences'
+import { detectLanguage } from '@/lib/i18n'
+
+// ✅ Langue, unité de température, format et fuseau horaire de l'utilisateur
+export async function GET(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  return NextResponse.json(
+    await getUserPreferences(
+      auth.user.id,
+      detectLanguage(req.headers.get('accept-language'))
+    )
+  )
+}
+
+export async function PATCH(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { language, temperatureUnit, locale, timeZone } = await req.json()
+
+  try {
+    const preferences = await saveUserPreferences(
+      auth.user.id,
+      { language, temperatureUnit, locale, timeZone },
+      detectLanguage(req.headers.get('accept-language'))
+    )
+    return NextResponse.json(preferences)
+  } catch (error) {
+    return NextResponse.json(
+      { message: `❌ ${(error as Error).message}` },
+      { status: 400 }
+    )
+  }
+}
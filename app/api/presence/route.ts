@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { authenticateDevice, deviceScope, touchDevice } from '@/lib/devices'
+import {
+  applyHomeMode,
+  getHomeMode,
+  isHomeMode,
+  parseModeUntil,
+  type HomeMode,
+} from '@/lib/homeModes'
+
+type PresenceEvent = 'arrive' | 'leave' | 'sleep' | 'wake'
+
+const PRESENCE_EVENTS: PresenceEvent[] = ['arrive', 'leave', 'sleep', 'wake']
+
+// Mode visé par un événement de présence ; null si le mode courant convient déjà
+// (un départ ne sort pas du mode vacances, un réveil ne change rien si personne ne dormait)
+function modeForEvent(event: PresenceEvent, current: HomeMode): HomeMode | null {
+  switch (event) {
+    case 'leave':
+      return current === 'away' || current === 'vacation' ? null : 'away'
+    case 'arrive':
+      return current === 'home' ? null : 'home'
+    case 'sleep':
+      return current === 'sleep' ? null : 'sleep'
+    case 'wake':
+      return current === 'sleep' ? 'home' : null
+  }
+}
+
+// ✅ Webhook de présence (géolocalisation, alarme, capteur de porte…), clé d'API d'appareil
+// { event: "arrive" | "leave" | "sleep" | "wake" } ou { mode, until?, revertTo? }
+export async function POST(req: Request) {
+  const auth = await authenticateDevice(req)
+  if (!auth.device) return auth.response
+
+  const body: unknown = await req.json().catch(() => null)
+  // JSON valide mais pas un objet ("null", 42, [...]) : rien à lire
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json(
+      { message: '❌ Expected a JSON object body.' },
+      { status: 400 }
+    )
+  }
+
+  const { event, mode, revertTo, until: rawUntil } = body as Record<string, unknown>
+  const until = parseModeUntil(rawUntil)
+
+  if (event !== undefined && !PRESENCE_EVENTS.includes(event as PresenceEvent)) {
+    return NextResponse.json(
+      { message: '❌ event must be arrive, leave, sleep or wake.' },
+      { status: 400 }
+    )
+  }
+  if (event === undefined && !isHomeMode(mode)) {
+    return NextResponse.json(
+      { message: '❌ Expected an "event" or a "mode" (home, away, sleep or vacation).' },
+      { status: 400 }
+    )
+  }
+  if (revertTo !== undefined && !isHomeMode(revertTo)) {
+    return NextResponse.json(
+      { message: '❌ revertTo must be home, away, sleep or vacation.' },
+      { status: 400 }
+    )
+  }
+  if (until === undefined) {
+    return NextResponse.json(
+      { message: '❌ until must be a valid date in the future.' },
+      { status: 400 }
+    )
+  }
+
+  const scope = deviceScope(auth.device)
+
+  try {
+    const current = await getHomeMode(scope)
+    const target = event
+      ? modeForEvent(event as PresenceEvent, current.mode)
+      : (mode as HomeMode)
+
+    await touchDevice(auth.device)
+
+    if (!target) {
+      return NextResponse.json({ mode: current.mode, changed: false })
+    }
+
+    const result = await applyHomeMode(scope, target, {
+      until,
+      revertTo: isHomeMode(revertTo) ? revertTo : undefined,
+    })
+    return NextResponse.json({ ...result, changed: true })
+  } catch (error) {
+    console.error('❌ Error handling presence webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { supabaseServer } from '@/lib/supabaseServer'
+import { setRoomTarget } from '@/lib/temperature'
+import { resolveActiveHome } from '@/lib/homes'
+
+// ✅ Réglage manuel de la consigne : { temperature } absolu ou { delta } relatif
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ room: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const userId = auth.user.id
+  const room = decodeURIComponent((await params).room)
+  const { temperature, delta, homeId } = await req.json()
+
+  // 🔒 Les membres en lecture seule ne modifient pas les consignes
+  const home = await resolveActiveHome(
+    userId,
+    typeof homeId === 'string' ? homeId : undefined
+  )
+  if (!home?.canWrite) {
+    return forbidden()
+  }
+
+  const { data, error } = await supabaseServer
+    .from('room_temperatures')
+    .select('temperature')
+    .eq('home_id', home.homeId)
+    .eq('room', room)
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Error fetching room:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+
+  if (!data) {
+    return NextResponse.json(
+      { message: `❌ Room "${room}" does not exist.` },
+      { status: 404 }
+    )
+  }
+
+  const target =
+    typeof temperature === 'number'
+      ? temperature
+      : typeof delta === 'number'
+        ? data.temperature + delta
+        : NaN
+
+  if (!Number.isFinite(target)) {
+    return NextResponse.json(
+      { message: '❌ Expected a numeric "temperature" or "delta".' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await setRoomTarget(home, room, target, 'manual')
+  } catch (updateError) {
+    console.error(`❌ Failed to update temperature for ${room}:`, updateError)
+    return NextResponse.json(
+      { message: `❌ ${(updateError as Error).message}` },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({ room, target })
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getRoomOverviews } from '@/lib/dashboard'
+import { resolveActiveHome } from '@/lib/homes'
+import { planGroupChange, resolveRoomTarget } from '@/lib/roomGroups'
+import { setRoomTargets } from '@/lib/temperature'
+
+// ✅ Pièces du foyer (?homeId=, sinon le foyer actif) avec consigne, température actuelle, changements prévus et historique
+export async function GET(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const homeId = new URL(req.url).searchParams.get('homeId') ?? undefined
+
+  try {
+    const home = await resolveActiveHome(auth.user.id, homeId)
+    if (!home) return forbidden()
+
+    const rooms = await getRoomOverviews(home)
+    return NextResponse.json({ rooms, homeId: home.homeId })
+  } catch (error) {
+    console.error('❌ Error fetching rooms:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ✅ Réglage groupé : { target } = nom d'une pièce, d'un groupe ou "all", avec { temperature } absolu ou { delta } relatif
+// Toutes les pièces de la cible sont modifiées, ou aucune
+export async function PATCH(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { target: name, temperature, delta, homeId } = await req.json()
+
+  // 🔒 Les membres en lecture seule ne modifient pas les consignes
+  const home = await resolveActiveHome(
+    auth.user.id,
+    typeof homeId === 'string' ? homeId : undefined
+  )
+  if (!home?.canWrite) {
+    return forbidden()
+  }
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return NextResponse.json(
+      { message: '❌ Expected a "target": a room, a room group or "all".' },
+      { status: 400 }
+    )
+  }
+
+  const change =
+    typeof temperature === 'number'
+      ? { temperature }
+      : typeof delta === 'number'
+        ? { delta }
+        : null
+
+  if (!change) {
+    return NextResponse.json(
+      { message: '❌ Expected a numeric "temperature" or "delta".' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const target = await resolveRoomTarget(home, name)
+    if (target.kind === null) {
+      return NextResponse.json(
+        { message: `❌ Room or group "${name}" does not exist.` },
+        { status: 404 }
+      )
+    }
+
+    const plan = await planGroupChange(home, target.rooms, change)
+
+    try {
+      const rooms = await setRoomTargets(
+        home,
+        plan.map(({ room, temperature }) => ({ room, temperature }))
+      )
+      return NextResponse.json({ target: target.name, rooms })
+    } catch (updateError) {
+      console.error(`❌ Failed to update ${target.name}:`, updateError)
+      return NextResponse.json(
+        { message: `❌ ${(updateError as Error).message}` },
+        { status: 400 }
+      )
+    }
+  } catch (error) {
+    console.error('❌ Error updating rooms:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
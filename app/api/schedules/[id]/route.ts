@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { cancelUpcomingChange } from '@/lib/scheduledChanges'
+import { resolveActiveHome } from '@/lib/homes'
+
+// ✅ Annule un changement planifié en attente
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const { id } = await params
+  const homeId = new URL(req.url).searchParams.get('homeId') ?? undefined
+
+  try {
+    const home = await resolveActiveHome(auth.user.id, homeId)
+    if (!home?.canWrite) return forbidden()
+
+    const cancelled = await cancelUpcomingChange(home, id)
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { message: '❌ No pending scheduled change with this id.' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Scheduled change cancelled', ...cancelled })
+  } catch (error) {
+    console.error('❌ Error cancelling scheduled change:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
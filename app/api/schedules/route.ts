@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import { getUpcomingChanges } from '@/lib/scheduledChanges'
+import { resolveActiveHome } from '@/lib/homes'
+
+// ✅ Liste des changements planifiés en attente du foyer (?homeId=, sinon le foyer actif)
+export async function GET(req: Request) {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return auth.response
+
+  const homeId = new URL(req.url).searchParams.get('homeId') ?? undefined
+
+  try {
+    const home = await resolveActiveHome(auth.user.id, homeId)
+    if (!home) return forbidden()
+
+    const changes = await getUpcomingChanges(home)
+    return NextResponse.json({ changes })
+  } catch (error) {
+    console.error('❌ Error fetching scheduled changes:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
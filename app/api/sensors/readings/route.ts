@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { authenticateDevice } from '@/lib/devices'
+import {
+  ingestReadings,
+  parseReadingJson,
+  parseReadingLines,
+  ReadingFormatError,
+  type SensorReading,
+} from '@/lib/sensorReadings'
+
+// ✅ Ingestion des mesures d'un appareil (clé d'API en "Authorization: Bearer thd_…")
+// JSON : { readings: [{ room, temperature, humidity?, recordedAt? }] }
+// Texte (text/plain) : une mesure par ligne, "bedroom t=19.5 h=48 2026-10-19T07:00:00Z"
+export async function POST(req: Request) {
+  const auth = await authenticateDevice(req)
+  if (!auth.device) return auth.response
+
+  let readings: SensorReading[]
+  try {
+    const contentType = req.headers.get('content-type') ?? ''
+    readings = contentType.includes('application/json')
+      ? parseReadingJson(await req.json())
+      : parseReadingLines(await req.text())
+  } catch (error) {
+    const message =
+      error instanceof ReadingFormatError ? error.message : 'Invalid JSON body.'
+    return NextResponse.json({ message: `❌ ${message}` }, { status: 400 })
+  }
+
+  if (readings.length === 0) {
+    return NextResponse.json(
+      { message: '❌ No readings in the request.' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await ingestReadings(auth.device, readings)
+    // Aucune mesure exploitable : la requête est refusée, avec le détail par mesure
+    return NextResponse.json(result, {
+      status: result.accepted === 0 ? 422 : 200,
+    })
+  } catch (error) {
+    if (error instanceof ReadingFormatError) {
+      return NextResponse.json({ message: `❌ ${error.message}` }, { status: 400 })
+    }
+    console.error('❌ Error ingesting sensor readings:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    )
+  }
+}
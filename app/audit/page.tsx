@@ -0,0 +1,166 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { authorizedFetch } from "@/lib/apiClient";
+import type { AuditEntry } from "@/lib/audit";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { HomeSwitcher } from "@/components/home-switcher";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { useTranslation } from "@/components/language-provider";
+
+const ACTORS = ["user", "scheduler", "device", "rule", "system"] as const;
+const ACTION_GROUPS = ["temperature", "room", "alias", "group", "schedule", "program", "member", "home", "mode", "rule"] as const;
+
+interface Filters {
+  room: string;
+  actor: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { room: "", actor: "", action: "", from: "", to: "" };
+
+// Before/after values as a short "key: value" list
+function formatValues(values: Record<string, unknown> | null) {
+  if (!values) return "–";
+  return Object.entries(values)
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(", ");
+}
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const loadEntries = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (filters.room) params.set("room", filters.room);
+    if (filters.actor) params.set("actor", filters.actor);
+    if (filters.action) params.set("action", filters.action);
+    // Date inputs are local days: the whole "to" day is included
+    if (filters.from) params.set("from", new Date(`${filters.from}T00:00`).toISOString());
+    if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+    const response = await authorizedFetch(`/api/audit?${params}`);
+    if (response.status === 401) {
+      router.push("/login");
+      return;
+    }
+    if (!response.ok) {
+      setError(t("ui.auditLoadFailed"));
+      return;
+    }
+    const data = await response.json();
+    setEntries(data.entries);
+    setError(null);
+  }, [filters, router, t]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="flex items-center justify-between max-w-5xl mx-auto mb-4">
+        <h1 className="text-xl font-bold">{t("ui.auditLog")}</h1>
+        <div className="flex gap-2 items-start">
+          <HomeSwitcher onChange={loadEntries} />
+          <LanguageSwitcher />
+          <Button onClick={() => router.push("/dashboard")} className="bg-gray-500 text-white px-4 py-2 rounded">
+            {t("ui.dashboard")}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 max-w-5xl mx-auto mb-4">
+        <Input
+          placeholder={t("ui.auditRoom")}
+          value={filters.room}
+          onChange={(e) => updateFilter("room", e.target.value)}
+          className="border p-1 rounded w-40"
+        />
+        <select
+          aria-label={t("ui.auditActor")}
+          value={filters.actor}
+          onChange={(e) => updateFilter("actor", e.target.value)}
+          className="border rounded px-2 py-1 bg-white"
+        >
+          <option value="">{t("ui.auditAnyActor")}</option>
+          {ACTORS.map((actor) => (
+            <option key={actor} value={actor}>
+              {actor}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={t("ui.auditAction")}
+          value={filters.action}
+          onChange={(e) => updateFilter("action", e.target.value)}
+          className="border rounded px-2 py-1 bg-white"
+        >
+          <option value="">{t("ui.auditAnyAction")}</option>
+          {ACTION_GROUPS.map((group) => (
+            <option key={group} value={group}>
+              {group}
+            </option>
+          ))}
+        </select>
+        <Input type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} className="border p-1 rounded w-40" />
+        <Input type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} className="border p-1 rounded w-40" />
+        <Button onClick={() => setFilters(EMPTY_FILTERS)} className="bg-gray-500 text-white py-1 px-3 rounded">
+          {t("ui.auditReset")}
+        </Button>
+      </div>
+
+      {error && <p className="text-red-500 text-center mb-4">{error}</p>}
+
+      <div className="max-w-5xl mx-auto bg-white rounded shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="p-2">{t("ui.auditWhen")}</th>
+              <th className="p-2">{t("ui.auditActor")}</th>
+              <th className="p-2">{t("ui.auditAction")}</th>
+              <th className="p-2">{t("ui.auditRoom")}</th>
+              <th className="p-2">{t("ui.auditChange")}</th>
+              <th className="p-2">{t("ui.auditReason")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id} className="border-b align-top">
+                <td className="p-2 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                <td className="p-2">
+                  {entry.actor}
+                  {entry.actor_detail && <span className="text-gray-500"> {entry.actor_detail}</span>}
+                </td>
+                <td className="p-2">{entry.action}</td>
+                <td className="p-2">{entry.room ?? "–"}</td>
+                <td className="p-2">
+                  {formatValues(entry.previous)} → {formatValues(entry.next)}
+                </td>
+                <td className="p-2 text-gray-600">{entry.message ?? ""}</td>
+              </tr>
+            ))}
+            {entries.length === 0 && !error && (
+              <tr>
+                <td colSpan={6} className="p-4 text-center text-gray-500">
+                  {t("ui.auditEmpty")}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,14 @@
 "use client";
-import { useState, useEffect } from "react";
-import axios from "axios";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { readServerSentEvents } from "@/lib/sse";
+import { authorizedFetch } from "@/lib/apiClient";
+import { ScheduledChangesPanel } from "@/components/scheduled-changes-panel";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { HomeSwitcher } from "@/components/home-switcher";
+import { useTranslation } from "@/components/language-provider";
+import type { ChatAction } from "@/lib/chatAgent";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,12 +18,37 @@ interface Message {
   content: string;
 }
 
+interface ToolStep {
+  id: string;
+  label: string;
+  done: boolean;
+  failed?: boolean;
+}
+
+interface PendingAction {
+  id: string;
+  reason: string;
+}
+
+interface Conversation {
+  id: string;
+  title: string;
+}
+
 export default function Chatbot() {
   const [input, setInput] = useState<string>("");
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [userId, setUserId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState<string>("");
+  const [toolSteps, setToolSteps] = useState<ToolStep[]>([]);
+  const [schedulesRefreshKey, setSchedulesRefreshKey] = useState<number>(0);
+  const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const router = useRouter();
+  const { t } = useTranslation();
 
 
   useEffect(() => {
@@ -25,7 +56,7 @@ export default function Chatbot() {
       const { data, error } = await supabase.auth.getUser();
       if (data?.user?.id) {
         setUserId(data.user.id);
-        loadChatHistory(data.user.id); // Load chat history
+        loadConversations(data.user.id);
       } else {
         console.error("Error fetching user:", error);
         router.push("/login"); // Redirect if not logged in
@@ -35,11 +66,43 @@ export default function Chatbot() {
   }, [router]);
 
  
-  const loadChatHistory = async (userId: string) => {
+  const loadConversations = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("conversations")
+      .select("id, title")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching conversations:", error);
+      return;
+    }
+
+    setConversations(data);
+  };
+
+  // ✅ Reload the messages whenever another conversation is selected
+  useEffect(() => {
+    if (!userId || !conversationId) {
+      setMessages([]);
+      return;
+    }
+    loadChatHistory(userId, conversationId);
+  }, [userId, conversationId]);
+
+  // Pending actions belong to the conversation the user leaves; a new conversation created by
+  // the first message keeps the ones the server just returned
+  const selectConversation = (id: string | null) => {
+    setPendingActions([]);
+    setConversationId(id);
+  };
+
+  const loadChatHistory = async (userId: string, conversationId: string) => {
   const { data, error } = await supabase
     .from("chat_history")
     .select("message, response")
     .eq("user_id", userId)
+    .eq("conversation_id", conversationId)
     .order("created_at", { ascending: true });
 
   if (error) {
@@ -61,33 +124,101 @@ export default function Chatbot() {
   const sendMessage = async () => {
     if (!input.trim() || !userId) return;
 
+    setPendingActions([]);
+
     const newMessage: Message = { role: "user", content: input };
     setMessages((prev) => [...prev, newMessage]);
     setLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      const response = await axios.post("/api/chat", {
-        userMessage: input,
-        userId,
+      // ✅ The API identifies the user from the session token, not from the body
+      const response = await authorizedFetch("/api/chat/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userMessage: input, conversationId }),
+        signal: abortController.signal,
       });
 
-      const botResponse: Message = { role: "assistant", content: response.data.message };
-      setMessages((prev) => [...prev, botResponse]);
+      if (response.status === 401) {
+        router.push("/login"); // Session expired
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      // ✅ Render tokens and tool steps as they arrive
+      await readServerSentEvents(response, (event, data) => {
+        const payload = data as Record<string, string>;
 
-      
-      await supabase.from("chat_history").insert([
-        { user_id: userId, message: input, response: response.data.message },
-      ]);
+        if (event === "token") {
+          setStreamingText((prev) => prev + payload.content);
+        } else if (event === "tool_start") {
+          setStreamingText("");
+          setToolSteps((prev) => [...prev, { id: payload.id, label: payload.label, done: false }]);
+        } else if (event === "tool_end") {
+          // Typed results (temperature and group changes) tell us whether the step actually succeeded
+          const { data: result } = data as Pick<ChatAction, "data">;
+          setToolSteps((prev) =>
+            prev.map((step) => (step.id === payload.id ? { ...step, done: true, failed: result?.ok === false } : step))
+          );
+        } else if (event === "done") {
+          const done = data as { message: string; conversationId: string; pendingActions?: PendingAction[] };
+          setMessages((prev) => [...prev, { role: "assistant", content: payload.message }]);
+          setPendingActions(done.pendingActions ?? []);
+          setSchedulesRefreshKey((key) => key + 1);
+
+          // The route saves the exchange; a new conversation is created on first message
+          if (!conversationId) {
+            setConversationId(payload.conversationId);
+            loadConversations(userId);
+          }
+        } else if (event === "error") {
+          setMessages((prev) => [...prev, { role: "assistant", content: `❌ ${payload.message}` }]);
+        }
+      });
     } catch (error) {
-      console.error("Erreur API :", error);
-      setMessages((prev) => [...prev, { role: "assistant", content: "❌ Erreur : Impossible de répondre." }]);
+      if (abortController.signal.aborted) {
+        setMessages((prev) => [...prev, { role: "assistant", content: t("ui.requestCancelled") }]);
+      } else {
+        console.error("Erreur API :", error);
+        setMessages((prev) => [...prev, { role: "assistant", content: t("ui.replyFailed") }]);
+      }
     }
 
+    abortControllerRef.current = null;
+    setStreamingText("");
+    setToolSteps([]);
     setLoading(false);
     setInput("");
   };
 
 
+  // ✅ Accept or reject a sensitive change proposed by the assistant
+  const settlePendingAction = async (actionId: string, decision: "accept" | "reject") => {
+    setPendingActions((prev) => prev.filter((action) => action.id !== actionId));
+
+    try {
+      const response = await authorizedFetch(`/api/pending-actions/${actionId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision }),
+      });
+      const data = await response.json();
+      setMessages((prev) => [...prev, { role: "assistant", content: data.message ?? `❌ HTTP ${response.status}` }]);
+      setSchedulesRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Erreur API :", error);
+      setMessages((prev) => [...prev, { role: "assistant", content: t("ui.replyFailed") }]);
+    }
+  };
+
+  const cancelRequest = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     router.push("/login");
@@ -96,21 +227,72 @@ export default function Chatbot() {
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-4 relative">
      
-      <div className="absolute top-4 right-4">
+      <div className="absolute top-4 right-4 flex gap-2">
+        <LanguageSwitcher />
+        <Button onClick={() => router.push("/dashboard")} className="bg-gray-500 text-white px-4 py-2 rounded">
+          {t("ui.dashboard")}
+        </Button>
         <Button onClick={handleLogout} className="bg-red-500 text-white px-4 py-2 rounded">
-          Logout
+          {t("ui.logout")}
         </Button>
       </div>
 
       <Card className="w-full max-w-lg bg-white shadow-md rounded-lg p-4">
-        <h1 className="text-xl font-bold mb-4 text-center">Chatbot Météo Maison</h1>
+        <h1 className="text-xl font-bold mb-4 text-center">{t("ui.chatTitle")}</h1>
+        <div className="flex gap-2 mb-2">
+          <select
+            value={conversationId ?? ""}
+            onChange={(e) => selectConversation(e.target.value || null)}
+            className="border p-2 w-full rounded"
+            disabled={loading}
+          >
+            <option value="">{t("ui.newConversation")}</option>
+            {conversations.map((conversation) => (
+              <option key={conversation.id} value={conversation.id}>
+                {conversation.title}
+              </option>
+            ))}
+          </select>
+          <Button onClick={() => selectConversation(null)} className="bg-gray-500 text-white py-2 px-4 rounded" disabled={loading}>
+            +
+          </Button>
+        </div>
+        {userId && (
+          <div className="mb-2">
+            <HomeSwitcher onChange={() => setSchedulesRefreshKey((key) => key + 1)} />
+          </div>
+        )}
+        {userId && <ScheduledChangesPanel refreshKey={schedulesRefreshKey} />}
         <div className="h-64 overflow-y-auto border p-2 mb-4 bg-gray-50 rounded">
           {messages.map((msg, index) => (
             <p key={index} className={msg.role === "user" ? "text-blue-600" : "text-green-600"}>
-              <strong>{msg.role === "user" ? "you" : "Bot"}:</strong> {msg.content}
+              <strong>{msg.role === "user" ? t("ui.you") : t("ui.bot")}:</strong> {msg.content}
             </p>
           ))}
-          {loading && <p className="text-gray-500"> Chargement...</p>}
+          {toolSteps.map((step) => (
+            <p key={step.id} className="text-gray-500 italic">
+              {step.failed ? "✖" : step.done ? "✔" : "⏳"} {step.label}
+            </p>
+          ))}
+          {streamingText && (
+            <p className="text-green-600">
+              <strong>{t("ui.bot")}:</strong> {streamingText}
+            </p>
+          )}
+          {pendingActions.map((action) => (
+            <div key={action.id} className="border border-yellow-400 bg-yellow-50 rounded p-2 my-2">
+              <p className="text-yellow-800">⚠️ {action.reason}</p>
+              <div className="flex gap-2 mt-2">
+                <Button onClick={() => settlePendingAction(action.id, "accept")} className="bg-green-500 text-white py-1 px-3 rounded">
+                  {t("ui.accept")}
+                </Button>
+                <Button onClick={() => settlePendingAction(action.id, "reject")} className="bg-red-500 text-white py-1 px-3 rounded">
+                  {t("ui.reject")}
+                </Button>
+              </div>
+            </div>
+          ))}
+          {loading && !streamingText && toolSteps.length === 0 && <p className="text-gray-500"> {t("ui.loading")}</p>}
         </div>
         <div className="flex gap-2">
           <Input
@@ -121,9 +303,15 @@ export default function Chatbot() {
             className="border p-2 w-full rounded"
             disabled={loading}
           />
-          <Button onClick={sendMessage} className="bg-blue-500 text-white py-2 px-4 rounded" disabled={loading}>
-            {loading ? "..." : "Envoyer"}
-          </Button>
+          {loading ? (
+            <Button onClick={cancelRequest} className="bg-gray-500 text-white py-2 px-4 rounded">
+              {t("ui.cancel")}
+            </Button>
+          ) : (
+            <Button onClick={sendMessage} className="bg-blue-500 text-white py-2 px-4 rounded">
+              {t("ui.send")}
+            </Button>
+          )}
         </div>
       </Card>
     </div>
@@ -0,0 +1,123 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { authorizedFetch } from "@/lib/apiClient";
+import { RoomCard } from "@/components/room-card";
+import type { RoomOverview } from "@/lib/dashboard";
+import { Button } from "@/components/ui/button";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { HomeSwitcher } from "@/components/home-switcher";
+import { HomeModeSelect } from "@/components/home-mode-select";
+import { OutdoorWeather } from "@/components/outdoor-weather";
+import { useTranslation } from "@/components/language-provider";
+
+// Tables whose changes (chat, cron, devices) should refresh the dashboard
+const WATCHED_TABLES = ["room_temperatures", "scheduled_temperatures", "temperature_history"];
+
+export default function Dashboard() {
+  const [rooms, setRooms] = useState<RoomOverview[]>([]);
+  const [homeId, setHomeId] = useState<string | null>(null);
+  const [busyRoom, setBusyRoom] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const loadRooms = useCallback(async () => {
+    const response = await authorizedFetch("/api/rooms");
+    if (response.status === 401) {
+      router.push("/login");
+      return;
+    }
+    if (!response.ok) {
+      setError(t("ui.roomsLoadFailed"));
+      return;
+    }
+    const data = await response.json();
+    setRooms(data.rooms);
+    setHomeId(data.homeId);
+    setError(null);
+  }, [router, t]);
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { data } = await supabase.auth.getUser();
+      if (data?.user?.id) {
+        loadRooms();
+      } else {
+        router.push("/login"); // Redirect if not logged in
+      }
+    };
+    fetchUser();
+  }, [router, loadRooms]);
+
+  // ✅ Realtime: reload whenever a member, the cron or a device changes a row of the home
+  useEffect(() => {
+    if (!homeId) return;
+
+    let channel = supabase.channel(`dashboard-${homeId}`);
+    for (const table of WATCHED_TABLES) {
+      channel = channel.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, filter: `home_id=eq.${homeId}` },
+        () => loadRooms()
+      );
+    }
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [homeId, loadRooms]);
+
+  const adjustTemperature = async (room: string, delta: number) => {
+    setBusyRoom(room);
+    const response = await authorizedFetch(`/api/rooms/${encodeURIComponent(room)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ delta }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.message ?? t("ui.adjustFailed"));
+    }
+    setBusyRoom(null);
+    loadRooms();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="flex items-center justify-between max-w-5xl mx-auto mb-4">
+        <h1 className="text-xl font-bold">{t("ui.dashboard")}</h1>
+        <div className="flex gap-2 items-start">
+          <OutdoorWeather key={homeId} homeId={homeId} />
+          <HomeSwitcher onChange={loadRooms} />
+          <HomeModeSelect key={homeId} homeId={homeId} onChange={loadRooms} />
+          <LanguageSwitcher />
+          <Button onClick={() => router.push("/audit")} className="bg-gray-500 text-white px-4 py-2 rounded">
+            {t("ui.auditLog")}
+          </Button>
+          <Button onClick={() => router.push("/chatbot")} className="bg-blue-500 text-white px-4 py-2 rounded">
+            {t("ui.chatbot")}
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-center mb-4">{error}</p>}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 max-w-5xl mx-auto">
+        {rooms.map((overview) => (
+          <RoomCard
+            key={overview.room}
+            overview={overview}
+            busy={busyRoom === overview.room}
+            onAdjust={adjustTemperature}
+          />
+        ))}
+        {rooms.length === 0 && !error && (
+          <p className="text-gray-500">{t("ui.noRooms")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 import { useState } from 'react'
 import { supabase } from '@/lib/supabaseClient'
 import { useRouter } from 'next/navigation'
+import { LanguageSwitcher } from '@/components/language-switcher'
+import { useTranslation } from '@/components/language-provider'
 
 export default function Login() {
   const [email, setEmail] = useState('')
@@ -9,6 +11,7 @@ export default function Login() {
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const router = useRouter()
+  const { t } = useTranslation()
 
   const handleLogin = async () => {
     setLoading(true)
@@ -29,18 +32,21 @@ export default function Login() {
   }
 
   return (
-    <div className='flex flex-col items-center justify-center min-h-screen p-4'>
-      <h1 className='text-2xl font-bold mb-4'>Login</h1>
+    <div className='flex flex-col items-center justify-center min-h-screen p-4 relative'>
+      <div className='absolute top-4 right-4'>
+        <LanguageSwitcher />
+      </div>
+      <h1 className='text-2xl font-bold mb-4'>{t('ui.login')}</h1>
       <input
         type='email'
-        placeholder='Email'
+        placeholder={t('ui.email')}
         className='p-2 border rounded w-80 mb-2'
         value={email}
         onChange={(e) => setEmail(e.target.value)}
       />
       <input
         type='password'
-        placeholder='Password'
+        placeholder={t('ui.password')}
         className='p-2 border rounded w-80 mb-2'
         value={password}
         onChange={(e) => setPassword(e.target.value)}
@@ -51,12 +57,12 @@ export default function Login() {
         disabled={loading}
         className='bg-blue-500 text-white px-4 py-2 rounded'
       >
-        {loading ? 'Logging in...' : 'Login'}
+        {loading ? t('ui.loggingIn') : t('ui.login')}
       </button>
       <p className='mt-2'>
-        Dont have an account?{' '}
+        {t('ui.noAccount')}{' '}
         <a href='/signup' className='text-blue-600'>
-          Sign Up
+          {t('ui.signUp')}
         </a>
       </p>
     </div>
@@ -2,6 +2,8 @@
 import { useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
 import { useRouter } from "next/navigation";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { useTranslation } from "@/components/language-provider";
 
 export default function Signup() {
   const [email, setEmail] = useState("");
@@ -9,6 +11,7 @@ export default function Signup() {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const router = useRouter();
+  const { t } = useTranslation();
 
   const handleSignup = async () => {
     setLoading(true);
@@ -19,7 +22,7 @@ export default function Signup() {
     if (error) {
       setError(error.message);
     } else {
-      alert("Signup successful! Please check your email to verify your account.");
+      alert(t("ui.signupSuccess"));
       router.push("/login"); // Redirect user to login page
     }
 
@@ -27,18 +30,21 @@ export default function Signup() {
   };
 
   return (
-    <div className="flex flex-col items-center justify-center min-h-screen p-4">
-      <h1 className="text-2xl font-bold mb-4">Sign Up</h1>
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 relative">
+      <div className="absolute top-4 right-4">
+        <LanguageSwitcher />
+      </div>
+      <h1 className="text-2xl font-bold mb-4">{t("ui.signUp")}</h1>
       <input
         type="email"
-        placeholder="Email"
+        placeholder={t("ui.email")}
         className="p-2 border rounded w-80 mb-2"
         value={email}
         onChange={(e) => setEmail(e.target.value)}
       />
       <input
         type="password"
-        placeholder="Password"
+        placeholder={t("ui.password")}
         className="p-2 border rounded w-80 mb-2"
         value={password}
         onChange={(e) => setPassword(e.target.value)}
@@ -49,10 +55,10 @@ export default function Signup() {
         disabled={loading}
         className="bg-blue-500 text-white px-4 py-2 rounded"
       >
-        {loading ? "Signing up..." : "Sign Up"}
+        {loading ? t("ui.signingUp") : t("ui.signUp")}
       </button>
       <p className="mt-2">
-        Already have an account? <a href="/login" className="text-blue-600">Login</a>
+        {t("ui.haveAccount")} <a href="/login" className="text-blue-600">{t("ui.login")}</a>
       </p>
     </div>
   );
@@ -0,0 +1,82 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { authorizedFetch } from "@/lib/apiClient";
+import type { HomeMode } from "@/lib/homeModes";
+import { useTranslation } from "@/components/language-provider";
+
+export const MODE_LABELS = {
+  home: "mode.home",
+  away: "mode.away",
+  sleep: "mode.sleep",
+  vacation: "mode.vacation",
+} as const;
+
+interface HomeModeSelectProps {
+  homeId: string | null;
+  // Called after the mode changed: its profile may have changed room setpoints
+  onChange?: () => void;
+}
+
+// ✅ Current home mode, with its scheduled end, switchable by members who can write
+export function HomeModeSelect({ homeId, onChange }: HomeModeSelectProps) {
+  const [mode, setMode] = useState<HomeMode>("home");
+  const [until, setUntil] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const loadMode = useCallback(async () => {
+    if (!homeId) return;
+    const response = await authorizedFetch(`/api/homes/${homeId}/mode`);
+    if (!response.ok) {
+      console.error("Error fetching home mode:", response.status);
+      return;
+    }
+    const data = await response.json();
+    setMode(data.mode);
+    setUntil(data.until);
+  }, [homeId]);
+
+  useEffect(() => {
+    loadMode();
+  }, [loadMode]);
+
+  const selectMode = async (next: HomeMode) => {
+    if (!homeId) return;
+    const response = await authorizedFetch(`/api/homes/${homeId}/mode`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mode: next }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.message ?? t("mode.switchFailed", { mode: t(MODE_LABELS[next]) }));
+      return;
+    }
+    setError(null);
+    await loadMode();
+    onChange?.();
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <select
+        aria-label={t("ui.mode")}
+        value={mode}
+        onChange={(e) => selectMode(e.target.value as HomeMode)}
+        className="border rounded px-2 py-1 bg-white"
+      >
+        {(Object.keys(MODE_LABELS) as HomeMode[]).map((option) => (
+          <option key={option} value={option}>
+            {t(MODE_LABELS[option])}
+          </option>
+        ))}
+      </select>
+      {until && (
+        <span className="text-xs text-gray-500">
+          {t("ui.modeUntil", { time: new Date(until).toLocaleString() })}
+        </span>
+      )}
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+}
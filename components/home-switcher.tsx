@@ -0,0 +1,138 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { authorizedFetch } from "@/lib/apiClient";
+import type { HomeAccess, HomeInvitation, HomeRole } from "@/lib/homes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTranslation } from "@/components/language-provider";
+
+const ROLE_LABELS = {
+  owner: "ui.roleOwner",
+  member: "ui.roleMember",
+  guest: "ui.roleGuest",
+} as const;
+
+interface HomeSwitcherProps {
+  // Called after the active home changed, so the page can reload its data
+  onChange?: () => void;
+}
+
+// ✅ Active home picker, pending invitations and (for owners) an invite form
+export function HomeSwitcher({ onChange }: HomeSwitcherProps) {
+  const [homes, setHomes] = useState<HomeAccess[]>([]);
+  const [activeHomeId, setActiveHomeId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<HomeInvitation[]>([]);
+  const [email, setEmail] = useState<string>("");
+  const [role, setRole] = useState<HomeRole>("member");
+  const [notice, setNotice] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const loadHomes = useCallback(async () => {
+    const response = await authorizedFetch("/api/homes");
+    if (!response.ok) {
+      console.error("Error fetching homes:", response.status);
+      return;
+    }
+    const data = await response.json();
+    setHomes(data.homes);
+    setActiveHomeId(data.activeHomeId);
+    setInvitations(data.invitations);
+  }, []);
+
+  useEffect(() => {
+    loadHomes();
+  }, [loadHomes]);
+
+  const selectHome = async (homeId: string) => {
+    setActiveHomeId(homeId);
+    await authorizedFetch("/api/homes/active", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ homeId }),
+    });
+    onChange?.();
+  };
+
+  const answerInvitation = async (id: string, decision: "accept" | "decline") => {
+    setInvitations((prev) => prev.filter((invitation) => invitation.id !== id));
+    await authorizedFetch(`/api/invitations/${id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ decision }),
+    });
+    await loadHomes();
+    if (decision === "accept") onChange?.();
+  };
+
+  const invite = async () => {
+    if (!activeHomeId || !email.trim()) return;
+
+    const response = await authorizedFetch(`/api/homes/${activeHomeId}/invitations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, role }),
+    });
+    setNotice(response.ok ? t("ui.inviteSent", { email }) : t("ui.inviteFailed"));
+    if (response.ok) setEmail("");
+  };
+
+  const active = homes.find((home) => home.homeId === activeHomeId);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <select
+        aria-label={t("ui.home")}
+        value={activeHomeId ?? ""}
+        onChange={(e) => selectHome(e.target.value)}
+        className="border rounded px-2 py-1 bg-white"
+      >
+        {homes.map((home) => (
+          <option key={home.homeId} value={home.homeId}>
+            {home.name} {home.canWrite ? "" : t("ui.readOnlyBadge")}
+          </option>
+        ))}
+      </select>
+
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="border border-blue-300 bg-blue-50 rounded p-2 text-sm">
+          <p>{t("ui.invitation", { home: invitation.home_name ?? "", role: t(ROLE_LABELS[invitation.role]) })}</p>
+          <div className="flex gap-2 mt-1">
+            <Button onClick={() => answerInvitation(invitation.id, "accept")} className="bg-green-500 text-white py-1 px-3 rounded">
+              {t("ui.accept")}
+            </Button>
+            <Button onClick={() => answerInvitation(invitation.id, "decline")} className="bg-gray-500 text-white py-1 px-3 rounded">
+              {t("ui.decline")}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {active?.canManage && (
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            placeholder={t("ui.inviteEmail")}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="border p-1 rounded"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as HomeRole)}
+            className="border rounded px-2 py-1 bg-white"
+          >
+            {(Object.keys(ROLE_LABELS) as HomeRole[]).map((option) => (
+              <option key={option} value={option}>
+                {t(ROLE_LABELS[option])}
+              </option>
+            ))}
+          </select>
+          <Button onClick={invite} className="bg-blue-500 text-white py-1 px-3 rounded">
+            {t("ui.invite")}
+          </Button>
+        </div>
+      )}
+      {notice && <p className="text-sm text-gray-600">{notice}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { authorizedFetch } from "@/lib/apiClient";
+import {
+  DEFAULT_LANGUAGE,
+  detectLanguage,
+  isLanguage,
+  translate,
+  type Language,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "language";
+
+interface LanguageContextValue {
+  language: Language;
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const LanguageContext = createContext<LanguageContextValue | null>(null);
+
+export function LanguageProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+
+  const applyLanguage = (next: Language) => {
+    setLanguageState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  };
+
+  // ✅ Last choice on this browser, else the browser language; the signed-in user's preference wins
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    setLanguageState(isLanguage(stored) ? stored : detectLanguage(navigator.languages.join(",")));
+
+    const { data } = supabase.auth.onAuthStateChange(async (_event, session) => {
+      if (!session) return;
+      const response = await authorizedFetch("/api/preferences");
+      if (!response.ok) return;
+      const preferences = await response.json();
+      if (isLanguage(preferences.language)) applyLanguage(preferences.language);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    applyLanguage(next);
+
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) return;
+
+    const response = await authorizedFetch("/api/preferences", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ language: next }),
+    });
+    if (!response.ok) {
+      console.error("Error saving language preference:", response.status);
+    }
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language]
+  );
+
+  return <LanguageContext.Provider value={{ language, setLanguage, t }}>{children}</LanguageContext.Provider>;
+}
+
+export function useTranslation(): LanguageContextValue {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error("useTranslation must be used inside <LanguageProvider>.");
+  }
+  return context;
+}
@@ -0,0 +1,22 @@
+"use client";
+import { LANGUAGES, LANGUAGE_NAMES, isLanguage } from "@/lib/i18n";
+import { useTranslation } from "@/components/language-provider";
+
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useTranslation();
+
+  return (
+    <select
+      aria-label={t("ui.language")}
+      value={language}
+      onChange={(e) => isLanguage(e.target.value) && setLanguage(e.target.value)}
+      className="border rounded px-2 py-1 bg-white"
+    >
+      {LANGUAGES.map((option) => (
+        <option key={option} value={option}>
+          {LANGUAGE_NAMES[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
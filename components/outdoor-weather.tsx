@@ -0,0 +1,74 @@
+"use client";
+import { useEffect, useState } from "react";
+import { authorizedFetch } from "@/lib/apiClient";
+import type { WeatherCondition, WeatherReport } from "@/lib/weather";
+import { useTranslation } from "@/components/language-provider";
+
+const CONDITION_LABELS = {
+  clear: "weather.clear",
+  partly_cloudy: "weather.partlyCloudy",
+  cloudy: "weather.cloudy",
+  fog: "weather.fog",
+  drizzle: "weather.drizzle",
+  rain: "weather.rain",
+  showers: "weather.showers",
+  snow: "weather.snow",
+  thunderstorm: "weather.thunderstorm",
+  unknown: "weather.unknown",
+} as const satisfies Record<WeatherCondition, string>;
+
+// Hours summarised under the current conditions
+const FORECAST_HOURS = 12;
+
+interface OutdoorWeatherProps {
+  homeId: string | null;
+}
+
+// ✅ Current outdoor conditions and the range of the next hours, from the home's cached weather
+export function OutdoorWeather({ homeId }: OutdoorWeatherProps) {
+  const [report, setReport] = useState<WeatherReport | null>(null);
+  const [missingLocation, setMissingLocation] = useState(false);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    if (!homeId) return;
+    const loadWeather = async () => {
+      const response = await authorizedFetch(`/api/homes/${homeId}/weather`);
+      if (!response.ok) {
+        console.error("Error fetching weather:", response.status);
+        return;
+      }
+      const data = await response.json();
+      setReport(data.report);
+      setMissingLocation(data.location === null);
+    };
+    loadWeather();
+  }, [homeId]);
+
+  if (missingLocation) {
+    return <span className="text-xs text-gray-500 max-w-48">{t("ui.weatherNoLocation")}</span>;
+  }
+  if (!report) return null;
+
+  const temperatures = report.hourly.slice(0, FORECAST_HOURS).map((point) => point.temperature);
+
+  return (
+    <div className="flex flex-col text-sm">
+      <span>
+        🌦️{" "}
+        {t("ui.outside", {
+          temperature: `${report.current.temperature}°C`,
+          condition: t(CONDITION_LABELS[report.current.condition]),
+        })}
+      </span>
+      {temperatures.length > 0 && (
+        <span className="text-xs text-gray-500">
+          {t("ui.outsideRange", {
+            min: `${Math.min(...temperatures)}°C`,
+            max: `${Math.max(...temperatures)}°C`,
+          })}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Sparkline } from "@/components/sparkline";
+import type { RoomOverview } from "@/lib/dashboard";
+import { useTranslation } from "@/components/language-provider";
+
+interface RoomCardProps {
+  overview: RoomOverview;
+  busy: boolean;
+  onAdjust: (room: string, delta: number) => void;
+}
+
+export function RoomCard({ overview, busy, onAdjust }: RoomCardProps) {
+  const { room, target, current, humidity, measuredAt, stale, upcoming, history } = overview;
+  const { t } = useTranslation();
+
+  return (
+    <Card className="bg-white">
+      <CardHeader className="pb-2">
+        <CardTitle>{room}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-end justify-between">
+          <div>
+            <p className="text-3xl font-bold">{current !== null ? `${current}°C` : t("ui.noReading")}</p>
+            <p className="text-sm text-gray-500">{t("ui.setpoint", { temperature: `${target}°C` })}</p>
+            {humidity !== null && <p className="text-sm text-gray-500">{t("ui.humidity", { humidity: Math.round(humidity) })}</p>}
+            {stale && measuredAt && (
+              <p className="text-xs text-orange-600">⚠️ {t("ui.staleReading", { time: new Date(measuredAt).toLocaleString() })}</p>
+            )}
+          </div>
+          <div className="flex gap-1">
+            <Button variant="outline" size="icon" onClick={() => onAdjust(room, -0.5)} disabled={busy}>
+              −
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => onAdjust(room, 0.5)} disabled={busy}>
+              +
+            </Button>
+          </div>
+        </div>
+
+        <Sparkline values={history.map((point) => point.temperature)} className="text-blue-500" />
+
+        {upcoming.length > 0 && (
+          <ul className="text-xs text-gray-600 space-y-0.5">
+            {upcoming.slice(0, 3).map((change) => (
+              <li key={change.id}>
+                ⏳ {new Date(change.execute_at).toLocaleString()} → {change.temperature}°C
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
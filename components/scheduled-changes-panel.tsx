@@ -0,0 +1,81 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { authorizedFetch } from "@/lib/apiClient";
+import { Button } from "@/components/ui/button";
+import type { HomeMode } from "@/lib/homeModes";
+import { useTranslation } from "@/components/language-provider";
+import { MODE_LABELS } from "@/components/home-mode-select";
+
+interface ScheduledChange {
+  id: string;
+  // Mode changes have no room or temperature
+  room: string | null;
+  temperature: number | null;
+  execute_at: string;
+  program_id: string | null;
+  mode: HomeMode | null;
+}
+
+interface ScheduledChangesPanelProps {
+  // Incremented by the parent to force a reload (e.g. after a chat reply)
+  refreshKey?: number;
+}
+
+export function ScheduledChangesPanel({ refreshKey = 0 }: ScheduledChangesPanelProps) {
+  const [changes, setChanges] = useState<ScheduledChange[]>([]);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const loadChanges = useCallback(async () => {
+    const response = await authorizedFetch("/api/schedules");
+    if (!response.ok) {
+      console.error("Error fetching scheduled changes:", response.status);
+      return;
+    }
+    const data = await response.json();
+    setChanges(data.changes);
+  }, []);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges, refreshKey]);
+
+  const cancelChange = async (id: string) => {
+    setCancelling(id);
+    const response = await authorizedFetch(`/api/schedules/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      console.error("Error cancelling scheduled change:", response.status);
+    }
+    setCancelling(null);
+    loadChanges();
+  };
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="border rounded p-2 mb-4 bg-gray-50">
+      <h2 className="font-semibold mb-2">{t("ui.scheduledChanges")}</h2>
+      <ul className="space-y-1">
+        {changes.map((change) => (
+          <li key={change.id} className="flex items-center justify-between text-sm">
+            <span>
+              {new Date(change.execute_at).toLocaleString()} —{" "}
+              {change.mode
+                ? t("ui.modeSwitch", { mode: t(MODE_LABELS[change.mode]) })
+                : `${change.room} → ${change.temperature}°C`}
+              {change.program_id && <span className="text-gray-500"> {t("ui.fromProgram")}</span>}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelChange(change.id)}
+              disabled={cancelling === change.id}
+            >
+              {t("ui.cancel")}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
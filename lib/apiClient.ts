@@ -0,0 +1,17 @@
+import { supabase } from '@/lib/supabaseClient'
+
+// ✅ fetch côté navigateur avec le token de session Supabase en en-tête Authorization
+export async function authorizedFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const { data } = await supabase.auth.getSession()
+  const accessToken = data.session?.access_token
+
+  const headers = new Headers(init.headers)
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`)
+  }
+
+  return fetch(input, { ...init, headers })
+}
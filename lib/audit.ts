@@ -0,0 +1,187 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+import type { MessageKey } from '@/lib/i18n'
+
+// Qui a fait la modification : un membre (chat, tableau de bord), le cron, un appareil, une règle, ou l'application
+export type AuditActor = 'user' | 'scheduler' | 'device' | 'rule' | 'system'
+
+export type AuditAction =
+  | 'temperature.set'
+  | 'room.create'
+  | 'room.rename'
+  | 'room.delete'
+  | 'alias.add'
+  | 'alias.remove'
+  | 'group.set'
+  | 'group.delete'
+  | 'schedule.create'
+  | 'schedule.update'
+  | 'schedule.cancel'
+  | 'program.create'
+  | 'program.update'
+  | 'program.delete'
+  | 'member.invite'
+  | 'member.join'
+  | 'member.remove'
+  | 'home.location'
+  | 'mode.set'
+  | 'mode.profile'
+  | 'rule.create'
+  | 'rule.update'
+  | 'rule.delete'
+
+export const AUDIT_ACTORS: AuditActor[] = ['user', 'scheduler', 'device', 'rule', 'system']
+
+// Valeurs avant/après d'une modification (colonnes concernées uniquement)
+export type AuditValues = Record<string, unknown>
+
+// ✅ Origine d'une modification, transportée avec le HomeScope jusqu'aux fonctions qui écrivent
+export interface AuditOrigin {
+  actor: AuditActor
+  detail?: string | null // id du job planifié, de l'appareil, de la règle…
+  conversationId?: string | null
+  message?: string | null // message de l'utilisateur qui a déclenché l'action
+}
+
+export interface AuditChange {
+  action: AuditAction
+  room?: string | null
+  previous?: AuditValues | null
+  next?: AuditValues | null
+}
+
+export type AuditEntry = Tables<'audit_log'>
+
+export interface AuditFilters {
+  room?: string
+  action?: string // action exacte ou préfixe ("temperature", "room.rename")
+  actor?: AuditActor
+  userId?: string
+  from?: string
+  to?: string
+  limit?: number
+}
+
+const DEFAULT_AUDIT_LIMIT = 50
+const MAX_AUDIT_LIMIT = 500
+
+// Sans origine explicite : un utilisateur connu est un membre, sinon c'est l'application
+function originOf(scope: HomeScope): AuditOrigin {
+  return scope.origin ?? { actor: scope.userId ? 'user' : 'system' }
+}
+
+// ✅ Ajoute une ligne au journal (sans bloquer l'action en cas d'échec)
+export async function recordAudit(scope: HomeScope, change: AuditChange) {
+  const origin = originOf(scope)
+
+  const { error } = await supabaseServer.from('audit_log').insert([
+    {
+      home_id: scope.homeId,
+      actor: origin.actor,
+      user_id: scope.userId,
+      actor_detail: origin.detail ?? null,
+      action: change.action,
+      room: change.room ?? null,
+      previous: change.previous ?? null,
+      next: change.next ?? null,
+      conversation_id: origin.conversationId ?? null,
+      message: origin.message ?? null,
+    },
+  ])
+
+  if (error) {
+    console.error(`❌ Failed to record audit entry ${change.action}:`, error)
+  }
+}
+
+// ✅ Entrées du journal d'un foyer, les plus récentes d'abord
+export async function listAuditEntries(
+  scope: HomeScope,
+  filters: AuditFilters = {}
+): Promise<AuditEntry[]> {
+  const limit = Math.min(
+    filters.limit && filters.limit > 0 ? filters.limit : DEFAULT_AUDIT_LIMIT,
+    MAX_AUDIT_LIMIT
+  )
+
+  let query = supabaseServer
+    .from('audit_log')
+    .select('*')
+    .eq('home_id', scope.homeId)
+
+  if (filters.room) query = query.eq('room', filters.room)
+  if (filters.actor) query = query.eq('actor', filters.actor)
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.from) query = query.gte('created_at', filters.from)
+  if (filters.to) query = query.lte('created_at', filters.to)
+  if (filters.action) {
+    query = filters.action.includes('.')
+      ? query.eq('action', filters.action as AuditAction)
+      : query.like('action', `${filters.action}.%`)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Error fetching audit log: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+const ACTOR_KEYS: Record<Exclude<AuditActor, 'user'>, MessageKey> = {
+  scheduler: 'audit.actorScheduler',
+  device: 'audit.actorDevice',
+  rule: 'audit.actorRule',
+  system: 'audit.actorSystem',
+}
+
+// Valeurs d'une entrée pour le modèle : températures formatées, le reste tel quel
+function describeValues(values: AuditValues | null, format: Formatter) {
+  if (!values) return '–'
+  return Object.entries(values)
+    .map(([key, value]) =>
+      key === 'temperature' && typeof value === 'number'
+        ? format.temperature(value)
+        : `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+    )
+    .join(', ')
+}
+
+// ✅ Réponse à "qui a changé la température de la chambre ?"
+export async function describeRecentChanges(
+  scope: HomeScope,
+  room: string | null,
+  limit = 10,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let entries: AuditEntry[]
+  try {
+    entries = await listAuditEntries(scope, { room: room ?? undefined, limit })
+  } catch (error) {
+    console.error('❌', error)
+    return format.t('audit.fetchFailed')
+  }
+
+  if (entries.length === 0) {
+    return format.t('audit.none')
+  }
+
+  const lines = entries.map((entry) => {
+    const actor =
+      entry.actor === 'user'
+        ? entry.user_id === scope.userId
+          ? format.t('audit.actorYou')
+          : format.t('audit.actorMember', { id: entry.user_id?.slice(0, 8) ?? '?' })
+        : format.t(ACTOR_KEYS[entry.actor], { detail: entry.actor_detail ?? '' })
+    const where = entry.room ? ` ${entry.room}` : ''
+    const reason = entry.message ? ` ("${entry.message}")` : ''
+    return `- ${format.dateTime(entry.created_at)}: ${actor} — ${entry.action}${where}: ${describeValues(entry.previous, format)} → ${describeValues(entry.next, format)}${reason}`
+  })
+
+  return `${format.t('audit.list')}\n${lines.join('\n')}`
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { supabaseServer } from '@/lib/supabaseServer'
+
+export interface AuthUser {
+  id: string
+  email?: string
+}
+
+// Vérifie un access token et renvoie l'utilisateur associé (remplaçable dans les tests)
+export type TokenVerifier = (token: string) => Promise<AuthUser | null>
+
+export type AuthResult =
+  | { user: AuthUser; response?: undefined }
+  | { user: null; response: NextResponse }
+
+// ✅ Vérification par défaut : Supabase valide le JWT et renvoie l'utilisateur
+export const verifySupabaseToken: TokenVerifier = async (token) => {
+  const { data, error } = await supabaseServer.auth.getUser(token)
+
+  if (error || !data.user) {
+    return null
+  }
+
+  return { id: data.user.id, email: data.user.email }
+}
+
+export function unauthorized(message = '❌ User not authenticated.') {
+  return NextResponse.json({ message }, { status: 401 })
+}
+
+export function forbidden(message = '❌ Access denied.') {
+  return NextResponse.json({ message }, { status: 403 })
+}
+
+// 🔍 Access token depuis l'en-tête Authorization, sinon depuis le cookie de session
+async function getAccessToken(req: Request): Promise<string | null> {
+  const header = req.headers.get('authorization')
+  if (header?.startsWith('Bearer ')) {
+    return header.slice(7).trim() || null
+  }
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+    const { data } = await supabase.auth.getSession()
+    return data.session?.access_token ?? null
+  } catch {
+    return null
+  }
+}
+
+// ✅ Identifie l'utilisateur de la requête ; renvoie une réponse 401 sinon
+export async function authenticateRequest(
+  req: Request,
+  verifyToken: TokenVerifier = verifySupabaseToken
+): Promise<AuthResult> {
+  const token = await getAccessToken(req)
+
+  if (!token) {
+    return { user: null, response: unauthorized() }
+  }
+
+  const user = await verifyToken(token)
+
+  if (!user) {
+    return { user: null, response: unauthorized('❌ Invalid or expired session.') }
+  }
+
+  return { user }
+}
+
+// ✅ Les appels du cron Vercel portent "Authorization: Bearer <CRON_SECRET>"
+export function authenticateCronRequest(req: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    console.error('❌ CRON_SECRET is not configured')
+    return forbidden('❌ Cron endpoint is disabled.')
+  }
+
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return unauthorized()
+  }
+
+  return null
+}
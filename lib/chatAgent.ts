@@ -0,0 +1,1006 @@
+import { NextResponse } from 'next/server'
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import { supabaseServer } from '@/lib/supabaseServer'
+import { authenticateRequest, forbidden } from '@/lib/auth'
+import {
+  getOrCreateConversation,
+  loadConversationContext,
+  type Conversation,
+} from '@/lib/chatMemory'
+import { createLLMProvider, type LLMProvider } from '@/lib/llm'
+import {
+  getTemperature,
+  getTemperatureAt,
+  getTemperatureStats,
+  renderTemperatureResult,
+  setTemperature,
+  type TemperatureResult,
+} from '@/lib/temperature'
+import {
+  addRoomAlias,
+  createRoom,
+  deleteRoom,
+  getHomeRooms,
+  listRooms,
+  resolveRoom,
+  unknownRoomMessage,
+  removeRoomAlias,
+  renameRoom,
+} from '@/lib/rooms'
+import {
+  cancelScheduledChange,
+  listScheduledChanges,
+  rescheduleChange,
+} from '@/lib/scheduledChanges'
+import {
+  createHeatingProgram,
+  deleteHeatingProgram,
+  listHeatingPrograms,
+  updateHeatingProgram,
+  type ProgramEntryInput,
+  type ProgramException,
+} from '@/lib/programs'
+import {
+  getUserPreferences,
+  updatePreferences,
+  type UserPreferences,
+} from '@/lib/preferences'
+import {
+  createFormatter,
+  defaultFormatter,
+  toCelsius,
+  toCelsiusDifference,
+  type Formatter,
+} from '@/lib/format'
+import { LANGUAGE_NAMES, detectLanguage, translate, type Language } from '@/lib/i18n'
+import { chatTools, toolParameterSchemas } from '@/lib/chatTools'
+import { validateArguments } from '@/lib/toolValidation'
+import { evaluateTemperatureChange } from '@/lib/safety'
+import {
+  createPendingAction,
+  type PendingAction,
+  type StoredPendingAction,
+} from '@/lib/pendingActions'
+import { resolveActiveHome, type HomeAccess } from '@/lib/homes'
+import { describeRecentChanges } from '@/lib/audit'
+import {
+  createRule,
+  deleteRule,
+  dryRunRule,
+  listRules,
+  mapRuleTemperatures,
+  setRuleEnabled,
+  type RuleAssumptions,
+  type RuleInput,
+} from '@/lib/rules'
+import {
+  applyGroupChange,
+  deleteRoomGroup,
+  describeRoomGroups,
+  planGroupChange,
+  renderGroupChangeResult,
+  resolveRoomTarget,
+  setRoomGroup,
+  targetLabel,
+  type GroupChange,
+  type GroupChangeResult,
+  type RoomTarget,
+} from '@/lib/roomGroups'
+import {
+  describeHomeMode,
+  isHomeMode,
+  modeLabel,
+  setModeProfile,
+  switchHomeMode,
+} from '@/lib/homeModes'
+import { adviseHeating, describeWeather, updateHomeLocation } from '@/lib/outdoorWeather'
+
+// Nombre maximum d'allers-retours modèle → outils pour une requête
+const DEFAULT_MAX_STEPS = 5
+const MAX_STEPS =
+  Number(process.env.CHAT_MAX_STEPS) > 0
+    ? Number(process.env.CHAT_MAX_STEPS)
+    : DEFAULT_MAX_STEPS
+
+export interface ChatAction {
+  tool: string
+  args: Record<string, unknown>
+  result: string
+  // Résultat typé, pour les outils qui en produisent un (lecture/réglage de température, changement groupé)
+  data?: TemperatureResult | GroupChangeResult
+}
+
+// Sortie d'un outil : texte déjà rendu ou résultat typé à rendre
+type ToolOutput = string | TemperatureResult | GroupChangeResult
+
+// Événements émis pendant l'exécution de l'agent (utilisés pour le streaming SSE)
+export type ChatEvent =
+  | { type: 'token'; content: string }
+  | {
+      type: 'tool_start'
+      id: string
+      tool: string
+      args: Record<string, unknown>
+      label: string
+    }
+  | {
+      type: 'tool_end'
+      id: string
+      tool: string
+      result: string
+      data?: ChatAction['data']
+    }
+
+interface RunAgentOptions {
+  onEvent?: (event: ChatEvent) => void
+  signal?: AbortSignal
+  conversationId?: string
+  preferences?: UserPreferences
+}
+
+// Outils sans effet sur le foyer, permis aux membres en lecture seule
+const READ_ONLY_TOOLS = new Set([
+  'get_temperature',
+  'get_temperature_at',
+  'get_temperature_stats',
+  'list_rooms',
+  'list_room_groups',
+  'list_heating_programs',
+  'list_scheduled_changes',
+  'get_change_history',
+  'get_home_mode',
+  'get_weather',
+  'get_heating_advice',
+  'list_rules',
+  'test_rule',
+  'update_preferences',
+])
+
+// Contexte d'exécution d'un outil
+interface ToolContext {
+  conversationId: string | null
+  preferences: UserPreferences
+  format: Formatter
+  pendingActions: PendingAction[]
+  // L'utilisateur a déjà accepté l'action : pas de nouvelle demande de confirmation
+  confirmed?: boolean
+}
+
+export interface AgentResult {
+  message: string
+  actions: ChatAction[]
+  pendingActions: PendingAction[]
+}
+
+export async function saveChatHistory(
+  userId: string,
+  conversationId: string,
+  message: string,
+  response: string
+) {
+  await supabaseServer
+    .from('chat_history')
+    .insert([
+      { user_id: userId, conversation_id: conversationId, message, response },
+    ])
+}
+
+// ✅ Construit le prompt système et le contexte de la conversation
+export async function buildChatMessages(
+  llm: LLMProvider,
+  home: HomeAccess,
+  conversation: Conversation,
+  userMessage: string,
+  preferences: UserPreferences
+): Promise<ChatCompletionMessageParam[]> {
+  const userRooms = await getHomeRooms(home)
+  const format = createFormatter(preferences)
+  const unit =
+    preferences.temperatureUnit === 'fahrenheit'
+      ? 'Fahrenheit (°F)'
+      : 'Celsius (°C)'
+
+  const systemPrompt = `
+      You are a smart home assistant that manages room temperatures for a household.
+      - Current home: "${home.name}" (the user is ${home.role}${
+        home.canWrite ? '' : ', read-only: they can read temperatures but not change anything'
+      }). Other members of the home share the same rooms and may change them too.
+      - Available rooms in this home: ${
+        userRooms.length > 0 ? userRooms.join(', ') : 'None'
+      }.
+      - Current date and time: ${new Date().toISOString()} (${format.dateTime(new Date())} in the user's time zone, ${preferences.timeZone}).
+      - The user works in ${unit}: read their temperatures, pass tool arguments and answer in ${unit}. Tool results are already converted.
+      - Always answer in ${LANGUAGE_NAMES[preferences.language]}, the user's language, unless they write to you in another language; tool results are data for you to rephrase, not text to copy.
+      - Show times as the tools give them (user's locale ${preferences.locale} and time zone). If the user asks to change language, unit, locale or time zone, call "update_preferences".
+      - If the user asks for a temperature, call "get_temperature": it gives the measured value and the target setpoint, which differ while the room heats up or cools down. Mention when the last reading is old.
+      - If they request a change, call "set_temperature". It also takes a room group or "all", and a "delta" for relative changes ("turn everything down by 2 degrees" → room "all", delta -2): make one call for the whole group, not one per room.
+      - Rooms can be grouped ("upstairs", "bedrooms"): use "set_room_group" to create or change a group, "list_room_groups" to see them and "delete_room_group" to remove one.
+      - For past values or trends ("last night", "average this week"), call "get_temperature_at" or "get_temperature_stats" with dates computed from the current time.
+      - Room names are matched loosely (case, spaces, aliases, small typos). If a tool says a room does not exist, ask the user whether they meant a similar room or want it created; only then call "create_room" with confirmed=true.
+      - If the user explicitly asks to create a room, call "create_room" with confirmed=true.
+      - Ask for confirmation before calling "delete_room".
+      - Some temperature changes need the user's confirmation: when a tool says so, tell the user to accept or reject it in the app and do not retry.
+      - If they request a change in the future (e.g., "in 5 minutes"), pass the "delayMinutes" parameter to "set_temperature".
+      - To see, cancel or move pending changes, call "list_scheduled_changes" first to get their ids, then "cancel_scheduled_change" or "reschedule_change".
+      - For recurring changes ("every weekday at 7:00"), use the heating program tools; call "list_heating_programs" to find a program id before editing or deleting it.
+      - You may call several tools, in parallel or one after another, to complete multi-part requests.
+      - Once every action is done, answer with a short summary of what was done.
+      - To find out who changed something and when ("who turned the heating down?"), call "get_change_history".
+      - For conditional automations ("if the bedroom drops below 18°C, heat it to 20°C"), call "create_rule"; use "list_rules" to find a rule id before enabling, disabling or deleting it, and "test_rule" to check whether a rule would fire (e.g. with assumed temperatures) without changing anything.
+      - The home has a mode (home, away, sleep, vacation) that applies per-room setpoints. When the user leaves, goes to bed or comes back ("I'm leaving for the weekend"), call "set_home_mode", with "until" computed from the current time when they say when they will be back. Use "get_home_mode" to see the current mode and setpoints, and "set_mode_profile" to change the setpoint of a room in a mode.
+      - For the weather outside ("what's it like outside?"), call "get_weather". To decide whether a room needs heating ("should I heat the living room tonight?"), call "get_heating_advice", which compares the forecast with the room; pass "from"/"to" computed from the current time for another period than tonight. If the home has no location yet, ask the user for their town and call "set_home_location".
+      - Use the earlier conversation to resolve follow-ups like "make it warmer" or "and the bedroom?".
+    `
+
+  const history = await loadConversationContext(llm, home.userId, conversation)
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: userMessage },
+  ]
+}
+
+// Échange de chat prêt à être exécuté par /api/chat et /api/chat/stream
+export interface ChatRequest {
+  userId: string
+  language: Language // langue du navigateur, utilisée tant que l'utilisateur n'en a pas choisi une
+  home: HomeAccess
+  conversation: Conversation
+  userMessage: string
+  preferences: UserPreferences
+  llm: LLMProvider
+  messages: ChatCompletionMessageParam[]
+}
+
+export type ChatRequestResult =
+  | { chat: ChatRequest; response?: undefined }
+  | { chat: null; response: NextResponse }
+
+async function loadChatRequest(req: Request, language: Language): Promise<ChatRequestResult> {
+  const auth = await authenticateRequest(req)
+  if (!auth.user) return { chat: null, response: auth.response }
+
+  const userId = auth.user.id
+  const body = await req.json().catch(() => null)
+  const { userMessage, conversationId, homeId } = body ?? {}
+
+  // ✍️ Message obligatoire, avant toute création de conversation
+  if (typeof userMessage !== 'string' || !userMessage.trim()) {
+    return {
+      chat: null,
+      response: NextResponse.json(
+        { message: translate(language, 'chat.emptyMessage') },
+        { status: 400 }
+      ),
+    }
+  }
+
+  // 🔒 Un userId explicite doit correspondre à la session
+  if (body.userId !== undefined && body.userId !== userId) {
+    return { chat: null, response: forbidden() }
+  }
+
+  // 🏠 Foyer demandé par l'interface, sinon le foyer actif de l'utilisateur
+  const home = await resolveActiveHome(
+    userId,
+    typeof homeId === 'string' ? homeId : undefined
+  )
+  if (!home) {
+    return { chat: null, response: forbidden(translate(language, 'home.forbidden')) }
+  }
+
+  const conversation = await getOrCreateConversation(
+    userId,
+    typeof conversationId === 'string' ? conversationId : undefined,
+    userMessage
+  )
+  if (!conversation) {
+    return {
+      chat: null,
+      response: NextResponse.json(
+        { message: translate(language, 'chat.conversationNotFound') },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const llm = createLLMProvider()
+
+  // 🌡️ Unité, langue et fuseau de l'utilisateur
+  const preferences = await getUserPreferences(userId, language)
+  const messages = await buildChatMessages(llm, home, conversation, userMessage, preferences)
+
+  return {
+    chat: { userId, language, home, conversation, userMessage, preferences, llm, messages },
+  }
+}
+
+// ✅ Session, message, foyer, conversation et prompt d'une requête de chat
+// Renvoie la réponse d'erreur à envoyer (401/403/400/404, 500 si la base ou le corps échoue)
+export async function prepareChatRequest(req: Request): Promise<ChatRequestResult> {
+  const language = detectLanguage(req.headers.get('accept-language'))
+
+  try {
+    return await loadChatRequest(req, language)
+  } catch (error) {
+    console.error('❌ Error preparing chat request:', error)
+    return {
+      chat: null,
+      response: NextResponse.json(
+        { message: translate(language, 'chat.serverError') },
+        { status: 500 }
+      ),
+    }
+  }
+}
+
+// ✅ Libellé lisible d'un appel d'outil en cours, affiché par l'interface
+export function describeToolCall(
+  name: string,
+  args: Record<string, unknown>,
+  format: Formatter = defaultFormatter
+): string {
+  const room = String(args.room ?? '')
+
+  if (name === 'get_temperature') {
+    return format.t('tool.reading', { room })
+  }
+  if (name === 'set_temperature' && typeof args.delta === 'number') {
+    const delta = format.difference(args.delta)
+    return format.t('tool.adjusting', { room, delta: args.delta > 0 ? `+${delta}` : delta })
+  }
+  if (name === 'set_temperature') {
+    const temperature = format.temperature(Number(args.temperature))
+    return format.t(args.delayMinutes ? 'tool.scheduling' : 'tool.setting', {
+      room,
+      temperature,
+    })
+  }
+  if (name === 'get_temperature_at' || name === 'get_temperature_stats') {
+    return format.t('tool.history', { room })
+  }
+  if (name === 'create_room') {
+    return format.t('tool.creatingRoom', { room })
+  }
+  if (name === 'list_rooms') {
+    return format.t('tool.listingRooms')
+  }
+  if (name === 'rename_room') {
+    return format.t('tool.renamingRoom', { room, newName: String(args.newName) })
+  }
+  if (name === 'delete_room') {
+    return format.t('tool.deletingRoom', { room })
+  }
+  if (name === 'add_room_alias' || name === 'remove_room_alias') {
+    return format.t('tool.aliases')
+  }
+  if (name === 'set_room_group' || name === 'list_room_groups' || name === 'delete_room_group') {
+    return format.t('tool.groups')
+  }
+  if (name.endsWith('_heating_program') || name === 'list_heating_programs') {
+    return format.t('tool.programs')
+  }
+  if (name === 'list_scheduled_changes') {
+    return format.t('tool.checkingSchedules')
+  }
+  if (name === 'cancel_scheduled_change' || name === 'reschedule_change') {
+    return format.t('tool.updatingSchedule')
+  }
+  if (name === 'get_change_history') {
+    return format.t('tool.audit')
+  }
+  if (name === 'test_rule') {
+    return format.t('tool.testingRule')
+  }
+  if (name.endsWith('_rule') || name === 'list_rules' || name === 'set_rule_enabled') {
+    return format.t('tool.rules')
+  }
+  if (name === 'get_home_mode') {
+    return format.t('tool.readingMode')
+  }
+  if (name === 'set_home_mode' || name === 'set_mode_profile') {
+    const mode = isHomeMode(args.mode) ? modeLabel(args.mode, format) : String(args.mode)
+    return name === 'set_home_mode'
+      ? format.t('tool.switchingMode', { mode })
+      : format.t('tool.modeProfile', { mode, room })
+  }
+  if (name === 'get_weather') {
+    return format.t('tool.weather')
+  }
+  if (name === 'get_heating_advice') {
+    return format.t('tool.heatingAdvice', { room })
+  }
+  if (name === 'set_home_location') {
+    return format.t('tool.location')
+  }
+  if (name === 'update_preferences') {
+    return format.t('tool.savingPreferences')
+  }
+  return format.t('tool.running', { tool: name })
+}
+
+// ✅ Exécute un appel d'outil demandé par le modèle
+// 🛡️ Consigne demandée par le chat : refus hors bornes, confirmation si inhabituelle
+async function guardTemperatureChange(
+  home: HomeAccess,
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<string | null> {
+  const resolution = await resolveRoom(home, String(args.room))
+  if (resolution.room === null) {
+    return null // setTemperature explique que la pièce est inconnue
+  }
+
+  const { data } = await supabaseServer
+    .from('room_temperatures')
+    .select('temperature')
+    .eq('home_id', home.homeId)
+    .eq('room', resolution.room)
+    .maybeSingle()
+
+  const check = await evaluateTemperatureChange(
+    home,
+    resolution.room,
+    Number(args.temperature),
+    data?.temperature ?? null,
+    context.format
+  )
+
+  if (check.verdict === 'reject') {
+    return check.message
+  }
+
+  if (check.verdict === 'confirm' && !context.confirmed) {
+    return await requestConfirmation(
+      home,
+      name,
+      { ...args, room: resolution.room },
+      resolution.room,
+      check.reason,
+      context
+    )
+  }
+
+  return null
+}
+
+// Action mise en attente de l'acceptation de l'utilisateur ; renvoie la consigne pour le modèle
+async function requestConfirmation(
+  home: HomeAccess,
+  name: string,
+  args: Record<string, unknown>,
+  room: string,
+  reason: string,
+  context: ToolContext
+): Promise<string> {
+  const action = await createPendingAction(
+    home,
+    context.conversationId,
+    name,
+    args,
+    reason
+  )
+  if (!action) {
+    return context.format.t('confirmation.prepareFailed', { room })
+  }
+  context.pendingActions.push(action)
+  return `${context.format.t('confirmation.required', { reason })} The change was NOT applied; the user can accept or reject it in the app. Do not call the tool again for this change.`
+}
+
+// 🛡️ Changement groupé ou relatif : refusé si une pièce sort de ses bornes, une seule confirmation pour toute la cible
+// Un écart accepté plus tard s'applique aux consignes du moment de l'acceptation
+async function guardGroupChange(
+  home: HomeAccess,
+  name: string,
+  args: Record<string, unknown>,
+  target: Extract<RoomTarget, { rooms: string[] }>,
+  change: GroupChange,
+  context: ToolContext
+): Promise<string | null> {
+  const label = targetLabel(target, context.format)
+  const reasons: string[] = []
+
+  for (const { room, current, temperature } of await planGroupChange(
+    home,
+    target.rooms,
+    change
+  )) {
+    const check = await evaluateTemperatureChange(
+      home,
+      room,
+      temperature,
+      current,
+      context.format
+    )
+    if (check.verdict === 'reject') {
+      return context.format.t('group.rejected', {
+        target: label,
+        reason: check.message.replace(/^❌ /, ''),
+      })
+    }
+    if (check.verdict === 'confirm') reasons.push(check.reason)
+  }
+
+  if (reasons.length === 0 || context.confirmed) {
+    return null
+  }
+
+  return await requestConfirmation(
+    home,
+    name,
+    { ...args, room: target.name },
+    label,
+    context.format.t('group.confirm', { target: label, reasons: reasons.join(' ') }),
+    context
+  )
+}
+
+// ✅ Consigne demandée pour un groupe, pour toutes les pièces, ou en relatif (mise à jour transactionnelle)
+async function setTargetTemperature(
+  home: HomeAccess,
+  name: string,
+  args: Record<string, unknown>,
+  target: RoomTarget,
+  change: GroupChange,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const { format } = context
+
+  if (target.kind === null) {
+    return unknownRoomMessage(target.name, target.suggestions, format)
+  }
+  if (Number(args.delayMinutes) > 0) {
+    return format.t('group.noDelay')
+  }
+
+  const refusal = await guardGroupChange(home, name, args, target, change, context)
+  if (refusal) return refusal
+
+  return await applyGroupChange(home, target, change)
+}
+
+// Lecture de chaque pièce d'un groupe (ou de toutes les pièces)
+async function getTargetTemperatures(
+  home: HomeAccess,
+  target: Extract<RoomTarget, { rooms: string[] }>,
+  format: Formatter
+): Promise<string> {
+  if (target.rooms.length === 0) {
+    return format.t('group.noRooms', { target: targetLabel(target, format) })
+  }
+
+  const lines: string[] = []
+  for (const room of target.rooms) {
+    lines.push(renderTemperatureResult(await getTemperature(home, room), format))
+  }
+  return lines.join('\n')
+}
+
+async function executeTool(
+  home: HomeAccess,
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const room = String(args.room ?? '')
+  const { format } = context
+
+  // 🔒 Membres en lecture seule (invités) : consultation uniquement
+  if (!home.canWrite && !READ_ONLY_TOOLS.has(name)) {
+    return format.t('home.readOnly', { home: home.name })
+  }
+
+  if (name === 'get_temperature') {
+    const target = await resolveRoomTarget(home, room)
+    return target.kind === 'group' || target.kind === 'all'
+      ? await getTargetTemperatures(home, target, format)
+      : await getTemperature(home, room)
+  }
+  if (name === 'set_temperature') {
+    const change: GroupChange | null =
+      typeof args.delta === 'number'
+        ? { delta: args.delta }
+        : typeof args.temperature === 'number'
+          ? { temperature: args.temperature }
+          : null
+    if (!change) return format.t('group.needsValue')
+
+    // Groupe, toutes les pièces ou écart relatif : une seule mise à jour pour toute la cible
+    const target = await resolveRoomTarget(home, room)
+    if (target.kind === 'group' || target.kind === 'all' || 'delta' in change) {
+      return await setTargetTemperature(home, name, args, target, change, context)
+    }
+
+    const refusal = await guardTemperatureChange(home, name, args, context)
+    if (refusal) return refusal
+
+    return await setTemperature(
+      home,
+      room,
+      Number(args.temperature),
+      Number(args.delayMinutes) || 0
+    )
+  }
+  if (name === 'get_temperature_at') {
+    return await getTemperatureAt(
+      home,
+      room,
+      String(args.at ?? ''),
+      format
+    )
+  }
+  if (name === 'get_temperature_stats') {
+    return await getTemperatureStats(
+      home,
+      room,
+      String(args.from ?? ''),
+      args.to !== undefined ? String(args.to) : undefined,
+      format
+    )
+  }
+  if (name === 'create_room') {
+    return await createRoom(home, room, args.confirmed === true, format)
+  }
+  if (name === 'list_rooms') {
+    return await listRooms(home, format)
+  }
+  if (name === 'rename_room') {
+    return await renameRoom(home, room, String(args.newName ?? ''), format)
+  }
+  if (name === 'delete_room') {
+    return await deleteRoom(home, room, format)
+  }
+  if (name === 'add_room_alias') {
+    return await addRoomAlias(home, room, String(args.alias ?? ''), format)
+  }
+  if (name === 'remove_room_alias') {
+    return await removeRoomAlias(home, String(args.alias ?? ''), format)
+  }
+  if (name === 'set_room_group') {
+    return await setRoomGroup(
+      home,
+      String(args.group ?? ''),
+      Array.isArray(args.rooms) ? args.rooms.map(String) : [],
+      format
+    )
+  }
+  if (name === 'list_room_groups') {
+    return await describeRoomGroups(home, format)
+  }
+  if (name === 'delete_room_group') {
+    return await deleteRoomGroup(home, String(args.group ?? ''), format)
+  }
+  if (name === 'create_heating_program') {
+    return await createHeatingProgram(
+      home,
+      String(args.name ?? room),
+      room,
+      (args.entries ?? []) as ProgramEntryInput[],
+      (args.exceptions ?? []) as ProgramException[],
+      format
+    )
+  }
+  if (name === 'list_heating_programs') {
+    return await listHeatingPrograms(home, format)
+  }
+  if (name === 'update_heating_program') {
+    const { programId, ...changes } = args
+    return await updateHeatingProgram(
+      home,
+      String(programId),
+      changes,
+      format
+    )
+  }
+  if (name === 'delete_heating_program') {
+    return await deleteHeatingProgram(home, String(args.programId), format)
+  }
+  if (name === 'list_scheduled_changes') {
+    return await listScheduledChanges(home, format)
+  }
+  if (name === 'cancel_scheduled_change') {
+    return await cancelScheduledChange(
+      home,
+      String(args.changeId),
+      format
+    )
+  }
+  if (name === 'reschedule_change') {
+    return await rescheduleChange(
+      home,
+      String(args.changeId),
+      {
+        delayMinutes:
+          args.delayMinutes !== undefined ? Number(args.delayMinutes) : undefined,
+        executeAt:
+          args.executeAt !== undefined ? String(args.executeAt) : undefined,
+        temperature:
+          args.temperature !== undefined ? Number(args.temperature) : undefined,
+      },
+      format
+    )
+  }
+  if (name === 'get_change_history') {
+    let target: string | null = null
+    if (args.room !== undefined) {
+      const resolution = await resolveRoom(home, room)
+      if (resolution.room === null) {
+        return unknownRoomMessage(room, resolution.suggestions, format)
+      }
+      target = resolution.room
+    }
+    return await describeRecentChanges(
+      home,
+      target,
+      Number(args.limit) || undefined,
+      format
+    )
+  }
+  if (name === 'create_rule') {
+    return await createRule(home, args as RuleInput, format)
+  }
+  if (name === 'list_rules') {
+    return await listRules(home, format)
+  }
+  if (name === 'set_rule_enabled') {
+    return await setRuleEnabled(home, String(args.ruleId), args.enabled === true, format)
+  }
+  if (name === 'delete_rule') {
+    return await deleteRule(home, String(args.ruleId), format)
+  }
+  if (name === 'test_rule') {
+    const { ruleId, assume, ...rule } = args
+    return await dryRunRule(
+      home,
+      ruleId !== undefined ? { ruleId: String(ruleId) } : { rule: rule as RuleInput },
+      (assume ?? {}) as RuleAssumptions,
+      format
+    )
+  }
+  if (name === 'get_home_mode') {
+    return await describeHomeMode(home, format)
+  }
+  if (name === 'set_home_mode' && isHomeMode(args.mode)) {
+    return await switchHomeMode(
+      home,
+      args.mode,
+      {
+        until: args.until,
+        revertTo: isHomeMode(args.revertTo) ? args.revertTo : undefined,
+      },
+      format
+    )
+  }
+  if (name === 'set_mode_profile' && isHomeMode(args.mode)) {
+    return await setModeProfile(
+      home,
+      args.mode,
+      room,
+      Number(args.temperature),
+      format
+    )
+  }
+  if (name === 'get_weather') {
+    return await describeWeather(home, Number(args.hours) || undefined, format)
+  }
+  if (name === 'get_heating_advice') {
+    return await adviseHeating(
+      home,
+      room,
+      {
+        from: args.from !== undefined ? String(args.from) : undefined,
+        to: args.to !== undefined ? String(args.to) : undefined,
+      },
+      format
+    )
+  }
+  if (name === 'set_home_location') {
+    return await updateHomeLocation(
+      home,
+      {
+        place: args.location !== undefined ? String(args.location) : undefined,
+        latitude: typeof args.latitude === 'number' ? args.latitude : undefined,
+        longitude: typeof args.longitude === 'number' ? args.longitude : undefined,
+      },
+      format
+    )
+  }
+  if (name === 'update_preferences') {
+    const result = await updatePreferences(
+      home.userId,
+      args as Partial<UserPreferences>,
+      context.preferences.language
+    )
+    // Les résultats suivants utilisent déjà les nouvelles préférences
+    context.preferences = await getUserPreferences(home.userId, context.preferences.language)
+    context.format = createFormatter(context.preferences)
+    return result
+  }
+  return 'Unknown function.'
+}
+
+// 🌡️ Les températures données par le modèle sont dans l'unité de l'utilisateur ; les outils travaillent en °C
+function toCanonicalArguments(
+  args: Record<string, unknown>,
+  preferences: UserPreferences
+): Record<string, unknown> {
+  const unit = preferences.temperatureUnit
+  const canonical = { ...args }
+
+  if (typeof args.temperature === 'number') {
+    canonical.temperature = toCelsius(args.temperature, unit)
+  }
+  if (typeof args.delta === 'number') {
+    canonical.delta = toCelsiusDifference(args.delta, unit)
+  }
+  if (Array.isArray(args.entries)) {
+    canonical.entries = args.entries.map((entry) =>
+      typeof entry?.temperature === 'number'
+        ? { ...entry, temperature: toCelsius(entry.temperature, unit) }
+        : entry
+    )
+  }
+
+  // Seuils et consignes des règles (les humidités restent en %)
+  return mapRuleTemperatures(canonical, (value) => toCelsius(value, unit))
+}
+
+// ✅ Rendu de la sortie d'un outil pour le modèle et l'historique
+function renderToolOutput(
+  output: ToolOutput,
+  format: Formatter
+): Pick<ChatAction, 'result' | 'data'> {
+  if (typeof output === 'string') {
+    return { result: output }
+  }
+  return {
+    result:
+      output.action === 'group'
+        ? renderGroupChangeResult(output, format)
+        : renderTemperatureResult(output, format),
+    data: output,
+  }
+}
+
+// Dernier message de l'utilisateur, gardé dans le journal comme raison des changements
+function lastUserMessage(messages: ChatCompletionMessageParam[]): string | null {
+  const message = [...messages].reverse().find((entry) => entry.role === 'user')
+  return typeof message?.content === 'string' ? message.content : null
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(raw || '{}')
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// ✅ Exécute une action en attente que l'utilisateur vient d'accepter
+export async function executeConfirmedAction(
+  home: HomeAccess,
+  action: Pick<StoredPendingAction, 'tool' | 'args' | 'conversation_id'>,
+  format?: Formatter
+): Promise<Pick<ChatAction, 'result' | 'data'>> {
+  const preferences = await getUserPreferences(home.userId, format?.language)
+  const context: ToolContext = {
+    conversationId: action.conversation_id,
+    preferences,
+    format: format ?? createFormatter(preferences),
+    pendingActions: [],
+    confirmed: true,
+  }
+
+  // 🧾 Le journal rattache le changement à la conversation où il a été proposé
+  const actor: HomeAccess = {
+    ...home,
+    origin: { actor: 'user', conversationId: action.conversation_id },
+  }
+
+  const output = await executeTool(actor, action.tool, action.args, context)
+  return renderToolOutput(output, context.format)
+}
+
+// Vérifie les arguments d'un appel d'outil contre son schéma
+function checkToolArguments(
+  name: string,
+  args: Record<string, unknown> | null
+): string | null {
+  const schema = toolParameterSchemas[name]
+  if (!schema) {
+    return `❌ Unknown tool ${name}.`
+  }
+  if (!args) {
+    return `❌ Invalid arguments for ${name}: not a JSON object.`
+  }
+
+  const errors = validateArguments(schema, args)
+  return errors.length > 0
+    ? `❌ Invalid arguments for ${name}: ${errors.join('; ')}.`
+    : null
+}
+
+// ✅ Boucle agent : le modèle appelle des outils jusqu'à produire une réponse finale
+export async function runAgent(
+  llm: LLMProvider,
+  home: HomeAccess,
+  messages: ChatCompletionMessageParam[],
+  options: RunAgentOptions = {}
+): Promise<AgentResult> {
+  const { onEvent } = options
+  const actions: ChatAction[] = []
+  const preferences =
+    options.preferences ?? (await getUserPreferences(home.userId))
+  const context: ToolContext = {
+    conversationId: options.conversationId ?? null,
+    preferences,
+    format: createFormatter(preferences),
+    pendingActions: [],
+  }
+  const actor: HomeAccess = {
+    ...home,
+    origin: {
+      actor: 'user',
+      conversationId: context.conversationId,
+      message: lastUserMessage(messages),
+    },
+  }
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const { content, toolCalls } = await llm.complete({
+      messages,
+      tools: chatTools,
+      signal: options.signal,
+      // Sans flux vers le client, rien n'est encore parti : le relais reste possible
+      onToken: onEvent
+        ? (token) => onEvent({ type: 'token', content: token })
+        : undefined,
+      language: context.preferences.language,
+    })
+
+    if (toolCalls.length === 0) {
+      return { message: content, actions, pendingActions: context.pendingActions }
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: content || null,
+      tool_calls: toolCalls,
+    })
+
+    for (const toolCall of toolCalls) {
+      const name = toolCall.function.name
+      const args = parseToolArguments(toolCall.function.arguments)
+      const canonical = toCanonicalArguments(args ?? {}, context.preferences)
+
+      onEvent?.({
+        type: 'tool_start',
+        id: toolCall.id,
+        tool: name,
+        args: args ?? {},
+        label: describeToolCall(name, canonical, context.format),
+      })
+
+      const output =
+        checkToolArguments(name, args) ??
+        (await executeTool(actor, name, canonical, context))
+      const { result, data } = renderToolOutput(output, context.format)
+
+      onEvent?.({ type: 'tool_end', id: toolCall.id, tool: name, result, data })
+
+      actions.push({ tool: name, args: args ?? {}, result, data })
+      messages.push({ role: 'tool', tool_call_id: toolCall.id, content: result })
+    }
+  }
+
+  // 🛑 Limite atteinte : on renvoie le résultat des actions effectuées
+  console.warn(`⚠️ Chat agent stopped after ${MAX_STEPS} steps.`)
+  return {
+    message: actions.map((action) => action.result).join('\n'),
+    actions,
+    pendingActions: context.pendingActions,
+  }
+}
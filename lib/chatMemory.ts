@@ -0,0 +1,157 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import { supabaseServer } from '@/lib/supabaseServer'
+import type { LLMProvider } from '@/lib/llm'
+import type { Tables } from '@/lib/database'
+
+// Budget de tokens alloué à l'historique injecté dans le contexte du modèle
+const DEFAULT_HISTORY_TOKEN_BUDGET = 1500
+const HISTORY_TOKEN_BUDGET =
+  Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) > 0
+    ? Number(process.env.CHAT_HISTORY_TOKEN_BUDGET)
+    : DEFAULT_HISTORY_TOKEN_BUDGET
+
+type ChatTurn = Pick<Tables<'chat_history'>, 'message' | 'response' | 'created_at'>
+
+export type Conversation = Pick<
+  Tables<'conversations'>,
+  'id' | 'title' | 'summary' | 'summarized_until'
+>
+
+// Estimation grossière : ~4 caractères par token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function turnTokens(turn: ChatTurn): number {
+  return estimateTokens(turn.message) + estimateTokens(turn.response)
+}
+
+// ✅ Récupère une conversation de l'utilisateur, ou en crée une nouvelle
+export async function getOrCreateConversation(
+  userId: string,
+  conversationId: string | undefined,
+  title: string
+): Promise<Conversation | null> {
+  if (conversationId) {
+    const { data, error } = await supabaseServer
+      .from('conversations')
+      .select('id, title, summary, summarized_until')
+      .eq('user_id', userId)
+      .eq('id', conversationId)
+      .single()
+
+    return error || !data ? null : data
+  }
+
+  const { data, error } = await supabaseServer
+    .from('conversations')
+    .insert([{ user_id: userId, title: title.slice(0, 60) || 'New conversation' }])
+    .select('id, title, summary, summarized_until')
+    .single()
+
+  if (error || !data) {
+    console.error('❌ Error creating conversation:', error)
+    return null
+  }
+
+  return data
+}
+
+// ✅ Résume les anciens échanges en les fusionnant avec le résumé existant
+async function summarizeTurns(
+  llm: LLMProvider,
+  previousSummary: string | null,
+  turns: ChatTurn[]
+): Promise<string> {
+  const transcript = turns
+    .map((turn) => `User: ${turn.message}\nAssistant: ${turn.response}`)
+    .join('\n')
+
+  const { content } = await llm.complete({
+    messages: [
+      {
+        role: 'system',
+        content:
+          'Summarise this smart home conversation in a few sentences. Keep room names, temperatures, schedules and user preferences; drop small talk.',
+      },
+      {
+        role: 'user',
+        content: previousSummary
+          ? `Previous summary:\n${previousSummary}\n\nNew exchanges:\n${transcript}`
+          : transcript,
+      },
+    ],
+  })
+
+  return content || previousSummary || ''
+}
+
+// ✅ Charge les derniers échanges dans la limite du budget et résume le reste
+export async function loadConversationContext(
+  llm: LLMProvider,
+  userId: string,
+  conversation: Conversation
+): Promise<ChatCompletionMessageParam[]> {
+  let query = supabaseServer
+    .from('chat_history')
+    .select('message, response, created_at')
+    .eq('user_id', userId)
+    .eq('conversation_id', conversation.id)
+
+  if (conversation.summarized_until) {
+    query = query.gt('created_at', conversation.summarized_until)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('❌ Error fetching chat history:', error)
+  }
+
+  const turns: ChatTurn[] = data ?? []
+  let summary = conversation.summary
+
+  // 🔍 On garde les échanges les plus récents qui tiennent dans le budget
+  let budget = HISTORY_TOKEN_BUDGET - (summary ? estimateTokens(summary) : 0)
+  let firstKept = turns.length
+  while (firstKept > 0 && turnTokens(turns[firstKept - 1]) <= budget) {
+    budget -= turnTokens(turns[firstKept - 1])
+    firstKept--
+  }
+
+  const overflow = turns.slice(0, firstKept)
+  if (overflow.length > 0) {
+    try {
+      summary = await summarizeTurns(llm, summary, overflow)
+      const { error: updateError } = await supabaseServer
+        .from('conversations')
+        .update({
+          summary,
+          summarized_until: overflow[overflow.length - 1].created_at,
+        })
+        .eq('user_id', userId)
+        .eq('id', conversation.id)
+
+      if (updateError) {
+        console.error('❌ Error saving conversation summary:', updateError)
+      }
+    } catch (summaryError) {
+      // Le résumé est optionnel : on continue avec les échanges récents
+      console.error('❌ Error summarising conversation:', summaryError)
+    }
+  }
+
+  const messages: ChatCompletionMessageParam[] = []
+  if (summary) {
+    messages.push({
+      role: 'system',
+      content: `Summary of the earlier conversation: ${summary}`,
+    })
+  }
+  for (const turn of turns.slice(firstKept)) {
+    messages.push({ role: 'user', content: turn.message })
+    messages.push({ role: 'assistant', content: turn.response })
+  }
+
+  return messages
+}
@@ -0,0 +1,822 @@
+import type { ChatCompletionTool } from 'openai/resources/chat/completions'
+import type { JsonSchema } from '@/lib/toolValidation'
+
+// Schémas partagés par les outils de programmes de chauffage
+const programEntrySchema = {
+  type: 'object',
+  properties: {
+    days: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Days the entry applies to: mon, tue, wed, thu, fri, sat, sun, weekdays, weekend or everyday.',
+    },
+    time: {
+      type: 'string',
+      description: 'Local time, HH:MM (24h).',
+    },
+    cron: {
+      type: 'string',
+      description:
+        'Alternative to days/time: a 5-field cron expression in local time.',
+    },
+    temperature: {
+      type: 'number',
+      description: "Temperature in the user's unit (°C or °F).",
+    },
+  },
+  required: ['temperature'],
+}
+
+const programExceptionsSchema = {
+  type: 'array',
+  description: 'Periods (holidays…) during which the program is paused.',
+  items: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', description: 'First day, YYYY-MM-DD.' },
+      to: { type: 'string', description: 'Last day, YYYY-MM-DD.' },
+      label: { type: 'string' },
+    },
+    required: ['from', 'to'],
+  },
+}
+
+const homeModes = ['home', 'away', 'sleep', 'vacation']
+
+// Schémas partagés par les outils de règles d'automatisation
+const thresholdProperties = {
+  room: {
+    type: 'string',
+    description: 'The name of the room (not for "outside_temperature").',
+  },
+  below: {
+    type: 'number',
+    description: "Met when the value is below this (°C/°F in the user's unit, or % humidity).",
+  },
+  above: {
+    type: 'number',
+    description: "Met when the value is above this (°C/°F in the user's unit, or % humidity).",
+  },
+}
+
+const daysSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Days: mon…sun, weekdays, weekend or everyday (default everyday).',
+}
+
+const ruleTriggerSchema = {
+  type: 'object',
+  description:
+    'What fires the rule: a measured temperature/humidity or the outside temperature crossing a threshold (fires once per crossing), or a local time.',
+  properties: {
+    type: { type: 'string', enum: ['temperature', 'humidity', 'outside_temperature', 'time'] },
+    ...thresholdProperties,
+    time: { type: 'string', description: 'For "time": local time, HH:MM (24h).' },
+    days: daysSchema,
+  },
+  required: ['type'],
+}
+
+const ruleConditionsSchema = {
+  type: 'array',
+  description: 'Extra conditions that must all hold when the trigger fires.',
+  items: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['temperature', 'humidity', 'outside_temperature', 'mode', 'time'],
+      },
+      ...thresholdProperties,
+      modes: {
+        type: 'array',
+        items: { type: 'string', enum: homeModes },
+        description: 'For "mode": the home modes in which the rule may fire.',
+      },
+      from: { type: 'string', description: 'For "time": start of the local time window, HH:MM.' },
+      to: { type: 'string', description: 'For "time": end of the local time window, HH:MM.' },
+      days: daysSchema,
+    },
+    required: ['type'],
+  },
+}
+
+const ruleActionsSchema = {
+  type: 'array',
+  description: 'What the rule does when it fires.',
+  items: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['set_temperature', 'set_mode'] },
+      room: {
+        type: 'string',
+        description: 'For "set_temperature": the name of the room, or "all" for every room.',
+      },
+      temperature: {
+        type: 'number',
+        description: "For \"set_temperature\": temperature in the user's unit (°C or °F).",
+      },
+      mode: { type: 'string', enum: homeModes, description: 'For "set_mode".' },
+    },
+    required: ['type'],
+  },
+}
+
+// ✅ Définition des outils exposés au modèle
+export const chatTools: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'get_temperature',
+      description:
+        'Retrieve the measured temperature (and humidity) of a room, its target setpoint and the age of the last reading.',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of a room, of a room group, or "all" for every room.',
+          },
+        },
+        required: ['room'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_temperature',
+      description:
+        'Set a new temperature for a room, a room group or every room, or change their current setpoints by a number of degrees. A group or "all" is updated in one go: every room or none.',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of a room, of a room group, or "all" for every room.',
+          },
+          temperature: {
+            type: 'number',
+            description: "New temperature in the user's unit (°C or °F).",
+          },
+          delta: {
+            type: 'number',
+            description:
+              "Instead of \"temperature\": degrees to add to each current setpoint, negative to turn down (user's unit).",
+          },
+          delayMinutes: {
+            type: 'number',
+            description:
+              'Delay in minutes before changing temperature (single room with an absolute temperature only).',
+          },
+        },
+        required: ['room'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_room',
+      description:
+        'Create a new room for the user. Only set "confirmed" once the user explicitly asked for or confirmed the new room.',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of the room to create.',
+          },
+          confirmed: {
+            type: 'boolean',
+            description:
+              'True when the user explicitly asked to create this room or confirmed it.',
+          },
+        },
+        required: ['room'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_rooms',
+      description: 'List the rooms of the user, with their aliases.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'rename_room',
+      description: 'Rename a room.',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The current name of the room.',
+          },
+          newName: {
+            type: 'string',
+            description: 'The new name of the room.',
+          },
+        },
+        required: ['room', 'newName'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_room',
+      description:
+        'Delete a room, its heating programs and its pending scheduled changes. Ask the user to confirm first.',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of the room to delete.',
+          },
+        },
+        required: ['room'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'add_room_alias',
+      description:
+        'Add another name for a room (e.g. "salon" for "Living room").',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of the room.',
+          },
+          alias: {
+            type: 'string',
+            description: 'The other name.',
+          },
+        },
+        required: ['room', 'alias'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'remove_room_alias',
+      description: 'Remove an alias of a room.',
+      parameters: {
+        type: 'object',
+        properties: {
+          alias: {
+            type: 'string',
+            description: 'The alias to remove.',
+          },
+        },
+        required: ['alias'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_room_group',
+      description:
+        'Create a room group (e.g. "upstairs", "bedrooms") or replace its rooms. Groups can then be used wherever a room is expected.',
+      parameters: {
+        type: 'object',
+        properties: {
+          group: {
+            type: 'string',
+            description: 'The name of the group.',
+          },
+          rooms: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Every room of the group.',
+          },
+        },
+        required: ['group', 'rooms'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_room_groups',
+      description: 'List the room groups of the home with their rooms.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_room_group',
+      description: 'Delete a room group (its rooms are kept).',
+      parameters: {
+        type: 'object',
+        properties: {
+          group: {
+            type: 'string',
+            description: 'The name of the group.',
+          },
+        },
+        required: ['group'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_heating_program',
+      description:
+        'Create a recurring heating program for a room, e.g. "every weekday at 7:00 set 21°C, at 23:00 set 17°C". Times are in the user\'s time zone.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'A short name for the program.',
+          },
+          room: {
+            type: 'string',
+            description: 'The name of the room.',
+          },
+          entries: {
+            type: 'array',
+            description: 'Temperature changes of the program.',
+            items: programEntrySchema,
+          },
+          exceptions: programExceptionsSchema,
+        },
+        required: ['name', 'room', 'entries'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_heating_programs',
+      description: 'List the recurring heating programs of the user.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_heating_program',
+      description:
+        'Edit a heating program: rename it, move it to another room, replace its entries or exceptions (holidays), or enable/disable it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          programId: {
+            type: 'string',
+            description: 'The id of the program, from "list_heating_programs".',
+          },
+          name: { type: 'string' },
+          room: { type: 'string' },
+          entries: {
+            type: 'array',
+            description: 'The new full list of entries.',
+            items: programEntrySchema,
+          },
+          exceptions: programExceptionsSchema,
+          enabled: { type: 'boolean' },
+        },
+        required: ['programId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_heating_program',
+      description: 'Delete a heating program.',
+      parameters: {
+        type: 'object',
+        properties: {
+          programId: {
+            type: 'string',
+            description: 'The id of the program, from "list_heating_programs".',
+          },
+        },
+        required: ['programId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_scheduled_changes',
+      description:
+        'List the pending one-off temperature changes (created with "delayMinutes" or by programs).',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'cancel_scheduled_change',
+      description: 'Cancel a pending scheduled temperature change.',
+      parameters: {
+        type: 'object',
+        properties: {
+          changeId: {
+            type: 'string',
+            description: 'The id of the change, from "list_scheduled_changes".',
+          },
+        },
+        required: ['changeId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'reschedule_change',
+      description:
+        'Move a pending scheduled change to another time and/or change its temperature.',
+      parameters: {
+        type: 'object',
+        properties: {
+          changeId: {
+            type: 'string',
+            description: 'The id of the change, from "list_scheduled_changes".',
+          },
+          delayMinutes: {
+            type: 'number',
+            description: 'New delay in minutes from now.',
+          },
+          executeAt: {
+            type: 'string',
+            description: 'New execution time as an ISO 8601 date-time.',
+          },
+          temperature: {
+            type: 'number',
+            description: "New temperature in the user's unit (°C or °F).",
+          },
+        },
+        required: ['changeId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_temperature_at',
+      description:
+        'Get the temperature a room had at a past moment, e.g. "last night at 22:00".',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of the room.',
+          },
+          at: {
+            type: 'string',
+            description: 'The moment, as an ISO 8601 date-time.',
+          },
+        },
+        required: ['room', 'at'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_temperature_stats',
+      description:
+        'Get the average (time-weighted), min, max and latest temperature of a room over a period, e.g. "this week".',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of the room.',
+          },
+          from: {
+            type: 'string',
+            description: 'Start of the period, ISO 8601 date-time.',
+          },
+          to: {
+            type: 'string',
+            description: 'End of the period, ISO 8601 date-time. Defaults to now.',
+          },
+        },
+        required: ['room', 'from'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_change_history',
+      description:
+        'List recent changes in the home (who changed what, when, from which value to which), e.g. "who changed the bedroom temperature?".',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'Only changes to this room. Omit for the whole home.',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of changes to list (default 10).',
+          },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_home_mode',
+      description:
+        'Get the current home mode (home, away, sleep or vacation), when it ends, and the room setpoints of each mode.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_home_mode',
+      description:
+        'Switch the whole home to a mode, which applies that mode\'s room setpoints, e.g. "I\'m leaving for the weekend, set away until Sunday evening". With "until", the home switches back automatically.',
+      parameters: {
+        type: 'object',
+        properties: {
+          mode: {
+            type: 'string',
+            enum: homeModes,
+          },
+          until: {
+            type: 'string',
+            description:
+              'When the mode ends, as an ISO 8601 date-time in the future. Omit to keep the mode until the next change.',
+          },
+          revertTo: {
+            type: 'string',
+            enum: homeModes,
+            description: 'Mode to switch back to at "until" (default "home").',
+          },
+        },
+        required: ['mode'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_mode_profile',
+      description:
+        'Set the temperature a room gets when the home switches to a mode, e.g. "when we are away, keep the living room at 16".',
+      parameters: {
+        type: 'object',
+        properties: {
+          mode: {
+            type: 'string',
+            enum: homeModes,
+          },
+          room: {
+            type: 'string',
+            description: 'The name of the room.',
+          },
+          temperature: {
+            type: 'number',
+            description: "Temperature in the user's unit (°C or °F).",
+          },
+        },
+        required: ['mode', 'room', 'temperature'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_weather',
+      description:
+        'Get the current weather outside the home and the forecast for the next hours, e.g. "what\'s it like outside?".',
+      parameters: {
+        type: 'object',
+        properties: {
+          hours: {
+            type: 'number',
+            description: 'How many hours of forecast to include (default 12, up to 48).',
+          },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_heating_advice',
+      description:
+        'Compare the outdoor forecast with a room (setpoint, measured temperature, home mode) to decide whether it needs heating, e.g. "should I heat the living room tonight?". Without a period, looks at tonight.',
+      parameters: {
+        type: 'object',
+        properties: {
+          room: {
+            type: 'string',
+            description: 'The name of the room.',
+          },
+          from: {
+            type: 'string',
+            description: 'Start of the period, ISO 8601 date-time (default: this evening).',
+          },
+          to: {
+            type: 'string',
+            description: 'End of the period, ISO 8601 date-time (default: tomorrow morning).',
+          },
+        },
+        required: ['room'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_home_location',
+      description:
+        'Set where the home is, used for the weather: a town or address to look up, or coordinates.',
+      parameters: {
+        type: 'object',
+        properties: {
+          location: {
+            type: 'string',
+            description: 'A town or place name, e.g. "Lyon". With coordinates, used as their label.',
+          },
+          latitude: { type: 'number' },
+          longitude: { type: 'number' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_rule',
+      description:
+        'Create an automation rule (trigger → conditions → actions), e.g. "if the bedroom drops below 18°C, heat it to 20°C" or "at 22:00 on weekdays, if the home is in home mode, set the living room to 18°C".',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'A short name for the rule.',
+          },
+          trigger: ruleTriggerSchema,
+          conditions: ruleConditionsSchema,
+          actions: ruleActionsSchema,
+          cooldownMinutes: {
+            type: 'number',
+            description: 'Minimum minutes between two firings (default 30).',
+          },
+        },
+        required: ['name', 'trigger', 'actions'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_rules',
+      description: 'List the automation rules of the home.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_rule_enabled',
+      description: 'Enable or disable an automation rule.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ruleId: {
+            type: 'string',
+            description: 'The id of the rule, from "list_rules".',
+          },
+          enabled: { type: 'boolean' },
+        },
+        required: ['ruleId', 'enabled'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_rule',
+      description: 'Delete an automation rule.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ruleId: {
+            type: 'string',
+            description: 'The id of the rule, from "list_rules".',
+          },
+        },
+        required: ['ruleId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'test_rule',
+      description:
+        'Dry run: check whether a saved rule (ruleId) or a draft rule (trigger/conditions/actions) would fire now or under assumed values, without changing anything.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ruleId: {
+            type: 'string',
+            description: 'The id of a saved rule, from "list_rules".',
+          },
+          name: { type: 'string' },
+          trigger: ruleTriggerSchema,
+          conditions: ruleConditionsSchema,
+          actions: ruleActionsSchema,
+          assume: {
+            type: 'object',
+            description: 'Values to use instead of the current ones.',
+            properties: {
+              rooms: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    room: { type: 'string' },
+                    temperature: {
+                      type: 'number',
+                      description: "Measured temperature in the user's unit.",
+                    },
+                    humidity: { type: 'number', description: 'Relative humidity in %.' },
+                  },
+                  required: ['room'],
+                },
+              },
+              outside: {
+                type: 'number',
+                description: "Outside temperature in the user's unit.",
+              },
+              mode: { type: 'string', enum: homeModes },
+              at: {
+                type: 'string',
+                description: 'Moment of the evaluation, ISO 8601 date-time.',
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_preferences',
+      description:
+        'Change the user\'s preferences: language of the app and the assistant, temperature unit, locale and/or time zone.',
+      parameters: {
+        type: 'object',
+        properties: {
+          language: {
+            type: 'string',
+            enum: ['fr', 'en'],
+          },
+          temperatureUnit: {
+            type: 'string',
+            enum: ['celsius', 'fahrenheit'],
+          },
+          locale: {
+            type: 'string',
+            description: 'BCP 47 locale, e.g. "en-US" or "fr-FR".',
+          },
+          timeZone: {
+            type: 'string',
+            description: 'IANA time zone, e.g. "Europe/Paris".',
+          },
+        },
+      },
+    },
+  },
+]
+
+// Schéma des paramètres de chaque outil, pour valider les arguments produits par le modèle
+export const toolParameterSchemas: Record<string, JsonSchema> = Object.fromEntries(
+  chatTools.map((tool) => [
+    tool.function.name,
+    (tool.function.parameters ?? { type: 'object' }) as JsonSchema,
+  ])
+)
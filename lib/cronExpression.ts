@@ -0,0 +1,106 @@
+// ✅ Expressions cron à 5 champs : minute heure jour-du-mois mois jour-de-semaine
+// Supporte "*", listes (1,3), plages (1-5), pas (*/15, 8-18/2) et 7 = dimanche.
+
+export interface CronExpression {
+  source: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Si les deux champs "jour" sont restreints, l'un OU l'autre suffit (comportement cron classique)
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+// Heure locale décomposée (dans le fuseau de l'utilisateur)
+export interface WallClock {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  weekday: number // 0 = dimanche
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    let start: number
+    let end: number
+
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = Number(from)
+      end = Number(to)
+    } else {
+      start = Number(range)
+      end = stepText === undefined ? start : max
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}".`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export function parseCronExpression(source: string): CronExpression {
+  const fields = source.trim().split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${source}" must have 5 fields.`)
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+  const daysOfWeek = parseField(dayOfWeek, 0, 7)
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    source,
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*',
+  }
+}
+
+export function matchesCron(cron: CronExpression, time: WallClock): boolean {
+  if (
+    !cron.minutes.has(time.minute) ||
+    !cron.hours.has(time.hour) ||
+    !cron.months.has(time.month)
+  ) {
+    return false
+  }
+
+  const dayOfMonthMatch = cron.daysOfMonth.has(time.day)
+  const dayOfWeekMatch = cron.daysOfWeek.has(time.weekday)
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch
+  }
+  return dayOfMonthMatch && dayOfWeekMatch
+}
@@ -0,0 +1,68 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { getUpcomingChanges, type ScheduledChange } from '@/lib/scheduledChanges'
+import { isStale, readRoomClimate } from '@/lib/temperature'
+import type { TemperaturePoint } from '@/lib/temperatureHistory'
+import type { HomeScope } from '@/lib/homes'
+
+// Durée d'historique affichée dans la mini-courbe de chaque carte
+const SPARKLINE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export interface RoomOverview {
+  room: string
+  target: number
+  current: number | null // null : ni capteur ni thermostat n'a répondu
+  humidity: number | null
+  measuredAt: string | null
+  stale: boolean
+  upcoming: ScheduledChange[]
+  history: TemperaturePoint[]
+}
+
+// ✅ Vue d'ensemble des pièces pour le tableau de bord
+export async function getRoomOverviews(scope: HomeScope): Promise<RoomOverview[]> {
+  const since = new Date(Date.now() - SPARKLINE_WINDOW_MS).toISOString()
+
+  const [rooms, upcoming, history] = await Promise.all([
+    supabaseServer
+      .from('room_temperatures')
+      .select('room, temperature, measured_temperature, measured_humidity, measured_at')
+      .eq('home_id', scope.homeId)
+      .order('room', { ascending: true }),
+    getUpcomingChanges(scope),
+    supabaseServer
+      .from('temperature_history')
+      .select('room, temperature, source, recorded_at')
+      .eq('home_id', scope.homeId)
+      .gte('recorded_at', since)
+      .order('recorded_at', { ascending: true }),
+  ])
+
+  if (rooms.error) {
+    throw new Error(`Error fetching rooms: ${rooms.error.message}`)
+  }
+  if (history.error) {
+    console.error('❌ Error fetching temperature history:', history.error)
+  }
+
+  return Promise.all(
+    (rooms.data ?? []).map(async (row) => {
+      const climate = await readRoomClimate(scope, row.room, row)
+      return {
+        room: row.room,
+        target: row.temperature,
+        current: climate?.temperature ?? null,
+        humidity: climate?.humidity ?? null,
+        measuredAt: climate?.measuredAt ?? null,
+        stale: isStale(climate?.measuredAt ?? null),
+        upcoming: upcoming.filter((change) => change.room === row.room),
+        // Pièces avec capteur : courbe des mesures plutôt que des consignes
+        history: (history.data ?? [])
+          .filter(
+            (point) =>
+              point.room === row.room && (!row.measured_at || point.source === 'device')
+          )
+          .map(({ temperature, recorded_at }) => ({ temperature, recorded_at })),
+      }
+    })
+  )
+}
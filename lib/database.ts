@@ -0,0 +1,103 @@
+import type { Database as GeneratedDatabase } from '@/lib/database.types'
+import type { AuditAction, AuditActor, AuditValues } from '@/lib/audit'
+import type { HomeRole, InvitationStatus } from '@/lib/homes'
+import type { HomeMode } from '@/lib/homeModes'
+import type { Language } from '@/lib/i18n'
+import type { PendingActionStatus } from '@/lib/pendingActions'
+import type { TemperatureUnit } from '@/lib/preferences'
+import type { ProgramEntry, ProgramException } from '@/lib/programs'
+import type { RuleAction, RuleCondition, RuleTrigger } from '@/lib/rules'
+import type { JobStatus } from '@/lib/scheduler'
+import type { TemperatureSource } from '@/lib/temperatureHistory'
+import type { WeatherReport } from '@/lib/weather'
+
+// ⚠️ lib/database.types.ts est généré (npm run db:types) : ne pas le modifier à la main.
+// Ici on précise les colonnes que Postgres ne sait pas typer (jsonb, text + check).
+
+type GeneratedTables = GeneratedDatabase['public']['Tables']
+
+type WithColumns<
+  Table extends GeneratedTables[keyof GeneratedTables],
+  Columns extends { [Column in keyof Table['Row']]?: unknown },
+> = Omit<Table, 'Row' | 'Insert' | 'Update'> & {
+  Row: Omit<Table['Row'], keyof Columns> & Columns
+  Insert: Omit<Table['Insert'], keyof Columns> & Partial<Columns>
+  Update: Omit<Table['Update'], keyof Columns> & Partial<Columns>
+}
+
+export type Database = {
+  public: Omit<GeneratedDatabase['public'], 'Tables'> & {
+    Tables: Omit<
+      GeneratedTables,
+      | 'audit_log'
+      | 'automation_rules'
+      | 'heating_programs'
+      | 'home_invitations'
+      | 'home_members'
+      | 'homes'
+      | 'mode_profiles'
+      | 'pending_actions'
+      | 'scheduled_temperatures'
+      | 'temperature_history'
+      | 'thermostat_bindings'
+      | 'user_preferences'
+      | 'weather_cache'
+    > & {
+      audit_log: WithColumns<
+        GeneratedTables['audit_log'],
+        {
+          actor: AuditActor
+          action: AuditAction
+          previous: AuditValues | null
+          next: AuditValues | null
+        }
+      >
+      automation_rules: WithColumns<
+        GeneratedTables['automation_rules'],
+        { trigger: RuleTrigger; conditions: RuleCondition[]; actions: RuleAction[] }
+      >
+      heating_programs: WithColumns<
+        GeneratedTables['heating_programs'],
+        { entries: ProgramEntry[]; exceptions: ProgramException[] }
+      >
+      home_invitations: WithColumns<
+        GeneratedTables['home_invitations'],
+        { role: HomeRole; status: InvitationStatus }
+      >
+      home_members: WithColumns<GeneratedTables['home_members'], { role: HomeRole }>
+      homes: WithColumns<GeneratedTables['homes'], { mode: HomeMode }>
+      mode_profiles: WithColumns<GeneratedTables['mode_profiles'], { mode: HomeMode }>
+      pending_actions: WithColumns<
+        GeneratedTables['pending_actions'],
+        { args: Record<string, unknown>; status: PendingActionStatus }
+      >
+      scheduled_temperatures: WithColumns<
+        GeneratedTables['scheduled_temperatures'],
+        { status: JobStatus; mode: HomeMode | null }
+      >
+      temperature_history: WithColumns<
+        GeneratedTables['temperature_history'],
+        { source: TemperatureSource }
+      >
+      thermostat_bindings: WithColumns<
+        GeneratedTables['thermostat_bindings'],
+        { config: Record<string, unknown> }
+      >
+      user_preferences: WithColumns<
+        GeneratedTables['user_preferences'],
+        { language: Language | null; temperature_unit: TemperatureUnit | null }
+      >
+      weather_cache: WithColumns<GeneratedTables['weather_cache'], { report: WeatherReport }>
+    }
+  }
+}
+
+export type TableName = keyof Database['public']['Tables']
+
+export type Tables<T extends TableName> = Database['public']['Tables'][T]['Row']
+
+export type TablesInsert<T extends TableName> =
+  Database['public']['Tables'][T]['Insert']
+
+export type TablesUpdate<T extends TableName> =
+  Database['public']['Tables'][T]['Update']
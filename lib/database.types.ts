@@ -0,0 +1,1027 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor: string
+          actor_detail: string | null
+          conversation_id: string | null
+          created_at: string
+          home_id: string
+          id: string
+          message: string | null
+          next: Json | null
+          previous: Json | null
+          room: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor: string
+          actor_detail?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          home_id: string
+          id?: string
+          message?: string | null
+          next?: Json | null
+          previous?: Json | null
+          room?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor?: string
+          actor_detail?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          home_id?: string
+          id?: string
+          message?: string | null
+          next?: Json | null
+          previous?: Json | null
+          room?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      automation_rules: {
+        Row: {
+          actions: Json
+          conditions: Json
+          cooldown_minutes: number
+          created_at: string
+          enabled: boolean
+          home_id: string
+          id: string
+          last_error: string | null
+          last_evaluated_at: string | null
+          last_fired_at: string | null
+          name: string
+          trigger: Json
+          trigger_active: boolean
+          user_id: string | null
+        }
+        Insert: {
+          actions: Json
+          conditions?: Json
+          cooldown_minutes?: number
+          created_at?: string
+          enabled?: boolean
+          home_id: string
+          id?: string
+          last_error?: string | null
+          last_evaluated_at?: string | null
+          last_fired_at?: string | null
+          name: string
+          trigger: Json
+          trigger_active?: boolean
+          user_id?: string | null
+        }
+        Update: {
+          actions?: Json
+          conditions?: Json
+          cooldown_minutes?: number
+          created_at?: string
+          enabled?: boolean
+          home_id?: string
+          id?: string
+          last_error?: string | null
+          last_evaluated_at?: string | null
+          last_fired_at?: string | null
+          name?: string
+          trigger?: Json
+          trigger_active?: boolean
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "automation_rules_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_history: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          id: string
+          message: string
+          response: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          message: string
+          response: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          message?: string
+          response?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_history_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          summarized_until: string | null
+          summary: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          summarized_until?: string | null
+          summary?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          summarized_until?: string | null
+          summary?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      devices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          home_id: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_seen_at: string | null
+          name: string
+          revoked_at: string | null
+          room: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          home_id: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_seen_at?: string | null
+          name: string
+          revoked_at?: string | null
+          room?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          home_id?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_seen_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          room?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "devices_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      heating_programs: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          entries: Json
+          exceptions: Json
+          home_id: string
+          id: string
+          last_expanded_at: string | null
+          name: string
+          room: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          entries?: Json
+          exceptions?: Json
+          home_id: string
+          id?: string
+          last_expanded_at?: string | null
+          name: string
+          room: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          entries?: Json
+          exceptions?: Json
+          home_id?: string
+          id?: string
+          last_expanded_at?: string | null
+          name?: string
+          room?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "heating_programs_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "heating_programs_room_fkey"
+            columns: ["home_id", "room"]
+            isOneToOne: false
+            referencedRelation: "room_temperatures"
+            referencedColumns: ["home_id", "room"]
+          },
+        ]
+      }
+      home_invitations: {
+        Row: {
+          access_expires_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          home_id: string
+          id: string
+          invited_by: string | null
+          read_only: boolean
+          role: string
+          status: string
+        }
+        Insert: {
+          access_expires_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          home_id: string
+          id?: string
+          invited_by?: string | null
+          read_only?: boolean
+          role: string
+          status?: string
+        }
+        Update: {
+          access_expires_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          home_id?: string
+          id?: string
+          invited_by?: string | null
+          read_only?: boolean
+          role?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_invitations_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      home_members: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          home_id: string
+          read_only: boolean
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          home_id: string
+          read_only?: boolean
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          home_id?: string
+          read_only?: boolean
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_members_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      homes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          latitude: number | null
+          location_name: string | null
+          longitude: number | null
+          mode: string
+          mode_changed_at: string | null
+          mode_until: string | null
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          latitude?: number | null
+          location_name?: string | null
+          longitude?: number | null
+          mode?: string
+          mode_changed_at?: string | null
+          mode_until?: string | null
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          latitude?: number | null
+          location_name?: string | null
+          longitude?: number | null
+          mode?: string
+          mode_changed_at?: string | null
+          mode_until?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
+      mode_profiles: {
+        Row: {
+          created_at: string
+          home_id: string
+          id: string
+          mode: string
+          room: string
+          temperature: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          home_id: string
+          id?: string
+          mode: string
+          room: string
+          temperature: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          home_id?: string
+          id?: string
+          mode?: string
+          room?: string
+          temperature?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mode_profiles_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mode_profiles_room_fkey"
+            columns: ["home_id", "room"]
+            isOneToOne: false
+            referencedRelation: "room_temperatures"
+            referencedColumns: ["home_id", "room"]
+          },
+        ]
+      }
+      pending_actions: {
+        Row: {
+          args: Json
+          conversation_id: string | null
+          created_at: string
+          expires_at: string
+          home_id: string | null
+          id: string
+          reason: string
+          status: string
+          tool: string
+          user_id: string
+        }
+        Insert: {
+          args?: Json
+          conversation_id?: string | null
+          created_at?: string
+          expires_at: string
+          home_id?: string | null
+          id?: string
+          reason: string
+          status?: string
+          tool: string
+          user_id: string
+        }
+        Update: {
+          args?: Json
+          conversation_id?: string | null
+          created_at?: string
+          expires_at?: string
+          home_id?: string | null
+          id?: string
+          reason?: string
+          status?: string
+          tool?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_actions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_actions_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_aliases: {
+        Row: {
+          alias: string
+          alias_key: string
+          created_at: string
+          home_id: string
+          id: string
+          room: string
+          user_id: string | null
+        }
+        Insert: {
+          alias: string
+          alias_key: string
+          created_at?: string
+          home_id: string
+          id?: string
+          room: string
+          user_id?: string | null
+        }
+        Update: {
+          alias?: string
+          alias_key?: string
+          created_at?: string
+          home_id?: string
+          id?: string
+          room?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_aliases_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_aliases_room_fkey"
+            columns: ["home_id", "room"]
+            isOneToOne: false
+            referencedRelation: "room_temperatures"
+            referencedColumns: ["home_id", "room"]
+          },
+        ]
+      }
+      room_group_members: {
+        Row: {
+          created_at: string
+          group_id: string
+          home_id: string
+          id: string
+          room: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          home_id: string
+          id?: string
+          room: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          home_id?: string
+          id?: string
+          room?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "room_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_group_members_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_group_members_room_fkey"
+            columns: ["home_id", "room"]
+            isOneToOne: false
+            referencedRelation: "room_temperatures"
+            referencedColumns: ["home_id", "room"]
+          },
+        ]
+      }
+      room_groups: {
+        Row: {
+          created_at: string
+          home_id: string
+          id: string
+          name: string
+          name_key: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          home_id: string
+          id?: string
+          name: string
+          name_key: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          home_id?: string
+          id?: string
+          name?: string
+          name_key?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_groups_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_temperatures: {
+        Row: {
+          created_at: string
+          home_id: string
+          id: string
+          measured_at: string | null
+          measured_humidity: number | null
+          measured_temperature: number | null
+          room: string
+          temperature: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          home_id: string
+          id?: string
+          measured_at?: string | null
+          measured_humidity?: number | null
+          measured_temperature?: number | null
+          room: string
+          temperature: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          home_id?: string
+          id?: string
+          measured_at?: string | null
+          measured_humidity?: number | null
+          measured_temperature?: number | null
+          room?: string
+          temperature?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_temperatures_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_temperatures: {
+        Row: {
+          attempts: number
+          created_at: string
+          execute_at: string
+          executed_at: string | null
+          home_id: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          mode: string | null
+          next_attempt_at: string | null
+          program_id: string | null
+          room: string | null
+          status: string
+          temperature: number | null
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          execute_at: string
+          executed_at?: string | null
+          home_id: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          mode?: string | null
+          next_attempt_at?: string | null
+          program_id?: string | null
+          room?: string | null
+          status?: string
+          temperature?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          execute_at?: string
+          executed_at?: string | null
+          home_id?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          mode?: string | null
+          next_attempt_at?: string | null
+          program_id?: string | null
+          room?: string | null
+          status?: string
+          temperature?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_temperatures_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_temperatures_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "heating_programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      temperature_history: {
+        Row: {
+          home_id: string
+          humidity: number | null
+          id: string
+          recorded_at: string
+          room: string
+          source: string
+          temperature: number
+          user_id: string | null
+        }
+        Insert: {
+          home_id: string
+          humidity?: number | null
+          id?: string
+          recorded_at?: string
+          room: string
+          source: string
+          temperature: number
+          user_id?: string | null
+        }
+        Update: {
+          home_id?: string
+          humidity?: number | null
+          id?: string
+          recorded_at?: string
+          room?: string
+          source?: string
+          temperature?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "temperature_history_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      temperature_limits: {
+        Row: {
+          confirm_above: number | null
+          confirm_below: number | null
+          created_at: string
+          home_id: string
+          id: string
+          max_step: number | null
+          max_temperature: number | null
+          min_temperature: number | null
+          room: string | null
+          user_id: string | null
+        }
+        Insert: {
+          confirm_above?: number | null
+          confirm_below?: number | null
+          created_at?: string
+          home_id: string
+          id?: string
+          max_step?: number | null
+          max_temperature?: number | null
+          min_temperature?: number | null
+          room?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          confirm_above?: number | null
+          confirm_below?: number | null
+          created_at?: string
+          home_id?: string
+          id?: string
+          max_step?: number | null
+          max_temperature?: number | null
+          min_temperature?: number | null
+          room?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "temperature_limits_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "temperature_limits_room_fkey"
+            columns: ["home_id", "room"]
+            isOneToOne: false
+            referencedRelation: "room_temperatures"
+            referencedColumns: ["home_id", "room"]
+          },
+        ]
+      }
+      thermostat_bindings: {
+        Row: {
+          config: Json
+          created_at: string
+          driver: string
+          home_id: string
+          id: string
+          room: string
+          user_id: string | null
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          driver: string
+          home_id: string
+          id?: string
+          room: string
+          user_id?: string | null
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          driver?: string
+          home_id?: string
+          id?: string
+          room?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "thermostat_bindings_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "thermostat_bindings_room_fkey"
+            columns: ["home_id", "room"]
+            isOneToOne: false
+            referencedRelation: "room_temperatures"
+            referencedColumns: ["home_id", "room"]
+          },
+        ]
+      }
+      user_preferences: {
+        Row: {
+          active_home_id: string | null
+          created_at: string
+          language: string | null
+          locale: string | null
+          temperature_unit: string | null
+          time_zone: string | null
+          user_id: string
+        }
+        Insert: {
+          active_home_id?: string | null
+          created_at?: string
+          language?: string | null
+          locale?: string | null
+          temperature_unit?: string | null
+          time_zone?: string | null
+          user_id: string
+        }
+        Update: {
+          active_home_id?: string | null
+          created_at?: string
+          language?: string | null
+          locale?: string | null
+          temperature_unit?: string | null
+          time_zone?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_preferences_active_home_id_fkey"
+            columns: ["active_home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_cache: {
+        Row: {
+          fetched_at: string
+          home_id: string
+          latitude: number
+          longitude: number
+          provider: string
+          report: Json
+        }
+        Insert: {
+          fetched_at?: string
+          home_id: string
+          latitude: number
+          longitude: number
+          provider: string
+          report: Json
+        }
+        Update: {
+          fetched_at?: string
+          home_id?: string
+          latitude?: number
+          longitude?: number
+          provider?: string
+          report?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weather_cache_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: true
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      has_home_access: {
+        Args: {
+          target: string
+          needs_write?: boolean
+        }
+        Returns: boolean
+      }
+      rename_room: {
+        Args: {
+          target_home: string
+          old_name: string
+          new_name: string
+        }
+        Returns: undefined
+      }
+      rename_room_reference: {
+        Args: {
+          item: Json
+          old_name: string
+          new_name: string
+        }
+        Returns: Json
+      }
+      set_room_temperatures: {
+        Args: {
+          target_home: string
+          targets: Json
+        }
+        Returns: {
+          room: string
+          previous: number
+          temperature: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
@@ -0,0 +1,142 @@
+import { createHash, randomBytes } from 'crypto'
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/lib/supabaseServer'
+import { unauthorized } from '@/lib/auth'
+import { HomePermissionError, type HomeAccess, type HomeScope } from '@/lib/homes'
+import type { Tables } from '@/lib/database'
+
+// Préfixe des clés d'API d'appareils (reconnaissable dans les logs et les gestionnaires de secrets)
+const KEY_PREFIX = 'thd_'
+
+export type Device = Omit<Tables<'devices'>, 'key_hash'>
+
+export type DeviceAuthResult =
+  | { device: Device; response?: undefined }
+  | { device: null; response: NextResponse }
+
+const DEVICE_COLUMNS =
+  'id, home_id, name, room, key_prefix, created_by, last_seen_at, revoked_at, created_at'
+
+function hashKey(key: string) {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+// Les mesures d'un appareil sont écrites en son nom, sans utilisateur
+export function deviceScope(device: Pick<Device, 'id' | 'home_id'>): HomeScope {
+  return {
+    homeId: device.home_id,
+    userId: null,
+    origin: { actor: 'device', detail: device.id },
+  }
+}
+
+// 🔑 Enregistre un appareil ; la clé n'est renvoyée qu'ici (seule son empreinte est stockée)
+export async function createDevice(
+  access: HomeAccess,
+  name: string,
+  room: string | null = null
+): Promise<{ device: Device; apiKey: string }> {
+  if (!access.canManage) {
+    throw new HomePermissionError('Only owners can register devices.')
+  }
+
+  const apiKey = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+
+  const { data, error } = await supabaseServer
+    .from('devices')
+    .insert([
+      {
+        home_id: access.homeId,
+        name: name.trim(),
+        room,
+        key_hash: hashKey(apiKey),
+        key_prefix: apiKey.slice(0, KEY_PREFIX.length + 6),
+        created_by: access.userId,
+      },
+    ])
+    .select(DEVICE_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Error registering device: ${error?.message}`)
+  }
+
+  return { device: data, apiKey }
+}
+
+export async function listDevices(access: HomeAccess): Promise<Device[]> {
+  const { data, error } = await supabaseServer
+    .from('devices')
+    .select(DEVICE_COLUMNS)
+    .eq('home_id', access.homeId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Error fetching devices: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+// ✅ Révoque la clé d'un appareil (la ligne est conservée) ; false si introuvable
+export async function revokeDevice(
+  access: HomeAccess,
+  deviceId: string
+): Promise<boolean> {
+  if (!access.canManage) {
+    throw new HomePermissionError('Only owners can revoke devices.')
+  }
+
+  const { data, error } = await supabaseServer
+    .from('devices')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('home_id', access.homeId)
+    .eq('id', deviceId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Error revoking device: ${error.message}`)
+  }
+
+  return (data ?? []).length > 0
+}
+
+// ✅ Identifie l'appareil de la requête : "Authorization: Bearer thd_…" ou "X-Device-Key: thd_…"
+export async function authenticateDevice(req: Request): Promise<DeviceAuthResult> {
+  const header = req.headers.get('authorization')
+  const key = header?.startsWith('Bearer ')
+    ? header.slice(7).trim()
+    : req.headers.get('x-device-key')?.trim()
+
+  if (!key?.startsWith(KEY_PREFIX)) {
+    return { device: null, response: unauthorized('❌ Missing device API key.') }
+  }
+
+  const { data, error } = await supabaseServer
+    .from('devices')
+    .select(DEVICE_COLUMNS)
+    .eq('key_hash', hashKey(key))
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Error checking device key:', error)
+  }
+  if (!data) {
+    return { device: null, response: unauthorized('❌ Invalid or revoked device API key.') }
+  }
+
+  return { device: data }
+}
+
+export async function touchDevice(device: Pick<Device, 'id'>) {
+  const { error } = await supabaseServer
+    .from('devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', device.id)
+
+  if (error) {
+    console.error(`❌ Failed to update last_seen_at of device ${device.id}:`, error)
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  DEFAULT_PREFERENCES,
+  type TemperatureUnit,
+  type UserPreferences,
+} from '@/lib/preferences'
+import {
+  translate,
+  type Language,
+  type MessageKey,
+  type MessageParams,
+} from '@/lib/i18n'
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// ✅ Conversions entre l'unité de l'utilisateur et l'unité de stockage (°C)
+// Pas d'arrondi : 80°F doit redonner 80°F ; seul l'affichage (Formatter) arrondit
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  return unit === 'fahrenheit' ? ((value - 32) * 5) / 9 : value
+}
+
+// Écart de température ("+2 degrés") : pas de décalage de 32 en °F
+export function toCelsiusDifference(value: number, unit: TemperatureUnit): number {
+  return unit === 'fahrenheit' ? (value * 5) / 9 : value
+}
+
+export function fromCelsius(value: number, unit: TemperatureUnit): number {
+  return unit === 'fahrenheit' ? (value * 9) / 5 + 32 : value
+}
+
+// Rendu des valeurs canoniques (°C, instants UTC) et des messages selon les préférences de l'utilisateur
+export interface Formatter {
+  language: Language
+  t(key: MessageKey, params?: MessageParams): string
+  unit: TemperatureUnit
+  symbol: '°C' | '°F'
+  temperature(celsius: number): string
+  // Écart de température (pas de décalage de 32 en °F)
+  difference(celsius: number): string
+  dateTime(date: Date | string): string
+  time(date: Date | string): string
+}
+
+export function createFormatter({
+  language,
+  temperatureUnit,
+  locale,
+  timeZone,
+}: UserPreferences): Formatter {
+  const symbol = temperatureUnit === 'fahrenheit' ? '°F' : '°C'
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 })
+  const dateTimes = new Intl.DateTimeFormat(locale, {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+  const times = new Intl.DateTimeFormat(locale, { timeZone, timeStyle: 'short' })
+
+  return {
+    language,
+    t: (key, params) => translate(language, key, params),
+    unit: temperatureUnit,
+    symbol,
+    temperature: (celsius) =>
+      `${numbers.format(fromCelsius(celsius, temperatureUnit))}${symbol}`,
+    difference: (celsius) =>
+      `${numbers.format(
+        temperatureUnit === 'fahrenheit' ? round((celsius * 9) / 5) : celsius
+      )}${symbol}`,
+    dateTime: (date) => dateTimes.format(new Date(date)),
+    time: (date) => times.format(new Date(date)),
+  }
+}
+
+export const defaultFormatter = createFormatter(DEFAULT_PREFERENCES)
@@ -0,0 +1,334 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { assertWithinLimits } from '@/lib/safety'
+import { setRoomTarget } from '@/lib/temperature'
+import { resolveRoom, unknownRoomMessage } from '@/lib/rooms'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import { recordAudit } from '@/lib/audit'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+import type { MessageKey } from '@/lib/i18n'
+
+// 🏡 État du foyer : chaque mode applique les consignes de son profil (pièces sans profil inchangées)
+export type HomeMode = 'home' | 'away' | 'sleep' | 'vacation'
+
+export const HOME_MODES: HomeMode[] = ['home', 'away', 'sleep', 'vacation']
+
+// Modes pendant lesquels les programmes de chauffage ne s'appliquent pas (personne à la maison)
+export const PROGRAM_PAUSING_MODES: HomeMode[] = ['away', 'vacation']
+
+export type ModeProfile = Pick<
+  Tables<'mode_profiles'>,
+  'id' | 'mode' | 'room' | 'temperature'
+>
+
+export interface HomeModeState {
+  mode: HomeMode
+  changedAt: string | null
+  until: string | null // retour automatique prévu (job planifié)
+}
+
+export interface ModeSwitchOptions {
+  until?: string | null // ISO ; sans date, le mode reste actif jusqu'au prochain changement
+  revertTo?: HomeMode // mode rétabli à "until" (défaut : home)
+}
+
+// ✅ Résultat d'un changement de mode : consignes appliquées et pièces en échec
+export interface ModeSwitchResult {
+  mode: HomeMode
+  previous: HomeMode
+  until: string | null
+  revertTo: HomeMode | null
+  applied: { room: string; temperature: number }[]
+  failed: { room: string; error: string }[]
+}
+
+const MODE_KEYS: Record<HomeMode, MessageKey> = {
+  home: 'mode.home',
+  away: 'mode.away',
+  sleep: 'mode.sleep',
+  vacation: 'mode.vacation',
+}
+
+export function isHomeMode(value: unknown): value is HomeMode {
+  return HOME_MODES.includes(value as HomeMode)
+}
+
+export function modeLabel(mode: HomeMode, format: Formatter = defaultFormatter) {
+  return format.t(MODE_KEYS[mode])
+}
+
+export async function getHomeMode(scope: HomeScope): Promise<HomeModeState> {
+  const { data, error } = await supabaseServer
+    .from('homes')
+    .select('mode, mode_changed_at, mode_until')
+    .eq('id', scope.homeId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Error fetching home mode: ${error?.message}`)
+  }
+
+  return { mode: data.mode, changedAt: data.mode_changed_at, until: data.mode_until }
+}
+
+export async function listModeProfiles(
+  scope: HomeScope,
+  mode?: HomeMode
+): Promise<ModeProfile[]> {
+  let query = supabaseServer
+    .from('mode_profiles')
+    .select('id, mode, room, temperature')
+    .eq('home_id', scope.homeId)
+
+  if (mode) query = query.eq('mode', mode)
+
+  const { data, error } = await query.order('room', { ascending: true })
+
+  if (error) {
+    throw new Error(`Error fetching mode profiles: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+// ✅ Consigne d'une pièce dans un mode (°C), vérifiée contre les bornes de la pièce
+export async function setModeProfile(
+  scope: HomeScope,
+  mode: HomeMode,
+  roomName: string,
+  temperature: number,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, roomName)
+  if (resolution.room === null) {
+    return unknownRoomMessage(roomName, resolution.suggestions, format)
+  }
+
+  const room = resolution.room
+
+  try {
+    await assertWithinLimits(scope, room, temperature, format)
+  } catch (limitError) {
+    return `❌ ${(limitError as Error).message}`
+  }
+
+  const { data: previous } = await supabaseServer
+    .from('mode_profiles')
+    .select('temperature')
+    .eq('home_id', scope.homeId)
+    .eq('mode', mode)
+    .eq('room', room)
+    .maybeSingle()
+
+  const { error } = await supabaseServer
+    .from('mode_profiles')
+    .upsert(
+      [{ home_id: scope.homeId, user_id: scope.userId, mode, room, temperature }],
+      { onConflict: 'home_id,mode,room' }
+    )
+
+  if (error) {
+    console.error('❌ Error saving mode profile:', error)
+    return format.t('mode.profileFailed', { mode: modeLabel(mode, format), room })
+  }
+
+  await recordAudit(scope, {
+    action: 'mode.profile',
+    room,
+    previous: previous ? { mode, temperature: previous.temperature } : null,
+    next: { mode, temperature },
+  })
+
+  return format.t('mode.profileSaved', {
+    mode: modeLabel(mode, format),
+    room,
+    temperature: format.temperature(temperature),
+  })
+}
+
+// Annule les retours de mode encore en attente (un nouveau changement les remplace)
+async function cancelPendingModeJobs(scope: HomeScope) {
+  const { error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .update({ status: 'cancelled' })
+    .eq('home_id', scope.homeId)
+    .eq('status', 'pending')
+    .in('mode', HOME_MODES)
+
+  if (error) {
+    throw new Error(`Error cancelling pending mode changes: ${error.message}`)
+  }
+}
+
+// ✅ Passe le foyer dans un mode : consignes du profil, retour automatique planifié si "until"
+// Lève une erreur si le mode n'a pas pu être enregistré ; les pièces en échec sont listées dans le résultat
+export async function applyHomeMode(
+  scope: HomeScope,
+  mode: HomeMode,
+  { until = null, revertTo = 'home' }: ModeSwitchOptions = {}
+): Promise<ModeSwitchResult> {
+  const current = await getHomeMode(scope)
+  const profiles = await listModeProfiles(scope, mode)
+
+  // ⏳ Le retour passe par la table des changements planifiés, exécutée par le cron
+  await cancelPendingModeJobs(scope)
+  if (until) {
+    const { error } = await supabaseServer.from('scheduled_temperatures').insert([
+      {
+        home_id: scope.homeId,
+        user_id: scope.userId,
+        mode: revertTo,
+        execute_at: until,
+      },
+    ])
+
+    if (error) {
+      throw new Error(`Error scheduling the end of ${mode} mode: ${error.message}`)
+    }
+  }
+
+  const { error: updateError } = await supabaseServer
+    .from('homes')
+    .update({
+      mode,
+      mode_changed_at: new Date().toISOString(),
+      mode_until: until,
+    })
+    .eq('id', scope.homeId)
+
+  if (updateError) {
+    throw new Error(`Error saving home mode: ${updateError.message}`)
+  }
+
+  const result: ModeSwitchResult = {
+    mode,
+    previous: current.mode,
+    until,
+    revertTo: until ? revertTo : null,
+    applied: [],
+    failed: [],
+  }
+
+  for (const profile of profiles) {
+    try {
+      await setRoomTarget(scope, profile.room, profile.temperature, 'mode')
+      result.applied.push({ room: profile.room, temperature: profile.temperature })
+    } catch (error) {
+      console.error(`❌ Failed to apply ${mode} mode to ${profile.room}:`, error)
+      result.failed.push({
+        room: profile.room,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  await recordAudit(scope, {
+    action: 'mode.set',
+    previous: { mode: current.mode, until: current.until },
+    next: { mode, until, revertTo: result.revertTo },
+  })
+
+  return result
+}
+
+// Date de fin donnée par le modèle ou le webhook : ISO valide et dans le futur
+export function parseModeUntil(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null
+  const date = new Date(String(value))
+  if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) return undefined
+  return date.toISOString()
+}
+
+// ✅ Changement de mode demandé depuis le chat
+export async function switchHomeMode(
+  scope: HomeScope,
+  mode: HomeMode,
+  options: { until?: unknown; revertTo?: HomeMode },
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const until = parseModeUntil(options.until)
+  if (until === undefined) {
+    return format.t('mode.invalidUntil')
+  }
+
+  let result: ModeSwitchResult
+  try {
+    result = await applyHomeMode(scope, mode, { until, revertTo: options.revertTo })
+  } catch (error) {
+    console.error('❌', error)
+    return format.t('mode.switchFailed', { mode: modeLabel(mode, format) })
+  }
+
+  return renderModeSwitch(result, format)
+}
+
+export function renderModeSwitch(
+  result: ModeSwitchResult,
+  format: Formatter = defaultFormatter
+): string {
+  const lines = [
+    format.t('mode.switched', {
+      mode: modeLabel(result.mode, format),
+      until: result.until
+        ? format.t('mode.until', {
+            time: format.dateTime(result.until),
+            revertTo: modeLabel(result.revertTo ?? 'home', format),
+          })
+        : '',
+    }),
+  ]
+
+  for (const { room, temperature } of result.applied) {
+    lines.push(format.t('mode.applied', { room, temperature: format.temperature(temperature) }))
+  }
+  for (const { room, error } of result.failed) {
+    lines.push(format.t('mode.roomFailed', { room, error }))
+  }
+  if (result.applied.length === 0 && result.failed.length === 0) {
+    lines.push(format.t('mode.noProfile', { mode: modeLabel(result.mode, format) }))
+  }
+
+  return lines.join('\n')
+}
+
+// ✅ Mode courant et consignes de chaque mode, pour le modèle
+export async function describeHomeMode(
+  scope: HomeScope,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let state: HomeModeState
+  let profiles: ModeProfile[]
+  try {
+    state = await getHomeMode(scope)
+    profiles = await listModeProfiles(scope)
+  } catch (error) {
+    console.error('❌', error)
+    return format.t('mode.fetchFailed')
+  }
+
+  const lines = [
+    format.t('mode.current', {
+      mode: modeLabel(state.mode, format),
+      until: state.until
+        ? format.t('mode.currentUntil', { time: format.dateTime(state.until) })
+        : '',
+    }),
+  ]
+
+  if (profiles.length === 0) {
+    lines.push(format.t('mode.noProfiles'))
+    return lines.join('\n')
+  }
+
+  lines.push(format.t('mode.profiles'))
+  for (const mode of HOME_MODES) {
+    const rooms = profiles
+      .filter((profile) => profile.mode === mode)
+      .map((profile) => `${profile.room} ${format.temperature(profile.temperature)}`)
+    if (rooms.length > 0) {
+      lines.push(`- ${modeLabel(mode, format)}: ${rooms.join(', ')}`)
+    }
+  }
+
+  return lines.join('\n')
+}
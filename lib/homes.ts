@@ -0,0 +1,382 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { recordAudit, type AuditOrigin } from '@/lib/audit'
+import type { AuthUser } from '@/lib/auth'
+import type { Tables } from '@/lib/database'
+
+export type HomeRole = 'owner' | 'member' | 'guest'
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked'
+
+export const HOME_ROLES: HomeRole[] = ['owner', 'member', 'guest']
+
+// Nom du foyer créé automatiquement pour un nouvel utilisateur
+const DEFAULT_HOME_NAME = 'Home'
+
+// ✅ Pièces, planification et historique appartiennent à un foyer ; userId = auteur (null : système)
+export interface HomeScope {
+  homeId: string
+  userId: string | null
+  // Pour le journal : qui agit et depuis quelle conversation (défaut : l'utilisateur)
+  origin?: AuditOrigin
+}
+
+// Droits de l'utilisateur courant sur un foyer
+export interface HomeAccess extends HomeScope {
+  userId: string
+  name: string
+  role: HomeRole
+  readOnly: boolean
+  expiresAt: string | null
+  canWrite: boolean
+  canManage: boolean
+}
+
+export type HomeMember = Pick<
+  Tables<'home_members'>,
+  'user_id' | 'role' | 'read_only' | 'expires_at'
+>
+
+export type HomeInvitation = Pick<
+  Tables<'home_invitations'>,
+  'id' | 'home_id' | 'email' | 'role' | 'read_only' | 'access_expires_at' | 'expires_at'
+> & { home_name?: string }
+
+export interface InvitationOptions {
+  role: HomeRole
+  readOnly?: boolean
+  accessExpiresAt?: string | null
+}
+
+// Action refusée par le rôle de l'utilisateur dans le foyer
+export class HomePermissionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HomePermissionError'
+  }
+}
+
+function isActive(member: Pick<HomeMember, 'expires_at'>, now = Date.now()) {
+  return !member.expires_at || new Date(member.expires_at).getTime() > now
+}
+
+function toAccess(
+  userId: string,
+  home: Pick<Tables<'homes'>, 'id' | 'name'>,
+  member: HomeMember
+): HomeAccess {
+  return {
+    homeId: home.id,
+    userId,
+    name: home.name,
+    role: member.role,
+    readOnly: member.read_only,
+    expiresAt: member.expires_at,
+    canWrite: !member.read_only,
+    canManage: member.role === 'owner',
+  }
+}
+
+// ✅ Foyers auxquels l'utilisateur a accès (adhésions expirées exclues)
+export async function listUserHomes(userId: string): Promise<HomeAccess[]> {
+  const { data: memberships, error } = await supabaseServer
+    .from('home_members')
+    .select('home_id, user_id, role, read_only, expires_at')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Error fetching homes: ${error.message}`)
+  }
+
+  const active = (memberships ?? []).filter((member) => isActive(member))
+  if (active.length === 0) return []
+
+  const { data: homes, error: homesError } = await supabaseServer
+    .from('homes')
+    .select('id, name, created_at')
+    .in(
+      'id',
+      active.map((member) => member.home_id)
+    )
+    .order('created_at', { ascending: true })
+
+  if (homesError) {
+    throw new Error(`Error fetching homes: ${homesError.message}`)
+  }
+
+  return (homes ?? []).map((home) =>
+    toAccess(
+      userId,
+      home,
+      active.find((member) => member.home_id === home.id)!
+    )
+  )
+}
+
+export async function getHomeAccess(
+  userId: string,
+  homeId: string
+): Promise<HomeAccess | null> {
+  const homes = await listUserHomes(userId)
+  return homes.find((home) => home.homeId === homeId) ?? null
+}
+
+// ✅ Crée un foyer dont l'utilisateur est propriétaire
+export async function createHome(
+  userId: string,
+  name: string
+): Promise<HomeAccess> {
+  const { data: home, error } = await supabaseServer
+    .from('homes')
+    .insert([{ name: name.trim() || DEFAULT_HOME_NAME, created_by: userId }])
+    .select('id, name')
+    .single()
+
+  if (error || !home) {
+    throw new Error(`Error creating home: ${error?.message}`)
+  }
+
+  const owner: HomeMember = {
+    user_id: userId,
+    role: 'owner',
+    read_only: false,
+    expires_at: null,
+  }
+  const { error: memberError } = await supabaseServer
+    .from('home_members')
+    .insert([{ home_id: home.id, ...owner }])
+
+  if (memberError) {
+    throw new Error(`Error creating home membership: ${memberError.message}`)
+  }
+
+  return toAccess(userId, home, owner)
+}
+
+// 🏠 Foyer utilisé par le chat et le tableau de bord : demandé, sinon actif, sinon le premier
+// (un foyer est créé au premier usage) ; null si l'utilisateur n'a pas accès au foyer demandé
+export async function resolveActiveHome(
+  userId: string,
+  requestedHomeId?: string
+): Promise<HomeAccess | null> {
+  const homes = await listUserHomes(userId)
+
+  if (requestedHomeId) {
+    return homes.find((home) => home.homeId === requestedHomeId) ?? null
+  }
+
+  const { data: preferences } = await supabaseServer
+    .from('user_preferences')
+    .select('active_home_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const active = homes.find(
+    (home) => home.homeId === preferences?.active_home_id
+  )
+  if (active) return active
+  if (homes.length > 0) return homes[0]
+
+  const created = await createHome(userId, DEFAULT_HOME_NAME)
+  await setActiveHome(userId, created.homeId)
+  return created
+}
+
+// ✅ Mémorise le foyer actif de l'utilisateur ; null s'il n'en est pas membre
+export async function setActiveHome(
+  userId: string,
+  homeId: string
+): Promise<HomeAccess | null> {
+  const access = await getHomeAccess(userId, homeId)
+  if (!access) return null
+
+  const { error } = await supabaseServer
+    .from('user_preferences')
+    .upsert([{ user_id: userId, active_home_id: homeId }], {
+      onConflict: 'user_id',
+    })
+
+  if (error) {
+    throw new Error(`Error saving active home: ${error.message}`)
+  }
+
+  return access
+}
+
+export async function listHomeMembers(access: HomeAccess): Promise<HomeMember[]> {
+  const { data, error } = await supabaseServer
+    .from('home_members')
+    .select('user_id, role, read_only, expires_at')
+    .eq('home_id', access.homeId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Error fetching home members: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+// ✅ Retire un membre (propriétaire) ou quitte le foyer (soi-même) ; le dernier propriétaire reste
+export async function removeHomeMember(
+  access: HomeAccess,
+  memberId: string
+): Promise<boolean> {
+  if (memberId !== access.userId && !access.canManage) {
+    throw new HomePermissionError('Only owners can remove other members.')
+  }
+
+  const members = await listHomeMembers(access)
+  const member = members.find((other) => other.user_id === memberId)
+  if (!member) return false
+
+  const owners = members.filter((other) => other.role === 'owner')
+  if (member.role === 'owner' && owners.length === 1) {
+    throw new HomePermissionError('A home needs at least one owner.')
+  }
+
+  const { error } = await supabaseServer
+    .from('home_members')
+    .delete()
+    .eq('home_id', access.homeId)
+    .eq('user_id', memberId)
+
+  if (error) {
+    throw new Error(`Error removing home member: ${error.message}`)
+  }
+
+  await recordAudit(access, {
+    action: 'member.remove',
+    previous: { user_id: memberId, role: member.role },
+  })
+
+  return true
+}
+
+// ✉️ Invite une adresse e-mail ; les invités sont en lecture seule sauf indication contraire
+export async function inviteToHome(
+  access: HomeAccess,
+  email: string,
+  { role, readOnly, accessExpiresAt = null }: InvitationOptions
+): Promise<HomeInvitation> {
+  if (!access.canManage) {
+    throw new HomePermissionError('Only owners can invite people.')
+  }
+
+  const { data, error } = await supabaseServer
+    .from('home_invitations')
+    .insert([
+      {
+        home_id: access.homeId,
+        email: email.trim().toLowerCase(),
+        role,
+        read_only: readOnly ?? role === 'guest',
+        access_expires_at: accessExpiresAt,
+        invited_by: access.userId,
+      },
+    ])
+    .select('id, home_id, email, role, read_only, access_expires_at, expires_at')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Error creating invitation: ${error?.message}`)
+  }
+
+  await recordAudit(access, {
+    action: 'member.invite',
+    next: { email: data.email, role: data.role, read_only: data.read_only },
+  })
+
+  return data
+}
+
+// Invitations en attente pour l'adresse e-mail de l'utilisateur
+export async function listInvitationsFor(
+  user: AuthUser
+): Promise<HomeInvitation[]> {
+  if (!user.email) return []
+
+  const { data, error } = await supabaseServer
+    .from('home_invitations')
+    .select('id, home_id, email, role, read_only, access_expires_at, expires_at')
+    .eq('email', user.email.toLowerCase())
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) {
+    throw new Error(`Error fetching invitations: ${error.message}`)
+  }
+  if (!data?.length) return []
+
+  const { data: homes } = await supabaseServer
+    .from('homes')
+    .select('id, name')
+    .in(
+      'id',
+      data.map((invitation) => invitation.home_id)
+    )
+
+  return data.map((invitation) => ({
+    ...invitation,
+    home_name: homes?.find((home) => home.id === invitation.home_id)?.name,
+  }))
+}
+
+// ✅ Accepte ou décline une invitation adressée à l'utilisateur ; null si introuvable ou expirée
+export async function respondToInvitation(
+  user: AuthUser,
+  invitationId: string,
+  decision: 'accept' | 'decline'
+): Promise<HomeAccess | 'declined' | null> {
+  if (!user.email) return null
+
+  const { data, error } = await supabaseServer
+    .from('home_invitations')
+    .update({ status: decision === 'accept' ? 'accepted' : 'declined' })
+    .eq('id', invitationId)
+    .eq('email', user.email.toLowerCase())
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select('home_id, role, read_only, access_expires_at')
+
+  if (error) {
+    throw new Error(`Error answering invitation: ${error.message}`)
+  }
+
+  const invitation = data?.[0]
+  if (!invitation) return null
+  if (decision === 'decline') return 'declined'
+
+  // 🔒 Déjà membre : l'invitation ne remplace pas son rôle (un propriétaire ne devient pas invité)
+  if (await getHomeAccess(user.id, invitation.home_id)) {
+    return await setActiveHome(user.id, invitation.home_id)
+  }
+
+  const { error: memberError } = await supabaseServer
+    .from('home_members')
+    .upsert(
+      [
+        {
+          home_id: invitation.home_id,
+          user_id: user.id,
+          role: invitation.role,
+          read_only: invitation.read_only,
+          expires_at: invitation.access_expires_at,
+        },
+      ],
+      { onConflict: 'home_id,user_id' }
+    )
+
+  if (memberError) {
+    throw new Error(`Error joining home: ${memberError.message}`)
+  }
+
+  await recordAudit(
+    { homeId: invitation.home_id, userId: user.id },
+    {
+      action: 'member.join',
+      next: { role: invitation.role, read_only: invitation.read_only },
+    }
+  )
+
+  return await setActiveHome(user.id, invitation.home_id)
+}
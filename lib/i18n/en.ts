@@ -0,0 +1,332 @@
+// Catalogue de référence : toutes les clés doivent exister dans chaque langue
+export const en = {
+  // Pièces et alias
+  'room.unknown':
+    '❓ Room "{room}" does not exist.{similar}',
+  'room.similar': ' Similar rooms: {rooms}.',
+  'room.alreadyExists': 'ℹ️ Room {room} already exists.',
+  'room.createFailed': '❌ Failed to create room {room}.',
+  'room.created': '✅ Room {room} has been created.',
+  'room.none': 'ℹ️ No rooms yet.',
+  'room.list': '🏠 Rooms:',
+  'room.alsoKnownAs': ' (also: {aliases})',
+  'room.nameTaken': '❌ A room named {room} already exists.',
+  'room.renameFailed': '❌ Failed to rename {room}.',
+  'room.renamed': '✅ Room {room} has been renamed to {newName}.',
+  'room.deleteFailed': '❌ Failed to delete {room}.',
+  'room.deleted':
+    '🗑️ Room {room} has been deleted, along with its programs, history and pending changes.',
+  'alias.isRoomName': '❌ "{alias}" is already the name of a room.',
+  'alias.addFailed': '❌ Failed to add alias "{alias}".',
+  'alias.added': '✅ "{alias}" now refers to {room}.',
+  'alias.removeFailed': '❌ Failed to remove alias "{alias}".',
+  'alias.notFound': '❌ There is no alias "{alias}".',
+  'alias.removed': '🗑️ Alias "{alias}" removed from {room}.',
+  'group.allRooms': 'all rooms',
+  'group.label': 'group {group}',
+  'group.noRooms': '❌ There is no room in {target}.',
+  'group.rejected': '❌ Nothing was changed in {target}: {reason}',
+  'group.updateFailed': '❌ Failed to update {target}, nothing was changed.{reason}',
+  'group.updated': '✅ {count} room(s) updated in {target}:',
+  'group.roomChange': '- {room}: {from} → {to}',
+  'group.needsValue': '❌ Give either a temperature or a delta.',
+  'group.noDelay': '❌ Delayed changes are only possible for a single room with an absolute temperature.',
+  'group.confirm': '{target}: {reasons}',
+  'group.invalidName': '❌ "{group}" is not a valid group name.',
+  'group.reservedName': '❌ "{group}" is reserved for all rooms.',
+  'group.isRoomName': '❌ "{group}" already refers to the room {room}.',
+  'group.empty': '❌ The group "{group}" needs at least one room.',
+  'group.saveFailed': '❌ Failed to save the group "{group}".',
+  'group.saved': '✅ Group "{group}": {rooms}.',
+  'group.notFound': '❌ There is no group "{group}".',
+  'group.deleteFailed': '❌ Failed to delete the group "{group}".',
+  'group.deleted': '🗑️ Group "{group}" deleted (its rooms are kept).',
+  'group.fetchFailed': '❌ Failed to fetch room groups.',
+  'group.none': 'There are no room groups yet.',
+  'group.list': 'Room groups:',
+
+  // Températures et historique
+  'temperature.noData': '❌ No temperature data found for {room}.',
+  'temperature.current': '🌡️ It is {temperature} in {room}{humidity} (target {target}).',
+  'temperature.humidity': ', {humidity}% humidity',
+  'temperature.stale': ' ⚠️ The last reading is from {time}: it may be out of date.',
+  'temperature.noReading': 'ℹ️ No measurement is available for {room}; its target is {target}.',
+  'temperature.scheduleFailed': '❌ Failed to schedule temperature change for {room}.',
+  'temperature.scheduled':
+    '⏳ The temperature in {room} will be changed to {temperature} at {time}.',
+  'temperature.updateFailed': '❌ Failed to update temperature for {room}.{reason}',
+  'temperature.set': '✅ The temperature in {room} has been set to {temperature}.',
+  'history.noneAt': 'ℹ️ No temperature history for {room} at that time.',
+  'history.at': '🕰️ At {time}, {room} was at {temperature} (since {since}).',
+  'history.noneInPeriod': 'ℹ️ No temperature history for {room} in that period.',
+  'history.stats':
+    '📈 {room} from {from} to {to}: average {average}, min {min}, max {max}, latest {latest} ({samples} changes).',
+
+  // Changements planifiés
+  'schedule.fetchFailed': '❌ Failed to fetch scheduled changes.',
+  'schedule.none': 'ℹ️ No pending scheduled changes.',
+  'schedule.list': '⏳ Pending scheduled changes:',
+  'schedule.item': '- [{id}] {room} → {temperature} at {time}{origin}',
+  'schedule.fromProgram': ' (from a program)',
+  'schedule.cancelFailed': '❌ Failed to cancel scheduled change {id}.',
+  'schedule.notFound': '❌ No pending scheduled change {id}.',
+  'schedule.cancelled': '🚫 Cancelled the change of {room} to {temperature}.',
+  'schedule.invalidTime': '❌ The new execution time must be a valid time in the future.',
+  'schedule.nothingToChange': '❌ Nothing to change: give a new time or temperature.',
+  'schedule.rescheduleFailed': '❌ Failed to reschedule change {id}.',
+  'schedule.rescheduled':
+    '⏳ The temperature in {room} will now be changed to {temperature} at {time}.',
+  'schedule.modeItem': '- [{id}] switch to {mode} mode at {time}',
+  'schedule.modeCancelled': '🚫 Cancelled the switch to {mode} mode.',
+  'schedule.modeTemperature':
+    '❌ This change switches the home mode: only its time can be changed.',
+  'schedule.modeRescheduled': '⏳ The home will now switch to {mode} mode at {time}.',
+
+  // Programmes de chauffage
+  'program.everyDay': 'every day',
+  'program.disabled': ' (disabled)',
+  'program.paused': ' | paused {periods}',
+  'program.createFailed': '❌ Failed to create program "{name}".',
+  'program.created': '📅 Program created: {program}',
+  'program.fetchFailed': '❌ Failed to fetch heating programs.',
+  'program.none': 'ℹ️ No heating programs yet.',
+  'program.list': '📅 Heating programs:',
+  'program.updateFailed': '❌ Failed to update program {id}.',
+  'program.notFound': '❌ Program {id} does not exist.',
+  'program.updated': '✅ Program updated: {program}',
+  'program.deleteFailed': '❌ Failed to delete program {id}.',
+  'program.deleted': '🗑️ Program "{name}" has been deleted.',
+
+  // Limites et confirmations
+  'safety.invalid': '❌ {temperature} is not a valid temperature.',
+  'safety.outOfRange':
+    '❌ {temperature} is outside the allowed range for {room} ({min}–{max}).',
+  'safety.confirmTemperature': 'Are you sure you want {room} at {temperature}?',
+  'safety.confirmStep':
+    'That is a {difference} change for {room} (from {from} to {to}). Are you sure?',
+  'confirmation.prepareFailed': '❌ Failed to prepare the change for {room}.',
+  'confirmation.required':
+    '⚠️ Confirmation required: {reason}',
+  'pending.notFound': '❌ No pending action with this id, or it has expired.',
+  'pending.invalidDecision': '❌ decision must be "accept" or "reject".',
+  'pending.rejected': '🚫 Cancelled: {reason}',
+  'pending.acceptedEntry': '✅ Confirmed',
+  'pending.rejectedEntry': '🚫 Rejected',
+
+  'home.readOnly': '🔒 You have read-only access to {home}: nothing was changed.',
+  'home.forbidden': '❌ You do not have access to this home.',
+
+  // Modes du foyer
+  'mode.home': 'home',
+  'mode.away': 'away',
+  'mode.sleep': 'sleep',
+  'mode.vacation': 'vacation',
+  'mode.current': '🏡 The home is in {mode} mode{until}.',
+  'mode.currentUntil': ' until {time}',
+  'mode.profiles': 'Setpoints per mode:',
+  'mode.noProfiles': 'ℹ️ No setpoints are defined for any mode yet.',
+  'mode.switched': '🏡 The home is now in {mode} mode{until}.',
+  'mode.until': ', back to {revertTo} mode at {time}',
+  'mode.applied': '- {room} → {temperature}',
+  'mode.roomFailed': '- ❌ {room}: {error}',
+  'mode.noProfile':
+    'ℹ️ No room has a setpoint for {mode} mode: temperatures were left unchanged.',
+  'mode.switchFailed': '❌ Failed to switch the home to {mode} mode.',
+  'mode.invalidUntil': '❌ The end of the mode must be a valid time in the future.',
+  'mode.fetchFailed': '❌ Unable to read the home mode.',
+  'mode.profileSaved': '✅ In {mode} mode, {room} will be set to {temperature}.',
+  'mode.profileFailed': '❌ Failed to save the {mode} mode setpoint of {room}.',
+
+  // Météo extérieure
+  'weather.clear': 'clear sky',
+  'weather.partlyCloudy': 'partly cloudy',
+  'weather.cloudy': 'cloudy',
+  'weather.fog': 'fog',
+  'weather.drizzle': 'drizzle',
+  'weather.rain': 'rain',
+  'weather.showers': 'showers',
+  'weather.snow': 'snow',
+  'weather.thunderstorm': 'thunderstorm',
+  'weather.unknown': 'unknown conditions',
+  'weather.noLocation': '📍 No location is set for this home.',
+  'weather.fetchFailed': '❌ Unable to fetch the weather.',
+  'weather.invalidLocation':
+    '❌ Give a place name, or a latitude (-90 to 90) and a longitude (-180 to 180).',
+  'weather.locationNotFound': '❌ No place called "{place}" was found.',
+  'weather.locationFailed': '❌ Failed to save the home location.',
+  'weather.locationSaved': '📍 Home location set to {location}.',
+  'weather.current': '🌦️ Outside in {location}: {temperature}{feelsLike}, {condition}{humidity}{wind}.',
+  'weather.feelsLike': ' (feels like {temperature})',
+  'weather.humidity': ', {humidity}% humidity',
+  'weather.wind': ', wind {speed} km/h',
+  'weather.forecast': 'Next {hours} h: between {min} and {max}, up to {rain}% chance of rain.',
+  'weather.hour': '- {time}: {temperature}, {condition}{rain}',
+  'weather.rainChance': ' ({chance}% rain)',
+  'weather.noForecast': 'ℹ️ No forecast is available.',
+  'weather.invalidPeriod': '❌ The period must be given as valid dates.',
+  'weather.noWindow': 'ℹ️ No forecast covers that period.',
+  'weather.adviceWindow': '{room}, {from} → {to}: {min} to {max} outside (coldest at {time}).',
+  'weather.adviceRoom': 'Inside: {current}, setpoint {target}.',
+  'weather.adviceRoomNoReading': 'Inside: no measurement, setpoint {target}.',
+  'weather.adviceMode': 'The home is in {mode} mode.',
+  'weather.adviceNotNeeded':
+    '➡️ Little heating needed: it stays above {min} outside, close to the {target} setpoint.',
+  'weather.adviceFrost': '➡️ Keep the heating on: the night gets close to freezing ({min}).',
+  'weather.adviceOptional':
+    '➡️ The room is already above its setpoint: heating can wait, it will start below {target}.',
+  'weather.adviceRecommended': '➡️ Heating is recommended to hold {target}: it drops to {min} outside.',
+
+  // Règles d'automatisation
+  'rule.below': 'below {value}',
+  'rule.above': 'above {value}',
+  'rule.between': 'between {above} and {below}',
+  'rule.triggerTemperature': 'when {room} temperature goes {threshold}',
+  'rule.triggerHumidity': 'when {room} humidity goes {threshold}',
+  'rule.triggerTime': 'at {time} ({days})',
+  'rule.triggerOutside': 'when the outside temperature goes {threshold}',
+  'rule.conditionTemperature': 'if {room} temperature is {threshold}',
+  'rule.conditionHumidity': 'if {room} humidity is {threshold}',
+  'rule.conditionOutside': 'if the outside temperature is {threshold}',
+  'rule.conditionMode': 'if the home is in {modes} mode',
+  'rule.conditionTime': 'if between {from} and {to} ({days})',
+  'rule.actionTemperature': 'set {room} to {temperature}',
+  'rule.actionMode': 'switch to {mode} mode',
+  'rule.allRooms': 'all rooms',
+  'rule.disabled': ' (disabled)',
+  'rule.lastError': ' | last error: {error}',
+  'rule.createFailed': '❌ Failed to create rule "{name}".',
+  'rule.created': '⚡ Rule created: {rule}',
+  'rule.fetchFailed': '❌ Failed to fetch automation rules.',
+  'rule.none': 'ℹ️ No automation rules yet.',
+  'rule.list': '⚡ Automation rules:',
+  'rule.updateFailed': '❌ Failed to update rule {id}.',
+  'rule.notFound': '❌ Rule {id} does not exist.',
+  'rule.enabled': '✅ Rule "{name}" enabled.',
+  'rule.disabledDone': '⏸️ Rule "{name}" disabled.',
+  'rule.deleteFailed': '❌ Failed to delete rule {id}.',
+  'rule.deleted': '🗑️ Rule "{name}" has been deleted.',
+  'rule.invalidAt': '❌ "at" must be a valid ISO 8601 date-time.',
+  'rule.dryRun': '🧪 Dry run of "{name}" at {time} (nothing was changed):',
+  'rule.met': 'met',
+  'rule.notMet': 'not met',
+  'rule.currently': 'currently {value}',
+  'rule.noReading': 'no measurement',
+  'rule.wouldFire': '⚡ The rule would fire: {actions}.',
+  'rule.wouldNotFire': '💤 The rule would not fire.',
+  'rule.noteActive':
+    'ℹ️ The threshold is already crossed: the rule fires again only after the value goes back.',
+  'rule.noteCooldown':
+    'ℹ️ The rule last fired at {time}: it waits {minutes} minutes before firing again.',
+
+  'audit.list': '🧾 Recent changes (newest first):',
+  'audit.none': 'ℹ️ No recorded changes.',
+  'audit.fetchFailed': '❌ Unable to read the change log.',
+  'audit.actorYou': 'you',
+  'audit.actorMember': 'member {id}',
+  'audit.actorScheduler': 'scheduler (job {detail})',
+  'audit.actorDevice': 'device {detail}',
+  'audit.actorRule': 'rule {detail}',
+  'audit.actorSystem': 'the app',
+
+  'preferences.saved':
+    '✅ Preferences saved: language {language}, temperatures in {unit}, locale {locale}, time zone {timeZone}.',
+
+  // Étapes affichées pendant le streaming
+  'tool.reading': 'Reading {room} temperature…',
+  'tool.setting': 'Setting {room} to {temperature}…',
+  'tool.scheduling': 'Scheduling {room} to {temperature}…',
+  'tool.history': 'Looking at {room} history…',
+  'tool.creatingRoom': 'Creating room {room}…',
+  'tool.listingRooms': 'Listing rooms…',
+  'tool.renamingRoom': 'Renaming {room} to {newName}…',
+  'tool.deletingRoom': 'Deleting {room}…',
+  'tool.aliases': 'Updating room aliases…',
+  'tool.adjusting': 'Changing {room} by {delta}…',
+  'tool.groups': 'Updating room groups…',
+  'tool.programs': 'Updating heating programs…',
+  'tool.checkingSchedules': 'Checking scheduled changes…',
+  'tool.updatingSchedule': 'Updating scheduled change…',
+  'tool.savingPreferences': 'Saving preferences…',
+  'tool.audit': 'Looking up who changed what…',
+  'tool.readingMode': 'Checking the home mode…',
+  'tool.switchingMode': 'Switching to {mode} mode…',
+  'tool.modeProfile': 'Saving {mode} mode setpoint for {room}…',
+  'tool.rules': 'Updating automation rules…',
+  'tool.testingRule': 'Testing the rule…',
+  'tool.weather': 'Checking the weather…',
+  'tool.heatingAdvice': 'Comparing the forecast with {room}…',
+  'tool.location': 'Saving the home location…',
+  'tool.running': 'Running {tool}…',
+
+  'chat.serverError': 'Server error, please try again later.',
+  'chat.conversationNotFound': '❌ Conversation not found.',
+  'chat.emptyMessage': '❌ The message is empty.',
+  'llm.offlineHelp':
+    '🤖 The assistant is offline and only understands simple commands such as "set kitchen to 21", "temperature in bedroom" or "set bedroom to 19 in 10 minutes".',
+
+  // Interface
+  'ui.chatTitle': 'Home Climate Chatbot',
+  'ui.newConversation': 'New conversation',
+  'ui.you': 'You',
+  'ui.bot': 'Bot',
+  'ui.send': 'Send',
+  'ui.cancel': 'Cancel',
+  'ui.loading': 'Loading...',
+  'ui.requestCancelled': '⏹️ Request cancelled.',
+  'ui.replyFailed': '❌ Error: unable to reply.',
+  'ui.accept': 'Accept',
+  'ui.reject': 'Reject',
+  'ui.dashboard': 'Dashboard',
+  'ui.chatbot': 'Chatbot',
+  'ui.logout': 'Logout',
+  'ui.language': 'Language',
+  'ui.scheduledChanges': 'Scheduled changes',
+  'ui.fromProgram': '(program)',
+  'ui.setpoint': 'Target: {temperature}',
+  'ui.roomsLoadFailed': 'Unable to load rooms.',
+  'ui.adjustFailed': 'Unable to change the temperature.',
+  'ui.noRooms': 'No rooms yet. Ask the chatbot to create one.',
+  'ui.login': 'Login',
+  'ui.loggingIn': 'Logging in...',
+  'ui.signUp': 'Sign Up',
+  'ui.signingUp': 'Signing up...',
+  'ui.email': 'Email',
+  'ui.password': 'Password',
+  'ui.noAccount': "Don't have an account?",
+  'ui.haveAccount': 'Already have an account?',
+  'ui.signupSuccess': 'Signup successful! Please check your email to verify your account.',
+  'ui.home': 'Home',
+  'ui.readOnlyBadge': '(read-only)',
+  'ui.invitation': '✉️ Invitation to {home} ({role})',
+  'ui.decline': 'Decline',
+  'ui.invite': 'Invite',
+  'ui.inviteEmail': 'Email to invite',
+  'ui.roleMember': 'Member',
+  'ui.roleGuest': 'Guest (read-only)',
+  'ui.roleOwner': 'Owner',
+  'ui.inviteSent': '✅ Invitation sent to {email}.',
+  'ui.inviteFailed': '❌ Unable to send the invitation.',
+  'ui.auditLog': 'Change log',
+  'ui.auditLoadFailed': 'Unable to load the change log.',
+  'ui.auditWhen': 'When',
+  'ui.auditActor': 'Who',
+  'ui.auditAction': 'Action',
+  'ui.auditRoom': 'Room',
+  'ui.auditChange': 'Before → after',
+  'ui.auditReason': 'Request',
+  'ui.auditAnyActor': 'Anyone',
+  'ui.auditAnyAction': 'Any action',
+  'ui.auditReset': 'Reset',
+  'ui.auditEmpty': 'No changes match these filters.',
+  'ui.humidity': '{humidity}% humidity',
+  'ui.staleReading': 'Last reading {time}',
+  'ui.noReading': 'No measurement',
+  'ui.mode': 'Mode',
+  'ui.modeSwitch': 'switch to {mode} mode',
+  'ui.modeUntil': 'until {time}',
+  'ui.outside': 'Outside: {temperature}, {condition}',
+  'ui.outsideRange': 'Next 12 h: {min} to {max}',
+  'ui.weatherNoLocation': 'Ask the chatbot to set the home location to see the weather.',
+}
+
+export type MessageKey = keyof typeof en
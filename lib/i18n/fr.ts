@@ -0,0 +1,331 @@
+import type { MessageKey } from '@/lib/i18n/en'
+
+export const fr: Record<MessageKey, string> = {
+  // Pièces et alias
+  'room.unknown':
+    '❓ La pièce « {room} » n\'existe pas.{similar}',
+  'room.similar': ' Pièces proches : {rooms}.',
+  'room.alreadyExists': 'ℹ️ La pièce {room} existe déjà.',
+  'room.createFailed': '❌ Impossible de créer la pièce {room}.',
+  'room.created': '✅ La pièce {room} a été créée.',
+  'room.none': 'ℹ️ Aucune pièce pour le moment.',
+  'room.list': '🏠 Pièces :',
+  'room.alsoKnownAs': ' (aussi : {aliases})',
+  'room.nameTaken': '❌ Une pièce nommée {room} existe déjà.',
+  'room.renameFailed': '❌ Impossible de renommer {room}.',
+  'room.renamed': '✅ La pièce {room} a été renommée en {newName}.',
+  'room.deleteFailed': '❌ Impossible de supprimer {room}.',
+  'room.deleted':
+    '🗑️ La pièce {room} a été supprimée, avec ses programmes, son historique et ses changements prévus.',
+  'alias.isRoomName': '❌ « {alias} » est déjà le nom d\'une pièce.',
+  'alias.addFailed': '❌ Impossible d\'ajouter l\'alias « {alias} ».',
+  'alias.added': '✅ « {alias} » désigne maintenant {room}.',
+  'alias.removeFailed': '❌ Impossible de supprimer l\'alias « {alias} ».',
+  'alias.notFound': '❌ Il n\'y a pas d\'alias « {alias} ».',
+  'alias.removed': '🗑️ Alias « {alias} » retiré de {room}.',
+  'group.allRooms': 'toutes les pièces',
+  'group.label': 'groupe {group}',
+  'group.noRooms': '❌ Il n\'y a aucune pièce dans {target}.',
+  'group.rejected': '❌ Rien n\'a été changé dans {target} : {reason}',
+  'group.updateFailed': '❌ Impossible de modifier {target}, rien n\'a été changé.{reason}',
+  'group.updated': '✅ {count} pièce(s) modifiée(s) dans {target} :',
+  'group.roomChange': '- {room} : {from} → {to}',
+  'group.needsValue': '❌ Indiquez soit une température, soit un écart.',
+  'group.noDelay': '❌ Un changement différé n\'est possible que pour une seule pièce avec une température absolue.',
+  'group.confirm': '{target} : {reasons}',
+  'group.invalidName': '❌ « {group} » n\'est pas un nom de groupe valide.',
+  'group.reservedName': '❌ « {group} » est réservé à l\'ensemble des pièces.',
+  'group.isRoomName': '❌ « {group} » désigne déjà la pièce {room}.',
+  'group.empty': '❌ Le groupe « {group} » doit contenir au moins une pièce.',
+  'group.saveFailed': '❌ Impossible d\'enregistrer le groupe « {group} ».',
+  'group.saved': '✅ Groupe « {group} » : {rooms}.',
+  'group.notFound': '❌ Il n\'y a pas de groupe « {group} ».',
+  'group.deleteFailed': '❌ Impossible de supprimer le groupe « {group} ».',
+  'group.deleted': '🗑️ Groupe « {group} » supprimé (ses pièces sont conservées).',
+  'group.fetchFailed': '❌ Impossible de récupérer les groupes de pièces.',
+  'group.none': 'Il n\'y a pas encore de groupe de pièces.',
+  'group.list': 'Groupes de pièces :',
+
+  // Températures et historique
+  'temperature.noData': '❌ Aucune donnée de température pour {room}.',
+  'temperature.current': '🌡️ Il fait {temperature} dans {room}{humidity} (consigne {target}).',
+  'temperature.humidity': ', {humidity} % d\'humidité',
+  'temperature.stale': ' ⚠️ La dernière mesure date de {time} : elle n\'est peut-être plus à jour.',
+  'temperature.noReading': 'ℹ️ Aucune mesure disponible pour {room} ; sa consigne est de {target}.',
+  'temperature.scheduleFailed': '❌ Impossible de planifier le changement pour {room}.',
+  'temperature.scheduled':
+    '⏳ La température de {room} passera à {temperature} à {time}.',
+  'temperature.updateFailed': '❌ Impossible de modifier la température de {room}.{reason}',
+  'temperature.set': '✅ La température de {room} est réglée sur {temperature}.',
+  'history.noneAt': 'ℹ️ Pas d\'historique de température pour {room} à ce moment-là.',
+  'history.at': '🕰️ Le {time}, {room} était à {temperature} (depuis le {since}).',
+  'history.noneInPeriod': 'ℹ️ Pas d\'historique de température pour {room} sur cette période.',
+  'history.stats':
+    '📈 {room} du {from} au {to} : moyenne {average}, min {min}, max {max}, dernière valeur {latest} ({samples} changements).',
+
+  // Changements planifiés
+  'schedule.fetchFailed': '❌ Impossible de récupérer les changements prévus.',
+  'schedule.none': 'ℹ️ Aucun changement prévu.',
+  'schedule.list': '⏳ Changements prévus :',
+  'schedule.item': '- [{id}] {room} → {temperature} le {time}{origin}',
+  'schedule.fromProgram': ' (programme)',
+  'schedule.cancelFailed': '❌ Impossible d\'annuler le changement {id}.',
+  'schedule.notFound': '❌ Aucun changement prévu avec l\'identifiant {id}.',
+  'schedule.cancelled': '🚫 Changement de {room} à {temperature} annulé.',
+  'schedule.invalidTime': '❌ La nouvelle heure doit être valide et dans le futur.',
+  'schedule.nothingToChange': '❌ Rien à modifier : indiquez une nouvelle heure ou température.',
+  'schedule.rescheduleFailed': '❌ Impossible de déplacer le changement {id}.',
+  'schedule.rescheduled':
+    '⏳ La température de {room} passera désormais à {temperature} le {time}.',
+  'schedule.modeItem': '- [{id}] passage en mode {mode} le {time}',
+  'schedule.modeCancelled': '🚫 Passage en mode {mode} annulé.',
+  'schedule.modeTemperature':
+    '❌ Ce changement modifie le mode du foyer : seule son heure peut être changée.',
+  'schedule.modeRescheduled': '⏳ Le foyer passera désormais en mode {mode} le {time}.',
+
+  // Programmes de chauffage
+  'program.everyDay': 'tous les jours',
+  'program.disabled': ' (désactivé)',
+  'program.paused': ' | en pause {periods}',
+  'program.createFailed': '❌ Impossible de créer le programme « {name} ».',
+  'program.created': '📅 Programme créé : {program}',
+  'program.fetchFailed': '❌ Impossible de récupérer les programmes de chauffage.',
+  'program.none': 'ℹ️ Aucun programme de chauffage pour le moment.',
+  'program.list': '📅 Programmes de chauffage :',
+  'program.updateFailed': '❌ Impossible de modifier le programme {id}.',
+  'program.notFound': '❌ Le programme {id} n\'existe pas.',
+  'program.updated': '✅ Programme modifié : {program}',
+  'program.deleteFailed': '❌ Impossible de supprimer le programme {id}.',
+  'program.deleted': '🗑️ Le programme « {name} » a été supprimé.',
+
+  // Limites et confirmations
+  'safety.invalid': '❌ {temperature} n\'est pas une température valide.',
+  'safety.outOfRange':
+    '❌ {temperature} est en dehors de la plage autorisée pour {room} ({min}–{max}).',
+  'safety.confirmTemperature': 'Voulez-vous vraiment régler {room} à {temperature} ?',
+  'safety.confirmStep':
+    'C\'est un écart de {difference} pour {room} (de {from} à {to}). Confirmez-vous ?',
+  'confirmation.prepareFailed': '❌ Impossible de préparer le changement pour {room}.',
+  'confirmation.required':
+    '⚠️ Confirmation requise : {reason}',
+  'pending.notFound': '❌ Aucune action en attente avec cet identifiant, ou elle a expiré.',
+  'pending.invalidDecision': '❌ decision doit valoir « accept » ou « reject ».',
+  'pending.rejected': '🚫 Annulé : {reason}',
+  'pending.acceptedEntry': '✅ Confirmé',
+  'pending.rejectedEntry': '🚫 Refusé',
+
+  'home.readOnly': '🔒 Vous avez un accès en lecture seule à {home} : rien n\'a été modifié.',
+  'home.forbidden': '❌ Vous n\'avez pas accès à ce foyer.',
+
+  // Modes du foyer
+  'mode.home': 'présence',
+  'mode.away': 'absence',
+  'mode.sleep': 'nuit',
+  'mode.vacation': 'vacances',
+  'mode.current': '🏡 Le foyer est en mode {mode}{until}.',
+  'mode.currentUntil': ' jusqu\'au {time}',
+  'mode.profiles': 'Consignes par mode :',
+  'mode.noProfiles': 'ℹ️ Aucune consigne n\'est encore définie pour les modes.',
+  'mode.switched': '🏡 Le foyer est maintenant en mode {mode}{until}.',
+  'mode.until': ', retour au mode {revertTo} le {time}',
+  'mode.applied': '- {room} → {temperature}',
+  'mode.roomFailed': '- ❌ {room} : {error}',
+  'mode.noProfile':
+    'ℹ️ Aucune pièce n\'a de consigne pour le mode {mode} : les températures sont inchangées.',
+  'mode.switchFailed': '❌ Impossible de passer le foyer en mode {mode}.',
+  'mode.invalidUntil': '❌ La fin du mode doit être une date valide dans le futur.',
+  'mode.fetchFailed': '❌ Impossible de lire le mode du foyer.',
+  'mode.profileSaved': '✅ En mode {mode}, {room} sera réglée à {temperature}.',
+  'mode.profileFailed': '❌ Impossible d\'enregistrer la consigne du mode {mode} pour {room}.',
+
+  // Météo extérieure
+  'weather.clear': 'ciel dégagé',
+  'weather.partlyCloudy': 'partiellement nuageux',
+  'weather.cloudy': 'couvert',
+  'weather.fog': 'brouillard',
+  'weather.drizzle': 'bruine',
+  'weather.rain': 'pluie',
+  'weather.showers': 'averses',
+  'weather.snow': 'neige',
+  'weather.thunderstorm': 'orage',
+  'weather.unknown': 'conditions inconnues',
+  'weather.noLocation': '📍 Aucune position n\'est définie pour ce foyer.',
+  'weather.fetchFailed': '❌ Impossible de récupérer la météo.',
+  'weather.invalidLocation':
+    '❌ Indiquez un lieu, ou une latitude (-90 à 90) et une longitude (-180 à 180).',
+  'weather.locationNotFound': '❌ Aucun lieu nommé "{place}" n\'a été trouvé.',
+  'weather.locationFailed': '❌ Impossible d\'enregistrer la position du foyer.',
+  'weather.locationSaved': '📍 Position du foyer : {location}.',
+  'weather.current': '🌦️ Dehors à {location} : {temperature}{feelsLike}, {condition}{humidity}{wind}.',
+  'weather.feelsLike': ' (ressenti {temperature})',
+  'weather.humidity': ', {humidity} % d\'humidité',
+  'weather.wind': ', vent {speed} km/h',
+  'weather.forecast': 'Prochaines {hours} h : entre {min} et {max}, jusqu\'à {rain} % de risque de pluie.',
+  'weather.hour': '- {time} : {temperature}, {condition}{rain}',
+  'weather.rainChance': ' ({chance} % de pluie)',
+  'weather.noForecast': 'ℹ️ Aucune prévision disponible.',
+  'weather.invalidPeriod': '❌ La période doit être donnée avec des dates valides.',
+  'weather.noWindow': 'ℹ️ Aucune prévision ne couvre cette période.',
+  'weather.adviceWindow': '{room}, {from} → {to} : {min} à {max} dehors (minimum à {time}).',
+  'weather.adviceRoom': 'Intérieur : {current}, consigne {target}.',
+  'weather.adviceRoomNoReading': 'Intérieur : pas de mesure, consigne {target}.',
+  'weather.adviceMode': 'Le foyer est en mode {mode}.',
+  'weather.adviceNotNeeded':
+    '➡️ Peu de chauffage nécessaire : il fera au moins {min} dehors, proche de la consigne de {target}.',
+  'weather.adviceFrost': '➡️ Gardez le chauffage : la nuit sera proche du gel ({min}).',
+  'weather.adviceOptional':
+    '➡️ La pièce est déjà au-dessus de sa consigne : le chauffage peut attendre, il reprendra sous {target}.',
+  'weather.adviceRecommended': '➡️ Chauffage conseillé pour tenir {target} : il fera jusqu\'à {min} dehors.',
+
+  // Règles d'automatisation
+  'rule.below': 'sous {value}',
+  'rule.above': 'au-dessus de {value}',
+  'rule.between': 'entre {above} et {below}',
+  'rule.triggerTemperature': 'quand la température de {room} passe {threshold}',
+  'rule.triggerHumidity': 'quand l\'humidité de {room} passe {threshold}',
+  'rule.triggerTime': 'à {time} ({days})',
+  'rule.triggerOutside': 'quand la température extérieure passe {threshold}',
+  'rule.conditionTemperature': 'si la température de {room} est {threshold}',
+  'rule.conditionHumidity': 'si l\'humidité de {room} est {threshold}',
+  'rule.conditionOutside': 'si la température extérieure est {threshold}',
+  'rule.conditionMode': 'si le foyer est en mode {modes}',
+  'rule.conditionTime': 'si entre {from} et {to} ({days})',
+  'rule.actionTemperature': 'régler {room} à {temperature}',
+  'rule.actionMode': 'passer en mode {mode}',
+  'rule.allRooms': 'toutes les pièces',
+  'rule.disabled': ' (désactivée)',
+  'rule.lastError': ' | dernière erreur : {error}',
+  'rule.createFailed': '❌ Impossible de créer la règle « {name} ».',
+  'rule.created': '⚡ Règle créée : {rule}',
+  'rule.fetchFailed': '❌ Impossible de récupérer les règles d\'automatisation.',
+  'rule.none': 'ℹ️ Aucune règle d\'automatisation pour l\'instant.',
+  'rule.list': '⚡ Règles d\'automatisation :',
+  'rule.updateFailed': '❌ Impossible de modifier la règle {id}.',
+  'rule.notFound': '❌ La règle {id} n\'existe pas.',
+  'rule.enabled': '✅ Règle « {name} » activée.',
+  'rule.disabledDone': '⏸️ Règle « {name} » désactivée.',
+  'rule.deleteFailed': '❌ Impossible de supprimer la règle {id}.',
+  'rule.deleted': '🗑️ La règle « {name} » a été supprimée.',
+  'rule.invalidAt': '❌ "at" doit être une date-heure ISO 8601 valide.',
+  'rule.dryRun': '🧪 Essai à blanc de « {name} » le {time} (rien n\'a été modifié) :',
+  'rule.met': 'vérifié',
+  'rule.notMet': 'non vérifié',
+  'rule.currently': 'actuellement {value}',
+  'rule.noReading': 'aucune mesure',
+  'rule.wouldFire': '⚡ La règle se déclencherait : {actions}.',
+  'rule.wouldNotFire': '💤 La règle ne se déclencherait pas.',
+  'rule.noteActive':
+    'ℹ️ Le seuil est déjà franchi : la règle ne se redéclenchera qu\'après le retour de la valeur.',
+  'rule.noteCooldown':
+    'ℹ️ La règle s\'est déclenchée le {time} : elle attend {minutes} minutes avant de se redéclencher.',
+
+  'audit.list': '🧾 Derniers changements (du plus récent au plus ancien) :',
+  'audit.none': 'ℹ️ Aucun changement enregistré.',
+  'audit.fetchFailed': '❌ Impossible de lire le journal des changements.',
+  'audit.actorYou': 'vous',
+  'audit.actorMember': 'le membre {id}',
+  'audit.actorScheduler': 'le planificateur (job {detail})',
+  'audit.actorDevice': 'l\'appareil {detail}',
+  'audit.actorRule': 'la règle {detail}',
+  'audit.actorSystem': 'l\'application',
+
+  'preferences.saved':
+    '✅ Préférences enregistrées : langue {language}, températures en {unit}, format {locale}, fuseau horaire {timeZone}.',
+
+  // Étapes affichées pendant le streaming
+  'tool.reading': 'Lecture de la température de {room}…',
+  'tool.setting': 'Réglage de {room} à {temperature}…',
+  'tool.scheduling': 'Planification de {room} à {temperature}…',
+  'tool.history': 'Consultation de l\'historique de {room}…',
+  'tool.creatingRoom': 'Création de la pièce {room}…',
+  'tool.listingRooms': 'Liste des pièces…',
+  'tool.renamingRoom': 'Renommage de {room} en {newName}…',
+  'tool.deletingRoom': 'Suppression de {room}…',
+  'tool.aliases': 'Mise à jour des alias…',
+  'tool.adjusting': 'Modification de {room} de {delta}…',
+  'tool.groups': 'Mise à jour des groupes de pièces…',
+  'tool.programs': 'Mise à jour des programmes de chauffage…',
+  'tool.checkingSchedules': 'Vérification des changements prévus…',
+  'tool.updatingSchedule': 'Modification du changement prévu…',
+  'tool.savingPreferences': 'Enregistrement des préférences…',
+  'tool.audit': 'Recherche de qui a changé quoi…',
+  'tool.readingMode': 'Lecture du mode du foyer…',
+  'tool.switchingMode': 'Passage en mode {mode}…',
+  'tool.modeProfile': 'Enregistrement de la consigne {mode} pour {room}…',
+  'tool.rules': 'Mise à jour des règles d\'automatisation…',
+  'tool.testingRule': 'Essai de la règle…',
+  'tool.weather': 'Consultation de la météo…',
+  'tool.heatingAdvice': 'Comparaison des prévisions avec {room}…',
+  'tool.location': 'Enregistrement de la position du foyer…',
+  'tool.running': 'Exécution de {tool}…',
+
+  'chat.serverError': 'Erreur serveur, veuillez réessayer plus tard.',
+  'chat.conversationNotFound': '❌ Conversation introuvable.',
+  'chat.emptyMessage': '❌ Le message est vide.',
+  'llm.offlineHelp':
+    '🤖 L\'assistant est hors ligne et ne comprend que des commandes simples comme « mets la cuisine à 21 », « température dans la chambre » ou « mets la chambre à 19 dans 10 minutes ».',
+
+  // Interface
+  'ui.chatTitle': 'Chatbot Météo Maison',
+  'ui.newConversation': 'Nouvelle conversation',
+  'ui.you': 'Vous',
+  'ui.bot': 'Bot',
+  'ui.send': 'Envoyer',
+  'ui.cancel': 'Annuler',
+  'ui.loading': 'Chargement...',
+  'ui.requestCancelled': '⏹️ Requête annulée.',
+  'ui.replyFailed': '❌ Erreur : Impossible de répondre.',
+  'ui.accept': 'Accepter',
+  'ui.reject': 'Refuser',
+  'ui.dashboard': 'Tableau de bord',
+  'ui.chatbot': 'Chatbot',
+  'ui.logout': 'Déconnexion',
+  'ui.language': 'Langue',
+  'ui.scheduledChanges': 'Changements prévus',
+  'ui.fromProgram': '(programme)',
+  'ui.setpoint': 'Consigne : {temperature}',
+  'ui.roomsLoadFailed': 'Impossible de charger les pièces.',
+  'ui.adjustFailed': 'Impossible de modifier la température.',
+  'ui.noRooms': 'Aucune pièce pour le moment. Demandez au chatbot d\'en créer une.',
+  'ui.login': 'Connexion',
+  'ui.loggingIn': 'Connexion...',
+  'ui.signUp': 'Inscription',
+  'ui.signingUp': 'Inscription...',
+  'ui.email': 'E-mail',
+  'ui.password': 'Mot de passe',
+  'ui.noAccount': 'Pas encore de compte ?',
+  'ui.haveAccount': 'Déjà un compte ?',
+  'ui.signupSuccess': 'Inscription réussie ! Vérifiez vos e-mails pour confirmer votre compte.',
+  'ui.home': 'Foyer',
+  'ui.readOnlyBadge': '(lecture seule)',
+  'ui.invitation': '✉️ Invitation à {home} ({role})',
+  'ui.decline': 'Décliner',
+  'ui.invite': 'Inviter',
+  'ui.inviteEmail': 'E-mail à inviter',
+  'ui.roleMember': 'Membre',
+  'ui.roleGuest': 'Invité (lecture seule)',
+  'ui.roleOwner': 'Propriétaire',
+  'ui.inviteSent': '✅ Invitation envoyée à {email}.',
+  'ui.inviteFailed': '❌ Impossible d\'envoyer l\'invitation.',
+  'ui.auditLog': 'Journal des changements',
+  'ui.auditLoadFailed': 'Impossible de charger le journal.',
+  'ui.auditWhen': 'Quand',
+  'ui.auditActor': 'Qui',
+  'ui.auditAction': 'Action',
+  'ui.auditRoom': 'Pièce',
+  'ui.auditChange': 'Avant → après',
+  'ui.auditReason': 'Demande',
+  'ui.auditAnyActor': 'Tout le monde',
+  'ui.auditAnyAction': 'Toutes les actions',
+  'ui.auditReset': 'Réinitialiser',
+  'ui.auditEmpty': 'Aucun changement ne correspond à ces filtres.',
+  'ui.humidity': '{humidity} % d\'humidité',
+  'ui.staleReading': 'Dernière mesure : {time}',
+  'ui.noReading': 'Aucune mesure',
+  'ui.mode': 'Mode',
+  'ui.modeSwitch': 'passage en mode {mode}',
+  'ui.modeUntil': 'jusqu\'au {time}',
+  'ui.outside': 'Dehors : {temperature}, {condition}',
+  'ui.outsideRange': 'Prochaines 12 h : {min} à {max}',
+  'ui.weatherNoLocation': 'Demandez au chatbot de définir la position du foyer pour voir la météo.',
+}
@@ -0,0 +1,45 @@
+import { en, type MessageKey } from '@/lib/i18n/en'
+import { fr } from '@/lib/i18n/fr'
+
+export type { MessageKey }
+
+export type Language = 'fr' | 'en'
+
+export const LANGUAGES: Language[] = ['fr', 'en']
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  fr: 'Français',
+  en: 'English',
+}
+
+export const DEFAULT_LANGUAGE: Language =
+  process.env.NEXT_PUBLIC_DEFAULT_LANGUAGE === 'en' ? 'en' : 'fr'
+
+const catalogues: Record<Language, Record<MessageKey, string>> = { fr, en }
+
+export type MessageParams = Record<string, string | number>
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language)
+}
+
+// ✅ Première langue prise en charge d'un en-tête Accept-Language ("fr-FR,fr;q=0.9,en;q=0.8")
+export function detectLanguage(acceptLanguage?: string | null): Language {
+  for (const part of (acceptLanguage ?? '').split(',')) {
+    const primary = part.split(';')[0].trim().split('-')[0].toLowerCase()
+    if (isLanguage(primary)) return primary
+  }
+  return DEFAULT_LANGUAGE
+}
+
+// ✅ Message traduit, avec les paramètres "{nom}" remplacés
+export function translate(
+  language: Language,
+  key: MessageKey,
+  params: MessageParams = {}
+): string {
+  const template = catalogues[language][key] ?? en[key]
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  )
+}
@@ -0,0 +1,44 @@
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from '@/lib/llm/types'
+
+// ✅ Utilise un second fournisseur quand le premier est indisponible (réseau, quota, clé invalide)
+export class FallbackProvider implements LLMProvider {
+  readonly kind: string
+
+  constructor(
+    private readonly primary: LLMProvider,
+    private readonly fallback: LLMProvider
+  ) {
+    this.kind = `${primary.kind}+${fallback.kind}`
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    // Des fragments déjà envoyés au client ne peuvent pas être repris : pas de relais après eux
+    let streamed = false
+    const onToken = request.onToken
+
+    try {
+      return await this.primary.complete({
+        ...request,
+        onToken: onToken
+          ? (content) => {
+              streamed = true
+              onToken(content)
+            }
+          : undefined,
+      })
+    } catch (error) {
+      // Une annulation par le client n'est pas une panne
+      if (request.signal?.aborted || streamed) throw error
+
+      console.warn(
+        `⚠️ LLM provider "${this.primary.kind}" unavailable, using "${this.fallback.kind}":`,
+        error
+      )
+      return await this.fallback.complete(request)
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { FallbackProvider } from '@/lib/llm/fallback'
+import { OpenAIProvider } from '@/lib/llm/openai'
+import { RuleBasedProvider } from '@/lib/llm/ruleBased'
+import type { LLMProvider } from '@/lib/llm/types'
+
+export type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from '@/lib/llm/types'
+export { parseIntents, type Intent } from '@/lib/llm/intentParser'
+
+const DEFAULT_MODEL = 'gpt-4-turbo'
+
+let override: LLMProvider | null = null
+
+// 🔁 Impose un fournisseur (réponses scriptées dans les tests) ; null revient à la configuration
+export function setLLMProvider(provider: LLMProvider | null) {
+  override = provider
+}
+
+// ✅ Fournisseur configuré par variables d'environnement :
+// LLM_PROVIDER = openai (défaut) | openai-compatible | rules, LLM_MODEL, LLM_BASE_URL, LLM_API_KEY,
+// LLM_FALLBACK = rules (défaut) | none
+export function createLLMProvider(
+  env: Record<string, string | undefined> = process.env
+): LLMProvider {
+  if (override) {
+    return override
+  }
+
+  const kind = env.LLM_PROVIDER || 'openai'
+  const rules = new RuleBasedProvider()
+
+  if (kind === 'rules') {
+    return rules
+  }
+
+  if (kind !== 'openai' && kind !== 'openai-compatible') {
+    throw new Error(`Unknown LLM provider "${kind}".`)
+  }
+
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY
+  const baseURL = kind === 'openai-compatible' ? env.LLM_BASE_URL : undefined
+
+  if (kind === 'openai-compatible' && !baseURL) {
+    throw new Error('LLM_BASE_URL is required for the openai-compatible provider.')
+  }
+
+  // Pas de clé OpenAI : on ne tente même pas l'appel
+  if (kind === 'openai' && !apiKey) {
+    console.warn('⚠️ No OpenAI API key configured, using the rule-based assistant.')
+    return rules
+  }
+
+  const provider = new OpenAIProvider({
+    model: env.LLM_MODEL || DEFAULT_MODEL,
+    apiKey,
+    baseURL,
+    parallelToolCalls: kind === 'openai',
+  })
+
+  return env.LLM_FALLBACK === 'none'
+    ? provider
+    : new FallbackProvider(provider, rules)
+}
@@ -0,0 +1,186 @@
+// Commandes reconnues sans modèle (anglais et français), traduites en appels d'outils
+export type Intent =
+  | { tool: 'get_temperature'; args: { room: string } }
+  | {
+      tool: 'set_temperature'
+      args: { room: string; temperature: number; delayMinutes?: number }
+    }
+  | { tool: 'set_temperature'; args: { room: string; delta: number } }
+
+const CLAUSE_SEPARATOR = /\s*(?:[,;]|\band\b|\bthen\b|\bet\b|\bpuis\b)\s+/i
+
+// "in 10 minutes", "dans 2 h"
+const DELAY = /\b(?:in|dans)\s+(\d+)\s*(minutes?|mins?|min|hours?|heures?|h)\b/i
+
+// "set kitchen to 21", "mets la cuisine à 21°", "bedroom to 19.5"
+const SET =
+  /^(?:please\s+)?(?:(?:set|put|change|make|turn|heat|mets?|mettre|r[eè]gle|r[ée]gler|passe|chauffe)\s+)?(?:the\s+temperature\s+(?:in|of)\s+|la\s+temp[ée]rature\s+(?:de|du|dans)\s+)?(.+?)\s+(?:to|at|à|a|sur)\s+(-?\d+(?:[.,]\d+)?)\s*(?:°\s*[cf]?|degrees?|degr[ée]s?)?$/i
+
+// "turn everything down by 2", "turn up the bedrooms by 1.5 degrees", "baisse tout de 2°", "monte le salon de 1"
+const ADJUST = [
+  /^(?:please\s+)?turn\s+(.+?)\s+(up|down)\s+by\s+(\d+(?:[.,]\d+)?)\s*(?:°\s*[cf]?|degrees?)?$/i,
+  /^(?:please\s+)?turn\s+(up|down)\s+(.+?)\s+by\s+(\d+(?:[.,]\d+)?)\s*(?:°\s*[cf]?|degrees?)?$/i,
+  /^(baisse|diminue|monte|augmente)r?\s+(.+?)\s+de\s+(\d+(?:[.,]\d+)?)\s*(?:°\s*[cf]?|degr[ée]s?)?$/i,
+]
+
+const DOWN_WORDS = /^(?:down|baisse|diminue)$/i
+
+// "everything", "partout", "toutes les pièces" → toutes les pièces du foyer
+const ALL_WORDS =
+  /^(?:all|all\s+rooms|everything|everywhere|the\s+whole\s+house|tout|partout|toute\s+la\s+maison|toutes\s+les\s+pi[eè]ces)$/i
+
+// "temperature in bedroom", "what's the temperature of the kitchen", "quelle température dans le salon"
+const GET = [
+  /\btemp(?:[ée]rature)?\b.*?\b(?:in|of|for|dans|de la|du|de|au)\s+(.+)$/i,
+  /\bhow\s+(?:warm|cold|hot)\s+is\s+(?:it\s+in\s+)?(.+)$/i,
+  /\bcombien\b.*?\bdans\s+(.+)$/i,
+  /^(.+?)\s+temp(?:erature)?$/i,
+]
+
+// "please set…", "…s'il te plaît" : formules de politesse retirées avant de reconnaître la commande
+const POLITE_PREFIX =
+  /^(?:please|kindly|(?:can|could)\s+you(?:\s+please)?|(?:peux|pourrais)[-\s]tu|stp)\s+/i
+const POLITE_SUFFIX =
+  /[\s,]+(?:please|thanks?|thank\s+you|stp|svp|merci|s['’]il\s+(?:te|vous)\s+pla[iî]t)$/i
+
+// "tell me the kitchen temperature", "what's the bedroom temperature" : verbes avant la pièce
+const LEADING_VERBS =
+  /^(?:(?:tell|show|give)\s+me|what(?:['’]s|\s+is)|what\s+about|check|read|dis[-\s]moi|donne[-\s]moi|montre[-\s]moi|quelle\s+est)\s+/i
+
+const LEADING_WORDS =
+  /^(?:(?:the|my|in|la|le|les|du|de|des|ma|mon|mes|dans|au)\s+|l['’]\s*)/i
+
+// "my room", "ma pièce" : aucune pièce précise, mieux vaut laisser l'utilisateur la nommer
+const GENERIC_ROOM = /^(?:room|pi[eè]ce)$/i
+
+// "set the living room" (and the kitchen to 20) : le verbe d'un changement dont la valeur suit
+const CHANGE_VERB =
+  /^((?:turn\s+(?:up|down)|set|put|change|make|turn|heat|mets?|mettre|r[eè]gle|r[ée]gler|passe|chauffe|(?:baisse|diminue|monte|augmente)r?))\s+(.+)$/i
+
+function cleanRoom(raw: string): string {
+  let room = raw.trim()
+  if (ALL_WORDS.test(room)) return 'all'
+
+  // "all bedrooms", "toutes les chambres" : le groupe lui-même
+  room = room.replace(LEADING_VERBS, '')
+  room = room.replace(/^(?:all(?:\s+the)?|toutes\s+les|tous\s+les)\s+/i, '')
+  while (LEADING_WORDS.test(room)) {
+    room = room.replace(LEADING_WORDS, '')
+  }
+  room = room.trim()
+  return GENERIC_ROOM.test(room) ? '' : room
+}
+
+function stripPoliteness(clause: string): string {
+  let rest = clause
+  while (POLITE_PREFIX.test(rest) || POLITE_SUFFIX.test(rest)) {
+    rest = rest.replace(POLITE_PREFIX, '').replace(POLITE_SUFFIX, '')
+  }
+  return rest.trim()
+}
+
+function parseAdjustment(clause: string): Intent | null {
+  for (const [index, pattern] of ADJUST.entries()) {
+    const match = clause.match(pattern)
+    if (!match) continue
+
+    // Le sens précède la pièce dans "turn up the bedroom by 2" et en français
+    const [direction, target] = index === 0 ? [match[2], match[1]] : [match[1], match[2]]
+    const room = cleanRoom(target)
+    if (!room) return null
+
+    const amount = Number(match[3].replace(',', '.'))
+    return {
+      tool: 'set_temperature',
+      args: { room, delta: DOWN_WORDS.test(direction) ? -amount : amount },
+    }
+  }
+  return null
+}
+
+function parseDelay(clause: string): { rest: string; delayMinutes?: number } {
+  const match = clause.match(DELAY)
+  if (!match) return { rest: clause }
+
+  const amount = Number(match[1])
+  const delayMinutes = /^h/i.test(match[2]) ? amount * 60 : amount
+  return {
+    rest: clause.replace(DELAY, ' ').replace(/\s+/g, ' ').trim(),
+    delayMinutes,
+  }
+}
+
+function parseClause(clause: string): Intent | null {
+  const { rest, delayMinutes } = parseDelay(stripPoliteness(clause))
+
+  const adjustment = parseAdjustment(rest)
+  if (adjustment) return adjustment
+
+  const set = rest.match(SET)
+  if (set) {
+    const room = cleanRoom(set[1])
+    if (!room) return null
+    return {
+      tool: 'set_temperature',
+      args: {
+        room,
+        temperature: Number(set[2].replace(',', '.')),
+        ...(delayMinutes ? { delayMinutes } : {}),
+      },
+    }
+  }
+
+  for (const pattern of GET) {
+    const get = rest.match(pattern)
+    if (get) {
+      const room = cleanRoom(get[1])
+      return room ? { tool: 'get_temperature', args: { room } } : null
+    }
+  }
+
+  return null
+}
+
+// ✅ Découpe un message en commandes ("set kitchen to 21 and bedroom to 19 in 10 minutes")
+// "mets le salon et la cuisine à 20" : les pièces sans valeur reçoivent le changement qui suit
+export function parseIntents(text: string): Intent[] {
+  const intents: Intent[] = []
+  let pending: { verb: string; rooms: string[] } | null = null
+
+  const clauses = text.trim().replace(/[?!.]+$/, '').split(CLAUSE_SEPARATOR)
+  for (const raw of clauses) {
+    const clause = stripPoliteness(raw.trim())
+    const verb = clause.match(CHANGE_VERB)
+
+    // La suite d'une énumération ("la cuisine à 20") reprend le verbe de son début
+    if (pending && !verb) {
+      const intent = parseClause(`${pending.verb} ${clause}`)
+      if (intent?.tool === 'set_temperature') {
+        // Une pièce non reconnue ("my room") : aucune pièce de la phrase n'est modifiée
+        if (!pending.rooms.includes('')) {
+          for (const room of pending.rooms) {
+            intents.push({ ...intent, args: { ...intent.args, room } } as Intent)
+          }
+          intents.push(intent)
+        }
+        pending = null
+        continue
+      }
+      if (!/\d/.test(clause)) {
+        pending.rooms.push(cleanRoom(clause))
+        continue
+      }
+    }
+
+    const intent = parseClause(clause)
+    if (intent) {
+      intents.push(intent)
+      pending = null
+    } else if (verb && !/\d/.test(clause)) {
+      pending = { verb: verb[1], rooms: [cleanRoom(verb[2])] }
+    } else {
+      pending = null
+    }
+  }
+  return intents
+}
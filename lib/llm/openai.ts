@@ -0,0 +1,81 @@
+import OpenAI from 'openai'
+import type { ChatCompletionMessageToolCall } from 'openai/resources/chat/completions'
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from '@/lib/llm/types'
+
+export interface OpenAIProviderConfig {
+  model: string
+  apiKey?: string
+  // Endpoint compatible (Ollama, LM Studio, vLLM…) : http://localhost:11434/v1
+  baseURL?: string
+  // Certains endpoints compatibles refusent "parallel_tool_calls"
+  parallelToolCalls?: boolean
+}
+
+// ✅ Modèle OpenAI ou servi par une API compatible, en streaming
+export class OpenAIProvider implements LLMProvider {
+  readonly kind: string
+  private readonly client: OpenAI
+
+  constructor(private readonly config: OpenAIProviderConfig) {
+    this.kind = config.baseURL ? 'openai-compatible' : 'openai'
+    this.client = new OpenAI({
+      // Les serveurs locaux n'exigent généralement pas de clé
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL,
+    })
+  }
+
+  async complete({
+    messages,
+    tools,
+    signal,
+    onToken,
+  }: CompletionRequest): Promise<CompletionResult> {
+    const hasTools = Boolean(tools?.length)
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.config.model,
+        messages,
+        ...(hasTools ? { tools } : {}),
+        ...(hasTools && this.config.parallelToolCalls !== false
+          ? { parallel_tool_calls: true }
+          : {}),
+        stream: true,
+      },
+      { signal }
+    )
+
+    let content = ''
+    const toolCalls: ChatCompletionMessageToolCall[] = []
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta
+      if (!delta) continue
+
+      if (delta.content) {
+        content += delta.content
+        onToken?.(delta.content)
+      }
+
+      // Les appels d'outils arrivent par fragments, indexés par position
+      for (const part of delta.tool_calls ?? []) {
+        const call = (toolCalls[part.index] ??= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        })
+        if (part.id) call.id = part.id
+        if (part.function?.name) call.function.name += part.function.name
+        if (part.function?.arguments) {
+          call.function.arguments += part.function.arguments
+        }
+      }
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean) }
+  }
+}
@@ -0,0 +1,70 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import { DEFAULT_LANGUAGE, translate } from '@/lib/i18n'
+import { parseIntents } from '@/lib/llm/intentParser'
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from '@/lib/llm/types'
+
+// Longueur gardée quand on demande un texte libre (résumé) sans modèle
+const MAX_FREE_TEXT_LENGTH = 1000
+
+function textOf(message: ChatCompletionMessageParam | undefined): string {
+  if (!message?.content) return ''
+  if (typeof message.content === 'string') return message.content
+  return message.content
+    .map((part) => ('text' in part ? part.text : ''))
+    .join('')
+}
+
+// ✅ "Modèle" déterministe hors ligne : commandes simples → appels d'outils, puis résultats des outils en réponse
+export class RuleBasedProvider implements LLMProvider {
+  readonly kind = 'rules'
+
+  async complete({
+    messages,
+    tools,
+    onToken,
+    language = DEFAULT_LANGUAGE,
+  }: CompletionRequest): Promise<CompletionResult> {
+    const lastUser = messages.findLastIndex((message) => message.role === 'user')
+    const userText = textOf(messages[lastUser])
+
+    const reply = (content: string): CompletionResult => {
+      if (content) onToken?.(content)
+      return { content, toolCalls: [] }
+    }
+
+    // Sans outils (résumé de conversation) : on garde la fin du texte fourni
+    if (!tools?.length) {
+      return reply(userText.slice(-MAX_FREE_TEXT_LENGTH))
+    }
+
+    // Les outils ont déjà répondu : leurs résultats (déjà rendus) forment la réponse
+    const toolResults = messages
+      .slice(lastUser + 1)
+      .filter((message) => message.role === 'tool')
+    if (toolResults.length > 0) {
+      return reply(toolResults.map(textOf).join('\n'))
+    }
+
+    const available = new Set(tools.map((tool) => tool.function.name))
+    const intents = parseIntents(userText).filter((intent) =>
+      available.has(intent.tool)
+    )
+
+    if (intents.length === 0) {
+      return reply(translate(language, 'llm.offlineHelp'))
+    }
+
+    return {
+      content: '',
+      toolCalls: intents.map((intent, index) => ({
+        id: `rule_${index}`,
+        type: 'function',
+        function: { name: intent.tool, arguments: JSON.stringify(intent.args) },
+      })),
+    }
+  }
+}
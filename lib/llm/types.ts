@@ -0,0 +1,28 @@
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions'
+import type { Language } from '@/lib/i18n'
+
+// Le format de messages d'OpenAI sert de format commun à tous les fournisseurs
+export interface CompletionRequest {
+  messages: ChatCompletionMessageParam[]
+  tools?: ChatCompletionTool[]
+  signal?: AbortSignal
+  // Appelé pour chaque fragment de texte, au fil de la génération
+  onToken?: (content: string) => void
+  // Langue de l'utilisateur, pour les fournisseurs qui rédigent eux-mêmes leurs réponses
+  language?: Language
+}
+
+export interface CompletionResult {
+  content: string
+  toolCalls: ChatCompletionMessageToolCall[]
+}
+
+// ✅ Interface commune à tous les modèles (OpenAI, endpoint compatible, règles hors ligne)
+export interface LLMProvider {
+  readonly kind: string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+}
@@ -0,0 +1,439 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import {
+  createWeatherProvider,
+  type WeatherCondition,
+  type WeatherConditions,
+  type WeatherLocation,
+  type WeatherReport,
+} from '@/lib/weather'
+import { resolveRoom, unknownRoomMessage } from '@/lib/rooms'
+import { readRoomClimate } from '@/lib/temperature'
+import { getHomeMode, modeLabel, PROGRAM_PAUSING_MODES } from '@/lib/homeModes'
+import { DEFAULT_TIME_ZONE, getUserTimeZone } from '@/lib/preferences'
+import { toWallClock } from '@/lib/timeZone'
+import { recordAudit } from '@/lib/audit'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { HomeScope } from '@/lib/homes'
+import type { MessageKey } from '@/lib/i18n'
+
+// Durée pendant laquelle un relevé en cache est réutilisé
+const DEFAULT_CACHE_MINUTES = 15
+const CACHE_TTL_MS =
+  (Number(process.env.WEATHER_CACHE_MINUTES) > 0
+    ? Number(process.env.WEATHER_CACHE_MINUTES)
+    : DEFAULT_CACHE_MINUTES) *
+  60 *
+  1000
+
+// Prévisions demandées à chaque relevé (les outils n'en lisent qu'une partie)
+const FORECAST_HOURS = 48
+
+// "Ce soir" pour le conseil de chauffage : de 18 h à 7 h, heure locale
+const NIGHT_START_HOUR = 18
+const NIGHT_END_HOUR = 7
+
+// Minimum extérieur à moins de MILD_MARGIN de la consigne : le chauffage ne tournera presque pas
+const MILD_MARGIN = 2
+// Minimum extérieur sous ce seuil : nuit proche du gel
+const FROST_THRESHOLD = 3
+
+const CONDITION_KEYS: Record<WeatherCondition, MessageKey> = {
+  clear: 'weather.clear',
+  partly_cloudy: 'weather.partlyCloudy',
+  cloudy: 'weather.cloudy',
+  fog: 'weather.fog',
+  drizzle: 'weather.drizzle',
+  rain: 'weather.rain',
+  showers: 'weather.showers',
+  snow: 'weather.snow',
+  thunderstorm: 'weather.thunderstorm',
+  unknown: 'weather.unknown',
+}
+
+// Le foyer n'a pas encore de position : la météo est indisponible
+export class MissingLocationError extends Error {
+  constructor() {
+    super('The home has no location.')
+    this.name = 'MissingLocationError'
+  }
+}
+
+export function isValidLocation(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  )
+}
+
+export async function getHomeLocation(scope: HomeScope): Promise<WeatherLocation | null> {
+  const { data, error } = await supabaseServer
+    .from('homes')
+    .select('latitude, longitude, location_name')
+    .eq('id', scope.homeId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Error fetching home location: ${error?.message}`)
+  }
+
+  return data.latitude === null || data.longitude === null
+    ? null
+    : { latitude: data.latitude, longitude: data.longitude, name: data.location_name }
+}
+
+// ✅ Enregistre la position du foyer (le relevé en cache, d'une autre position, est oublié)
+export async function saveHomeLocation(scope: HomeScope, location: WeatherLocation) {
+  const previous = await getHomeLocation(scope)
+
+  const { error } = await supabaseServer
+    .from('homes')
+    .update({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      location_name: location.name ?? null,
+    })
+    .eq('id', scope.homeId)
+
+  if (error) {
+    throw new Error(`Error saving home location: ${error.message}`)
+  }
+
+  const { error: cacheError } = await supabaseServer
+    .from('weather_cache')
+    .delete()
+    .eq('home_id', scope.homeId)
+
+  if (cacheError) {
+    console.error('❌ Failed to clear the weather cache:', cacheError)
+  }
+
+  await recordAudit(scope, {
+    action: 'home.location',
+    previous: previous ? { ...previous } : null,
+    next: { ...location },
+  })
+}
+
+// Prévisions à partir de l'heure en cours
+function fromCurrentHour(report: WeatherReport, now: Date): WeatherReport {
+  const hourAgo = now.getTime() - 60 * 60 * 1000
+  return {
+    ...report,
+    hourly: report.hourly.filter((point) => new Date(point.time).getTime() > hourAgo),
+  }
+}
+
+// ✅ Météo du foyer : relevé en cache s'il est récent, sinon la source configurée
+// Si la source échoue, un relevé plus ancien de la même position est utilisé plutôt que rien
+export async function getWeather(
+  scope: HomeScope,
+  now: Date = new Date()
+): Promise<WeatherReport> {
+  const location = await getHomeLocation(scope)
+  if (!location) {
+    throw new MissingLocationError()
+  }
+
+  const provider = createWeatherProvider()
+
+  const { data: cached, error: cacheError } = await supabaseServer
+    .from('weather_cache')
+    .select('provider, latitude, longitude, report, fetched_at')
+    .eq('home_id', scope.homeId)
+    .maybeSingle()
+
+  if (cacheError) {
+    console.error('❌ Error reading the weather cache:', cacheError)
+  }
+
+  const reusable =
+    cached &&
+    cached.provider === provider.kind &&
+    cached.latitude === location.latitude &&
+    cached.longitude === location.longitude
+      ? cached
+      : null
+
+  if (reusable && now.getTime() - new Date(reusable.fetched_at).getTime() < CACHE_TTL_MS) {
+    return fromCurrentHour(reusable.report, now)
+  }
+
+  let report: WeatherReport
+  try {
+    report = await provider.getWeather(location, FORECAST_HOURS)
+  } catch (fetchError) {
+    if (!reusable) throw fetchError
+    console.error('❌ Weather provider failed, using the cached report:', fetchError)
+    return fromCurrentHour(reusable.report, now)
+  }
+
+  const { error } = await supabaseServer.from('weather_cache').upsert(
+    [
+      {
+        home_id: scope.homeId,
+        provider: provider.kind,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        report,
+        fetched_at: report.fetchedAt,
+      },
+    ],
+    { onConflict: 'home_id' }
+  )
+
+  if (error) {
+    console.error('❌ Error caching the weather report:', error)
+  }
+
+  return fromCurrentHour(report, now)
+}
+
+// Température extérieure actuelle, ou null si inconnue (pas de position, source indisponible)
+export async function getOutsideTemperature(scope: HomeScope): Promise<number | null> {
+  try {
+    return (await getWeather(scope)).current.temperature
+  } catch (weatherError) {
+    if (!(weatherError instanceof MissingLocationError)) {
+      console.error(`❌ Failed to fetch the weather of home ${scope.homeId}:`, weatherError)
+    }
+    return null
+  }
+}
+
+// --- Outils du chat ---
+
+function locationLabel(location: WeatherLocation): string {
+  return location.name ?? `${location.latitude.toFixed(3)}, ${location.longitude.toFixed(3)}`
+}
+
+// Message renvoyé au modèle quand la météo n'est pas disponible
+function weatherError(error: unknown, format: Formatter): string {
+  if (error instanceof MissingLocationError) {
+    return `${format.t('weather.noLocation')} Ask the user where the home is, then call "set_home_location".`
+  }
+  console.error('❌ Error fetching the weather:', error)
+  return format.t('weather.fetchFailed')
+}
+
+// ✅ Position du foyer depuis le chat : nom de lieu (géocodé) ou coordonnées
+export async function updateHomeLocation(
+  scope: HomeScope,
+  { place, latitude, longitude }: { place?: string; latitude?: number; longitude?: number },
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let location: WeatherLocation | null
+  if (latitude !== undefined || longitude !== undefined) {
+    if (!isValidLocation(latitude, longitude)) {
+      return format.t('weather.invalidLocation')
+    }
+    location = { latitude: latitude!, longitude: longitude!, name: place?.trim() || null }
+  } else if (place?.trim()) {
+    try {
+      location = await createWeatherProvider().findLocation(place.trim())
+    } catch (searchError) {
+      console.error('❌ Error looking up a place:', searchError)
+      return format.t('weather.locationFailed')
+    }
+    if (!location) {
+      return format.t('weather.locationNotFound', { place })
+    }
+  } else {
+    return format.t('weather.invalidLocation')
+  }
+
+  try {
+    await saveHomeLocation(scope, location)
+  } catch (saveError) {
+    console.error('❌', saveError)
+    return format.t('weather.locationFailed')
+  }
+
+  return format.t('weather.locationSaved', { location: locationLabel(location) })
+}
+
+function describeConditions(point: WeatherConditions, format: Formatter): string {
+  return format.t(CONDITION_KEYS[point.condition])
+}
+
+// ✅ Conditions actuelles et prévisions des prochaines heures
+export async function describeWeather(
+  scope: HomeScope,
+  hours = 12,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let report: WeatherReport
+  try {
+    report = await getWeather(scope)
+  } catch (error) {
+    return weatherError(error, format)
+  }
+
+  const { current } = report
+  const lines = [
+    format.t('weather.current', {
+      location: locationLabel(report.location),
+      temperature: format.temperature(current.temperature),
+      feelsLike:
+        current.apparentTemperature !== null
+          ? format.t('weather.feelsLike', {
+              temperature: format.temperature(current.apparentTemperature),
+            })
+          : '',
+      condition: describeConditions(current, format),
+      humidity:
+        current.humidity !== null
+          ? format.t('weather.humidity', { humidity: Math.round(current.humidity) })
+          : '',
+      wind:
+        current.windSpeed !== null
+          ? format.t('weather.wind', { speed: Math.round(current.windSpeed) })
+          : '',
+    }),
+  ]
+
+  const forecast = report.hourly.slice(0, Math.max(1, Math.min(hours, FORECAST_HOURS)))
+  if (forecast.length === 0) {
+    lines.push(format.t('weather.noForecast'))
+    return lines.join('\n')
+  }
+
+  const temperatures = forecast.map((point) => point.temperature)
+  lines.push(
+    format.t('weather.forecast', {
+      hours: forecast.length,
+      min: format.temperature(Math.min(...temperatures)),
+      max: format.temperature(Math.max(...temperatures)),
+      rain: Math.max(0, ...forecast.map((point) => point.precipitationProbability ?? 0)),
+    })
+  )
+
+  // Un point toutes les 3 heures suffit au modèle pour décrire la tendance
+  for (const point of forecast.filter((_, index) => index % 3 === 0)) {
+    lines.push(
+      format.t('weather.hour', {
+        time: format.time(point.time),
+        temperature: format.temperature(point.temperature),
+        condition: describeConditions(point, format),
+        rain: point.precipitationProbability
+          ? format.t('weather.rainChance', { chance: point.precipitationProbability })
+          : '',
+      })
+    )
+  }
+
+  return lines.join('\n')
+}
+
+// "Ce soir" : première suite d'heures de nuit (heure locale) à partir de maintenant
+function tonight(points: WeatherConditions[], timeZone: string): WeatherConditions[] {
+  const night: WeatherConditions[] = []
+  for (const point of points) {
+    const { hour } = toWallClock(new Date(point.time), timeZone)
+    if (hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR) {
+      night.push(point)
+    } else if (night.length > 0) {
+      break
+    }
+  }
+  return night
+}
+
+// ✅ "Faut-il chauffer le salon ce soir ?" : prévisions de la période comparées à la pièce
+// La conclusion est indicative ; le modèle la reformule avec les chiffres
+export async function adviseHeating(
+  scope: HomeScope,
+  roomName: string,
+  period: { from?: string; to?: string } = {},
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, roomName)
+  if (resolution.room === null) {
+    return unknownRoomMessage(roomName, resolution.suggestions, format)
+  }
+  const room = resolution.room
+
+  const from = period.from ? new Date(period.from) : null
+  const to = period.to ? new Date(period.to) : null
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    return format.t('weather.invalidPeriod')
+  }
+
+  let report: WeatherReport
+  try {
+    report = await getWeather(scope)
+  } catch (error) {
+    return weatherError(error, format)
+  }
+
+  const timeZone = scope.userId ? await getUserTimeZone(scope.userId) : DEFAULT_TIME_ZONE
+  const window =
+    from || to
+      ? report.hourly.filter((point) => {
+          const time = new Date(point.time).getTime()
+          return (
+            (!from || time > from.getTime() - 60 * 60 * 1000) && (!to || time <= to.getTime())
+          )
+        })
+      : tonight(report.hourly, timeZone)
+
+  if (window.length === 0) {
+    return format.t('weather.noWindow')
+  }
+
+  const { data: row, error } = await supabaseServer
+    .from('room_temperatures')
+    .select('temperature, measured_temperature, measured_humidity, measured_at')
+    .eq('home_id', scope.homeId)
+    .eq('room', room)
+    .single()
+
+  if (error || !row) {
+    return format.t('temperature.noData', { room })
+  }
+
+  const [climate, { mode }] = await Promise.all([
+    readRoomClimate(scope, room, row),
+    getHomeMode(scope),
+  ])
+
+  const coldest = window.reduce((min, point) => (point.temperature < min.temperature ? point : min))
+  const warmest = Math.max(...window.map((point) => point.temperature))
+  const target = row.temperature
+  const inside = climate?.temperature ?? null
+
+  const lines = [
+    format.t('weather.adviceWindow', {
+      room,
+      from: format.dateTime(window[0].time),
+      to: format.dateTime(window[window.length - 1].time),
+      min: format.temperature(coldest.temperature),
+      max: format.temperature(warmest),
+      time: format.time(coldest.time),
+    }),
+    inside !== null
+      ? format.t('weather.adviceRoom', {
+          current: format.temperature(inside),
+          target: format.temperature(target),
+        })
+      : format.t('weather.adviceRoomNoReading', { target: format.temperature(target) }),
+  ]
+
+  if (PROGRAM_PAUSING_MODES.includes(mode)) {
+    lines.push(format.t('weather.adviceMode', { mode: modeLabel(mode, format) }))
+  }
+
+  const values = { target: format.temperature(target), min: format.temperature(coldest.temperature) }
+  if (coldest.temperature >= target - MILD_MARGIN) {
+    lines.push(format.t('weather.adviceNotNeeded', values))
+  } else if (coldest.temperature < FROST_THRESHOLD) {
+    lines.push(format.t('weather.adviceFrost', values))
+  } else if (inside !== null && inside >= target + 1) {
+    lines.push(format.t('weather.adviceOptional', values))
+  } else {
+    lines.push(format.t('weather.adviceRecommended', values))
+  }
+
+  return lines.join('\n')
+}
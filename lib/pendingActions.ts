@@ -0,0 +1,108 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+
+// Durée pendant laquelle une action peut être acceptée
+const PENDING_ACTION_TTL_MS = 10 * 60 * 1000
+
+// Action sensible proposée par le modèle, en attente d'acceptation par l'utilisateur
+export interface PendingAction {
+  id: string
+  tool: string
+  args: Record<string, unknown>
+  reason: string
+  expires_at: string
+}
+
+export type PendingActionStatus = 'pending' | 'accepted' | 'rejected' | 'expired'
+
+export type StoredPendingAction = Omit<Tables<'pending_actions'>, 'created_at'>
+
+// L'action est rattachée au foyer actif au moment de la demande
+export async function createPendingAction(
+  scope: HomeScope & { userId: string },
+  conversationId: string | null,
+  tool: string,
+  args: Record<string, unknown>,
+  reason: string
+): Promise<PendingAction | null> {
+  const { data, error } = await supabaseServer
+    .from('pending_actions')
+    .insert([
+      {
+        home_id: scope.homeId,
+        user_id: scope.userId,
+        conversation_id: conversationId,
+        tool,
+        args,
+        reason,
+        status: 'pending',
+        expires_at: new Date(Date.now() + PENDING_ACTION_TTL_MS).toISOString(),
+      },
+    ])
+    .select('id, tool, args, reason, expires_at')
+    .single()
+
+  if (error || !data) {
+    console.error('❌ Error creating pending action:', error)
+    return null
+  }
+
+  return data
+}
+
+// Action encore en attente et non expirée de l'utilisateur ; null sinon
+export async function getPendingAction(
+  userId: string,
+  actionId: string
+): Promise<StoredPendingAction | null> {
+  const { data, error } = await supabaseServer
+    .from('pending_actions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('id', actionId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) {
+    throw new Error(`Error loading pending action: ${error.message}`)
+  }
+
+  return data?.[0] ?? null
+}
+
+// ✅ Passe une action en attente à "accepted"/"rejected" ; null si introuvable, déjà traitée ou expirée
+export async function settlePendingAction(
+  userId: string,
+  actionId: string,
+  decision: 'accept' | 'reject'
+): Promise<StoredPendingAction | null> {
+  const { data, error } = await supabaseServer
+    .from('pending_actions')
+    .update({ status: decision === 'accept' ? 'accepted' : 'rejected' })
+    .eq('user_id', userId)
+    .eq('id', actionId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select('*')
+
+  if (error) {
+    throw new Error(`Error settling pending action: ${error.message}`)
+  }
+
+  return data?.[0] ?? null
+}
+
+// 🔁 Remet en attente une action acceptée dont l'exécution a échoué, pour pouvoir la réessayer
+export async function reopenPendingAction(userId: string, actionId: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from('pending_actions')
+    .update({ status: 'pending' })
+    .eq('user_id', userId)
+    .eq('id', actionId)
+    .eq('status', 'accepted')
+
+  if (error) {
+    console.error('❌ Error reopening pending action:', error)
+  }
+}
@@ -0,0 +1,159 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import type { Tables, TablesInsert } from '@/lib/database'
+import { isValidTimeZone } from '@/lib/timeZone'
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_NAMES,
+  isLanguage,
+  translate,
+  type Language,
+} from '@/lib/i18n'
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit'
+
+// Préférences d'affichage : les valeurs stockées restent en °C et en UTC
+export interface UserPreferences {
+  language: Language
+  temperatureUnit: TemperatureUnit
+  locale: string
+  timeZone: string
+}
+
+export const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || 'Europe/Paris'
+
+// Format des dates et nombres par défaut pour chaque langue
+const DEFAULT_LOCALES: Record<Language, string> = {
+  fr: 'fr-FR',
+  en: 'en-US',
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  language: DEFAULT_LANGUAGE,
+  temperatureUnit:
+    process.env.DEFAULT_TEMPERATURE_UNIT === 'fahrenheit' ? 'fahrenheit' : 'celsius',
+  locale: DEFAULT_LOCALES[DEFAULT_LANGUAGE],
+  timeZone: DEFAULT_TIME_ZONE,
+}
+
+export function isTemperatureUnit(value: unknown): value is TemperatureUnit {
+  return value === 'celsius' || value === 'fahrenheit'
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0
+  } catch {
+    return false
+  }
+}
+
+type PreferencesRow = Pick<
+  Tables<'user_preferences'>,
+  'language' | 'temperature_unit' | 'locale' | 'time_zone'
+>
+
+// Valeurs invalides ou absentes → langue détectée (navigateur) puis valeurs par défaut
+function fromRow(
+  row: PreferencesRow | null,
+  detectedLanguage: Language
+): UserPreferences {
+  const language = isLanguage(row?.language) ? row.language : detectedLanguage
+
+  return {
+    language,
+    temperatureUnit: isTemperatureUnit(row?.temperature_unit)
+      ? row.temperature_unit
+      : DEFAULT_PREFERENCES.temperatureUnit,
+    locale:
+      row?.locale && isValidLocale(row.locale)
+        ? row.locale
+        : DEFAULT_LOCALES[language],
+    timeZone:
+      row?.time_zone && isValidTimeZone(row.time_zone)
+        ? row.time_zone
+        : DEFAULT_PREFERENCES.timeZone,
+  }
+}
+
+// ✅ Préférences de l'utilisateur (table "user_preferences"), sinon celles par défaut
+export async function getUserPreferences(
+  userId: string,
+  detectedLanguage: Language = DEFAULT_LANGUAGE
+): Promise<UserPreferences> {
+  const { data, error } = await supabaseServer
+    .from('user_preferences')
+    .select('language, temperature_unit, locale, time_zone')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Error fetching user preferences:', error)
+  }
+
+  return fromRow(data, detectedLanguage)
+}
+
+// ✅ Fuseau horaire de l'utilisateur
+export async function getUserTimeZone(userId: string): Promise<string> {
+  return (await getUserPreferences(userId)).timeZone
+}
+
+// ✅ Met à jour une partie des préférences (lève une erreur si une valeur est invalide)
+// detectedLanguage : langue du navigateur, gardée tant que l'utilisateur n'en a pas choisi une
+export async function saveUserPreferences(
+  userId: string,
+  changes: Partial<UserPreferences>,
+  detectedLanguage: Language = DEFAULT_LANGUAGE
+): Promise<UserPreferences> {
+  const { language, temperatureUnit, locale, timeZone } = changes
+
+  if (language !== undefined && !isLanguage(language)) {
+    throw new Error(`Unsupported language "${language}".`)
+  }
+  if (temperatureUnit !== undefined && !isTemperatureUnit(temperatureUnit)) {
+    throw new Error(`Unknown temperature unit "${temperatureUnit}".`)
+  }
+  if (locale !== undefined && !isValidLocale(locale)) {
+    throw new Error(`Unknown locale "${locale}".`)
+  }
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}".`)
+  }
+
+  // Seules les valeurs fournies sont enregistrées : les autres suivent la langue/les défauts
+  const row: TablesInsert<'user_preferences'> = { user_id: userId }
+  if (language !== undefined) row.language = language
+  if (temperatureUnit !== undefined) row.temperature_unit = temperatureUnit
+  if (locale !== undefined) row.locale = locale
+  if (timeZone !== undefined) row.time_zone = timeZone
+
+  const { error } = await supabaseServer
+    .from('user_preferences')
+    .upsert([row], { onConflict: 'user_id' })
+
+  if (error) {
+    throw new Error(`Error saving user preferences: ${error.message}`)
+  }
+
+  return await getUserPreferences(userId, detectedLanguage)
+}
+
+export async function updatePreferences(
+  userId: string,
+  changes: Partial<UserPreferences>,
+  detectedLanguage: Language = DEFAULT_LANGUAGE
+): Promise<string> {
+  try {
+    const preferences = await saveUserPreferences(userId, changes, detectedLanguage)
+    // Réponse dans la nouvelle langue
+    return translate(preferences.language, 'preferences.saved', {
+      language: LANGUAGE_NAMES[preferences.language],
+      unit: preferences.temperatureUnit === 'fahrenheit' ? '°F' : '°C',
+      locale: preferences.locale,
+      timeZone: preferences.timeZone,
+    })
+  } catch (error) {
+    console.error('❌', error)
+    return `❌ ${(error as Error).message}`
+  }
+}
@@ -0,0 +1,473 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { matchesCron, parseCronExpression } from '@/lib/cronExpression'
+import { DEFAULT_TIME_ZONE, getUserTimeZone } from '@/lib/preferences'
+import { toLocalDateString, toWallClock } from '@/lib/timeZone'
+import { resolveRoom, unknownRoomMessage } from '@/lib/rooms'
+import { assertWithinLimits } from '@/lib/safety'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+import { recordAudit } from '@/lib/audit'
+
+// Une ligne de programme : expression cron (heure locale de l'utilisateur) → consigne
+export interface ProgramEntry {
+  cron: string
+  temperature: number
+}
+
+// Période pendant laquelle le programme est suspendu (dates locales incluses)
+export interface ProgramException {
+  from: string // AAAA-MM-JJ
+  to: string // AAAA-MM-JJ
+  label?: string
+}
+
+export type HeatingProgram = Omit<Tables<'heating_programs'>, 'created_at'>
+
+// Format accepté depuis le modèle : jours + heure, ou expression cron brute
+export interface ProgramEntryInput {
+  days?: string[]
+  time?: string
+  cron?: string
+  temperature: number
+}
+
+export interface ProgramChanges {
+  name?: string
+  room?: string
+  entries?: ProgramEntryInput[]
+  exceptions?: ProgramException[]
+  enabled?: boolean
+}
+
+// Fenêtre maximale de rattrapage lors de l'expansion des programmes
+const PROGRAM_LOOKBACK_MS = 24 * 60 * 60 * 1000
+
+const DAY_NUMBERS: Record<string, number[]> = {
+  sun: [0],
+  mon: [1],
+  tue: [2],
+  wed: [3],
+  thu: [4],
+  fri: [5],
+  sat: [6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekend: [0, 6],
+  everyday: [0, 1, 2, 3, 4, 5, 6],
+}
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Noms de jours ("mon", "weekdays", "Saturday"…) → numéros 0 (dimanche) à 6, triés
+export function toDayNumbers(names: string[]): number[] {
+  const days = new Set<number>()
+  for (const day of names) {
+    const key = day.toLowerCase()
+    const numbers = DAY_NUMBERS[key] ?? DAY_NUMBERS[key.slice(0, 3)]
+    if (!numbers) {
+      throw new Error(`Unknown day "${day}".`)
+    }
+    numbers.forEach((number) => days.add(number))
+  }
+  return [...days].sort((a, b) => a - b)
+}
+
+// ✅ Convertit une ligne "jours + heure" en expression cron, et valide le tout
+export function toProgramEntry(input: ProgramEntryInput): ProgramEntry {
+  if (typeof input.temperature !== 'number' || Number.isNaN(input.temperature)) {
+    throw new Error('Each program entry needs a numeric temperature.')
+  }
+
+  if (input.cron) {
+    parseCronExpression(input.cron)
+    return { cron: input.cron.trim(), temperature: input.temperature }
+  }
+
+  const match = /^(\d{1,2}):(\d{2})$/.exec(input.time ?? '')
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time "${input.time}", expected HH:MM.`)
+  }
+
+  const days = toDayNumbers(input.days?.length ? input.days : ['everyday'])
+  const dayField = days.length === 7 ? '*' : days.join(',')
+
+  return {
+    cron: `${Number(match[2])} ${Number(match[1])} * * ${dayField}`,
+    temperature: input.temperature,
+  }
+}
+
+function validateExceptions(exceptions: ProgramException[]): ProgramException[] {
+  for (const exception of exceptions) {
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/
+    if (
+      !datePattern.test(exception.from) ||
+      !datePattern.test(exception.to) ||
+      exception.from > exception.to
+    ) {
+      throw new Error(
+        `Invalid exception period ${exception.from} → ${exception.to}, expected YYYY-MM-DD.`
+      )
+    }
+  }
+  return exceptions
+}
+
+// Libellé lisible d'une ligne ("Mon,Tue 07:00 → 21°C"), cron brut sinon
+function describeEntry(entry: ProgramEntry, format: Formatter): string {
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = entry.cron.split(/\s+/)
+  const simple = /^\d+$/
+
+  const isDailyTime =
+    simple.test(minute) && simple.test(hour) && dayOfMonth === '*' && month === '*'
+
+  if (isDailyTime) {
+    const days =
+      dayOfWeek === '*'
+        ? format.t('program.everyDay')
+        : [...parseCronExpression(entry.cron).daysOfWeek]
+            .map((day) => DAY_NAMES[day])
+            .join(',')
+    const time = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`
+    return `${days} ${time} → ${format.temperature(entry.temperature)}`
+  }
+
+  return `cron "${entry.cron}" → ${format.temperature(entry.temperature)}`
+}
+
+// Colonnes d'un programme gardées dans le journal
+function describeProgramChange(program: HeatingProgram) {
+  const { id, name, room, entries, exceptions, enabled } = program
+  return { id, name, room, entries, exceptions, enabled }
+}
+
+function describeProgram(program: HeatingProgram, format: Formatter): string {
+  const status = program.enabled ? '' : format.t('program.disabled')
+  const entries = program.entries
+    .map((entry) => describeEntry(entry, format))
+    .join('; ')
+  const exceptions = program.exceptions
+    .map(({ from, to, label }) => `${from}→${to}${label ? ` (${label})` : ''}`)
+    .join(', ')
+
+  return `[${program.id}] ${program.name}${status} – ${program.room}: ${entries}${
+    exceptions ? format.t('program.paused', { periods: exceptions }) : ''
+  }`
+}
+
+// ✅ Crée un programme hebdomadaire/récurrent pour une pièce
+export async function createHeatingProgram(
+  scope: HomeScope,
+  name: string,
+  room: string,
+  entries: ProgramEntryInput[],
+  exceptions: ProgramException[] = [],
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let program: Omit<HeatingProgram, 'id'>
+  try {
+    if (!entries?.length) {
+      throw new Error('A program needs at least one entry.')
+    }
+    program = {
+      home_id: scope.homeId,
+      user_id: scope.userId,
+      room,
+      name,
+      entries: entries.map(toProgramEntry),
+      exceptions: validateExceptions(exceptions),
+      enabled: true,
+      last_expanded_at: new Date().toISOString(),
+    }
+  } catch (validationError) {
+    return `❌ ${(validationError as Error).message}`
+  }
+
+  const resolution = await resolveRoom(scope, room)
+  if (resolution.room === null) {
+    return unknownRoomMessage(room, resolution.suggestions, format)
+  }
+  program.room = resolution.room
+
+  try {
+    for (const entry of program.entries) {
+      await assertWithinLimits(scope, program.room, entry.temperature, format)
+    }
+  } catch (limitError) {
+    return `❌ ${(limitError as Error).message}`
+  }
+
+  const { data, error } = await supabaseServer
+    .from('heating_programs')
+    .insert([program])
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    console.error('❌ Error creating heating program:', error)
+    return format.t('program.createFailed', { name })
+  }
+
+  await recordAudit(scope, {
+    action: 'program.create',
+    room: data.room,
+    next: describeProgramChange(data),
+  })
+
+  return format.t('program.created', {
+    program: describeProgram(data, format),
+  })
+}
+
+export async function listHeatingPrograms(
+  scope: HomeScope,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const { data, error } = await supabaseServer
+    .from('heating_programs')
+    .select('*')
+    .eq('home_id', scope.homeId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('❌ Error fetching heating programs:', error)
+    return format.t('program.fetchFailed')
+  }
+
+  if (!data || data.length === 0) {
+    return format.t('program.none')
+  }
+
+  const lines = data.map((program) => `- ${describeProgram(program, format)}`)
+  return `${format.t('program.list')}\n${lines.join('\n')}`
+}
+
+export async function updateHeatingProgram(
+  scope: HomeScope,
+  programId: string,
+  changes: ProgramChanges,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const update: Partial<HeatingProgram> = {}
+  try {
+    if (changes.name !== undefined) update.name = changes.name
+    if (changes.room !== undefined) update.room = changes.room
+    if (changes.enabled !== undefined) update.enabled = changes.enabled
+    if (changes.entries !== undefined) {
+      if (!changes.entries.length) {
+        throw new Error('A program needs at least one entry.')
+      }
+      update.entries = changes.entries.map(toProgramEntry)
+    }
+    if (changes.exceptions !== undefined) {
+      update.exceptions = validateExceptions(changes.exceptions)
+    }
+  } catch (validationError) {
+    return `❌ ${(validationError as Error).message}`
+  }
+
+  if (update.room) {
+    const resolution = await resolveRoom(scope, update.room)
+    if (resolution.room === null) {
+      return unknownRoomMessage(update.room, resolution.suggestions, format)
+    }
+    update.room = resolution.room
+  }
+
+  // Programme avant modification, pour les bornes et le journal
+  const { data: existing } = await supabaseServer
+    .from('heating_programs')
+    .select('*')
+    .eq('home_id', scope.homeId)
+    .eq('id', programId)
+    .maybeSingle()
+
+  if (update.entries) {
+    // La pièce peut venir de la mise à jour ou du programme existant
+    const room = update.room ?? existing?.room
+
+    try {
+      for (const entry of update.entries) {
+        await assertWithinLimits(scope, room ?? '', entry.temperature, format)
+      }
+    } catch (limitError) {
+      return `❌ ${(limitError as Error).message}`
+    }
+  }
+
+  const { data, error } = await supabaseServer
+    .from('heating_programs')
+    .update(update)
+    .eq('home_id', scope.homeId)
+    .eq('id', programId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Error updating heating program:', error)
+    return format.t('program.updateFailed', { id: programId })
+  }
+
+  if (!data) {
+    return format.t('program.notFound', { id: programId })
+  }
+
+  await recordAudit(scope, {
+    action: 'program.update',
+    room: data.room,
+    previous: existing ? describeProgramChange(existing) : { id: programId },
+    next: describeProgramChange(data),
+  })
+
+  return format.t('program.updated', {
+    program: describeProgram(data, format),
+  })
+}
+
+export async function deleteHeatingProgram(
+  scope: HomeScope,
+  programId: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const { data, error } = await supabaseServer
+    .from('heating_programs')
+    .delete()
+    .eq('home_id', scope.homeId)
+    .eq('id', programId)
+    .select('*')
+
+  if (error) {
+    console.error('❌ Error deleting heating program:', error)
+    return format.t('program.deleteFailed', { id: programId })
+  }
+
+  if (!data || data.length === 0) {
+    return format.t('program.notFound', { id: programId })
+  }
+
+  await recordAudit(scope, {
+    action: 'program.delete',
+    room: data[0].room,
+    previous: describeProgramChange(data[0]),
+  })
+
+  return format.t('program.deleted', { name: data[0].name })
+}
+
+// 🔍 Dernière occurrence d'un programme dans ]from, to], hors exceptions
+export function findLatestOccurrence(
+  program: Pick<HeatingProgram, 'entries' | 'exceptions'>,
+  timeZone: string,
+  from: Date,
+  to: Date
+): { at: Date; temperature: number } | null {
+  const crons = program.entries.map((entry) => ({
+    cron: parseCronExpression(entry.cron),
+    temperature: entry.temperature,
+  }))
+
+  // On remonte minute par minute depuis "to" jusqu'à "from"
+  const minute = 60 * 1000
+  const last = Math.floor(to.getTime() / minute) * minute
+  for (let time = last; time > from.getTime(); time -= minute) {
+    const at = new Date(time)
+    const wallClock = toWallClock(at, timeZone)
+    const match = crons.find(({ cron }) => matchesCron(cron, wallClock))
+    if (!match) continue
+
+    const localDate = toLocalDateString(at, timeZone)
+    const paused = program.exceptions.some(
+      (exception) => localDate >= exception.from && localDate <= exception.to
+    )
+    if (paused) continue
+
+    return { at, temperature: match.temperature }
+  }
+
+  return null
+}
+
+// ✅ Transforme les programmes actifs en changements planifiés dus (appelé par le cron)
+export async function expandHeatingPrograms(now: Date = new Date()) {
+  const { data, error } = await supabaseServer
+    .from('heating_programs')
+    .select('*')
+    .eq('enabled', true)
+
+  if (error) {
+    console.error('❌ Error fetching heating programs:', error)
+    return
+  }
+
+  // Les heures d'un programme sont celles du fuseau de son auteur
+  const timeZones = new Map<string | null, string>()
+
+  for (const program of (data ?? []) as HeatingProgram[]) {
+    if (!timeZones.has(program.user_id)) {
+      timeZones.set(
+        program.user_id,
+        program.user_id ? await getUserTimeZone(program.user_id) : DEFAULT_TIME_ZONE
+      )
+    }
+
+    const lastExpanded = program.last_expanded_at
+      ? new Date(program.last_expanded_at).getTime()
+      : 0
+    const from = new Date(
+      Math.max(lastExpanded, now.getTime() - PROGRAM_LOOKBACK_MS)
+    )
+
+    let occurrence
+    try {
+      const timeZone = timeZones.get(program.user_id)!
+      occurrence = findLatestOccurrence(program, timeZone, from, now)
+    } catch (expansionError) {
+      console.error(`❌ Invalid heating program ${program.id}:`, expansionError)
+      continue
+    }
+
+    // 🔒 On réserve la fenêtre avant d'insérer : une invocation concurrente ne la rejouera pas
+    let claim = supabaseServer
+      .from('heating_programs')
+      .update({ last_expanded_at: now.toISOString() })
+      .eq('id', program.id)
+    claim = program.last_expanded_at
+      ? claim.eq('last_expanded_at', program.last_expanded_at)
+      : claim.is('last_expanded_at', null)
+    const { data: claimed, error: claimError } = await claim.select('id')
+
+    if (claimError || !claimed?.length) {
+      continue
+    }
+
+    if (occurrence) {
+      const { error: insertError } = await supabaseServer
+        .from('scheduled_temperatures')
+        .insert([
+          {
+            home_id: program.home_id,
+            user_id: program.user_id,
+            room: program.room,
+            temperature: occurrence.temperature,
+            execute_at: occurrence.at.toISOString(),
+            program_id: program.id,
+          },
+        ])
+
+      if (insertError) {
+        console.error(`❌ Failed to schedule program ${program.id}:`, insertError)
+        // ↩️ On rend la fenêtre : la prochaine invocation retentera cette occurrence
+        await supabaseServer
+          .from('heating_programs')
+          .update({ last_expanded_at: program.last_expanded_at })
+          .eq('id', program.id)
+          .eq('last_expanded_at', now.toISOString())
+        continue
+      }
+
+      console.log(
+        `📅 Program "${program.name}" → ${program.room} ${occurrence.temperature}°C`
+      )
+    }
+  }
+}
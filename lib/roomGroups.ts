@@ -0,0 +1,359 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import {
+  getHomeRooms,
+  normalizeRoomName,
+  resolveRoom,
+  unknownRoomMessage,
+} from '@/lib/rooms'
+import { setRoomTargets, type RoomTargetChange } from '@/lib/temperature'
+import { OutOfRangeError } from '@/lib/safety'
+import { recordAudit } from '@/lib/audit'
+import { ALL_ROOMS } from '@/lib/rules'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { HomeScope } from '@/lib/homes'
+
+// 🏷️ Groupe de pièces ("upstairs", "bedrooms") ; une pièce peut appartenir à plusieurs groupes
+export interface RoomGroup {
+  id: string
+  name: string
+  rooms: string[]
+}
+
+// ✅ Cible d'un outil : une pièce, un groupe ou toutes les pièces du foyer
+export type RoomTarget =
+  | { kind: 'room' | 'group' | 'all'; name: string; rooms: string[] }
+  | { kind: null; name: string; suggestions: string[] }
+
+// Changement demandé pour toute la cible : consigne absolue ou écart relatif à la consigne actuelle (°C)
+export type GroupChange = { temperature: number } | { delta: number }
+
+// ✅ Résultat typé d'un changement groupé (°C) ; rendu par renderGroupChangeResult
+export interface GroupChangeResult {
+  ok: boolean
+  action: 'group'
+  target: Pick<RoomTarget, 'kind' | 'name'>
+  changes: RoomTargetChange[]
+  error: { code: 'no_rooms' | 'out_of_range' | 'update_failed'; message?: string } | null
+}
+
+// Consigne actuelle → nouvelle consigne de chaque pièce de la cible
+export interface PlannedTarget {
+  room: string
+  current: number
+  temperature: number
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+export function isAllRooms(name: string): boolean {
+  return normalizeRoomName(name) === ALL_ROOMS
+}
+
+export async function listRoomGroups(scope: HomeScope): Promise<RoomGroup[]> {
+  const [groups, members] = await Promise.all([
+    supabaseServer
+      .from('room_groups')
+      .select('id, name')
+      .eq('home_id', scope.homeId)
+      .order('name', { ascending: true }),
+    supabaseServer
+      .from('room_group_members')
+      .select('group_id, room')
+      .eq('home_id', scope.homeId)
+      .order('room', { ascending: true }),
+  ])
+
+  if (groups.error || members.error) {
+    throw new Error(
+      `Error fetching room groups: ${(groups.error ?? members.error)?.message}`
+    )
+  }
+
+  return (groups.data ?? []).map((group) => ({
+    ...group,
+    rooms: (members.data ?? [])
+      .filter((member) => member.group_id === group.id)
+      .map((member) => member.room),
+  }))
+}
+
+async function findRoomGroup(
+  scope: HomeScope,
+  name: string
+): Promise<RoomGroup | null> {
+  const key = normalizeRoomName(name)
+  const groups = await listRoomGroups(scope)
+  return groups.find((group) => normalizeRoomName(group.name) === key) ?? null
+}
+
+// 🔍 "all" → toutes les pièces, puis nom de groupe, puis résolution habituelle d'une pièce (alias, fautes…)
+export async function resolveRoomTarget(
+  scope: HomeScope,
+  name: string
+): Promise<RoomTarget> {
+  if (isAllRooms(name)) {
+    return { kind: 'all', name: ALL_ROOMS, rooms: await getHomeRooms(scope) }
+  }
+
+  const group = await findRoomGroup(scope, name)
+  if (group) {
+    return { kind: 'group', name: group.name, rooms: group.rooms }
+  }
+
+  const resolution = await resolveRoom(scope, name)
+  return resolution.room === null
+    ? { kind: null, name, suggestions: resolution.suggestions }
+    : { kind: 'room', name: resolution.room, rooms: [resolution.room] }
+}
+
+// Libellé d'une cible dans les messages ("toutes les pièces", "groupe upstairs")
+export function targetLabel(
+  target: Pick<RoomTarget, 'kind' | 'name'>,
+  format: Formatter = defaultFormatter
+): string {
+  if (target.kind === 'all') return format.t('group.allRooms')
+  if (target.kind === 'group') return format.t('group.label', { group: target.name })
+  return target.name
+}
+
+// ✅ Nouvelles consignes de chaque pièce, calculées à partir des consignes actuelles
+export async function planGroupChange(
+  scope: HomeScope,
+  rooms: string[],
+  change: GroupChange
+): Promise<PlannedTarget[]> {
+  if (rooms.length === 0) return []
+
+  const { data, error } = await supabaseServer
+    .from('room_temperatures')
+    .select('room, temperature')
+    .eq('home_id', scope.homeId)
+    .in('room', rooms)
+    .order('room', { ascending: true })
+
+  if (error) {
+    throw new Error(`Error fetching room setpoints: ${error.message}`)
+  }
+
+  return (data ?? []).map(({ room, temperature }) => ({
+    room,
+    current: temperature,
+    temperature:
+      'delta' in change ? round(temperature + change.delta) : change.temperature,
+  }))
+}
+
+// ✅ Applique un changement à toute une cible, en une seule transaction (toutes les pièces ou aucune)
+export async function applyGroupChange(
+  scope: HomeScope,
+  target: Extract<RoomTarget, { rooms: string[] }>,
+  change: GroupChange
+): Promise<GroupChangeResult> {
+  const result: GroupChangeResult = {
+    ok: false,
+    action: 'group',
+    target: { kind: target.kind, name: target.name },
+    changes: [],
+    error: null,
+  }
+
+  try {
+    const plan = await planGroupChange(scope, target.rooms, change)
+    if (plan.length === 0) {
+      return { ...result, error: { code: 'no_rooms' } }
+    }
+    const changes = await setRoomTargets(
+      scope,
+      plan.map(({ room, temperature }) => ({ room, temperature }))
+    )
+    return { ...result, ok: true, changes }
+  } catch (error) {
+    console.error(`❌ Failed to update ${target.name}:`, error)
+    return {
+      ...result,
+      error: {
+        code: error instanceof OutOfRangeError ? 'out_of_range' : 'update_failed',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    }
+  }
+}
+
+export function renderGroupChangeResult(
+  result: GroupChangeResult,
+  format: Formatter = defaultFormatter
+): string {
+  const label = targetLabel(result.target, format)
+  const { error } = result
+
+  if (error?.code === 'no_rooms') {
+    return format.t('group.noRooms', { target: label })
+  }
+  if (error?.code === 'out_of_range') {
+    return format.t('group.rejected', { target: label, reason: error.message ?? '' })
+  }
+  if (error) {
+    return format.t('group.updateFailed', {
+      target: label,
+      reason: error.message ? ` ${error.message}` : '',
+    })
+  }
+
+  const lines = result.changes.map((row) =>
+    format.t('group.roomChange', {
+      room: row.room,
+      from: format.temperature(row.previous),
+      to: format.temperature(row.temperature),
+    })
+  )
+  return `${format.t('group.updated', { target: label, count: result.changes.length })}\n${lines.join('\n')}`
+}
+
+// Nom de groupe refusé : réservé, ou déjà le nom (ou l'alias) d'une pièce
+async function groupNameConflict(
+  scope: HomeScope,
+  name: string,
+  format: Formatter
+): Promise<string | null> {
+  const key = normalizeRoomName(name)
+  if (!key) {
+    return format.t('group.invalidName', { group: name })
+  }
+  if (key === ALL_ROOMS) {
+    return format.t('group.reservedName', { group: name })
+  }
+
+  const resolution = await resolveRoom(scope, name)
+  if (resolution.room !== null && resolution.matchedBy !== 'fuzzy') {
+    return format.t('group.isRoomName', { group: name, room: resolution.room })
+  }
+  return null
+}
+
+// ✅ Crée un groupe ou remplace ses pièces
+export async function setRoomGroup(
+  scope: HomeScope,
+  name: string,
+  roomNames: string[],
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const conflict = await groupNameConflict(scope, name, format)
+  if (conflict) return conflict
+
+  const rooms: string[] = []
+  for (const roomName of roomNames) {
+    const resolution = await resolveRoom(scope, roomName)
+    if (resolution.room === null) {
+      return unknownRoomMessage(roomName, resolution.suggestions, format)
+    }
+    if (!rooms.includes(resolution.room)) rooms.push(resolution.room)
+  }
+
+  if (rooms.length === 0) {
+    return format.t('group.empty', { group: name })
+  }
+
+  const existing = await findRoomGroup(scope, name)
+
+  const { data: group, error } = await supabaseServer
+    .from('room_groups')
+    .upsert(
+      [
+        {
+          home_id: scope.homeId,
+          user_id: scope.userId,
+          name: name.trim(),
+          name_key: normalizeRoomName(name),
+        },
+      ],
+      { onConflict: 'home_id,name_key' }
+    )
+    .select('id')
+    .single()
+
+  if (error || !group) {
+    console.error('❌ Error saving room group:', error)
+    return format.t('group.saveFailed', { group: name })
+  }
+
+  // Remplace la composition du groupe
+  const { error: deleteError } = await supabaseServer
+    .from('room_group_members')
+    .delete()
+    .eq('group_id', group.id)
+
+  const { error: insertError } = deleteError
+    ? { error: deleteError }
+    : await supabaseServer
+        .from('room_group_members')
+        .insert(rooms.map((room) => ({ group_id: group.id, home_id: scope.homeId, room })))
+
+  if (insertError) {
+    console.error('❌ Error saving room group members:', insertError)
+    return format.t('group.saveFailed', { group: name })
+  }
+
+  await recordAudit(scope, {
+    action: 'group.set',
+    previous: existing ? { group: existing.name, rooms: existing.rooms } : null,
+    next: { group: name.trim(), rooms },
+  })
+
+  return format.t('group.saved', { group: name.trim(), rooms: rooms.join(', ') })
+}
+
+export async function deleteRoomGroup(
+  scope: HomeScope,
+  name: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const group = await findRoomGroup(scope, name)
+  if (!group) {
+    return format.t('group.notFound', { group: name })
+  }
+
+  const { error: membersError } = await supabaseServer
+    .from('room_group_members')
+    .delete()
+    .eq('group_id', group.id)
+
+  const { error } = membersError
+    ? { error: membersError }
+    : await supabaseServer
+        .from('room_groups')
+        .delete()
+        .eq('home_id', scope.homeId)
+        .eq('id', group.id)
+
+  if (error) {
+    console.error('❌ Error deleting room group:', error)
+    return format.t('group.deleteFailed', { group: group.name })
+  }
+
+  await recordAudit(scope, {
+    action: 'group.delete',
+    previous: { group: group.name, rooms: group.rooms },
+  })
+
+  return format.t('group.deleted', { group: group.name })
+}
+
+export async function describeRoomGroups(
+  scope: HomeScope,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let groups: RoomGroup[]
+  try {
+    groups = await listRoomGroups(scope)
+  } catch (error) {
+    console.error('❌', error)
+    return format.t('group.fetchFailed')
+  }
+
+  if (groups.length === 0) {
+    return format.t('group.none')
+  }
+
+  const lines = groups.map((group) => `- ${group.name}: ${group.rooms.join(', ')}`)
+  return `${format.t('group.list')}\n${lines.join('\n')}`
+}
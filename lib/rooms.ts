@@ -0,0 +1,374 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { recordTemperature } from '@/lib/temperatureHistory'
+import { recordAudit } from '@/lib/audit'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { HomeScope } from '@/lib/homes'
+
+export type RoomResolution =
+  | { room: string; matchedBy: 'exact' | 'normalized' | 'alias' | 'fuzzy' }
+  | { room: null; suggestions: string[] }
+
+// ✅ Identifiant normalisé : "Living room", "living-room" et "LIVING_ROOM" → "living-room"
+export function normalizeRoomName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Supprime les accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Distance d'édition entre deux identifiants (pour la correspondance approximative)
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+const digitsOf = (key: string) => key.replace(/\D/g, '')
+
+// ✅ Fonction pour récupérer les chambres du foyer
+export async function getHomeRooms(scope: HomeScope): Promise<string[]> {
+  const { data, error } = await supabaseServer
+    .from('room_temperatures')
+    .select('room')
+    .eq('home_id', scope.homeId)
+
+  return error || !data ? [] : data.map((room) => room.room)
+}
+
+// 🔍 Retrouve la pièce désignée : nom exact, nom normalisé, alias, puis correspondance approximative
+export async function resolveRoom(
+  scope: HomeScope,
+  input: string
+): Promise<RoomResolution> {
+  const rooms = await getHomeRooms(scope)
+
+  if (rooms.includes(input)) {
+    return { room: input, matchedBy: 'exact' }
+  }
+
+  const key = normalizeRoomName(input)
+  const normalized = rooms.find((room) => normalizeRoomName(room) === key)
+  if (normalized) {
+    return { room: normalized, matchedBy: 'normalized' }
+  }
+
+  const { data: alias } = await supabaseServer
+    .from('room_aliases')
+    .select('room')
+    .eq('home_id', scope.homeId)
+    .eq('alias_key', key)
+    .maybeSingle()
+
+  if (alias && rooms.includes(alias.room)) {
+    return { room: alias.room, matchedBy: 'alias' }
+  }
+
+  const candidates = rooms
+    .map((room) => ({
+      room,
+      distance: levenshtein(key, normalizeRoomName(room)),
+    }))
+    .filter(({ distance }) => distance <= Math.ceil(key.length / 2))
+    .sort((a, b) => a.distance - b.distance)
+
+  // Faute de frappe : un seul meilleur candidat, proche, et avec les mêmes numéros ("bedroom-1" ≠ "bedroom-2")
+  const [best, second] = candidates
+  if (
+    best &&
+    best.distance <= Math.max(1, Math.floor(key.length / 4)) &&
+    (!second || second.distance > best.distance) &&
+    digitsOf(normalizeRoomName(best.room)) === digitsOf(key)
+  ) {
+    return { room: best.room, matchedBy: 'fuzzy' }
+  }
+
+  return {
+    room: null,
+    suggestions: candidates.slice(0, 3).map(({ room }) => room),
+  }
+}
+
+// Message renvoyé au modèle quand une pièce n'est pas reconnue (la consigne au modèle reste en anglais)
+export function unknownRoomMessage(
+  room: string,
+  suggestions: string[],
+  format: Formatter = defaultFormatter
+): string {
+  const similar = suggestions.length
+    ? format.t('room.similar', { rooms: suggestions.join(', ') })
+    : ''
+  return `${format.t('room.unknown', { room, similar })} Ask the user whether they meant an existing room or want to create "${room}" (then call "create_room" with confirmed=true).`
+}
+
+// ✅ Fonction pour créer une chambre si elle n'existe pas
+export async function createRoom(
+  scope: HomeScope,
+  room: string,
+  confirmed = false,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, room)
+
+  if (resolution.room !== null && resolution.matchedBy !== 'fuzzy') {
+    return format.t('room.alreadyExists', { room: resolution.room })
+  }
+
+  // 🛑 Création depuis un nom non reconnu : on demande d'abord confirmation
+  if (!confirmed) {
+    const similar =
+      resolution.room !== null ? [resolution.room] : resolution.suggestions
+    return unknownRoomMessage(room, similar, format)
+  }
+
+  const { error } = await supabaseServer
+    .from('room_temperatures')
+    .insert([
+      { home_id: scope.homeId, user_id: scope.userId, room, temperature: 22 },
+    ]) // Température par défaut : 22°C
+
+  if (error) {
+    console.error('🔥 Error creating room:', error)
+    return format.t('room.createFailed', { room })
+  }
+
+  await recordTemperature(scope, room, 22, 'manual')
+  await recordAudit(scope, {
+    action: 'room.create',
+    room,
+    next: { temperature: 22 },
+  })
+
+  return format.t('room.created', { room })
+}
+
+export async function listRooms(
+  scope: HomeScope,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const [rooms, { data: aliases }] = await Promise.all([
+    getHomeRooms(scope),
+    supabaseServer
+      .from('room_aliases')
+      .select('alias, room')
+      .eq('home_id', scope.homeId),
+  ])
+
+  if (rooms.length === 0) {
+    return format.t('room.none')
+  }
+
+  const lines = rooms.map((room) => {
+    const names = (aliases ?? [])
+      .filter((alias) => alias.room === room)
+      .map((alias) => alias.alias)
+    const also = names.length
+      ? format.t('room.alsoKnownAs', { aliases: names.join(', ') })
+      : ''
+    return `- ${room}${also}`
+  })
+  return `${format.t('room.list')}\n${lines.join('\n')}`
+}
+
+// ✅ Renomme une pièce partout où elle est référencée
+export async function renameRoom(
+  scope: HomeScope,
+  room: string,
+  newName: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, room)
+  if (resolution.room === null) {
+    return unknownRoomMessage(room, resolution.suggestions, format)
+  }
+
+  const current = resolution.room
+  const rooms = await getHomeRooms(scope)
+  const conflict = rooms.find(
+    (other) =>
+      other !== current &&
+      normalizeRoomName(other) === normalizeRoomName(newName)
+  )
+  if (conflict) {
+    return format.t('room.nameTaken', { room: conflict })
+  }
+
+  // 🔒 Une seule transaction (supabase/migrations) : tables, appareils et règles, ou rien
+  const { error } = await supabaseServer.rpc('rename_room', {
+    target_home: scope.homeId,
+    old_name: current,
+    new_name: newName,
+  })
+
+  if (error) {
+    console.error('❌ Error renaming room:', error)
+    return format.t('room.renameFailed', { room: current })
+  }
+
+  await recordAudit(scope, {
+    action: 'room.rename',
+    room: newName,
+    previous: { room: current },
+    next: { room: newName },
+  })
+
+  return format.t('room.renamed', { room: current, newName })
+}
+
+// ✅ Supprime une pièce, ses programmes, alias, groupes et liaisons, annule ses changements planifiés
+// et détache les appareils qui l'avaient pour pièce par défaut
+export async function deleteRoom(
+  scope: HomeScope,
+  room: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, room)
+  if (resolution.room === null) {
+    return unknownRoomMessage(room, resolution.suggestions, format)
+  }
+
+  const current = resolution.room
+
+  const { error: cancelError } = await supabaseServer
+    .from('scheduled_temperatures')
+    .update({ status: 'cancelled' })
+    .eq('home_id', scope.homeId)
+    .eq('room', current)
+    .eq('status', 'pending')
+
+  if (cancelError) {
+    console.error('❌ Error cancelling scheduled changes:', cancelError)
+    return format.t('room.deleteFailed', { room: current })
+  }
+
+  // 🔌 Les appareils restent enregistrés, sans pièce par défaut
+  const { error: deviceError } = await supabaseServer
+    .from('devices')
+    .update({ room: null })
+    .eq('home_id', scope.homeId)
+    .eq('room', current)
+
+  if (deviceError) {
+    console.error('❌ Error detaching devices from the room:', deviceError)
+    return format.t('room.deleteFailed', { room: current })
+  }
+
+  const tables = [
+    'heating_programs',
+    'thermostat_bindings',
+    'room_aliases',
+    'room_group_members',
+    'mode_profiles',
+    'temperature_history',
+    'room_temperatures',
+  ] as const
+  for (const table of tables) {
+    const { error } = await supabaseServer
+      .from(table)
+      .delete()
+      .eq('home_id', scope.homeId)
+      .eq('room', current)
+
+    if (error) {
+      console.error(`❌ Error deleting room from ${table}:`, error)
+      return format.t('room.deleteFailed', { room: current })
+    }
+  }
+
+  await recordAudit(scope, {
+    action: 'room.delete',
+    room: current,
+    previous: { room: current },
+  })
+
+  return format.t('room.deleted', { room: current })
+}
+
+export async function addRoomAlias(
+  scope: HomeScope,
+  room: string,
+  alias: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, room)
+  if (resolution.room === null) {
+    return unknownRoomMessage(room, resolution.suggestions, format)
+  }
+
+  const aliasKey = normalizeRoomName(alias)
+  const rooms = await getHomeRooms(scope)
+  if (rooms.some((other) => normalizeRoomName(other) === aliasKey)) {
+    return format.t('alias.isRoomName', { alias })
+  }
+
+  const { error } = await supabaseServer
+    .from('room_aliases')
+    .upsert(
+      [
+        {
+          home_id: scope.homeId,
+          user_id: scope.userId,
+          alias,
+          alias_key: aliasKey,
+          room: resolution.room,
+        },
+      ],
+      { onConflict: 'home_id,alias_key' }
+    )
+
+  if (error) {
+    console.error('❌ Error saving room alias:', error)
+    return format.t('alias.addFailed', { alias })
+  }
+
+  await recordAudit(scope, {
+    action: 'alias.add',
+    room: resolution.room,
+    next: { alias },
+  })
+
+  return format.t('alias.added', { alias, room: resolution.room })
+}
+
+export async function removeRoomAlias(
+  scope: HomeScope,
+  alias: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const { data, error } = await supabaseServer
+    .from('room_aliases')
+    .delete()
+    .eq('home_id', scope.homeId)
+    .eq('alias_key', normalizeRoomName(alias))
+    .select('room')
+
+  if (error) {
+    console.error('❌ Error removing room alias:', error)
+    return format.t('alias.removeFailed', { alias })
+  }
+
+  if (!data || data.length === 0) {
+    return format.t('alias.notFound', { alias })
+  }
+
+  await recordAudit(scope, {
+    action: 'alias.remove',
+    room: data[0].room,
+    previous: { alias },
+  })
+
+  return format.t('alias.removed', { alias, room: data[0].room })
+}
@@ -0,0 +1,999 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { DEFAULT_TIME_ZONE, getUserTimeZone } from '@/lib/preferences'
+import { toWallClock } from '@/lib/timeZone'
+import { DAY_NAMES, findLatestOccurrence, toDayNumbers } from '@/lib/programs'
+import { getHomeRooms, resolveRoom, unknownRoomMessage } from '@/lib/rooms'
+import { assertWithinLimits } from '@/lib/safety'
+import { readRoomClimate, setRoomTarget } from '@/lib/temperature'
+import {
+  applyHomeMode,
+  getHomeMode,
+  isHomeMode,
+  modeLabel,
+  type HomeMode,
+} from '@/lib/homeModes'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import { recordAudit } from '@/lib/audit'
+import { getOutsideTemperature } from '@/lib/outdoorWeather'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+
+// Seuil vérifié quand la valeur est sous "below" et/ou au-dessus de "above" (les deux : entre)
+export interface Threshold {
+  below?: number
+  above?: number
+}
+
+// Valeur comparée à un seuil : mesure d'une pièce ou température extérieure (météo du foyer)
+type MeasuredValue =
+  | { type: 'temperature' | 'humidity'; room: string }
+  | { type: 'outside_temperature' }
+
+// ⚡ Ce qui déclenche la règle : franchissement d'un seuil mesuré, ou une heure locale
+export type RuleTrigger =
+  | ({ type: 'temperature'; room: string } & Threshold)
+  | ({ type: 'humidity'; room: string } & Threshold)
+  | ({ type: 'outside_temperature' } & Threshold)
+  | { type: 'time'; time: string; days?: number[] } // HH:MM, jours 0 (dimanche) à 6
+
+// Conditions vérifiées au moment du déclenchement (toutes doivent l'être)
+export type RuleCondition =
+  | ({ type: 'temperature'; room: string } & Threshold)
+  | ({ type: 'humidity'; room: string } & Threshold)
+  | ({ type: 'outside_temperature' } & Threshold)
+  | { type: 'mode'; modes: HomeMode[] }
+  | { type: 'time'; from: string; to: string; days?: number[] } // plage locale, peut passer minuit
+
+export type RuleAction =
+  | { type: 'set_temperature'; room: string; temperature: number } // room "all" : toutes les pièces
+  | { type: 'set_mode'; mode: HomeMode }
+
+export type AutomationRule = Omit<Tables<'automation_rules'>, 'created_at'>
+
+// Format accepté depuis le modèle : jours en toutes lettres, pièces approximatives
+export interface RuleInput {
+  name?: string
+  trigger?: Record<string, unknown>
+  conditions?: Record<string, unknown>[]
+  actions?: Record<string, unknown>[]
+  cooldownMinutes?: number
+}
+
+// Valeurs supposées pour un essai à blanc (°C, %, instant ISO)
+export interface RuleAssumptions {
+  rooms?: { room: string; temperature?: number; humidity?: number }[]
+  outside?: number
+  mode?: HomeMode
+  at?: string
+}
+
+interface RoomReading {
+  temperature: number | null
+  humidity: number | null
+}
+
+// Faits connus sur le foyer au moment de l'évaluation
+export interface RuleFacts {
+  now: Date
+  mode: HomeMode
+  rooms: string[]
+  readings: Map<string, RoomReading>
+  outside: number | null // null : pas de position ou météo indisponible
+}
+
+export interface EvaluationOptions {
+  timeZone: string
+  since: Date // début de la fenêtre des déclencheurs horaires
+  ignoreState?: boolean // essai à blanc : ni front montant, ni délai entre déclenchements
+}
+
+export type PlannedAction =
+  | { type: 'set_temperature'; room: string; temperature: number }
+  | { type: 'set_mode'; mode: HomeMode }
+
+// ✅ Résultat de l'évaluation d'une règle (sans effet de bord)
+export interface RuleEvaluation {
+  triggered: boolean | null // null : pas de mesure pour le déclencheur
+  failedConditions: RuleCondition[]
+  fires: boolean
+  blockedBy: 'no_data' | 'not_triggered' | 'conditions' | 'already_active' | 'cooldown' | null
+  actions: PlannedAction[]
+}
+
+export interface RuleRunSummary {
+  evaluated: number
+  fired: number
+  failed: number
+}
+
+export const ALL_ROOMS = 'all'
+
+// Un déclencheur horaire manqué (cron en retard) est rattrapé dans cette fenêtre
+const DEFAULT_TIME_WINDOW_MINUTES = 60
+const TIME_WINDOW_MS =
+  (Number(process.env.RULE_TIME_WINDOW_MINUTES) > 0
+    ? Number(process.env.RULE_TIME_WINDOW_MINUTES)
+    : DEFAULT_TIME_WINDOW_MINUTES) *
+  60 *
+  1000
+
+const DEFAULT_COOLDOWN_MINUTES = 30
+
+// Règle refusée à la création ; le message est déjà rédigé pour l'utilisateur
+export class RuleValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RuleValidationError'
+  }
+}
+
+function invalid(message: string): never {
+  throw new RuleValidationError(`❌ ${message}`)
+}
+
+function parseTime(value: unknown, field: string): string {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? ''))
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    invalid(`Invalid ${field} "${value}", expected HH:MM.`)
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}`
+}
+
+function parseDays(value: unknown): number[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.length === 0) {
+    invalid('"days" must be a non-empty list of days.')
+  }
+  try {
+    const days = toDayNumbers(value.map(String))
+    return days.length === 7 ? undefined : days
+  } catch (dayError) {
+    invalid((dayError as Error).message)
+  }
+}
+
+function parseThreshold(input: Record<string, unknown>, what: string): Threshold {
+  const threshold: Threshold = {}
+  if (input.below !== undefined) threshold.below = Number(input.below)
+  if (input.above !== undefined) threshold.above = Number(input.above)
+
+  if (threshold.below === undefined && threshold.above === undefined) {
+    invalid(`A ${what} threshold needs "below" and/or "above".`)
+  }
+  if (Object.values(threshold).some((value) => !Number.isFinite(value))) {
+    invalid(`The ${what} threshold must be numeric.`)
+  }
+  if (
+    threshold.below !== undefined &&
+    threshold.above !== undefined &&
+    threshold.above >= threshold.below
+  ) {
+    invalid(`With both bounds, "above" must be lower than "below" (between).`)
+  }
+  return threshold
+}
+
+async function parseRoom(
+  scope: HomeScope,
+  value: unknown,
+  format: Formatter
+): Promise<string> {
+  const name = String(value ?? '').trim()
+  if (!name) invalid('A room is required.')
+
+  const resolution = await resolveRoom(scope, name)
+  if (resolution.room === null) {
+    throw new RuleValidationError(
+      unknownRoomMessage(name, resolution.suggestions, format)
+    )
+  }
+  return resolution.room
+}
+
+async function parseTrigger(
+  scope: HomeScope,
+  input: Record<string, unknown> | undefined,
+  format: Formatter
+): Promise<RuleTrigger> {
+  if (!input) invalid('A rule needs a trigger.')
+
+  if (input.type === 'temperature' || input.type === 'humidity') {
+    return {
+      type: input.type,
+      room: await parseRoom(scope, input.room, format),
+      ...parseThreshold(input, input.type),
+    }
+  }
+  if (input.type === 'outside_temperature') {
+    return { type: 'outside_temperature', ...parseThreshold(input, 'outside temperature') }
+  }
+  if (input.type === 'time') {
+    return { type: 'time', time: parseTime(input.time, 'time'), days: parseDays(input.days) }
+  }
+  invalid(`Unknown trigger type "${input.type}".`)
+}
+
+async function parseCondition(
+  scope: HomeScope,
+  input: Record<string, unknown>,
+  format: Formatter
+): Promise<RuleCondition> {
+  if (input.type === 'temperature' || input.type === 'humidity') {
+    return {
+      type: input.type,
+      room: await parseRoom(scope, input.room, format),
+      ...parseThreshold(input, input.type),
+    }
+  }
+  if (input.type === 'outside_temperature') {
+    return { type: 'outside_temperature', ...parseThreshold(input, 'outside temperature') }
+  }
+  if (input.type === 'mode') {
+    const modes = Array.isArray(input.modes) ? input.modes : []
+    if (modes.length === 0 || !modes.every(isHomeMode)) {
+      invalid('A mode condition needs "modes" among home, away, sleep and vacation.')
+    }
+    return { type: 'mode', modes }
+  }
+  if (input.type === 'time') {
+    return {
+      type: 'time',
+      from: parseTime(input.from, 'from'),
+      to: parseTime(input.to, 'to'),
+      days: parseDays(input.days),
+    }
+  }
+  invalid(`Unknown condition type "${input.type}".`)
+}
+
+async function parseAction(
+  scope: HomeScope,
+  input: Record<string, unknown>,
+  format: Formatter
+): Promise<RuleAction> {
+  if (input.type === 'set_temperature') {
+    const temperature = Number(input.temperature)
+    if (!Number.isFinite(temperature)) {
+      invalid('A set_temperature action needs a numeric "temperature".')
+    }
+
+    const all = String(input.room ?? '').trim().toLowerCase() === ALL_ROOMS
+    const room = all ? ALL_ROOMS : await parseRoom(scope, input.room, format)
+
+    // 🛡️ Bornes vérifiées dès la création (et de nouveau à l'exécution)
+    const rooms = all ? await getHomeRooms(scope) : [room]
+    try {
+      for (const target of rooms) {
+        await assertWithinLimits(scope, target, temperature, format)
+      }
+    } catch (limitError) {
+      invalid((limitError as Error).message)
+    }
+
+    return { type: 'set_temperature', room, temperature }
+  }
+  if (input.type === 'set_mode') {
+    if (!isHomeMode(input.mode)) {
+      invalid('A set_mode action needs a "mode" among home, away, sleep and vacation.')
+    }
+    return { type: 'set_mode', mode: input.mode }
+  }
+  invalid(`Unknown action type "${input.type}".`)
+}
+
+// ✅ Valide une règle venant du modèle : pièces résolues, heures normalisées, bornes vérifiées
+export async function toRuleDefinition(
+  scope: HomeScope,
+  input: RuleInput,
+  format: Formatter = defaultFormatter
+): Promise<Pick<AutomationRule, 'trigger' | 'conditions' | 'actions'>> {
+  if (!input.actions?.length) invalid('A rule needs at least one action.')
+
+  const trigger = await parseTrigger(scope, input.trigger, format)
+  const conditions: RuleCondition[] = []
+  for (const condition of input.conditions ?? []) {
+    conditions.push(await parseCondition(scope, condition, format))
+  }
+  const actions: RuleAction[] = []
+  for (const action of input.actions) {
+    actions.push(await parseAction(scope, action, format))
+  }
+
+  return { trigger, conditions, actions }
+}
+
+// 🌡️ Applique "convert" aux températures d'une règle (pas aux humidités) : unité de l'utilisateur ↔ °C
+export function mapRuleTemperatures<T extends Record<string, unknown>>(
+  args: T,
+  convert: (value: number) => number
+): T {
+  const mapThreshold = (item: unknown) => {
+    if (!item || typeof item !== 'object') return item
+    const entry = { ...(item as Record<string, unknown>) }
+    if (entry.type === 'temperature' || entry.type === 'outside_temperature') {
+      if (typeof entry.below === 'number') entry.below = convert(entry.below)
+      if (typeof entry.above === 'number') entry.above = convert(entry.above)
+    }
+    if (entry.type === 'set_temperature' && typeof entry.temperature === 'number') {
+      entry.temperature = convert(entry.temperature)
+    }
+    return entry
+  }
+
+  const mapped: Record<string, unknown> = { ...args }
+  if (args.trigger) mapped.trigger = mapThreshold(args.trigger)
+  if (Array.isArray(args.conditions)) mapped.conditions = args.conditions.map(mapThreshold)
+  if (Array.isArray(args.actions)) mapped.actions = args.actions.map(mapThreshold)
+
+  const assume = args.assume as RuleAssumptions | undefined
+  if (Array.isArray(assume?.rooms)) {
+    mapped.assume = {
+      ...assume,
+      rooms: assume.rooms.map((room) =>
+        typeof room?.temperature === 'number'
+          ? { ...room, temperature: convert(room.temperature) }
+          : room
+      ),
+    }
+  }
+  if (typeof assume?.outside === 'number') {
+    mapped.assume = { ...(mapped.assume as RuleAssumptions), outside: convert(assume.outside) }
+  }
+
+  return mapped as T
+}
+
+function meetsThreshold(value: number, { below, above }: Threshold): boolean {
+  return (below === undefined || value < below) && (above === undefined || value > above)
+}
+
+function readingOf(facts: RuleFacts, item: MeasuredValue): number | null {
+  if (item.type === 'outside_temperature') return facts.outside
+  return facts.readings.get(item.room)?.[item.type] ?? null
+}
+
+function minutesOf(time: string): number {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+function toCron(time: string, days?: number[]): string {
+  const [hour, minute] = time.split(':').map(Number)
+  return `${minute} ${hour} * * ${days?.length ? days.join(',') : '*'}`
+}
+
+function conditionHolds(
+  condition: RuleCondition,
+  facts: RuleFacts,
+  timeZone: string
+): boolean {
+  if (
+    condition.type === 'temperature' ||
+    condition.type === 'humidity' ||
+    condition.type === 'outside_temperature'
+  ) {
+    const value = readingOf(facts, condition)
+    return value !== null && meetsThreshold(value, condition)
+  }
+  if (condition.type === 'mode') {
+    return condition.modes.includes(facts.mode)
+  }
+
+  const clock = toWallClock(facts.now, timeZone)
+  if (condition.days && !condition.days.includes(clock.weekday)) return false
+
+  const now = clock.hour * 60 + clock.minute
+  const from = minutesOf(condition.from)
+  const to = minutesOf(condition.to)
+  // Plage qui passe minuit (22:00 → 06:00)
+  return from <= to ? now >= from && now < to : now >= from || now < to
+}
+
+// ✅ Évalue une règle sur des faits donnés (pure : utilisée par le moteur et par l'essai à blanc)
+export function evaluateRule(
+  rule: Pick<
+    AutomationRule,
+    'trigger' | 'conditions' | 'actions' | 'trigger_active' | 'last_fired_at' | 'cooldown_minutes'
+  >,
+  facts: RuleFacts,
+  { timeZone, since, ignoreState = false }: EvaluationOptions
+): RuleEvaluation {
+  const { trigger } = rule
+
+  let triggered: boolean | null
+  if (trigger.type === 'time') {
+    const occurrence = findLatestOccurrence(
+      { entries: [{ cron: toCron(trigger.time, trigger.days), temperature: 0 }], exceptions: [] },
+      timeZone,
+      since,
+      facts.now
+    )
+    triggered = occurrence !== null
+  } else {
+    const value = readingOf(facts, trigger)
+    triggered = value === null ? null : meetsThreshold(value, trigger)
+  }
+
+  const failedConditions = rule.conditions.filter(
+    (condition) => !conditionHolds(condition, facts, timeZone)
+  )
+
+  const actions = rule.actions.flatMap((action): PlannedAction[] =>
+    action.type === 'set_temperature' && action.room === ALL_ROOMS
+      ? facts.rooms.map((room) => ({ ...action, room }))
+      : [action]
+  )
+
+  const cooling =
+    rule.last_fired_at !== null &&
+    facts.now.getTime() - new Date(rule.last_fired_at).getTime() <
+      rule.cooldown_minutes * 60 * 1000
+
+  // Seuil : on ne se déclenche qu'au franchissement, pas tant que la valeur reste au-delà
+  const blockedBy: RuleEvaluation['blockedBy'] =
+    triggered === null
+      ? 'no_data'
+      : !triggered
+        ? 'not_triggered'
+        : failedConditions.length > 0
+          ? 'conditions'
+          : ignoreState
+            ? null
+            : trigger.type !== 'time' && rule.trigger_active
+              ? 'already_active'
+              : cooling
+                ? 'cooldown'
+                : null
+
+  return { triggered, failedConditions, fires: blockedBy === null, blockedBy, actions }
+}
+
+// Pièces dont la mesure sert au déclencheur ou aux conditions
+function roomsRead(rule: Pick<AutomationRule, 'trigger' | 'conditions'>): string[] {
+  const rooms = new Set<string>()
+  for (const item of [rule.trigger, ...rule.conditions]) {
+    if (item.type === 'temperature' || item.type === 'humidity') rooms.add(item.room)
+  }
+  return [...rooms]
+}
+
+function readsOutside(rule: Pick<AutomationRule, 'trigger' | 'conditions'>): boolean {
+  return [rule.trigger, ...rule.conditions].some((item) => item.type === 'outside_temperature')
+}
+
+// 🔍 Mesures, météo, mode et pièces du foyer nécessaires à l'évaluation de ses règles
+async function loadFacts(
+  scope: HomeScope,
+  rules: Pick<AutomationRule, 'trigger' | 'conditions'>[],
+  now: Date
+): Promise<RuleFacts> {
+  const [{ mode }, { data, error }, outside] = await Promise.all([
+    getHomeMode(scope),
+    supabaseServer
+      .from('room_temperatures')
+      .select('room, temperature, measured_temperature, measured_humidity, measured_at')
+      .eq('home_id', scope.homeId),
+    // La météo n'est demandée que si une règle l'utilise (relevé en cache le plus souvent)
+    rules.some(readsOutside) ? getOutsideTemperature(scope) : null,
+  ])
+
+  if (error) {
+    throw new Error(`Error fetching rooms: ${error.message}`)
+  }
+
+  const needed = new Set(rules.flatMap(roomsRead))
+  const readings = new Map<string, RoomReading>()
+  for (const row of data ?? []) {
+    if (!needed.has(row.room)) continue
+    const climate = await readRoomClimate(scope, row.room, row)
+    readings.set(row.room, {
+      temperature: climate?.temperature ?? null,
+      humidity: climate?.humidity ?? null,
+    })
+  }
+
+  return { now, mode, rooms: (data ?? []).map((row) => row.room), readings, outside }
+}
+
+// Les changements d'une règle sont faits en son nom, pour le compte de son auteur
+function ruleScope(rule: Pick<AutomationRule, 'id' | 'home_id' | 'user_id'>): HomeScope {
+  return {
+    homeId: rule.home_id,
+    userId: rule.user_id,
+    origin: { actor: 'rule', detail: rule.id },
+  }
+}
+
+// Exécute les actions d'une règle ; renvoie les erreurs (les autres actions sont quand même faites)
+async function runActions(
+  rule: Pick<AutomationRule, 'id' | 'home_id' | 'user_id'>,
+  actions: PlannedAction[]
+): Promise<string[]> {
+  const scope = ruleScope(rule)
+  const errors: string[] = []
+
+  for (const action of actions) {
+    try {
+      if (action.type === 'set_temperature') {
+        await setRoomTarget(scope, action.room, action.temperature, 'rule')
+      } else {
+        const result = await applyHomeMode(scope, action.mode)
+        errors.push(...result.failed.map(({ room, error }) => `${room}: ${error}`))
+      }
+    } catch (actionError) {
+      const message = actionError instanceof Error ? actionError.message : String(actionError)
+      errors.push(action.type === 'set_temperature' ? `${action.room}: ${message}` : message)
+    }
+  }
+
+  return errors
+}
+
+// ✅ Évalue les règles actives (cron : toutes ; mesure d'un capteur : celles déclenchées par ses pièces)
+export async function evaluateRules(
+  now: Date = new Date(),
+  { homeId, rooms }: { homeId?: string; rooms?: string[] } = {}
+): Promise<RuleRunSummary> {
+  const summary: RuleRunSummary = { evaluated: 0, fired: 0, failed: 0 }
+
+  let query = supabaseServer.from('automation_rules').select('*').eq('enabled', true)
+  if (homeId) query = query.eq('home_id', homeId)
+
+  const { data, error } = await query.order('created_at', { ascending: true })
+  if (error) {
+    throw new Error(`Error fetching automation rules: ${error.message}`)
+  }
+
+  const rules = ((data ?? []) as AutomationRule[]).filter(
+    (rule) =>
+      !rooms || ('room' in rule.trigger && rooms.includes(rule.trigger.room))
+  )
+
+  const byHome = new Map<string, AutomationRule[]>()
+  for (const rule of rules) {
+    byHome.set(rule.home_id, [...(byHome.get(rule.home_id) ?? []), rule])
+  }
+
+  // Les heures d'une règle sont celles du fuseau de son auteur
+  const timeZones = new Map<string | null, string>()
+
+  for (const [home, homeRules] of byHome) {
+    let facts: RuleFacts
+    try {
+      facts = await loadFacts({ homeId: home, userId: null }, homeRules, now)
+    } catch (factsError) {
+      console.error(`❌ Unable to evaluate rules of home ${home}:`, factsError)
+      summary.failed += homeRules.length
+      continue
+    }
+
+    for (const rule of homeRules) {
+      if (!timeZones.has(rule.user_id)) {
+        timeZones.set(
+          rule.user_id,
+          rule.user_id ? await getUserTimeZone(rule.user_id) : DEFAULT_TIME_ZONE
+        )
+      }
+
+      const windowStart = now.getTime() - TIME_WINDOW_MS
+      const since = new Date(
+        Math.max(
+          rule.last_evaluated_at ? new Date(rule.last_evaluated_at).getTime() : windowStart,
+          windowStart
+        )
+      )
+
+      let evaluation: RuleEvaluation
+      try {
+        evaluation = evaluateRule(rule, facts, {
+          timeZone: timeZones.get(rule.user_id)!,
+          since,
+        })
+      } catch (evaluationError) {
+        console.error(`❌ Invalid automation rule ${rule.id}:`, evaluationError)
+        summary.failed++
+        continue
+      }
+
+      summary.evaluated++
+
+      // Le franchissement n'est consommé que par un déclenchement : bloqué par une condition
+      // ou le délai, il reste à traiter ; il se réarme quand la valeur repasse sous le seuil
+      const triggerActive =
+        evaluation.fires || (evaluation.triggered !== false && rule.trigger_active)
+
+      // 🔒 L'état est réservé avant d'agir : une évaluation concurrente ne rejoue pas les actions
+      let claim = supabaseServer
+        .from('automation_rules')
+        .update({
+          last_evaluated_at: now.toISOString(),
+          trigger_active: triggerActive,
+          ...(evaluation.fires ? { last_fired_at: now.toISOString(), last_error: null } : {}),
+        })
+        .eq('id', rule.id)
+      claim = rule.last_evaluated_at
+        ? claim.eq('last_evaluated_at', rule.last_evaluated_at)
+        : claim.is('last_evaluated_at', null)
+      const { data: claimed, error: claimError } = await claim.select('id')
+
+      if (claimError || !claimed?.length || !evaluation.fires) {
+        continue
+      }
+
+      console.log(`⚡ Rule "${rule.name}" fired.`)
+      summary.fired++
+
+      const errors = await runActions(rule, evaluation.actions)
+      if (errors.length > 0) {
+        summary.failed++
+        await supabaseServer
+          .from('automation_rules')
+          .update({ last_error: errors.join('; ') })
+          .eq('id', rule.id)
+      }
+    }
+  }
+
+  return summary
+}
+
+// --- Rendu pour le modèle ---
+
+function describeThreshold(
+  kind: MeasuredValue['type'],
+  { below, above }: Threshold,
+  format: Formatter
+): string {
+  const value = (number: number) =>
+    kind === 'humidity' ? `${number}%` : format.temperature(number)
+  if (below !== undefined && above !== undefined) {
+    return format.t('rule.between', { above: value(above), below: value(below) })
+  }
+  return below !== undefined
+    ? format.t('rule.below', { value: value(below) })
+    : format.t('rule.above', { value: value(above!) })
+}
+
+function describeDays(days: number[] | undefined, format: Formatter): string {
+  return days?.length
+    ? days.map((day) => DAY_NAMES[day]).join(',')
+    : format.t('program.everyDay')
+}
+
+function describeTrigger(trigger: RuleTrigger, format: Formatter): string {
+  if (trigger.type === 'time') {
+    return format.t('rule.triggerTime', {
+      time: trigger.time,
+      days: describeDays(trigger.days, format),
+    })
+  }
+  if (trigger.type === 'outside_temperature') {
+    return format.t('rule.triggerOutside', {
+      threshold: describeThreshold(trigger.type, trigger, format),
+    })
+  }
+  return format.t(
+    trigger.type === 'temperature' ? 'rule.triggerTemperature' : 'rule.triggerHumidity',
+    { room: trigger.room, threshold: describeThreshold(trigger.type, trigger, format) }
+  )
+}
+
+function describeCondition(condition: RuleCondition, format: Formatter): string {
+  if (condition.type === 'mode') {
+    return format.t('rule.conditionMode', {
+      modes: condition.modes.map((mode) => modeLabel(mode, format)).join('/'),
+    })
+  }
+  if (condition.type === 'time') {
+    return format.t('rule.conditionTime', {
+      from: condition.from,
+      to: condition.to,
+      days: describeDays(condition.days, format),
+    })
+  }
+  if (condition.type === 'outside_temperature') {
+    return format.t('rule.conditionOutside', {
+      threshold: describeThreshold(condition.type, condition, format),
+    })
+  }
+  return format.t(
+    condition.type === 'temperature' ? 'rule.conditionTemperature' : 'rule.conditionHumidity',
+    { room: condition.room, threshold: describeThreshold(condition.type, condition, format) }
+  )
+}
+
+function describeAction(action: RuleAction | PlannedAction, format: Formatter): string {
+  if (action.type === 'set_mode') {
+    return format.t('rule.actionMode', { mode: modeLabel(action.mode, format) })
+  }
+  return format.t('rule.actionTemperature', {
+    room: action.room === ALL_ROOMS ? format.t('rule.allRooms') : action.room,
+    temperature: format.temperature(action.temperature),
+  })
+}
+
+function describeRule(rule: AutomationRule, format: Formatter): string {
+  const status = rule.enabled ? '' : format.t('rule.disabled')
+  const conditions = rule.conditions.map((condition) => describeCondition(condition, format))
+  const actions = rule.actions.map((action) => describeAction(action, format))
+  const error = rule.last_error ? format.t('rule.lastError', { error: rule.last_error }) : ''
+
+  return `[${rule.id}] ${rule.name}${status} – ${describeTrigger(rule.trigger, format)}${
+    conditions.length ? `, ${conditions.join(', ')}` : ''
+  } → ${actions.join(', ')}${error}`
+}
+
+// Colonnes d'une règle gardées dans le journal
+function describeRuleChange(rule: AutomationRule) {
+  const { id, name, trigger, conditions, actions, enabled, cooldown_minutes } = rule
+  return { id, name, trigger, conditions, actions, enabled, cooldown_minutes }
+}
+
+// ✅ Crée une règle d'automatisation pour le foyer
+export async function createRule(
+  scope: HomeScope,
+  input: RuleInput,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let definition
+  try {
+    definition = await toRuleDefinition(scope, input, format)
+  } catch (validationError) {
+    if (validationError instanceof RuleValidationError) return validationError.message
+    throw validationError
+  }
+
+  const name = input.name?.trim() || describeTrigger(definition.trigger, format)
+  const cooldown =
+    input.cooldownMinutes !== undefined && input.cooldownMinutes >= 0
+      ? Math.round(input.cooldownMinutes)
+      : DEFAULT_COOLDOWN_MINUTES
+
+  const { data, error } = await supabaseServer
+    .from('automation_rules')
+    .insert([
+      {
+        home_id: scope.homeId,
+        user_id: scope.userId,
+        name,
+        ...definition,
+        cooldown_minutes: cooldown,
+        // Les heures déjà passées ne déclenchent pas une règle toute neuve
+        last_evaluated_at: new Date().toISOString(),
+      },
+    ])
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    console.error('❌ Error creating automation rule:', error)
+    return format.t('rule.createFailed', { name })
+  }
+
+  await recordAudit(scope, { action: 'rule.create', next: describeRuleChange(data) })
+
+  return format.t('rule.created', { rule: describeRule(data, format) })
+}
+
+export async function listRules(
+  scope: HomeScope,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const { data, error } = await supabaseServer
+    .from('automation_rules')
+    .select('*')
+    .eq('home_id', scope.homeId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('❌ Error fetching automation rules:', error)
+    return format.t('rule.fetchFailed')
+  }
+
+  if (!data || data.length === 0) {
+    return format.t('rule.none')
+  }
+
+  const lines = data.map((rule) => `- ${describeRule(rule, format)}`)
+  return `${format.t('rule.list')}\n${lines.join('\n')}`
+}
+
+// ✅ Active ou désactive une règle (la réactiver repart d'un seuil non franchi)
+export async function setRuleEnabled(
+  scope: HomeScope,
+  ruleId: string,
+  enabled: boolean,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const { data, error } = await supabaseServer
+    .from('automation_rules')
+    .update({ enabled, trigger_active: false, last_evaluated_at: new Date().toISOString() })
+    .eq('home_id', scope.homeId)
+    .eq('id', ruleId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Error updating automation rule:', error)
+    return format.t('rule.updateFailed', { id: ruleId })
+  }
+
+  if (!data) {
+    return format.t('rule.notFound', { id: ruleId })
+  }
+
+  await recordAudit(scope, {
+    action: 'rule.update',
+    previous: { id: ruleId, enabled: !enabled },
+    next: { id: ruleId, enabled },
+  })
+
+  return format.t(enabled ? 'rule.enabled' : 'rule.disabledDone', { name: data.name })
+}
+
+export async function deleteRule(
+  scope: HomeScope,
+  ruleId: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const { data, error } = await supabaseServer
+    .from('automation_rules')
+    .delete()
+    .eq('home_id', scope.homeId)
+    .eq('id', ruleId)
+    .select('*')
+
+  if (error) {
+    console.error('❌ Error deleting automation rule:', error)
+    return format.t('rule.deleteFailed', { id: ruleId })
+  }
+
+  if (!data || data.length === 0) {
+    return format.t('rule.notFound', { id: ruleId })
+  }
+
+  await recordAudit(scope, { action: 'rule.delete', previous: describeRuleChange(data[0]) })
+
+  return format.t('rule.deleted', { name: data[0].name })
+}
+
+// 🧪 Essai à blanc : évalue une règle (enregistrée ou non) sur les mesures actuelles ou supposées, sans rien changer
+export async function dryRunRule(
+  scope: HomeScope,
+  target: { ruleId?: string; rule?: RuleInput },
+  assume: RuleAssumptions = {},
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let rule: Pick<
+    AutomationRule,
+    | 'name'
+    | 'user_id'
+    | 'trigger'
+    | 'conditions'
+    | 'actions'
+    | 'trigger_active'
+    | 'last_fired_at'
+    | 'cooldown_minutes'
+  >
+
+  try {
+    if (target.ruleId) {
+      const { data } = await supabaseServer
+        .from('automation_rules')
+        .select('*')
+        .eq('home_id', scope.homeId)
+        .eq('id', target.ruleId)
+        .maybeSingle()
+      if (!data) return format.t('rule.notFound', { id: target.ruleId })
+      rule = data
+    } else {
+      const definition = await toRuleDefinition(scope, target.rule ?? {}, format)
+      rule = {
+        name: target.rule?.name?.trim() || describeTrigger(definition.trigger, format),
+        user_id: scope.userId,
+        ...definition,
+        trigger_active: false,
+        last_fired_at: null,
+        cooldown_minutes: DEFAULT_COOLDOWN_MINUTES,
+      }
+    }
+  } catch (validationError) {
+    if (validationError instanceof RuleValidationError) return validationError.message
+    throw validationError
+  }
+
+  const now = assume.at ? new Date(assume.at) : new Date()
+  if (Number.isNaN(now.getTime())) {
+    return format.t('rule.invalidAt')
+  }
+
+  let facts: RuleFacts
+  try {
+    facts = await loadFacts(scope, [rule], now)
+  } catch (factsError) {
+    console.error('❌', factsError)
+    return format.t('rule.fetchFailed')
+  }
+
+  // Valeurs supposées à la place des mesures
+  if (assume.mode) facts.mode = assume.mode
+  if (assume.outside !== undefined) facts.outside = assume.outside
+  for (const assumed of assume.rooms ?? []) {
+    const resolution = await resolveRoom(scope, assumed.room)
+    if (resolution.room === null) {
+      return unknownRoomMessage(assumed.room, resolution.suggestions, format)
+    }
+    const current = facts.readings.get(resolution.room)
+    facts.readings.set(resolution.room, {
+      temperature: assumed.temperature ?? current?.temperature ?? null,
+      humidity: assumed.humidity ?? current?.humidity ?? null,
+    })
+  }
+
+  const timeZone = rule.user_id ? await getUserTimeZone(rule.user_id) : DEFAULT_TIME_ZONE
+  const evaluation = evaluateRule(rule, facts, {
+    timeZone,
+    since: new Date(now.getTime() - TIME_WINDOW_MS),
+    ignoreState: true,
+  })
+
+  const valueOf = (item: MeasuredValue) => {
+    const value = readingOf(facts, item)
+    if (value === null) return format.t('rule.noReading')
+    return format.t('rule.currently', {
+      value: item.type === 'humidity' ? `${value}%` : format.temperature(value),
+    })
+  }
+
+  const lines = [format.t('rule.dryRun', { name: rule.name, time: format.dateTime(now) })]
+
+  const trigger = rule.trigger
+  lines.push(
+    `- ${describeTrigger(trigger, format)}: ${format.t(evaluation.triggered ? 'rule.met' : 'rule.notMet')}${
+      trigger.type === 'time' ? '' : ` (${valueOf(trigger)})`
+    }`
+  )
+  for (const condition of rule.conditions) {
+    const met = !evaluation.failedConditions.includes(condition)
+    const detail =
+      condition.type === 'temperature' ||
+      condition.type === 'humidity' ||
+      condition.type === 'outside_temperature'
+        ? ` (${valueOf(condition)})`
+        : condition.type === 'mode'
+          ? ` (${modeLabel(facts.mode, format)})`
+          : ''
+    lines.push(
+      `- ${describeCondition(condition, format)}: ${format.t(met ? 'rule.met' : 'rule.notMet')}${detail}`
+    )
+  }
+
+  if (evaluation.fires) {
+    lines.push(
+      format.t('rule.wouldFire', {
+        actions: evaluation.actions.map((action) => describeAction(action, format)).join(', '),
+      })
+    )
+  } else {
+    lines.push(format.t('rule.wouldNotFire'))
+  }
+
+  // Ce que l'essai ignore : front montant et délai entre deux déclenchements
+  if (evaluation.fires && trigger.type !== 'time' && rule.trigger_active) {
+    lines.push(format.t('rule.noteActive'))
+  }
+  if (
+    evaluation.fires &&
+    rule.last_fired_at &&
+    now.getTime() - new Date(rule.last_fired_at).getTime() < rule.cooldown_minutes * 60 * 1000
+  ) {
+    lines.push(
+      format.t('rule.noteCooldown', {
+        time: format.dateTime(rule.last_fired_at),
+        minutes: String(rule.cooldown_minutes),
+      })
+    )
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,166 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+
+// Limites de consigne : bornes dures, pas maximal et seuils de confirmation
+export interface TemperatureLimits {
+  min: number
+  max: number
+  maxStep: number
+  confirmAbove: number
+  confirmBelow: number
+}
+
+export type SafetyVerdict =
+  | { verdict: 'ok' }
+  | { verdict: 'reject'; message: string }
+  | { verdict: 'confirm'; reason: string }
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && Number.isFinite(value)
+    ? value
+    : fallback
+}
+
+const DEFAULT_LIMITS: TemperatureLimits = {
+  min: numberFromEnv('TEMPERATURE_MIN', 7),
+  max: numberFromEnv('TEMPERATURE_MAX', 28),
+  maxStep: numberFromEnv('TEMPERATURE_MAX_STEP', 4),
+  confirmAbove: numberFromEnv('TEMPERATURE_CONFIRM_ABOVE', 24),
+  confirmBelow: numberFromEnv('TEMPERATURE_CONFIRM_BELOW', 15),
+}
+
+type LimitsRow = Pick<
+  Tables<'temperature_limits'>,
+  | 'room'
+  | 'min_temperature'
+  | 'max_temperature'
+  | 'max_step'
+  | 'confirm_above'
+  | 'confirm_below'
+>
+
+function applyRow(limits: TemperatureLimits, row?: LimitsRow): TemperatureLimits {
+  if (!row) return limits
+  return {
+    min: row.min_temperature ?? limits.min,
+    max: row.max_temperature ?? limits.max,
+    maxStep: row.max_step ?? limits.maxStep,
+    confirmAbove: row.confirm_above ?? limits.confirmAbove,
+    confirmBelow: row.confirm_below ?? limits.confirmBelow,
+  }
+}
+
+// ✅ Limites effectives : valeurs par défaut < limites de l'utilisateur (room = null) < limites de la pièce
+export async function getTemperatureLimits(
+  scope: HomeScope,
+  room: string
+): Promise<TemperatureLimits> {
+  const { data, error } = await supabaseServer
+    .from('temperature_limits')
+    .select(
+      'room, min_temperature, max_temperature, max_step, confirm_above, confirm_below'
+    )
+    .eq('home_id', scope.homeId)
+
+  if (error) {
+    console.error('❌ Error fetching temperature limits:', error)
+  }
+
+  const rows: LimitsRow[] = data ?? []
+  return applyRow(
+    applyRow(DEFAULT_LIMITS, rows.find((row) => row.room === null)),
+    rows.find((row) => row.room === room)
+  )
+}
+
+// Consigne refusée par les bornes dures (les limites servent au rendu du message)
+export class OutOfRangeError extends Error {
+  constructor(
+    message: string,
+    readonly limits: Pick<TemperatureLimits, 'min' | 'max'>
+  ) {
+    super(message)
+    this.name = 'OutOfRangeError'
+  }
+}
+
+// Bornes dures : aucune consigne hors de [min, max], même confirmée
+export function checkBounds(
+  limits: TemperatureLimits,
+  room: string,
+  temperature: number,
+  format: Formatter = defaultFormatter
+): string | null {
+  if (!Number.isFinite(temperature)) {
+    return format.t('safety.invalid', { temperature })
+  }
+  if (temperature < limits.min || temperature > limits.max) {
+    return format.t('safety.outOfRange', {
+      temperature: format.temperature(temperature),
+      room,
+      min: format.temperature(limits.min),
+      max: format.temperature(limits.max),
+    })
+  }
+  return null
+}
+
+// ✅ Lève une erreur si la consigne est hors bornes (utilisé par tous les chemins d'écriture)
+export async function assertWithinLimits(
+  scope: HomeScope,
+  room: string,
+  temperature: number,
+  format: Formatter = defaultFormatter
+) {
+  const limits = await getTemperatureLimits(scope, room)
+  const error = checkBounds(limits, room, temperature, format)
+  if (error) {
+    throw new OutOfRangeError(error.replace(/^❌ /, ''), limits)
+  }
+}
+
+// ✅ Décision pour une demande venant du chat : accepter, refuser ou demander confirmation
+export async function evaluateTemperatureChange(
+  scope: HomeScope,
+  room: string,
+  temperature: number,
+  currentTarget: number | null,
+  format: Formatter = defaultFormatter
+): Promise<SafetyVerdict> {
+  const limits = await getTemperatureLimits(scope, room)
+
+  const boundsError = checkBounds(limits, room, temperature, format)
+  if (boundsError) {
+    return { verdict: 'reject', message: boundsError }
+  }
+
+  if (temperature > limits.confirmAbove || temperature < limits.confirmBelow) {
+    return {
+      verdict: 'confirm',
+      reason: format.t('safety.confirmTemperature', {
+        room,
+        temperature: format.temperature(temperature),
+      }),
+    }
+  }
+
+  if (
+    currentTarget !== null &&
+    Math.abs(temperature - currentTarget) > limits.maxStep
+  ) {
+    return {
+      verdict: 'confirm',
+      reason: format.t('safety.confirmStep', {
+        difference: format.difference(Math.abs(temperature - currentTarget)),
+        room,
+        from: format.temperature(currentTarget),
+        to: format.temperature(temperature),
+      }),
+    }
+  }
+
+  return { verdict: 'ok' }
+}
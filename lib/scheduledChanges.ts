@@ -0,0 +1,251 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { assertWithinLimits } from '@/lib/safety'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import type { Tables } from '@/lib/database'
+import type { HomeScope } from '@/lib/homes'
+import { recordAudit } from '@/lib/audit'
+import { modeLabel } from '@/lib/homeModes'
+
+export type ScheduledChange = Pick<
+  Tables<'scheduled_temperatures'>,
+  'id' | 'room' | 'temperature' | 'execute_at' | 'program_id' | 'mode'
+>
+
+// ✅ Changements planifiés encore en attente pour le foyer (consignes et retours de mode)
+export async function getUpcomingChanges(
+  scope: HomeScope
+): Promise<ScheduledChange[]> {
+  const { data, error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .select('id, room, temperature, execute_at, program_id, mode')
+    .eq('home_id', scope.homeId)
+    .eq('status', 'pending')
+    .order('execute_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Error fetching scheduled changes: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+export async function listScheduledChanges(
+  scope: HomeScope,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let changes: ScheduledChange[]
+  try {
+    changes = await getUpcomingChanges(scope)
+  } catch (error) {
+    console.error('❌', error)
+    return format.t('schedule.fetchFailed')
+  }
+
+  if (changes.length === 0) {
+    return format.t('schedule.none')
+  }
+
+  const lines = changes.map((change) =>
+    change.mode
+      ? format.t('schedule.modeItem', {
+          id: change.id,
+          mode: modeLabel(change.mode, format),
+          time: format.dateTime(change.execute_at),
+        })
+      : format.t('schedule.item', {
+          id: change.id,
+          room: change.room ?? '',
+          temperature: format.temperature(change.temperature ?? 0),
+          time: format.dateTime(change.execute_at),
+          origin: change.program_id ? format.t('schedule.fromProgram') : '',
+        })
+  )
+  return `${format.t('schedule.list')}\n${lines.join('\n')}`
+}
+
+// Fin prévue du mode courant, tenue à jour avec son job de retour
+async function updateModeUntil(scope: HomeScope, until: string | null) {
+  const { error } = await supabaseServer
+    .from('homes')
+    .update({ mode_until: until })
+    .eq('id', scope.homeId)
+
+  if (error) {
+    console.error('❌ Failed to update the end of the home mode:', error)
+  }
+}
+
+// ✅ Annule un changement en attente (la ligne est conservée avec le statut "cancelled")
+export async function cancelUpcomingChange(
+  scope: HomeScope,
+  changeId: string
+): Promise<Pick<ScheduledChange, 'room' | 'temperature' | 'mode'> | null> {
+  const { data, error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .update({ status: 'cancelled' })
+    .eq('home_id', scope.homeId)
+    .eq('id', changeId)
+    .eq('status', 'pending')
+    .select('room, temperature, execute_at, mode')
+
+  if (error) {
+    throw new Error(`Error cancelling scheduled change: ${error.message}`)
+  }
+
+  const cancelled = data?.[0]
+  if (!cancelled) return null
+
+  // Retour de mode annulé : le mode courant n'a plus de fin prévue
+  if (cancelled.mode) {
+    await updateModeUntil(scope, null)
+  }
+
+  await recordAudit(scope, {
+    action: 'schedule.cancel',
+    room: cancelled.room,
+    previous: cancelled.mode
+      ? { id: changeId, mode: cancelled.mode, execute_at: cancelled.execute_at }
+      : {
+          id: changeId,
+          temperature: cancelled.temperature,
+          execute_at: cancelled.execute_at,
+        },
+  })
+
+  return {
+    room: cancelled.room,
+    temperature: cancelled.temperature,
+    mode: cancelled.mode,
+  }
+}
+
+export async function cancelScheduledChange(
+  scope: HomeScope,
+  changeId: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  let cancelled
+  try {
+    cancelled = await cancelUpcomingChange(scope, changeId)
+  } catch (error) {
+    console.error('❌', error)
+    return format.t('schedule.cancelFailed', { id: changeId })
+  }
+
+  if (!cancelled) {
+    return format.t('schedule.notFound', { id: changeId })
+  }
+
+  if (cancelled.mode) {
+    return format.t('schedule.modeCancelled', { mode: modeLabel(cancelled.mode, format) })
+  }
+
+  return format.t('schedule.cancelled', {
+    room: cancelled.room ?? '',
+    temperature: format.temperature(cancelled.temperature ?? 0),
+  })
+}
+
+// ✅ Déplace un changement en attente (nouveau délai ou nouvelle heure), et/ou modifie sa consigne
+export async function rescheduleChange(
+  scope: HomeScope,
+  changeId: string,
+  { delayMinutes, executeAt, temperature }: {
+    delayMinutes?: number
+    executeAt?: string
+    temperature?: number
+  },
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const update: Record<string, unknown> = {}
+
+  if (delayMinutes !== undefined || executeAt !== undefined) {
+    const when =
+      delayMinutes !== undefined
+        ? new Date(Date.now() + delayMinutes * 60 * 1000)
+        : new Date(executeAt!)
+
+    if (Number.isNaN(when.getTime()) || when.getTime() < Date.now()) {
+      return format.t('schedule.invalidTime')
+    }
+
+    update.execute_at = when.toISOString()
+    update.next_attempt_at = null
+  }
+
+  // Valeurs avant modification, pour les bornes et le journal
+  const { data: change } = await supabaseServer
+    .from('scheduled_temperatures')
+    .select('room, temperature, execute_at, mode')
+    .eq('home_id', scope.homeId)
+    .eq('id', changeId)
+    .maybeSingle()
+
+  if (temperature !== undefined) {
+    // Un retour de mode n'a pas de consigne : seule son heure peut changer
+    if (change?.mode) {
+      return format.t('schedule.modeTemperature')
+    }
+    if (change?.room) {
+      try {
+        await assertWithinLimits(scope, change.room, temperature, format)
+      } catch (limitError) {
+        return `❌ ${(limitError as Error).message}`
+      }
+    }
+
+    update.temperature = temperature
+  }
+
+  if (Object.keys(update).length === 0) {
+    return format.t('schedule.nothingToChange')
+  }
+
+  const { data, error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .update(update)
+    .eq('home_id', scope.homeId)
+    .eq('id', changeId)
+    .eq('status', 'pending')
+    .select('room, temperature, execute_at, mode')
+
+  if (error) {
+    console.error('❌ Error rescheduling change:', error)
+    return format.t('schedule.rescheduleFailed', { id: changeId })
+  }
+
+  if (!data || data.length === 0) {
+    return format.t('schedule.notFound', { id: changeId })
+  }
+
+  const { room, execute_at, mode } = data[0]
+
+  if (mode) {
+    await updateModeUntil(scope, execute_at)
+    await recordAudit(scope, {
+      action: 'schedule.update',
+      previous: { id: changeId, mode, execute_at: change?.execute_at },
+      next: { id: changeId, mode, execute_at },
+    })
+
+    return format.t('schedule.modeRescheduled', {
+      mode: modeLabel(mode, format),
+      time: format.dateTime(execute_at),
+    })
+  }
+
+  await recordAudit(scope, {
+    action: 'schedule.update',
+    room,
+    previous: change
+      ? { id: changeId, temperature: change.temperature, execute_at: change.execute_at }
+      : { id: changeId },
+    next: { id: changeId, temperature: data[0].temperature, execute_at },
+  })
+
+  return format.t('schedule.rescheduled', {
+    room: room ?? '',
+    temperature: format.temperature(data[0].temperature ?? 0),
+    time: format.dateTime(execute_at),
+  })
+}
@@ -0,0 +1,247 @@
+import { randomUUID } from 'node:crypto'
+import { supabaseServer } from '@/lib/supabaseServer'
+import { setRoomTarget } from '@/lib/temperature'
+import {
+  applyHomeMode,
+  getHomeMode,
+  PROGRAM_PAUSING_MODES,
+} from '@/lib/homeModes'
+import type { HomeScope } from '@/lib/homes'
+import type { Tables } from '@/lib/database'
+
+export type JobStatus =
+  | 'pending'
+  | 'running'
+  | 'done'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled'
+
+export type ScheduledJob = Tables<'scheduled_temperatures'>
+
+export interface SchedulerRunSummary {
+  claimed: number
+  done: number
+  retried: number
+  failed: number
+  skipped: number
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+// ⚙️ Configuration du runner (variables d'environnement)
+const MAX_ATTEMPTS = numberFromEnv('SCHEDULER_MAX_ATTEMPTS', 5)
+const RETRY_BASE_MS = numberFromEnv('SCHEDULER_RETRY_BASE_SECONDS', 60) * 1000
+const RETRY_MAX_MS = numberFromEnv('SCHEDULER_RETRY_MAX_SECONDS', 3600) * 1000
+// Un job "running" plus vieux que ça est considéré comme abandonné (crash)
+const LOCK_TIMEOUT_MS = numberFromEnv('SCHEDULER_LOCK_TIMEOUT_SECONDS', 300) * 1000
+// Politique pour les jobs en retard : "run" (appliquer quand même) ou "skip"
+const LATENESS_POLICY =
+  process.env.SCHEDULER_LATENESS_POLICY === 'skip' ? 'skip' : 'run'
+const MAX_LATENESS_MS =
+  numberFromEnv('SCHEDULER_MAX_LATENESS_MINUTES', 60) * 60 * 1000
+const BATCH_SIZE = numberFromEnv('SCHEDULER_BATCH_SIZE', 50)
+
+// Backoff exponentiel : 1 min, 2 min, 4 min… plafonné
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS)
+}
+
+// 🔍 Jobs à exécuter : en attente et dus, ou "running" dont le verrou a expiré
+async function findCandidateJobs(now: Date): Promise<ScheduledJob[]> {
+  const nowIso = now.toISOString()
+  const staleLock = new Date(now.getTime() - LOCK_TIMEOUT_MS).toISOString()
+
+  const { data, error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .select('*')
+    .lte('execute_at', nowIso)
+    .or(
+      `and(status.eq.pending,or(next_attempt_at.is.null,next_attempt_at.lte.${nowIso})),` +
+        `and(status.eq.running,locked_at.lt.${staleLock})`
+    )
+    .order('execute_at', { ascending: true })
+    .limit(BATCH_SIZE)
+
+  if (error) {
+    throw new Error(`Error fetching scheduled updates: ${error.message}`)
+  }
+
+  return data ?? []
+}
+
+// 🔒 Réservation atomique : la mise à jour ne réussit que si personne ne l'a prise entre-temps
+async function claimJob(
+  job: ScheduledJob,
+  workerId: string,
+  now: Date
+): Promise<boolean> {
+  const { data, error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .update({
+      status: 'running',
+      locked_at: now.toISOString(),
+      locked_by: workerId,
+      attempts: job.attempts + 1,
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select('id')
+
+  if (error) {
+    console.error(`❌ Failed to claim job ${job.id}:`, error)
+    return false
+  }
+
+  return (data ?? []).length > 0
+}
+
+async function finishJob(
+  job: ScheduledJob,
+  workerId: string,
+  changes: Record<string, unknown>
+) {
+  const { error } = await supabaseServer
+    .from('scheduled_temperatures')
+    .update({ ...changes, locked_at: null, locked_by: null })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    console.error(`❌ Failed to record outcome of job ${job.id}:`, error)
+  }
+}
+
+// ✅ Exécute un job réservé : retard, application, puis succès/nouvelle tentative/échec
+async function runJob(
+  job: ScheduledJob,
+  workerId: string,
+  now: Date,
+  summary: SchedulerRunSummary
+) {
+  const attempts = job.attempts + 1
+  const lateness = now.getTime() - new Date(job.execute_at).getTime()
+
+  if (LATENESS_POLICY === 'skip' && lateness > MAX_LATENESS_MS) {
+    const minutesLate = Math.round(lateness / 60000)
+    console.warn(`⏭️ Skipping job ${job.id}: ${minutesLate} minutes late.`)
+    await finishJob(job, workerId, {
+      status: 'skipped',
+      last_error: `Skipped: ${minutesLate} minutes late`,
+      executed_at: now.toISOString(),
+    })
+    summary.skipped++
+    return
+  }
+
+  const scope: HomeScope = {
+    homeId: job.home_id,
+    userId: job.user_id,
+    origin: { actor: 'scheduler', detail: job.id },
+  }
+
+  // 🏡 Foyer absent : les consignes des programmes ne s'appliquent pas
+  if (job.program_id) {
+    const home = await getHomeMode(scope).catch(() => null)
+    if (home && PROGRAM_PAUSING_MODES.includes(home.mode)) {
+      console.log(`⏭️ Skipping job ${job.id}: home is in ${home.mode} mode.`)
+      await finishJob(job, workerId, {
+        status: 'skipped',
+        last_error: `Skipped: home is in ${home.mode} mode`,
+        executed_at: now.toISOString(),
+      })
+      summary.skipped++
+      return
+    }
+  }
+
+  // Échecs par pièce d'un changement de mode (le mode lui-même est appliqué)
+  let roomFailures: string | null = null
+
+  try {
+    if (job.mode) {
+      const result = await applyHomeMode(scope, job.mode)
+      if (result.failed.length > 0) {
+        roomFailures = result.failed
+          .map(({ room, error }) => `${room}: ${error}`)
+          .join('; ')
+      }
+    } else if (job.room !== null && job.temperature !== null) {
+      await setRoomTarget(
+        scope,
+        job.room,
+        job.temperature,
+        job.program_id ? 'program' : 'scheduled'
+      )
+    } else {
+      throw new Error('Job has neither a mode nor a room and temperature.')
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`❌ Job ${job.id} failed after ${attempts} attempts:`, message)
+      await finishJob(job, workerId, {
+        status: 'failed',
+        last_error: message,
+        executed_at: now.toISOString(),
+      })
+      summary.failed++
+      return
+    }
+
+    const nextAttempt = new Date(now.getTime() + retryDelayMs(attempts))
+    console.warn(
+      `🔁 Job ${job.id} failed, retrying at ${nextAttempt.toISOString()}:`,
+      message
+    )
+    await finishJob(job, workerId, {
+      status: 'pending',
+      last_error: message,
+      next_attempt_at: nextAttempt.toISOString(),
+    })
+    summary.retried++
+    return
+  }
+
+  console.log(
+    job.mode
+      ? `🏡 Switched home ${job.home_id} to ${job.mode} mode.`
+      : `🔥 Updated temperature for ${job.room} to ${job.temperature}°C.`
+  )
+  await finishJob(job, workerId, {
+    status: 'done',
+    last_error: roomFailures,
+    executed_at: now.toISOString(),
+  })
+  summary.done++
+}
+
+// ✅ Réserve et exécute les changements planifiés dus ; l'historique reste en base
+export async function runDueJobs(
+  now: Date = new Date(),
+  workerId: string = randomUUID()
+): Promise<SchedulerRunSummary> {
+  const summary: SchedulerRunSummary = {
+    claimed: 0,
+    done: 0,
+    retried: 0,
+    failed: 0,
+    skipped: 0,
+  }
+
+  for (const job of await findCandidateJobs(now)) {
+    if (!(await claimJob(job, workerId, now))) {
+      continue // Déjà pris par une autre invocation
+    }
+
+    summary.claimed++
+    await runJob(job, workerId, now, summary)
+  }
+
+  return summary
+}
@@ -0,0 +1,251 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { resolveRoom } from '@/lib/rooms'
+import { deviceScope, touchDevice, type Device } from '@/lib/devices'
+import { evaluateRules } from '@/lib/rules'
+
+// Nombre maximum de mesures par requête d'ingestion
+const DEFAULT_MAX_BATCH = 500
+const MAX_BATCH =
+  Number(process.env.SENSOR_MAX_BATCH) > 0
+    ? Number(process.env.SENSOR_MAX_BATCH)
+    : DEFAULT_MAX_BATCH
+
+// Tolérance pour les horloges d'appareils un peu en avance
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+// ✅ Mesure envoyée par un appareil : °C, humidité relative en %, instant ISO ou secondes Unix
+export interface SensorReading {
+  room?: string // défaut : la pièce de l'appareil
+  temperature: number
+  humidity?: number
+  recordedAt?: string | number // défaut : réception
+}
+
+export interface ReadingRejection {
+  index: number
+  reason: string
+}
+
+export interface IngestionResult {
+  accepted: number
+  rejected: ReadingRejection[]
+}
+
+// Corps de requête illisible (la requête entière est refusée)
+export class ReadingFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReadingFormatError'
+  }
+}
+
+const FIELD_NAMES: Record<string, 'temperature' | 'humidity'> = {
+  t: 'temperature',
+  temperature: 'temperature',
+  h: 'humidity',
+  humidity: 'humidity',
+}
+
+// 📝 Format ligne, une mesure par ligne ("#" = commentaire) :
+//   bedroom t=19.5 h=48 2026-10-19T07:00:00Z
+//   "living room" temperature=21.2 1760857200
+//   t=20.1              (pièce de l'appareil, instant de réception)
+export function parseReadingLines(text: string): SensorReading[] {
+  const readings: SensorReading[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim()
+    if (!line || line.startsWith('#')) return
+
+    const tokens = [...line.matchAll(/"([^"]*)"|(\S+)/g)].map(
+      (match) => match[1] ?? match[2]
+    )
+    const reading: Partial<SensorReading> = {}
+
+    tokens.forEach((token, position) => {
+      const separator = token.indexOf('=')
+      if (separator > 0) {
+        const field = FIELD_NAMES[token.slice(0, separator).toLowerCase()]
+        const value = Number(token.slice(separator + 1))
+        if (!field || !Number.isFinite(value)) {
+          throw new ReadingFormatError(`Line ${index + 1}: invalid field "${token}".`)
+        }
+        reading[field] = value
+      } else if (position === 0) {
+        reading.room = token
+      } else if (reading.recordedAt === undefined) {
+        reading.recordedAt = /^\d+(\.\d+)?$/.test(token) ? Number(token) : token
+      } else {
+        throw new ReadingFormatError(`Line ${index + 1}: unexpected "${token}".`)
+      }
+    })
+
+    if (reading.temperature === undefined) {
+      throw new ReadingFormatError(`Line ${index + 1}: missing t=<temperature>.`)
+    }
+    readings.push(reading as SensorReading)
+  })
+
+  return readings
+}
+
+// 📦 Format JSON : { readings: [...] }, un tableau de mesures ou une seule mesure
+export function parseReadingJson(body: unknown): SensorReading[] {
+  const list = Array.isArray(body)
+    ? body
+    : body && typeof body === 'object' && 'readings' in body
+      ? (body as { readings: unknown }).readings
+      : [body]
+
+  if (!Array.isArray(list)) {
+    throw new ReadingFormatError('"readings" must be an array.')
+  }
+
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new ReadingFormatError(`Reading ${index}: expected an object.`)
+    }
+    return item as SensorReading
+  })
+}
+
+// Instant de la mesure ; null si invalide ou trop dans le futur
+function toRecordedAt(value: SensorReading['recordedAt'], receivedAt: Date) {
+  if (value === undefined) return receivedAt
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  if (date.getTime() > receivedAt.getTime() + MAX_CLOCK_SKEW_MS) return null
+  return date
+}
+
+// Raison du refus d'une mesure, ou null si elle est exploitable
+function checkReading(reading: SensorReading): string | null {
+  if (typeof reading.temperature !== 'number' || !Number.isFinite(reading.temperature)) {
+    return 'temperature must be a number'
+  }
+  if (reading.temperature < -50 || reading.temperature > 100) {
+    return 'temperature must be between -50 and 100 °C'
+  }
+  if (
+    reading.humidity !== undefined &&
+    (typeof reading.humidity !== 'number' || reading.humidity < 0 || reading.humidity > 100)
+  ) {
+    return 'humidity must be a number between 0 and 100'
+  }
+  if (reading.room !== undefined && typeof reading.room !== 'string') {
+    return 'room must be a string'
+  }
+  return null
+}
+
+// ✅ Enregistre les mesures d'un appareil : historique (source "device") + dernière mesure de chaque pièce
+export async function ingestReadings(
+  device: Device,
+  readings: SensorReading[]
+): Promise<IngestionResult> {
+  if (readings.length > MAX_BATCH) {
+    throw new ReadingFormatError(`At most ${MAX_BATCH} readings per request.`)
+  }
+
+  const scope = deviceScope(device)
+  const receivedAt = new Date()
+  const rejected: ReadingRejection[] = []
+  const rooms = new Map<string, string | null>()
+  const rows: {
+    room: string
+    temperature: number
+    humidity: number | null
+    recorded_at: string
+  }[] = []
+
+  for (const [index, reading] of readings.entries()) {
+    const problem = checkReading(reading)
+    if (problem) {
+      rejected.push({ index, reason: problem })
+      continue
+    }
+
+    const recordedAt = toRecordedAt(reading.recordedAt, receivedAt)
+    if (!recordedAt) {
+      rejected.push({ index, reason: 'recordedAt must be a past ISO date or Unix time' })
+      continue
+    }
+
+    const name = reading.room ?? device.room
+    if (!name) {
+      rejected.push({ index, reason: 'room is required (the device has no default room)' })
+      continue
+    }
+
+    // Même résolution que le chat : casse, alias, petites fautes
+    if (!rooms.has(name)) {
+      const resolution = await resolveRoom(scope, name)
+      rooms.set(name, resolution.room)
+    }
+    const room = rooms.get(name)
+    if (!room) {
+      rejected.push({ index, reason: `unknown room "${name}"` })
+      continue
+    }
+
+    rows.push({
+      room,
+      temperature: reading.temperature,
+      humidity: reading.humidity ?? null,
+      recorded_at: recordedAt.toISOString(),
+    })
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabaseServer.from('temperature_history').insert(
+      rows.map((row) => ({
+        home_id: device.home_id,
+        user_id: null,
+        source: 'device' as const,
+        ...row,
+      }))
+    )
+
+    if (error) {
+      throw new Error(`Error saving sensor readings: ${error.message}`)
+    }
+
+    // 🌡️ Dernière mesure par pièce ; une mesure plus ancienne que celle connue ne la remplace pas
+    const latest = new Map<string, (typeof rows)[number]>()
+    for (const row of rows) {
+      const known = latest.get(row.room)
+      if (!known || row.recorded_at > known.recorded_at) latest.set(row.room, row)
+    }
+
+    for (const row of latest.values()) {
+      const { error: updateError } = await supabaseServer
+        .from('room_temperatures')
+        .update({
+          measured_temperature: row.temperature,
+          measured_humidity: row.humidity,
+          measured_at: row.recorded_at,
+        })
+        .eq('home_id', device.home_id)
+        .eq('room', row.room)
+        .or(`measured_at.is.null,measured_at.lt.${row.recorded_at}`)
+
+      if (updateError) {
+        console.error(`❌ Failed to update measured temperature of ${row.room}:`, updateError)
+      }
+    }
+
+    // ⚡ Règles déclenchées par les pièces mesurées (sans bloquer l'ingestion)
+    try {
+      await evaluateRules(new Date(), {
+        homeId: device.home_id,
+        rooms: [...latest.keys()],
+      })
+    } catch (rulesError) {
+      console.error('❌ Failed to evaluate automation rules:', rulesError)
+    }
+  }
+
+  await touchDevice(device)
+
+  return { accepted: rows.length, rejected }
+}
@@ -0,0 +1,35 @@
+// ✅ Lit un flux Server-Sent Events depuis une réponse fetch et appelle onEvent pour chaque événement
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+) {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    // Les événements sont séparés par une ligne vide
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      let data = ''
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7)
+        else if (line.startsWith('data: ')) data += line.slice(6)
+      }
+
+      onEvent(event, data ? JSON.parse(data) : null)
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database'
+
+// ⚠️ Client serveur uniquement : la clé service role contourne le RLS.
+// Ne jamais importer ce fichier depuis un composant client.
+let client: SupabaseClient<Database> | null = null
+
+function createServerClient(): SupabaseClient<Database> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('❌ Missing Supabase server credentials in .env file')
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false, // Pas de session côté serveur
+      autoRefreshToken: false,
+    },
+  })
+}
+
+// 🔁 Remplace le client (base en mémoire dans les tests) ; null revient au vrai client
+export function setSupabaseServer(replacement: SupabaseClient<Database> | null) {
+  client = replacement
+}
+
+// Le client est créé au premier appel, ce qui laisse le temps de le remplacer
+export const supabaseServer = new Proxy({} as SupabaseClient<Database>, {
+  get(_target, property) {
+    client ??= createServerClient()
+    const value = Reflect.get(client, property)
+    return typeof value === 'function' ? value.bind(client) : value
+  },
+})
@@ -0,0 +1,582 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import { getRoomDriver, type ThermostatDriver } from '@/lib/thermostat'
+import { OutOfRangeError, assertWithinLimits } from '@/lib/safety'
+import { defaultFormatter, type Formatter } from '@/lib/format'
+import { resolveRoom, unknownRoomMessage } from '@/lib/rooms'
+import {
+  computeStats,
+  fetchTemperatureSeries,
+  recordTemperature,
+  type TemperatureSource,
+} from '@/lib/temperatureHistory'
+import type { HomeScope } from '@/lib/homes'
+import type { Tables } from '@/lib/database'
+import { recordAudit } from '@/lib/audit'
+
+// Au-delà de ce délai, la dernière mesure d'une pièce est signalée comme ancienne
+const DEFAULT_STALE_MINUTES = 30
+const STALE_AFTER_MS =
+  (Number(process.env.SENSOR_STALE_MINUTES) > 0
+    ? Number(process.env.SENSOR_STALE_MINUTES)
+    : DEFAULT_STALE_MINUTES) *
+  60 *
+  1000
+
+export type TemperatureErrorCode =
+  | 'unknown_room'
+  | 'no_data'
+  | 'out_of_range'
+  | 'schedule_failed'
+  | 'update_failed'
+
+export interface TemperatureError {
+  code: TemperatureErrorCode
+  message?: string // Détail technique (thermostat, base de données)
+  suggestions?: string[] // unknown_room : pièces proches
+  limits?: { min: number; max: number } // out_of_range
+}
+
+// ✅ Résultat typé d'une lecture ou d'un changement de consigne (°C, instants ISO) ; rendu par renderTemperatureResult
+export interface TemperatureResult {
+  ok: boolean
+  action: 'read' | 'set' | 'schedule'
+  room: string
+  // read : température mesurée (null si aucune mesure) ; set/schedule : consigne demandée
+  temperature: number | null
+  target: number | null // consigne
+  humidity: number | null
+  measuredAt: string | null
+  stale: boolean // la dernière mesure date de plus de SENSOR_STALE_MINUTES
+  scheduledAt: string | null
+  error: TemperatureError | null
+}
+
+// Mesure d'une pièce : dernier relevé d'un capteur, sinon lecture du thermostat
+export interface RoomClimate {
+  temperature: number
+  humidity: number | null
+  measuredAt: string
+  source: 'sensor' | 'thermostat'
+}
+
+type MeasuredRoom = Pick<
+  Tables<'room_temperatures'>,
+  'temperature' | 'measured_temperature' | 'measured_humidity' | 'measured_at'
+>
+
+const NO_READING = { humidity: null, measuredAt: null, stale: false }
+
+function success(
+  action: TemperatureResult['action'],
+  room: string,
+  temperature: number,
+  scheduledAt: string | null = null
+): TemperatureResult {
+  return {
+    ok: true,
+    action,
+    room,
+    temperature,
+    target: temperature,
+    ...NO_READING,
+    scheduledAt,
+    error: null,
+  }
+}
+
+function failure(
+  action: TemperatureResult['action'],
+  room: string,
+  temperature: number | null,
+  error: TemperatureError
+): TemperatureResult {
+  return {
+    ok: false,
+    action,
+    room,
+    temperature,
+    target: null,
+    ...NO_READING,
+    scheduledAt: null,
+    error,
+  }
+}
+
+export function isStale(measuredAt: string | null, now = Date.now()): boolean {
+  return measuredAt !== null && now - new Date(measuredAt).getTime() > STALE_AFTER_MS
+}
+
+// Erreur levée par setRoomTarget → code d'erreur du résultat
+function toTemperatureError(
+  error: unknown,
+  code: TemperatureErrorCode
+): TemperatureError {
+  if (error instanceof OutOfRangeError) {
+    return { code: 'out_of_range', message: error.message, limits: error.limits }
+  }
+  return { code, message: error instanceof Error ? error.message : String(error) }
+}
+
+// ✅ Fonction pour obtenir la température actuelle d'une chambre
+export async function getTemperature(
+  scope: HomeScope,
+  roomName: string
+): Promise<TemperatureResult> {
+  const resolution = await resolveRoom(scope, roomName)
+
+  if (resolution.room === null) {
+    return failure('read', roomName, null, {
+      code: 'unknown_room',
+      suggestions: resolution.suggestions,
+    })
+  }
+
+  const room = resolution.room
+
+  const { data, error } = await supabaseServer
+    .from('room_temperatures')
+    .select('temperature, measured_temperature, measured_humidity, measured_at')
+    .eq('home_id', scope.homeId)
+    .eq('room', room)
+    .single()
+
+  if (error || !data) {
+    return failure('read', room, null, { code: 'no_data' })
+  }
+
+  const climate = await readRoomClimate(scope, room, data)
+  return {
+    ok: true,
+    action: 'read',
+    room,
+    temperature: climate?.temperature ?? null,
+    target: data.temperature,
+    humidity: climate?.humidity ?? null,
+    measuredAt: climate?.measuredAt ?? null,
+    stale: isStale(climate?.measuredAt ?? null),
+    scheduledAt: null,
+    error: null,
+  }
+}
+
+// 🌡️ Les capteurs font foi dès qu'ils ont envoyé une mesure (même ancienne) ; sinon on lit le thermostat
+export async function readRoomClimate(
+  scope: HomeScope,
+  room: string,
+  measured: MeasuredRoom
+): Promise<RoomClimate | null> {
+  if (measured.measured_temperature !== null && measured.measured_at) {
+    return {
+      temperature: measured.measured_temperature,
+      humidity: measured.measured_humidity,
+      measuredAt: measured.measured_at,
+      source: 'sensor',
+    }
+  }
+
+  try {
+    const driver = await getRoomDriver(scope, room, measured.temperature)
+    const reading = await driver.readTemperature()
+    return {
+      temperature: reading.temperature,
+      humidity: reading.humidity ?? null,
+      measuredAt: reading.readAt.toISOString(),
+      source: 'thermostat',
+    }
+  } catch (readError) {
+    console.error(`❌ Failed to read thermostat for ${room}:`, readError)
+    return null
+  }
+}
+
+// Pièces équipées de capteurs : l'historique utile est celui des mesures, pas des consignes
+async function historySources(
+  scope: HomeScope,
+  room: string
+): Promise<TemperatureSource[] | undefined> {
+  const { data } = await supabaseServer
+    .from('room_temperatures')
+    .select('measured_at')
+    .eq('home_id', scope.homeId)
+    .eq('room', room)
+    .maybeSingle()
+
+  return data?.measured_at ? ['device'] : undefined
+}
+
+
+export async function setTemperature(
+  scope: HomeScope,
+  roomName: string,
+  temperature: number,
+  delayMinutes?: number
+): Promise<TemperatureResult> {
+  const action = delayMinutes && delayMinutes > 0 ? 'schedule' : 'set'
+  const resolution = await resolveRoom(scope, roomName)
+
+  // 🛑 Pièce inconnue : pas de création implicite, le modèle doit demander confirmation
+  if (resolution.room === null) {
+    return failure(action, roomName, temperature, {
+      code: 'unknown_room',
+      suggestions: resolution.suggestions,
+    })
+  }
+
+  const room = resolution.room
+
+  if (delayMinutes && delayMinutes > 0) {
+    try {
+      await assertWithinLimits(scope, room, temperature)
+    } catch (limitError) {
+      return failure(
+        action,
+        room,
+        temperature,
+        toTemperatureError(limitError, 'out_of_range')
+      )
+    }
+
+    const executeAt = new Date(Date.now() + delayMinutes * 60 * 1000) // Calcul de l'heure d'exécution
+
+    const { error } = await supabaseServer
+      .from('scheduled_temperatures')
+      .insert([
+        {
+          home_id: scope.homeId,
+          user_id: scope.userId,
+          room,
+          temperature,
+          execute_at: executeAt.toISOString(),
+        },
+      ])
+
+    if (error) {
+      console.error('❌ Error scheduling temperature update:', error)
+      return failure(action, room, temperature, {
+        code: 'schedule_failed',
+        message: error.message,
+      })
+    }
+
+    await recordAudit(scope, {
+      action: 'schedule.create',
+      room,
+      next: { temperature, execute_at: executeAt.toISOString() },
+    })
+
+    return success(action, room, temperature, executeAt.toISOString())
+  }
+
+  return await applyTemperatureChange(scope, room, temperature)
+}
+
+
+// ✅ Envoie la consigne au thermostat de la pièce puis l'enregistre (lève une erreur en cas d'échec)
+// Si la base refuse la mise à jour, le thermostat reprend sa consigne précédente
+export async function setRoomTarget(
+  scope: HomeScope,
+  room: string,
+  temperature: number,
+  source: TemperatureSource = 'manual'
+): Promise<void> {
+  // 🛡️ Bornes dures vérifiées pour tous les chemins (chat, cron, tableau de bord)
+  await assertWithinLimits(scope, room, temperature)
+
+  const { data: previous, error: fetchError } = await supabaseServer
+    .from('room_temperatures')
+    .select('temperature')
+    .eq('home_id', scope.homeId)
+    .eq('room', room)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(fetchError.message)
+  }
+
+  const driver = await getRoomDriver(scope, room, previous?.temperature)
+  await driver.setTarget(temperature)
+
+  const { error } = await supabaseServer
+    .from('room_temperatures')
+    .update({ temperature })
+    .eq('home_id', scope.homeId)
+    .eq('room', room)
+
+  if (error) {
+    // ↩️ Le thermostat reprend l'ancienne consigne
+    if (previous) {
+      try {
+        await driver.setTarget(previous.temperature)
+      } catch (rollbackError) {
+        console.error(`❌ Failed to restore the thermostat of ${room}:`, rollbackError)
+      }
+    }
+    throw new Error(error.message)
+  }
+
+  // 📈 Chaque changement est ajouté à l'historique avec son origine, et au journal avec son auteur
+  await recordTemperature(scope, room, temperature, source)
+  await recordAudit(scope, {
+    action: 'temperature.set',
+    room,
+    previous: previous ? { temperature: previous.temperature } : null,
+    next: { temperature, source },
+  })
+}
+
+// Consigne d'une pièce avant/après un changement groupé (°C)
+export interface RoomTargetChange {
+  room: string
+  previous: number
+  temperature: number
+}
+
+// ✅ Change les consignes de plusieurs pièces : tous les thermostats, puis une seule mise à jour transactionnelle
+// Si un thermostat ou la base échoue, les thermostats déjà réglés reprennent leur consigne et rien n'est enregistré
+export async function setRoomTargets(
+  scope: HomeScope,
+  targets: { room: string; temperature: number }[],
+  source: TemperatureSource = 'manual'
+): Promise<RoomTargetChange[]> {
+  if (targets.length === 0) return []
+
+  // 🛡️ Toutes les consignes sont vérifiées avant d'en appliquer une seule
+  for (const { room, temperature } of targets) {
+    await assertWithinLimits(scope, room, temperature)
+  }
+
+  const { data: current, error: fetchError } = await supabaseServer
+    .from('room_temperatures')
+    .select('room, temperature')
+    .eq('home_id', scope.homeId)
+    .in('room', targets.map(({ room }) => room))
+
+  if (fetchError) {
+    throw new Error(fetchError.message)
+  }
+
+  const previous = new Map((current ?? []).map((row) => [row.room, row.temperature]))
+  const applied: { room: string; driver: ThermostatDriver }[] = []
+
+  const rollback = async () => {
+    for (const { room, driver } of applied) {
+      try {
+        await driver.setTarget(previous.get(room)!)
+      } catch (rollbackError) {
+        console.error(`❌ Failed to restore the thermostat of ${room}:`, rollbackError)
+      }
+    }
+  }
+
+  try {
+    for (const { room, temperature } of targets) {
+      const driver = await getRoomDriver(scope, room, previous.get(room))
+      await driver.setTarget(temperature)
+      applied.push({ room, driver })
+    }
+  } catch (driverError) {
+    await rollback()
+    throw driverError
+  }
+
+  const { data, error } = await supabaseServer.rpc('set_room_temperatures', {
+    target_home: scope.homeId,
+    targets,
+  })
+
+  if (error || !data) {
+    await rollback()
+    throw new Error(error?.message ?? 'No room updated.')
+  }
+
+  for (const change of data) {
+    await recordTemperature(scope, change.room, change.temperature, source)
+    await recordAudit(scope, {
+      action: 'temperature.set',
+      room: change.room,
+      previous: { temperature: change.previous },
+      next: { temperature: change.temperature, source },
+    })
+  }
+
+  return data
+}
+
+
+export async function applyTemperatureChange(
+  scope: HomeScope,
+  room: string,
+  temperature: number
+): Promise<TemperatureResult> {
+  try {
+    await setRoomTarget(scope, room, temperature)
+  } catch (error) {
+    console.error(`❌ Failed to update temperature for ${room}:`, error)
+    return failure(
+      'set',
+      room,
+      temperature,
+      toTemperatureError(error, 'update_failed')
+    )
+  }
+
+  return success('set', room, temperature)
+}
+
+// ✅ Rendu d'un résultat typé dans la langue, l'unité et le fuseau de l'utilisateur
+export function renderTemperatureResult(
+  result: TemperatureResult,
+  format: Formatter = defaultFormatter
+): string {
+  const { room, error } = result
+
+  if (error) {
+    if (error.code === 'unknown_room') {
+      return unknownRoomMessage(room, error.suggestions ?? [], format)
+    }
+    if (error.code === 'no_data') {
+      return format.t('temperature.noData', { room })
+    }
+    if (error.code === 'out_of_range' && error.limits) {
+      return format.t('safety.outOfRange', {
+        temperature: format.temperature(result.temperature ?? NaN),
+        room,
+        min: format.temperature(error.limits.min),
+        max: format.temperature(error.limits.max),
+      })
+    }
+    if (error.code === 'schedule_failed') {
+      return format.t('temperature.scheduleFailed', { room })
+    }
+    const reason = error.message ? ` ${error.message}` : ''
+    return format.t('temperature.updateFailed', { room, reason })
+  }
+
+  if (result.action === 'read') {
+    const target = format.temperature(result.target ?? NaN)
+    if (result.temperature === null) {
+      return format.t('temperature.noReading', { room, target })
+    }
+
+    const humidity =
+      result.humidity !== null
+        ? format.t('temperature.humidity', { humidity: Math.round(result.humidity) })
+        : ''
+    const stale =
+      result.stale && result.measuredAt
+        ? format.t('temperature.stale', { time: format.dateTime(result.measuredAt) })
+        : ''
+    return `${format.t('temperature.current', {
+      room,
+      temperature: format.temperature(result.temperature),
+      humidity,
+      target,
+    })}${stale}`
+  }
+
+  const temperature = format.temperature(result.temperature ?? NaN)
+
+  if (result.action === 'schedule' && result.scheduledAt) {
+    return format.t('temperature.scheduled', {
+      room,
+      temperature,
+      time: format.time(result.scheduledAt),
+    })
+  }
+  return format.t('temperature.set', { room, temperature })
+}
+
+
+function parseDate(value: string, label: string): Date {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${label} "${value}", expected an ISO 8601 date-time.`)
+  }
+  return date
+}
+
+// ✅ Température d'une pièce à un instant donné ("hier soir à 22h")
+export async function getTemperatureAt(
+  scope: HomeScope,
+  roomName: string,
+  at: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, roomName)
+  if (resolution.room === null) {
+    return unknownRoomMessage(roomName, resolution.suggestions, format)
+  }
+
+  try {
+    const date = parseDate(at, 'time')
+    const [point] = await fetchTemperatureSeries(
+      scope,
+      resolution.room,
+      date,
+      date,
+      await historySources(scope, resolution.room)
+    )
+
+    if (!point) {
+      return format.t('history.noneAt', { room: resolution.room })
+    }
+
+    return format.t('history.at', {
+      time: format.dateTime(date),
+      room: resolution.room,
+      temperature: format.temperature(point.temperature),
+      since: format.dateTime(point.recorded_at),
+    })
+  } catch (error) {
+    console.error('❌ Error fetching temperature history:', error)
+    return `❌ ${(error as Error).message}`
+  }
+}
+
+// ✅ Min / max / moyenne / dernière valeur d'une pièce sur une période
+export async function getTemperatureStats(
+  scope: HomeScope,
+  roomName: string,
+  from: string,
+  to?: string,
+  format: Formatter = defaultFormatter
+): Promise<string> {
+  const resolution = await resolveRoom(scope, roomName)
+  if (resolution.room === null) {
+    return unknownRoomMessage(roomName, resolution.suggestions, format)
+  }
+
+  try {
+    const start = parseDate(from, 'start')
+    const end = to ? parseDate(to, 'end') : new Date()
+    const stats = computeStats(
+      await fetchTemperatureSeries(
+        scope,
+        resolution.room,
+        start,
+        end,
+        await historySources(scope, resolution.room)
+      ),
+      start,
+      end
+    )
+
+    if (!stats) {
+      return format.t('history.noneInPeriod', { room: resolution.room })
+    }
+
+    return format.t('history.stats', {
+      room: resolution.room,
+      from: format.dateTime(start),
+      to: format.dateTime(end),
+      average: format.temperature(stats.average),
+      min: format.temperature(stats.min),
+      max: format.temperature(stats.max),
+      latest: format.temperature(stats.latest),
+      samples: stats.samples,
+    })
+  } catch (error) {
+    console.error('❌ Error computing temperature stats:', error)
+    return `❌ ${(error as Error).message}`
+  }
+}
@@ -0,0 +1,126 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import type { HomeScope } from '@/lib/homes'
+
+// Origine d'une valeur : chat/UI, changement planifié, programme récurrent, appareil, mode du foyer ou règle
+export type TemperatureSource =
+  | 'manual'
+  | 'scheduled'
+  | 'program'
+  | 'device'
+  | 'mode'
+  | 'rule'
+
+export interface TemperaturePoint {
+  temperature: number
+  recorded_at: string
+}
+
+// PostgREST ne renvoie pas plus de lignes par requête (max-rows) : les séries longues sont lues par pages
+const PAGE_SIZE = 1000
+
+export interface TemperatureStats {
+  min: number
+  max: number
+  average: number // moyenne pondérée par la durée
+  latest: number
+  samples: number
+}
+
+// ✅ Ajoute un point à la série temporelle (sans bloquer l'action en cas d'échec)
+export async function recordTemperature(
+  scope: HomeScope,
+  room: string,
+  temperature: number,
+  source: TemperatureSource
+) {
+  const { error } = await supabaseServer
+    .from('temperature_history')
+    .insert([
+      { home_id: scope.homeId, user_id: scope.userId, room, temperature, source },
+    ])
+
+  if (error) {
+    console.error(`❌ Failed to record temperature history for ${room}:`, error)
+  }
+}
+
+// Dernier point avant "from" + points dans ]from, to] (sources : toutes par défaut)
+export async function fetchTemperatureSeries(
+  scope: HomeScope,
+  room: string,
+  from: Date,
+  to: Date,
+  sources?: TemperatureSource[]
+): Promise<TemperaturePoint[]> {
+  const series = () => {
+    const query = supabaseServer
+      .from('temperature_history')
+      .select('temperature, recorded_at')
+      .eq('home_id', scope.homeId)
+      .eq('room', room)
+    return sources ? query.in('source', sources) : query
+  }
+
+  const before = await series()
+    .lte('recorded_at', from.toISOString())
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+
+  if (before.error) {
+    throw new Error(before.error.message)
+  }
+
+  // Une mesure par minute pendant une semaine dépasse largement une page
+  const points: TemperaturePoint[] = [...(before.data ?? [])]
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await series()
+      .gt('recorded_at', from.toISOString())
+      .lte('recorded_at', to.toISOString())
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    points.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return points
+}
+
+// ✅ Statistiques d'une série en escalier : chaque valeur vaut jusqu'au point suivant
+export function computeStats(
+  points: TemperaturePoint[],
+  from: Date,
+  to: Date
+): TemperatureStats | null {
+  if (points.length === 0) return null
+
+  let weighted = 0
+  let duration = 0
+  let min = Infinity
+  let max = -Infinity
+
+  points.forEach((point, index) => {
+    const start = Math.max(new Date(point.recorded_at).getTime(), from.getTime())
+    const next = points[index + 1]
+    const end = next ? new Date(next.recorded_at).getTime() : to.getTime()
+    const span = Math.max(end - start, 0)
+
+    weighted += point.temperature * span
+    duration += span
+    min = Math.min(min, point.temperature)
+    max = Math.max(max, point.temperature)
+  })
+
+  return {
+    min,
+    max,
+    average: Math.round((duration > 0 ? weighted / duration : min) * 10) / 10,
+    latest: points[points.length - 1].temperature,
+    samples: points.length,
+  }
+}
@@ -0,0 +1,570 @@
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuthUser } from '@/lib/auth'
+import type { Database } from '@/lib/database'
+
+// ⚠️ Stand-in de test : ne couvre que le sous-ensemble de requêtes utilisé par le serveur
+// (from/select/insert/update/upsert/delete, eq/neq/gt/gte/lt/lte/like/in/is/or, order/limit/range/single/maybeSingle, rpc)
+
+export type Row = Record<string, unknown>
+
+interface MemoryError {
+  message: string
+  code?: string
+}
+
+interface MemoryResponse {
+  data: unknown
+  error: MemoryError | null
+}
+
+type Filter = (row: Row) => boolean
+
+export interface MemorySupabaseOptions {
+  tables?: Record<string, Row[]>
+  // access token → utilisateur renvoyé par auth.getUser
+  users?: Record<string, AuthUser>
+}
+
+// Valeurs par défaut des colonnes, comme dans supabase/migrations
+const COLUMN_DEFAULTS: Record<string, () => Row> = {
+  '*': () => ({ id: randomUUID(), created_at: new Date().toISOString() }),
+  automation_rules: () => ({
+    conditions: [],
+    enabled: true,
+    cooldown_minutes: 30,
+    trigger_active: false,
+    last_evaluated_at: null,
+    last_fired_at: null,
+    last_error: null,
+  }),
+  conversations: () => ({ summary: null, summarized_until: null }),
+  scheduled_temperatures: () => ({
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: null,
+    locked_at: null,
+    locked_by: null,
+    last_error: null,
+    executed_at: null,
+    program_id: null,
+    mode: null,
+  }),
+  temperature_history: () => ({
+    recorded_at: new Date().toISOString(),
+    humidity: null,
+  }),
+  room_temperatures: () => ({
+    measured_temperature: null,
+    measured_humidity: null,
+    measured_at: null,
+  }),
+  heating_programs: () => ({
+    entries: [],
+    exceptions: [],
+    enabled: true,
+    last_expanded_at: null,
+  }),
+  devices: () => ({ room: null, last_seen_at: null, revoked_at: null }),
+  homes: () => ({
+    mode: 'home',
+    mode_changed_at: null,
+    mode_until: null,
+    latitude: null,
+    longitude: null,
+    location_name: null,
+  }),
+  home_members: () => ({ read_only: false, expires_at: null }),
+  home_invitations: () => ({
+    read_only: false,
+    access_expires_at: null,
+    status: 'pending',
+    expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+  }),
+  pending_actions: () => ({ args: {}, status: 'pending', conversation_id: null }),
+  thermostat_bindings: () => ({ config: {} }),
+}
+
+// Plafond de lignes par réponse, comme max-rows de PostgREST (1000 chez Supabase)
+export const MAX_ROWS = 1000
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/
+
+// Comparaison "à la Postgres" : nombres, horodatages ISO, puis texte
+function compare(value: unknown, expected: unknown): number {
+  if (typeof value === 'number') {
+    return value - Number(expected)
+  }
+  const left = String(value)
+  const right = String(expected)
+  if (ISO_DATE.test(left) && ISO_DATE.test(right)) {
+    return Date.parse(left) - Date.parse(right)
+  }
+  return left.localeCompare(right)
+}
+
+function equals(value: unknown, expected: unknown): boolean {
+  if (value === null || value === undefined) return expected === null
+  return compare(value, expected) === 0
+}
+
+const OPERATORS: Record<string, (value: unknown, expected: string) => boolean> = {
+  eq: (value, expected) => equals(value, expected),
+  neq: (value, expected) => !equals(value, expected),
+  gt: (value, expected) => value != null && compare(value, expected) > 0,
+  gte: (value, expected) => value != null && compare(value, expected) >= 0,
+  lt: (value, expected) => value != null && compare(value, expected) < 0,
+  lte: (value, expected) => value != null && compare(value, expected) <= 0,
+  is: (value, expected) =>
+    expected === 'null' ? value == null : String(value) === expected,
+}
+
+// Découpe "a,b(c,d),e" au premier niveau de parenthèses
+function splitTopLevel(expression: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of expression) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+  return parts.map((part) => part.trim())
+}
+
+// 🔍 Syntaxe PostgREST de .or() : "and(col.op.val,or(...)),col.op.val"
+function parseCondition(expression: string): Filter {
+  const group = expression.match(/^(and|or)\((.*)\)$/)
+  if (group) {
+    const filters = splitTopLevel(group[2]).map(parseCondition)
+    return group[1] === 'and'
+      ? (row) => filters.every((filter) => filter(row))
+      : (row) => filters.some((filter) => filter(row))
+  }
+
+  const [column, operator, ...rest] = expression.split('.')
+  const test = OPERATORS[operator]
+  if (!test) {
+    throw new Error(`Unsupported filter operator "${operator}" in "${expression}".`)
+  }
+  const expected = rest.join('.')
+  return (row) => test(row[column], expected)
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row }
+  return Object.fromEntries(
+    columns
+      .split(',')
+      .map((column) => column.trim())
+      .filter(Boolean)
+      .map((column) => [column, row[column] ?? null])
+  )
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+// Échec simulé ; sans opération, il touche la prochaine requête quelle qu'elle soit
+interface PlannedFailure {
+  message: string
+  operation?: Operation
+}
+
+// ✅ Requête enchaînable, exécutée quand on l'attend (comme le client Supabase)
+class MemoryQuery implements PromiseLike<MemoryResponse> {
+  private operation: Operation = 'select'
+  private values: Row[] = []
+  private changes: Row = {}
+  private conflictColumns: string[] = []
+  private filters: Filter[] = []
+  private orders: { column: string; ascending: boolean }[] = []
+  private maxRows: number | null = null
+  private offset = 0
+  private returning: string | null = null
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(
+    private readonly database: MemorySupabase,
+    private readonly table: string
+  ) {}
+
+  select(columns = '*') {
+    this.returning = columns
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.conflictColumns = (options.onConflict ?? 'id')
+      .split(',')
+      .map((column) => column.trim())
+    return this
+  }
+
+  update(changes: Row) {
+    this.operation = 'update'
+    this.changes = changes
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where((row) => equals(row[column], value))
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where((row) => !equals(row[column], value))
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where((row) => row[column] != null && compare(row[column], value) > 0)
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where((row) => row[column] != null && compare(row[column], value) >= 0)
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where((row) => row[column] != null && compare(row[column], value) < 0)
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where((row) => row[column] != null && compare(row[column], value) <= 0)
+  }
+
+  // Motif SQL LIKE : % = n'importe quelle suite, _ = un caractère
+  like(column: string, pattern: string) {
+    const regex = new RegExp(
+      `^${pattern
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.')}$`
+    )
+    return this.where((row) => row[column] != null && regex.test(String(row[column])))
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where((row) => values.some((value) => equals(row[column], value)))
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where((row) =>
+      value === null ? row[column] == null : row[column] === value
+    )
+  }
+
+  or(expression: string) {
+    return this.where(parseCondition(`or(${expression})`))
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending })
+    return this
+  }
+
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+
+  // Lignes from à to incluses, comme l'en-tête Range de PostgREST
+  range(from: number, to: number) {
+    this.offset = from
+    this.maxRows = to - from + 1
+    return this
+  }
+
+  single() {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = MemoryResponse, TResult2 = never>(
+    onFulfilled?: ((value: MemoryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onFulfilled, onRejected)
+  }
+
+  private where(filter: Filter) {
+    this.filters.push(filter)
+    return this
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((filter) => filter(row))
+  }
+
+  private execute(): MemoryResponse {
+    const failure = this.database.takeFailure(this.table, this.operation)
+    if (failure) {
+      return { data: null, error: { message: failure } }
+    }
+
+    const rows = this.database.rows(this.table)
+    let affected: Row[]
+
+    switch (this.operation) {
+      case 'select':
+        affected = rows.filter((row) => this.matches(row))
+        break
+      case 'insert':
+        affected = this.values.map((values) => this.database.createRow(this.table, values))
+        rows.push(...affected)
+        break
+      case 'upsert':
+        affected = this.values.map((values) => {
+          const existing = rows.find((row) =>
+            this.conflictColumns.every((column) => equals(row[column], values[column]))
+          )
+          if (existing) return Object.assign(existing, values)
+          const created = this.database.createRow(this.table, values)
+          rows.push(created)
+          return created
+        })
+        break
+      case 'update':
+        affected = rows.filter((row) => this.matches(row))
+        affected.forEach((row) => Object.assign(row, this.changes))
+        break
+      case 'delete':
+        affected = rows.filter((row) => this.matches(row))
+        this.database.replaceRows(
+          this.table,
+          rows.filter((row) => !affected.includes(row))
+        )
+        break
+    }
+
+    // Les écritures ne renvoient des lignes qu'avec .select(), comme PostgREST
+    if (this.operation !== 'select' && this.returning === null) {
+      return { data: null, error: null }
+    }
+
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      affected = [...affected].sort(
+        (a, b) => (ascending ? 1 : -1) * compare(a[column], b[column])
+      )
+    }
+    affected = affected.slice(
+      this.offset,
+      this.offset + Math.min(this.maxRows ?? MAX_ROWS, MAX_ROWS)
+    )
+
+    const data = affected.map((row) =>
+      structuredClone(project(row, this.returning ?? '*'))
+    )
+
+    if (this.cardinality === 'many') {
+      return { data, error: null }
+    }
+    if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+      return {
+        data: null,
+        error: {
+          message: `JSON object requested, multiple (or no) rows returned (${data.length})`,
+          code: 'PGRST116',
+        },
+      }
+    }
+    return { data: data[0] ?? null, error: null }
+  }
+}
+
+// Tables renommées par rename_room (directement ou par "on update cascade")
+const ROOM_TABLES = [
+  'room_temperatures',
+  'scheduled_temperatures',
+  'heating_programs',
+  'thermostat_bindings',
+  'room_aliases',
+  'room_group_members',
+  'mode_profiles',
+  'temperature_limits',
+  'temperature_history',
+  'devices',
+]
+
+function renameRoomReference(item: unknown, oldName: string, newName: string): unknown {
+  if (Array.isArray(item)) {
+    return item.map((element) => renameRoomReference(element, oldName, newName))
+  }
+  return item && typeof item === 'object' && (item as Row).room === oldName
+    ? { ...item, room: newName }
+    : item
+}
+
+// Fonctions SQL appelées par rpc(), réécrites sur les tableaux de lignes (même contrat que supabase/migrations)
+const FUNCTIONS: Record<string, (database: MemorySupabase, args: Row) => MemoryResponse> = {
+  rename_room: (database, { target_home, old_name, new_name }) => {
+    const inHome = (table: string) =>
+      database.rows(table).filter((row) => row.home_id === target_home)
+
+    if (!inHome('room_temperatures').some((row) => row.room === old_name)) {
+      return { data: null, error: { message: `Unknown room ${old_name}`, code: 'P0002' } }
+    }
+    if (inHome('room_temperatures').some((row) => row.room === new_name)) {
+      return {
+        data: null,
+        error: { message: 'duplicate key value violates unique constraint', code: '23505' },
+      }
+    }
+
+    for (const table of ROOM_TABLES) {
+      for (const row of inHome(table)) {
+        if (row.room === old_name) row.room = new_name
+      }
+    }
+    for (const rule of inHome('automation_rules')) {
+      for (const column of ['trigger', 'conditions', 'actions']) {
+        rule[column] = renameRoomReference(rule[column], String(old_name), String(new_name))
+      }
+    }
+    return { data: null, error: null }
+  },
+
+  set_room_temperatures: (database, { target_home, targets }) => {
+    const requested = targets as { room: string; temperature: number }[]
+    const rows = requested.map(({ room }) =>
+      database
+        .rows('room_temperatures')
+        .find((row) => row.home_id === target_home && row.room === room)
+    )
+
+    // Tout ou rien, comme la transaction Postgres
+    if (rows.some((row) => !row)) {
+      const found = rows.filter(Boolean).length
+      return {
+        data: null,
+        error: {
+          message: `Unknown room in targets (${found} of ${requested.length} rooms found)`,
+          code: 'P0002',
+        },
+      }
+    }
+
+    const data = requested.map(({ room, temperature }, index) => {
+      const row = rows[index]!
+      const previous = row.temperature
+      row.temperature = temperature
+      return { room, previous, temperature }
+    })
+    return { data, error: null }
+  },
+}
+
+// ✅ Base Supabase en mémoire : tables = tableaux de lignes, auth = table de jetons
+export class MemorySupabase {
+  private readonly tables = new Map<string, Row[]>()
+  private readonly sessions = new Map<string, AuthUser>()
+  private readonly failures = new Map<string, PlannedFailure[]>()
+
+  readonly auth = {
+    getUser: async (token: string) => {
+      const user = this.sessions.get(token)
+      return user
+        ? { data: { user }, error: null }
+        : { data: { user: null }, error: { message: 'Invalid JWT' } }
+    },
+  }
+
+  constructor({ tables = {}, users = {} }: MemorySupabaseOptions = {}) {
+    for (const [table, rows] of Object.entries(tables)) {
+      this.tables.set(table, rows.map((row) => this.createRow(table, row)))
+    }
+    for (const [token, user] of Object.entries(users)) {
+      this.sessions.set(token, user)
+    }
+  }
+
+  from(table: string) {
+    return new MemoryQuery(this, table)
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<MemoryResponse> {
+    const failure = this.takeFailure(name)
+    if (failure) {
+      return { data: null, error: { message: failure } }
+    }
+
+    const implementation = FUNCTIONS[name]
+    if (!implementation) {
+      return { data: null, error: { message: `Unknown function ${name}`, code: 'PGRST202' } }
+    }
+    return implementation(this, structuredClone(args))
+  }
+
+  // Jeton d'accès accepté par auth.getUser
+  addSession(token: string, user: AuthUser) {
+    this.sessions.set(token, user)
+  }
+
+  // La prochaine requête sur la table (ou le prochain appel de la fonction) échoue avec ce message
+  // operation : seule la prochaine requête de ce type échoue (ex. l'update après une lecture)
+  failNext(
+    table: string,
+    { message = 'Simulated database failure', operation }: Partial<PlannedFailure> = {}
+  ) {
+    this.failures.set(table, [...(this.failures.get(table) ?? []), { message, operation }])
+  }
+
+  // Copie des lignes d'une table, pour les vérifications
+  dump(table: string): Row[] {
+    return structuredClone(this.rows(table))
+  }
+
+  // Typage du vrai client, pour setSupabaseServer()
+  asClient(): SupabaseClient<Database> {
+    return this as unknown as SupabaseClient<Database>
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, [])
+    return this.tables.get(table)!
+  }
+
+  replaceRows(table: string, rows: Row[]) {
+    this.tables.set(table, rows)
+  }
+
+  createRow(table: string, values: Row): Row {
+    return structuredClone({
+      ...COLUMN_DEFAULTS['*'](),
+      ...COLUMN_DEFAULTS[table]?.(),
+      ...values,
+    })
+  }
+
+  takeFailure(table: string, operation?: Operation): string | undefined {
+    const failures = this.failures.get(table) ?? []
+    const index = failures.findIndex(
+      (failure) => !failure.operation || failure.operation === operation
+    )
+    if (index === -1) return undefined
+    return failures.splice(index, 1)[0].message
+  }
+}
@@ -0,0 +1,56 @@
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from '@/lib/llm'
+
+export interface ScriptedToolCall {
+  name: string
+  arguments: Record<string, unknown>
+}
+
+// Une réplique : du texte, des appels d'outils, ou une fonction qui décide selon la requête
+export type ScriptedReply =
+  | { content?: string; toolCalls?: ScriptedToolCall[] }
+  | ((request: CompletionRequest) => CompletionResult)
+
+// ✅ Faux modèle : renvoie les répliques prévues dans l'ordre et garde les requêtes reçues
+export class ScriptedProvider implements LLMProvider {
+  readonly kind = 'scripted'
+  readonly requests: CompletionRequest[] = []
+  private callCount = 0
+
+  constructor(private readonly replies: ScriptedReply[]) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(request)
+
+    const reply = this.replies.shift()
+    if (!reply) {
+      throw new Error(`Scripted provider has no reply left (call #${this.requests.length}).`)
+    }
+
+    const result =
+      typeof reply === 'function'
+        ? reply(request)
+        : {
+            content: reply.content ?? '',
+            toolCalls: (reply.toolCalls ?? []).map((call) => ({
+              id: `call_${++this.callCount}`,
+              type: 'function' as const,
+              function: {
+                name: call.name,
+                arguments: JSON.stringify(call.arguments),
+              },
+            })),
+          }
+
+    if (result.content) request.onToken?.(result.content)
+    return result
+  }
+
+  // Répliques non consommées : un scénario complet doit toutes les utiliser
+  get remaining(): number {
+    return this.replies.length
+  }
+}
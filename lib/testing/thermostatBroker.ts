@@ -0,0 +1,101 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+
+// ✅ Broker local de substitution pour le driver "mqtt-http"
+// Garde les messages retenus en mémoire et simule un appareil qui confirme
+// chaque consigne reçue sur "<prefix>/target/set".
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => resolve(body))
+    req.on('error', reject)
+  })
+}
+
+// Message publié valide : { topic, payload, retain? } ; une consigne porte { value: nombre }
+function parsePublish(
+  body: string
+): { topic: string; payload: unknown; retain: boolean } | null {
+  let message: unknown
+  try {
+    message = JSON.parse(body)
+  } catch {
+    return null
+  }
+
+  if (!message || typeof message !== 'object') return null
+  const { topic, payload, retain } = message as Record<string, unknown>
+  if (typeof topic !== 'string' || !topic) return null
+
+  if (
+    topic.endsWith('/target/set') &&
+    typeof (payload as { value?: unknown } | null)?.value !== 'number'
+  ) {
+    return null
+  }
+
+  return { topic, payload, retain: retain === true }
+}
+
+export function createThermostatBroker({ log = false }: { log?: boolean } = {}): Server {
+  const retained = new Map<string, unknown>()
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    res.setHeader('Content-Type', 'application/json')
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/retained') {
+        const topic = url.searchParams.get('topic') ?? ''
+        if (!retained.has(topic)) {
+          res.statusCode = 404
+          res.end(JSON.stringify({ error: 'No retained message' }))
+          return
+        }
+        res.end(JSON.stringify({ topic, payload: retained.get(topic) }))
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/publish') {
+        const message = parsePublish(await readBody(req))
+        if (!message) {
+          res.statusCode = 400
+          res.end(
+            JSON.stringify({
+              error: 'Expected { topic, payload, retain? } with a numeric value for target/set',
+            })
+          )
+          return
+        }
+
+        const { topic, payload, retain } = message
+        if (log) console.log(`📨 ${topic}`, payload)
+
+        if (retain) retained.set(topic, payload)
+
+        // 🔁 Appareil simulé : la consigne demandée devient la consigne confirmée
+        if (topic.endsWith('/target/set')) {
+          const prefix = topic.slice(0, -'/target/set'.length)
+          retained.set(`${prefix}/target`, payload)
+          if (!retained.has(`${prefix}/temperature`)) {
+            retained.set(`${prefix}/temperature`, {
+              value: (payload as { value: number }).value,
+              at: new Date().toISOString(),
+            })
+          }
+        }
+
+        res.end(JSON.stringify({ ok: true }))
+        return
+      }
+
+      res.statusCode = 404
+      res.end(JSON.stringify({ error: 'Not found' }))
+    } catch (error) {
+      console.error('❌ Thermostat broker error:', error)
+      res.statusCode = 500
+      res.end(JSON.stringify({ error: 'Internal error' }))
+    }
+  })
+}
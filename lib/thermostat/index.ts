@@ -0,0 +1,62 @@
+import { supabaseServer } from '@/lib/supabaseServer'
+import {
+  MqttHttpThermostatDriver,
+  type MqttHttpThermostatConfig,
+} from '@/lib/thermostat/mqttHttp'
+import { SimulatedThermostatDriver } from '@/lib/thermostat/simulated'
+import type { ThermostatBinding, ThermostatDriver } from '@/lib/thermostat/types'
+
+export type {
+  ThermostatBinding,
+  ThermostatCapabilities,
+  ThermostatDriver,
+  ThermostatReading,
+} from '@/lib/thermostat/types'
+import type { HomeScope } from '@/lib/homes'
+
+// ✅ Instancie le driver correspondant à une liaison pièce → appareil
+export function createThermostatDriver(
+  binding: ThermostatBinding
+): ThermostatDriver {
+  if (binding.driver === 'mqtt-http') {
+    return new MqttHttpThermostatDriver(
+      binding.config as unknown as MqttHttpThermostatConfig
+    )
+  }
+
+  if (binding.driver === 'simulated') {
+    return new SimulatedThermostatDriver(
+      `${binding.home_id}:${binding.room}`,
+      binding.config
+    )
+  }
+
+  throw new Error(`Unknown thermostat driver "${binding.driver}".`)
+}
+
+// ✅ Driver d'une pièce : liaison configurée, sinon thermostat simulé
+export async function getRoomDriver(
+  scope: HomeScope,
+  room: string,
+  initialTemperature?: number
+): Promise<ThermostatDriver> {
+  const { data, error } = await supabaseServer
+    .from('thermostat_bindings')
+    .select('home_id, room, driver, config')
+    .eq('home_id', scope.homeId)
+    .eq('room', room)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`❌ Error fetching thermostat binding for ${room}:`, error)
+  }
+
+  return createThermostatDriver(
+    data ?? {
+      home_id: scope.homeId,
+      room,
+      driver: 'simulated',
+      config: { initialTemperature },
+    }
+  )
+}
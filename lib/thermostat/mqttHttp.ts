@@ -0,0 +1,138 @@
+import type {
+  ThermostatCapabilities,
+  ThermostatDriver,
+  ThermostatReading,
+} from '@/lib/thermostat/types'
+
+export interface MqttHttpThermostatConfig {
+  brokerUrl: string // ex. http://localhost:8884
+  topicPrefix: string // ex. home/kitchen-thermostat
+  token?: string
+  timeoutMs?: number
+}
+
+interface RetainedMessage<T> {
+  topic: string
+  payload: T
+}
+
+const DEFAULT_CAPABILITIES: ThermostatCapabilities = {
+  minTemperature: 5,
+  maxTemperature: 30,
+  step: 0.5,
+  supportsHumidity: false,
+}
+
+// ✅ Driver MQTT via un pont HTTP : publication des consignes et lecture des messages retenus
+//   - <prefix>/temperature   { value, humidity?, at }  (publié par l'appareil)
+//   - <prefix>/target        { value }                 (consigne confirmée)
+//   - <prefix>/target/set    { value }                 (commande envoyée)
+//   - <prefix>/capabilities  { min, max, step, humidity }
+export class MqttHttpThermostatDriver implements ThermostatDriver {
+  readonly kind = 'mqtt-http'
+
+  constructor(private readonly config: MqttHttpThermostatConfig) {
+    if (!config.brokerUrl || !config.topicPrefix) {
+      throw new Error('mqtt-http driver requires "brokerUrl" and "topicPrefix".')
+    }
+  }
+
+  async getCapabilities(): Promise<ThermostatCapabilities> {
+    const message = await this.readRetained<{
+      min: number
+      max: number
+      step: number
+      humidity?: boolean
+    }>('capabilities')
+
+    if (!message) return DEFAULT_CAPABILITIES
+
+    return {
+      minTemperature: message.min,
+      maxTemperature: message.max,
+      step: message.step,
+      supportsHumidity: Boolean(message.humidity),
+    }
+  }
+
+  async readTemperature(): Promise<ThermostatReading> {
+    const [reading, target] = await Promise.all([
+      this.readRetained<{ value: number; humidity?: number; at?: string }>(
+        'temperature'
+      ),
+      this.readRetained<{ value: number }>('target'),
+    ])
+
+    if (!reading) {
+      throw new Error(`No temperature published on ${this.topic('temperature')}.`)
+    }
+
+    return {
+      temperature: reading.value,
+      target: target?.value ?? null,
+      humidity: reading.humidity,
+      readAt: reading.at ? new Date(reading.at) : new Date(),
+    }
+  }
+
+  async setTarget(temperature: number): Promise<void> {
+    const { minTemperature, maxTemperature } = await this.getCapabilities()
+
+    if (temperature < minTemperature || temperature > maxTemperature) {
+      throw new Error(
+        `Target ${temperature}°C is outside ${minTemperature}–${maxTemperature}°C.`
+      )
+    }
+
+    await this.request('/publish', {
+      method: 'POST',
+      body: JSON.stringify({
+        topic: this.topic('target/set'),
+        payload: { value: temperature },
+        retain: false,
+      }),
+    })
+  }
+
+  private topic(suffix: string): string {
+    return `${this.config.topicPrefix.replace(/\/$/, '')}/${suffix}`
+  }
+
+  private async readRetained<T>(suffix: string): Promise<T | null> {
+    const topic = encodeURIComponent(this.topic(suffix))
+    const response = await this.request(
+      `/retained?topic=${topic}`,
+      { method: 'GET' },
+      { allowNotFound: true }
+    )
+
+    if (response.status === 404) return null
+
+    const message: RetainedMessage<T> = await response.json()
+    return message.payload
+  }
+
+  // allowNotFound : un 404 signifie "aucun message retenu", seulement pour les lectures
+  private async request(
+    path: string,
+    init: RequestInit,
+    { allowNotFound = false }: { allowNotFound?: boolean } = {}
+  ): Promise<Response> {
+    const response = await fetch(`${this.config.brokerUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.token
+          ? { Authorization: `Bearer ${this.config.token}` }
+          : {}),
+      },
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 5000),
+    })
+
+    if (!response.ok && !(allowNotFound && response.status === 404)) {
+      throw new Error(`Broker request ${path} failed with HTTP ${response.status}.`)
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,93 @@
+import type {
+  ThermostatCapabilities,
+  ThermostatDriver,
+  ThermostatReading,
+} from '@/lib/thermostat/types'
+
+interface SimulatedState {
+  temperature: number
+  target: number
+  updatedAt: number
+}
+
+export interface SimulatedThermostatConfig {
+  initialTemperature?: number
+  // Constante de temps (minutes) : la pièce parcourt ~63% de l'écart en ce temps
+  timeConstantMinutes?: number
+}
+
+// L'état simulé est partagé entre les requêtes d'une même instance serveur
+const states = new Map<string, SimulatedState>()
+
+// Repart de pièces vierges (entre deux scénarios de test)
+export function resetSimulatedThermostats() {
+  states.clear()
+}
+
+const CAPABILITIES: ThermostatCapabilities = {
+  minTemperature: 5,
+  maxTemperature: 30,
+  step: 0.5,
+  supportsHumidity: false,
+}
+
+// ✅ Thermostat simulé : la pièce chauffe ou refroidit vers la consigne au fil du temps
+export class SimulatedThermostatDriver implements ThermostatDriver {
+  readonly kind = 'simulated'
+  private readonly timeConstantMs: number
+
+  constructor(
+    private readonly key: string,
+    config: SimulatedThermostatConfig = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.timeConstantMs = (config.timeConstantMinutes ?? 30) * 60 * 1000
+
+    if (!states.has(key)) {
+      const initial = config.initialTemperature ?? 20
+      states.set(key, { temperature: initial, target: initial, updatedAt: now() })
+    }
+  }
+
+  async getCapabilities(): Promise<ThermostatCapabilities> {
+    return CAPABILITIES
+  }
+
+  async readTemperature(): Promise<ThermostatReading> {
+    const state = this.advance()
+    return {
+      temperature: Math.round(state.temperature * 10) / 10,
+      target: state.target,
+      readAt: new Date(state.updatedAt),
+    }
+  }
+
+  async setTarget(temperature: number): Promise<void> {
+    if (
+      temperature < CAPABILITIES.minTemperature ||
+      temperature > CAPABILITIES.maxTemperature
+    ) {
+      throw new Error(
+        `Target ${temperature}°C is outside ${CAPABILITIES.minTemperature}–${CAPABILITIES.maxTemperature}°C.`
+      )
+    }
+
+    const state = this.advance()
+    state.target = temperature
+  }
+
+  // Rapprochement exponentiel de la consigne depuis la dernière lecture
+  private advance(): SimulatedState {
+    const state = states.get(this.key)!
+    const now = this.now()
+    const elapsed = now - state.updatedAt
+
+    if (elapsed > 0) {
+      const factor = Math.exp(-elapsed / this.timeConstantMs)
+      state.temperature = state.target + (state.temperature - state.target) * factor
+      state.updatedAt = now
+    }
+
+    return state
+  }
+}
@@ -0,0 +1,30 @@
+import type { Tables } from '@/lib/database'
+
+// Plage et pas de consigne supportés par un thermostat
+export interface ThermostatCapabilities {
+  minTemperature: number
+  maxTemperature: number
+  step: number
+  supportsHumidity: boolean
+}
+
+export interface ThermostatReading {
+  temperature: number
+  target: number | null
+  humidity?: number
+  readAt: Date
+}
+
+// ✅ Interface commune à tous les thermostats (simulés ou réels)
+export interface ThermostatDriver {
+  readonly kind: string
+  getCapabilities(): Promise<ThermostatCapabilities>
+  readTemperature(): Promise<ThermostatReading>
+  setTarget(temperature: number): Promise<void>
+}
+
+// Liaison d'une pièce à un driver, stockée dans "thermostat_bindings"
+export type ThermostatBinding = Pick<
+  Tables<'thermostat_bindings'>,
+  'home_id' | 'room' | 'driver' | 'config'
+>
@@ -0,0 +1,83 @@
+// ✅ Validation des arguments d'outils contre leur schéma JSON (sous-ensemble utilisé par nos outils)
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: unknown[]
+  minimum?: number
+  maximum?: number
+  description?: string
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array'
+  if (value === null) return 'null'
+  return typeof value
+}
+
+function validate(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: string[]
+) {
+  const actual = typeOf(value)
+
+  if (schema.type === 'integer') {
+    if (actual !== 'number' || !Number.isInteger(value)) {
+      errors.push(`${path} must be an integer`)
+      return
+    }
+  } else if (schema.type && schema.type !== actual) {
+    errors.push(`${path} must be of type ${schema.type}, got ${actual}`)
+    return
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`)
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be ≥ ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be ≤ ${schema.maximum}`)
+    }
+  }
+
+  if (actual === 'array' && schema.items) {
+    const items = value as unknown[]
+    items.forEach((item, index) => {
+      validate(schema.items!, item, `${path}[${index}]`, errors)
+    })
+  }
+
+  if (actual === 'object' && schema.type === 'object') {
+    const object = value as Record<string, unknown>
+    const properties = schema.properties ?? {}
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key} is required`)
+      }
+    }
+
+    // Propriétés inconnues refusées : le modèle ne doit pas inventer de champs
+    for (const [key, property] of Object.entries(object)) {
+      if (!(key in properties)) {
+        errors.push(`${path}.${key} is not allowed`)
+      } else if (property !== undefined) {
+        validate(properties[key], property, `${path}.${key}`, errors)
+      }
+    }
+  }
+}
+
+export function validateArguments(schema: JsonSchema, value: unknown): string[] {
+  const errors: string[] = []
+  validate(schema, value, 'args', errors)
+  return errors
+}
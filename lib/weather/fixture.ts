@@ -0,0 +1,81 @@
+import type {
+  WeatherConditions,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherReport,
+} from '@/lib/weather/types'
+
+type FixtureConditions = Partial<Omit<WeatherConditions, 'time' | 'temperature'>> & {
+  temperature: number
+}
+
+// 📦 Météo figée : conditions actuelles et prévisions relatives à l'heure en cours (hourly[0] = heure en cours)
+export interface WeatherFixture {
+  current: FixtureConditions
+  hourly: FixtureConditions[]
+  locations?: WeatherLocation[] // villes reconnues par findLocation
+}
+
+// Journée d'automne douce, nuit fraîche (utilisée sans fichier de données)
+export const DEFAULT_WEATHER_FIXTURE: WeatherFixture = {
+  current: { temperature: 12, humidity: 70, windSpeed: 12, condition: 'partly_cloudy' },
+  hourly: [
+    12, 12.5, 13, 12.5, 11.5, 10, 9, 8, 7, 6.5, 6, 5.5, 5, 4.5, 4.5, 4, 4, 4.5, 6, 8, 10, 11.5,
+    12.5, 13,
+  ].map((temperature, hour) => ({
+    temperature,
+    precipitationProbability: hour >= 6 && hour <= 9 ? 40 : 10,
+    condition: hour >= 6 && hour <= 9 ? 'showers' : 'partly_cloudy',
+  })),
+  locations: [{ latitude: 48.8566, longitude: 2.3522, name: 'Paris, France' }],
+}
+
+function toConditions(fixture: FixtureConditions, time: Date): WeatherConditions {
+  return {
+    apparentTemperature: null,
+    humidity: null,
+    precipitation: null,
+    precipitationProbability: null,
+    windSpeed: null,
+    condition: 'unknown',
+    ...fixture,
+    time: time.toISOString(),
+  }
+}
+
+// ✅ Source météo hors ligne pour les tests et le développement (aucun appel réseau)
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly kind = 'fixture'
+
+  constructor(
+    private readonly fixture: WeatherFixture = DEFAULT_WEATHER_FIXTURE,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async getWeather(location: WeatherLocation, hours: number): Promise<WeatherReport> {
+    const now = this.now()
+    const hour = new Date(now)
+    hour.setUTCMinutes(0, 0, 0)
+
+    return {
+      provider: this.kind,
+      location,
+      current: toConditions(this.fixture.current, now),
+      hourly: this.fixture.hourly
+        .slice(0, hours)
+        .map((entry, index) =>
+          toConditions(entry, new Date(hour.getTime() + index * 60 * 60 * 1000))
+        ),
+      fetchedAt: now.toISOString(),
+    }
+  }
+
+  async findLocation(query: string): Promise<WeatherLocation | null> {
+    const key = query.trim().toLowerCase()
+    return (
+      this.fixture.locations?.find((location) =>
+        location.name?.toLowerCase().startsWith(key)
+      ) ?? null
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { readFileSync } from 'fs'
+import { FixtureWeatherProvider, type WeatherFixture } from '@/lib/weather/fixture'
+import { OpenMeteoWeatherProvider } from '@/lib/weather/openMeteo'
+import type { WeatherProvider } from '@/lib/weather/types'
+
+export type {
+  WeatherCondition,
+  WeatherConditions,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherReport,
+} from '@/lib/weather/types'
+export { DEFAULT_WEATHER_FIXTURE, type WeatherFixture } from '@/lib/weather/fixture'
+
+let override: WeatherProvider | null = null
+
+// 🔁 Impose une source météo (données figées dans les tests) ; null revient à la configuration
+export function setWeatherProvider(provider: WeatherProvider | null) {
+  override = provider
+}
+
+// ✅ Source configurée par variables d'environnement :
+// WEATHER_PROVIDER = open-meteo (défaut) | fixture, WEATHER_API_URL, WEATHER_GEOCODING_URL,
+// WEATHER_FIXTURE = chemin d'un fichier JSON (fixture ; défaut : données intégrées)
+export function createWeatherProvider(
+  env: Record<string, string | undefined> = process.env
+): WeatherProvider {
+  if (override) {
+    return override
+  }
+
+  const kind = env.WEATHER_PROVIDER || 'open-meteo'
+
+  if (kind === 'fixture') {
+    const fixture = env.WEATHER_FIXTURE
+      ? (JSON.parse(readFileSync(env.WEATHER_FIXTURE, 'utf8')) as WeatherFixture)
+      : undefined
+    return new FixtureWeatherProvider(fixture)
+  }
+
+  if (kind !== 'open-meteo') {
+    throw new Error(`Unknown weather provider "${kind}".`)
+  }
+
+  return new OpenMeteoWeatherProvider({
+    baseUrl: env.WEATHER_API_URL,
+    geocodingUrl: env.WEATHER_GEOCODING_URL,
+  })
+}
@@ -0,0 +1,135 @@
+import type {
+  WeatherCondition,
+  WeatherConditions,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherReport,
+} from '@/lib/weather/types'
+
+export interface OpenMeteoConfig {
+  baseUrl?: string // ex. https://api.open-meteo.com/v1
+  geocodingUrl?: string // ex. https://geocoding-api.open-meteo.com/v1
+  timeoutMs?: number
+}
+
+const DEFAULT_BASE_URL = 'https://api.open-meteo.com/v1'
+const DEFAULT_GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1'
+
+const VARIABLES = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'precipitation',
+  'weather_code',
+  'wind_speed_10m',
+]
+
+// Réponse de /forecast (timeformat=unixtime : secondes)
+interface ForecastResponse {
+  current: Record<string, number>
+  hourly: Record<string, number[]>
+}
+
+interface GeocodingResponse {
+  results?: { name: string; latitude: number; longitude: number; country?: string }[]
+}
+
+// Codes météo WMO → catégorie
+function toCondition(code: number | undefined): WeatherCondition {
+  if (code === undefined || code === null) return 'unknown'
+  if (code === 0) return 'clear'
+  if (code <= 2) return 'partly_cloudy'
+  if (code === 3) return 'cloudy'
+  if (code === 45 || code === 48) return 'fog'
+  if (code >= 51 && code <= 57) return 'drizzle'
+  if (code >= 61 && code <= 67) return 'rain'
+  if (code >= 80 && code <= 82) return 'showers'
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow'
+  if (code >= 95) return 'thunderstorm'
+  return 'unknown'
+}
+
+// ✅ Météo via l'API Open-Meteo (sans clé) : conditions actuelles, prévisions horaires et géocodage
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly kind = 'open-meteo'
+
+  constructor(private readonly config: OpenMeteoConfig = {}) {}
+
+  async getWeather(location: WeatherLocation, hours: number): Promise<WeatherReport> {
+    const params = new URLSearchParams({
+      latitude: String(location.latitude),
+      longitude: String(location.longitude),
+      current: VARIABLES.join(','),
+      hourly: [...VARIABLES, 'precipitation_probability'].join(','),
+      forecast_hours: String(hours),
+      timeformat: 'unixtime',
+      timezone: 'GMT',
+      wind_speed_unit: 'kmh',
+    })
+
+    const data: ForecastResponse = await this.request(
+      `${this.config.baseUrl ?? DEFAULT_BASE_URL}/forecast?${params}`
+    )
+
+    const hourly = data.hourly.time.map((time, index) =>
+      this.toConditions(time, (name) => data.hourly[name]?.[index])
+    )
+
+    return {
+      provider: this.kind,
+      location,
+      current: this.toConditions(data.current.time, (name) => data.current[name]),
+      hourly,
+      fetchedAt: new Date().toISOString(),
+    }
+  }
+
+  async findLocation(query: string): Promise<WeatherLocation | null> {
+    const params = new URLSearchParams({ name: query, count: '1', format: 'json' })
+    const data: GeocodingResponse = await this.request(
+      `${this.config.geocodingUrl ?? DEFAULT_GEOCODING_URL}/search?${params}`
+    )
+
+    const [place] = data.results ?? []
+    if (!place) return null
+
+    return {
+      latitude: place.latitude,
+      longitude: place.longitude,
+      name: place.country ? `${place.name}, ${place.country}` : place.name,
+    }
+  }
+
+  private toConditions(
+    time: number,
+    value: (name: string) => number | undefined
+  ): WeatherConditions {
+    const temperature = value('temperature_2m')
+    if (typeof temperature !== 'number') {
+      throw new Error('Open-Meteo response has no temperature.')
+    }
+
+    return {
+      time: new Date(time * 1000).toISOString(),
+      temperature,
+      apparentTemperature: value('apparent_temperature') ?? null,
+      humidity: value('relative_humidity_2m') ?? null,
+      precipitation: value('precipitation') ?? null,
+      precipitationProbability: value('precipitation_probability') ?? null,
+      windSpeed: value('wind_speed_10m') ?? null,
+      condition: toCondition(value('weather_code')),
+    }
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? 5000),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Weather request failed with HTTP ${response.status}.`)
+    }
+
+    return response.json()
+  }
+}
@@ -0,0 +1,47 @@
+// 📍 Position d'un foyer (degrés décimaux) et nom affiché
+export interface WeatherLocation {
+  latitude: number
+  longitude: number
+  name?: string | null
+}
+
+export type WeatherCondition =
+  | 'clear'
+  | 'partly_cloudy'
+  | 'cloudy'
+  | 'fog'
+  | 'drizzle'
+  | 'rain'
+  | 'showers'
+  | 'snow'
+  | 'thunderstorm'
+  | 'unknown'
+
+// Conditions extérieures à un instant (°C, %, mm, km/h)
+export interface WeatherConditions {
+  time: string // ISO ; heure de la prévision ou de l'observation
+  temperature: number
+  apparentTemperature: number | null
+  humidity: number | null
+  precipitation: number | null
+  precipitationProbability: number | null
+  windSpeed: number | null
+  condition: WeatherCondition
+}
+
+// ✅ Conditions actuelles et prévisions heure par heure (à partir de l'heure en cours)
+export interface WeatherReport {
+  provider: string
+  location: WeatherLocation
+  current: WeatherConditions
+  hourly: WeatherConditions[]
+  fetchedAt: string
+}
+
+// ✅ Interface commune aux sources météo (API HTTP, données figées pour les tests)
+export interface WeatherProvider {
+  readonly kind: string
+  getWeather(location: WeatherLocation, hours: number): Promise<WeatherReport>
+  // Recherche d'une ville ("Lyon", "Brest, France") ; null si introuvable
+  findLocation(query: string): Promise<WeatherLocation | null>
+}
@@ -0,0 +1,10 @@
+import { createThermostatBroker } from '@/lib/testing/thermostatBroker'
+
+// ✅ Lance le broker local de substitution pour le driver "mqtt-http"
+// Usage : npx tsx scripts/thermostat-broker.ts [port]
+
+const port = Number(process.argv[2] ?? process.env.BROKER_PORT ?? 8884)
+
+createThermostatBroker({ log: true }).listen(port, () => {
+  console.log(`🛰️ Thermostat broker stand-in listening on http://localhost:${port}`)
+})
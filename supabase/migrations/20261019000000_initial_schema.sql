@@ -0,0 +1,169 @@
+-- ✅ Schéma initial : pièces, planification, programmes, historique, chat et préférences
+-- Les températures sont stockées en °C et les dates en UTC (timestamptz).
+
+create extension if not exists pgcrypto;
+
+-- 🌡️ Pièces et consigne courante
+create table public.room_temperatures (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  room text not null check (length(trim(room)) > 0),
+  temperature double precision not null check (temperature between 0 and 40),
+  created_at timestamptz not null default now(),
+  constraint room_temperatures_user_room_key unique (user_id, room)
+);
+
+-- Liaison pièce → thermostat (driver + configuration propre au driver)
+create table public.thermostat_bindings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  room text not null,
+  driver text not null,
+  config jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint thermostat_bindings_user_room_key unique (user_id, room),
+  constraint thermostat_bindings_room_fkey foreign key (user_id, room)
+    references public.room_temperatures (user_id, room) on update cascade on delete cascade
+);
+
+-- Autres noms d'une pièce ("séjour" → "salon") ; alias_key = nom normalisé
+create table public.room_aliases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  alias text not null,
+  alias_key text not null,
+  room text not null,
+  created_at timestamptz not null default now(),
+  constraint room_aliases_user_alias_key unique (user_id, alias_key),
+  constraint room_aliases_room_fkey foreign key (user_id, room)
+    references public.room_temperatures (user_id, room) on update cascade on delete cascade
+);
+
+-- Limites de consigne : room = null pour les limites de l'utilisateur, sinon celles de la pièce
+create table public.temperature_limits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  room text,
+  min_temperature double precision check (min_temperature between 0 and 40),
+  max_temperature double precision check (max_temperature between 0 and 40),
+  max_step double precision check (max_step > 0),
+  confirm_above double precision,
+  confirm_below double precision,
+  created_at timestamptz not null default now(),
+  constraint temperature_limits_user_room_key unique nulls not distinct (user_id, room),
+  constraint temperature_limits_range_check
+    check (min_temperature is null or max_temperature is null or min_temperature < max_temperature),
+  constraint temperature_limits_room_fkey foreign key (user_id, room)
+    references public.room_temperatures (user_id, room) on update cascade on delete cascade
+);
+
+-- 📅 Programmes récurrents (cron en heure locale de l'utilisateur)
+create table public.heating_programs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  room text not null,
+  name text not null,
+  entries jsonb not null default '[]'::jsonb check (jsonb_typeof(entries) = 'array'),
+  exceptions jsonb not null default '[]'::jsonb check (jsonb_typeof(exceptions) = 'array'),
+  enabled boolean not null default true,
+  last_expanded_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint heating_programs_room_fkey foreign key (user_id, room)
+    references public.room_temperatures (user_id, room) on update cascade on delete cascade
+);
+
+create index heating_programs_user_idx on public.heating_programs (user_id, created_at);
+create index heating_programs_enabled_idx on public.heating_programs (id) where enabled;
+
+-- ⏳ Changements planifiés, exécutés par le cron (les lignes restent après exécution ou annulation)
+create table public.scheduled_temperatures (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  room text not null,
+  temperature double precision not null check (temperature between 0 and 40),
+  execute_at timestamptz not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'done', 'failed', 'skipped', 'cancelled')),
+  attempts integer not null default 0 check (attempts >= 0),
+  next_attempt_at timestamptz,
+  locked_at timestamptz,
+  locked_by text,
+  last_error text,
+  executed_at timestamptz,
+  program_id uuid references public.heating_programs (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Recherche des jobs dus par le cron
+create index scheduled_temperatures_due_idx
+  on public.scheduled_temperatures (execute_at)
+  where status in ('pending', 'running');
+create index scheduled_temperatures_user_idx
+  on public.scheduled_temperatures (user_id, status, execute_at);
+
+-- 📈 Série temporelle des températures
+create table public.temperature_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  room text not null,
+  temperature double precision not null check (temperature between -50 and 100),
+  source text not null check (source in ('manual', 'scheduled', 'program', 'device')),
+  recorded_at timestamptz not null default now()
+);
+
+create index temperature_history_room_idx
+  on public.temperature_history (user_id, room, recorded_at);
+
+-- 💬 Conversations et messages
+create table public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  summary text,
+  summarized_until timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index conversations_user_idx on public.conversations (user_id, created_at desc);
+
+create table public.chat_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  conversation_id uuid references public.conversations (id) on delete cascade,
+  message text not null,
+  response text not null,
+  created_at timestamptz not null default now()
+);
+
+create index chat_history_conversation_idx
+  on public.chat_history (conversation_id, created_at);
+
+-- ⚠️ Actions sensibles proposées par l'assistant, en attente d'acceptation
+create table public.pending_actions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  conversation_id uuid references public.conversations (id) on delete set null,
+  tool text not null,
+  args jsonb not null default '{}'::jsonb,
+  reason text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'rejected', 'expired')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index pending_actions_user_idx on public.pending_actions (user_id, status);
+
+-- ⚙️ Préférences (colonnes nulles = valeur par défaut de l'application)
+create table public.user_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  language text check (language in ('fr', 'en')),
+  temperature_unit text check (temperature_unit in ('celsius', 'fahrenheit')),
+  locale text,
+  time_zone text,
+  created_at timestamptz not null default now()
+);
+
+-- 🔴 Tables suivies en temps réel par le tableau de bord
+alter publication supabase_realtime
+  add table public.room_temperatures, public.scheduled_temperatures, public.temperature_history;
@@ -0,0 +1,48 @@
+-- 🔒 Row Level Security : chaque ligne n'est visible que par son propriétaire (user_id).
+-- Le serveur utilise la clé service role, qui contourne ces règles ; le navigateur (clé anon)
+-- ne peut que lire ses lignes, sauf pour le chat et les préférences qu'il gère lui-même.
+
+alter table public.room_temperatures enable row level security;
+alter table public.thermostat_bindings enable row level security;
+alter table public.room_aliases enable row level security;
+alter table public.temperature_limits enable row level security;
+alter table public.heating_programs enable row level security;
+alter table public.scheduled_temperatures enable row level security;
+alter table public.temperature_history enable row level security;
+alter table public.conversations enable row level security;
+alter table public.chat_history enable row level security;
+alter table public.pending_actions enable row level security;
+alter table public.user_preferences enable row level security;
+
+-- Lecture de ses propres lignes
+create policy "Users read their rooms" on public.room_temperatures
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users read their room aliases" on public.room_aliases
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users read their temperature limits" on public.temperature_limits
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users read their heating programs" on public.heating_programs
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users read their scheduled changes" on public.scheduled_temperatures
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users read their temperature history" on public.temperature_history
+  for select to authenticated using ((select auth.uid()) = user_id);
+create policy "Users read their pending actions" on public.pending_actions
+  for select to authenticated using ((select auth.uid()) = user_id);
+
+-- ⚠️ thermostat_bindings.config peut contenir des secrets d'appareil : aucune politique,
+-- la table n'est accessible qu'au serveur.
+
+-- Chat et préférences : lecture et écriture de ses propres lignes
+create policy "Users manage their conversations" on public.conversations
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+create policy "Users manage their chat history" on public.chat_history
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+create policy "Users manage their preferences" on public.user_preferences
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
@@ -0,0 +1,203 @@
+-- 🏠 Foyers partagés : les pièces, la planification et l'historique appartiennent à un foyer.
+-- user_id reste sur ces tables pour savoir qui a créé ou modifié la ligne.
+
+create table public.homes (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Rôles : owner (gère le foyer et ses membres), member, guest.
+-- read_only et expires_at limitent n'importe quel membre (typiquement un invité).
+create table public.home_members (
+  home_id uuid not null references public.homes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'member', 'guest')),
+  read_only boolean not null default false,
+  expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (home_id, user_id)
+);
+
+create index home_members_user_idx on public.home_members (user_id);
+
+-- ✉️ Invitations par e-mail, acceptées depuis l'application par le compte ayant cette adresse
+create table public.home_invitations (
+  id uuid primary key default gen_random_uuid(),
+  home_id uuid not null references public.homes (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'member', 'guest')),
+  read_only boolean not null default false,
+  access_expires_at timestamptz,
+  invited_by uuid references auth.users (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'revoked')),
+  expires_at timestamptz not null default now() + interval '7 days',
+  created_at timestamptz not null default now()
+);
+
+create unique index home_invitations_pending_email_key
+  on public.home_invitations (home_id, lower(email))
+  where status = 'pending';
+create index home_invitations_email_idx on public.home_invitations (lower(email));
+
+alter table public.user_preferences
+  add column active_home_id uuid references public.homes (id) on delete set null;
+
+-- 🔁 Chaque utilisateur ayant déjà des données reçoit un foyer dont il est propriétaire
+insert into public.homes (name, created_by)
+select 'Home', users.user_id
+from (
+  select user_id from public.room_temperatures
+  union select user_id from public.scheduled_temperatures
+  union select user_id from public.heating_programs
+  union select user_id from public.temperature_history
+  union select user_id from public.temperature_limits
+  union select user_id from public.pending_actions
+) users;
+
+insert into public.home_members (home_id, user_id, role)
+select id, created_by, 'owner' from public.homes;
+
+update public.user_preferences preferences
+set active_home_id = homes.id
+from public.homes
+where homes.created_by = preferences.user_id;
+
+-- Les liens (user_id, room) deviennent (home_id, room)
+alter table public.thermostat_bindings drop constraint thermostat_bindings_room_fkey;
+alter table public.room_aliases drop constraint room_aliases_room_fkey;
+alter table public.temperature_limits drop constraint temperature_limits_room_fkey;
+alter table public.heating_programs drop constraint heating_programs_room_fkey;
+
+do $$
+declare
+  target text;
+begin
+  foreach target in array array[
+    'room_temperatures',
+    'thermostat_bindings',
+    'room_aliases',
+    'temperature_limits',
+    'heating_programs',
+    'scheduled_temperatures',
+    'temperature_history'
+  ] loop
+    execute format(
+      'alter table public.%I add column home_id uuid references public.homes (id) on delete cascade',
+      target
+    );
+    execute format(
+      'update public.%I owned set home_id = homes.id from public.homes where homes.created_by = owned.user_id',
+      target
+    );
+    execute format('alter table public.%I alter column home_id set not null', target);
+
+    -- L'auteur peut quitter le foyer ou supprimer son compte sans emporter les données
+    execute format('alter table public.%I alter column user_id drop not null', target);
+    execute format('alter table public.%I drop constraint %I', target, target || '_user_id_fkey');
+    execute format(
+      'alter table public.%I add constraint %I foreign key (user_id) references auth.users (id) on delete set null',
+      target,
+      target || '_user_id_fkey'
+    );
+  end loop;
+end $$;
+
+-- Une action en attente s'applique au foyer actif au moment de la demande
+alter table public.pending_actions
+  add column home_id uuid references public.homes (id) on delete cascade;
+update public.pending_actions actions
+set home_id = homes.id
+from public.homes
+where homes.created_by = actions.user_id;
+
+alter table public.room_temperatures drop constraint room_temperatures_user_room_key;
+alter table public.room_temperatures
+  add constraint room_temperatures_home_room_key unique (home_id, room);
+
+alter table public.thermostat_bindings drop constraint thermostat_bindings_user_room_key;
+alter table public.thermostat_bindings
+  add constraint thermostat_bindings_home_room_key unique (home_id, room),
+  add constraint thermostat_bindings_room_fkey foreign key (home_id, room)
+    references public.room_temperatures (home_id, room) on update cascade on delete cascade;
+
+alter table public.room_aliases drop constraint room_aliases_user_alias_key;
+alter table public.room_aliases
+  add constraint room_aliases_home_alias_key unique (home_id, alias_key),
+  add constraint room_aliases_room_fkey foreign key (home_id, room)
+    references public.room_temperatures (home_id, room) on update cascade on delete cascade;
+
+-- room = null : limites de tout le foyer
+alter table public.temperature_limits drop constraint temperature_limits_user_room_key;
+alter table public.temperature_limits
+  add constraint temperature_limits_home_room_key unique nulls not distinct (home_id, room),
+  add constraint temperature_limits_room_fkey foreign key (home_id, room)
+    references public.room_temperatures (home_id, room) on update cascade on delete cascade;
+
+alter table public.heating_programs
+  add constraint heating_programs_room_fkey foreign key (home_id, room)
+    references public.room_temperatures (home_id, room) on update cascade on delete cascade;
+
+drop index public.heating_programs_user_idx;
+create index heating_programs_home_idx on public.heating_programs (home_id, created_at);
+
+drop index public.scheduled_temperatures_user_idx;
+create index scheduled_temperatures_home_idx
+  on public.scheduled_temperatures (home_id, status, execute_at);
+
+drop index public.temperature_history_room_idx;
+create index temperature_history_room_idx
+  on public.temperature_history (home_id, room, recorded_at);
+
+-- 🔒 Accès d'un utilisateur à un foyer (adhésion non expirée, en écriture si demandé)
+create function public.has_home_access(target uuid, needs_write boolean default false)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1
+    from public.home_members members
+    where members.home_id = target
+      and members.user_id = (select auth.uid())
+      and (members.expires_at is null or members.expires_at > now())
+      and (not needs_write or not members.read_only)
+  )
+$$;
+
+alter table public.homes enable row level security;
+alter table public.home_members enable row level security;
+alter table public.home_invitations enable row level security;
+
+create policy "Members read their homes" on public.homes
+  for select to authenticated using (public.has_home_access(id));
+create policy "Members read the members of their homes" on public.home_members
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Users read the invitations sent to them" on public.home_invitations
+  for select to authenticated
+  using (lower(email) = lower((select auth.jwt() ->> 'email')));
+
+-- Les lignes des pièces sont visibles par tous les membres du foyer
+drop policy "Users read their rooms" on public.room_temperatures;
+drop policy "Users read their room aliases" on public.room_aliases;
+drop policy "Users read their temperature limits" on public.temperature_limits;
+drop policy "Users read their heating programs" on public.heating_programs;
+drop policy "Users read their scheduled changes" on public.scheduled_temperatures;
+drop policy "Users read their temperature history" on public.temperature_history;
+
+create policy "Members read their home's rooms" on public.room_temperatures
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Members read their home's room aliases" on public.room_aliases
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Members read their home's temperature limits" on public.temperature_limits
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Members read their home's heating programs" on public.heating_programs
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Members read their home's scheduled changes" on public.scheduled_temperatures
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Members read their home's temperature history" on public.temperature_history
+  for select to authenticated using (public.has_home_access(home_id));
@@ -0,0 +1,27 @@
+-- 🧾 Journal des modifications : qui (utilisateur, planificateur, appareil) a changé quoi, et pourquoi.
+-- Les lignes ne sont jamais modifiées ; previous/next gardent les valeurs avant et après.
+
+create table public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  home_id uuid not null references public.homes (id) on delete cascade,
+  actor text not null check (actor in ('user', 'scheduler', 'device', 'system')),
+  -- Utilisateur à l'origine du changement (pour le planificateur : l'auteur du changement prévu)
+  user_id uuid references auth.users (id) on delete set null,
+  -- Précision sur l'acteur : id du job planifié, de l'appareil…
+  actor_detail text,
+  action text not null,
+  room text,
+  previous jsonb,
+  next jsonb,
+  conversation_id uuid references public.conversations (id) on delete set null,
+  message text,
+  created_at timestamptz not null default now()
+);
+
+create index audit_log_home_idx on public.audit_log (home_id, created_at desc);
+create index audit_log_room_idx on public.audit_log (home_id, room, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+create policy "Members read their home's audit log" on public.audit_log
+  for select to authenticated using (public.has_home_access(home_id));
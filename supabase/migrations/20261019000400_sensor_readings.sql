@@ -0,0 +1,35 @@
+-- 🌡️ Mesures des capteurs : room_temperatures.temperature reste la consigne,
+-- la dernière mesure reçue est gardée à côté, et chaque mesure va dans l'historique (source 'device').
+
+alter table public.room_temperatures
+  add column measured_temperature double precision
+    check (measured_temperature between -50 and 100),
+  add column measured_humidity double precision
+    check (measured_humidity between 0 and 100),
+  add column measured_at timestamptz;
+
+comment on column public.room_temperatures.temperature is 'Consigne (°C)';
+
+alter table public.temperature_history
+  add column humidity double precision check (humidity between 0 and 100);
+
+-- 🔑 Appareils autorisés à envoyer des mesures, chacun avec sa clé d'API.
+-- Seule l'empreinte SHA-256 de la clé est stockée ; key_prefix permet de la reconnaître.
+create table public.devices (
+  id uuid primary key default gen_random_uuid(),
+  home_id uuid not null references public.homes (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  -- Pièce par défaut des mesures qui n'en précisent pas
+  room text,
+  key_hash text not null unique,
+  key_prefix text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  last_seen_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index devices_home_idx on public.devices (home_id, created_at);
+
+-- Pas de politique de lecture : les empreintes de clés ne sortent que par le serveur
+alter table public.devices enable row level security;
@@ -0,0 +1,42 @@
+-- 🏡 Modes du foyer (home, away, sleep, vacation) : chaque mode a un profil de consignes par pièce.
+-- Le retour automatique à un mode passe par scheduled_temperatures (colonne mode).
+
+alter table public.homes
+  add column mode text not null default 'home'
+    check (mode in ('home', 'away', 'sleep', 'vacation')),
+  add column mode_changed_at timestamptz,
+  -- Fin prévue du mode courant (un changement de mode planifié existe alors)
+  add column mode_until timestamptz;
+
+create table public.mode_profiles (
+  id uuid primary key default gen_random_uuid(),
+  home_id uuid not null references public.homes (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  mode text not null check (mode in ('home', 'away', 'sleep', 'vacation')),
+  room text not null,
+  temperature double precision not null check (temperature between 0 and 40),
+  created_at timestamptz not null default now(),
+  constraint mode_profiles_home_mode_room_key unique (home_id, mode, room),
+  constraint mode_profiles_room_fkey foreign key (home_id, room)
+    references public.room_temperatures (home_id, room) on update cascade on delete cascade
+);
+
+-- Un job planifié change soit la consigne d'une pièce, soit le mode du foyer
+alter table public.scheduled_temperatures
+  add column mode text check (mode in ('home', 'away', 'sleep', 'vacation')),
+  alter column room drop not null,
+  alter column temperature drop not null,
+  add constraint scheduled_temperatures_kind_check check (
+    (mode is null and room is not null and temperature is not null)
+    or (mode is not null and room is null and temperature is null)
+  );
+
+alter table public.temperature_history drop constraint temperature_history_source_check;
+alter table public.temperature_history
+  add constraint temperature_history_source_check
+    check (source in ('manual', 'scheduled', 'program', 'device', 'mode'));
+
+alter table public.mode_profiles enable row level security;
+
+create policy "Members read their home's mode profiles" on public.mode_profiles
+  for select to authenticated using (public.has_home_access(home_id));
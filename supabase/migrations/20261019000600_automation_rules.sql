@@ -0,0 +1,41 @@
+-- ⚡ Règles d'automatisation : déclencheur → conditions → actions, évaluées par le cron et à chaque mesure
+-- Le déclencheur, les conditions et les actions sont en jsonb (types dans lib/rules.ts, températures en °C)
+
+create table public.automation_rules (
+  id uuid primary key default gen_random_uuid(),
+  home_id uuid not null references public.homes (id) on delete cascade,
+  -- Auteur de la règle (son fuseau horaire sert aux déclencheurs horaires)
+  user_id uuid references auth.users (id) on delete set null,
+  name text not null,
+  trigger jsonb not null check (jsonb_typeof(trigger) = 'object'),
+  conditions jsonb not null default '[]'::jsonb check (jsonb_typeof(conditions) = 'array'),
+  actions jsonb not null check (jsonb_typeof(actions) = 'array' and jsonb_array_length(actions) > 0),
+  enabled boolean not null default true,
+  -- Délai minimal entre deux déclenchements
+  cooldown_minutes integer not null default 30 check (cooldown_minutes >= 0),
+  -- Seuil franchi lors de la dernière évaluation : la règle ne se déclenche qu'au franchissement
+  trigger_active boolean not null default false,
+  last_evaluated_at timestamptz,
+  last_fired_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now()
+);
+
+create index automation_rules_home_idx on public.automation_rules (home_id, created_at);
+create index automation_rules_enabled_idx on public.automation_rules (home_id) where enabled;
+
+-- Les changements faits par une règle sont attribués à la règle (journal et historique)
+alter table public.audit_log drop constraint audit_log_actor_check;
+alter table public.audit_log
+  add constraint audit_log_actor_check
+    check (actor in ('user', 'scheduler', 'device', 'rule', 'system'));
+
+alter table public.temperature_history drop constraint temperature_history_source_check;
+alter table public.temperature_history
+  add constraint temperature_history_source_check
+    check (source in ('manual', 'scheduled', 'program', 'device', 'mode', 'rule'));
+
+alter table public.automation_rules enable row level security;
+
+create policy "Members read their home's automation rules" on public.automation_rules
+  for select to authenticated using (public.has_home_access(home_id));
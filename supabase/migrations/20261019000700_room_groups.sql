@@ -0,0 +1,80 @@
+-- 🏷️ Groupes de pièces ("upstairs", "bedrooms") : une même consigne ou un même écart pour plusieurs pièces.
+-- name_key = nom normalisé, comme room_aliases.alias_key
+
+create table public.room_groups (
+  id uuid primary key default gen_random_uuid(),
+  home_id uuid not null references public.homes (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  name text not null,
+  name_key text not null,
+  created_at timestamptz not null default now(),
+  constraint room_groups_home_name_key unique (home_id, name_key)
+);
+
+create table public.room_group_members (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.room_groups (id) on delete cascade,
+  home_id uuid not null references public.homes (id) on delete cascade,
+  room text not null,
+  created_at timestamptz not null default now(),
+  constraint room_group_members_group_room_key unique (group_id, room),
+  constraint room_group_members_room_fkey foreign key (home_id, room)
+    references public.room_temperatures (home_id, room) on update cascade on delete cascade
+);
+
+create index room_group_members_home_room_idx
+  on public.room_group_members (home_id, room);
+
+-- ✅ Consignes de plusieurs pièces en une seule transaction : toutes sont changées, ou aucune
+-- targets = [{"room": "Bedroom", "temperature": 19}, …] ; renvoie la consigne précédente de chaque pièce
+create function public.set_room_temperatures(target_home uuid, targets jsonb)
+returns table (room text, previous double precision, temperature double precision)
+language plpgsql
+set search_path = ''
+as $$
+#variable_conflict use_column
+declare
+  expected integer := jsonb_array_length(targets);
+  changed integer;
+begin
+  return query
+    with requested as (
+      select item.room, item.temperature
+      from jsonb_to_recordset(targets) as item (room text, temperature double precision)
+    ),
+    locked as (
+      select rooms.room, rooms.temperature
+      from public.room_temperatures rooms
+      join requested on requested.room = rooms.room
+      where rooms.home_id = target_home
+      for update of rooms
+    ),
+    updated as (
+      update public.room_temperatures rooms
+      set temperature = requested.temperature
+      from requested
+      where rooms.home_id = target_home and rooms.room = requested.room
+      returning rooms.room, rooms.temperature
+    )
+    select updated.room, locked.temperature, updated.temperature
+    from updated
+    join locked on locked.room = updated.room;
+
+  get diagnostics changed = row_count;
+  if changed <> expected then
+    raise exception 'Unknown room in targets (% of % rooms found)', changed, expected
+      using errcode = 'no_data_found';
+  end if;
+end;
+$$;
+
+-- Écritures réservées au serveur (clé de service) : les membres passent par l'API
+revoke execute on function public.set_room_temperatures(uuid, jsonb) from public, anon, authenticated;
+
+alter table public.room_groups enable row level security;
+alter table public.room_group_members enable row level security;
+
+create policy "Members read their home's room groups" on public.room_groups
+  for select to authenticated using (public.has_home_access(home_id));
+create policy "Members read their home's room group members" on public.room_group_members
+  for select to authenticated using (public.has_home_access(home_id));
@@ -0,0 +1,22 @@
+-- 🌦️ Météo extérieure : position de chaque foyer et dernier relevé mis en cache (conditions + prévisions).
+
+alter table public.homes
+  add column latitude double precision check (latitude between -90 and 90),
+  add column longitude double precision check (longitude between -180 and 180),
+  add column location_name text,
+  add constraint homes_location_check check ((latitude is null) = (longitude is null));
+
+-- Un relevé par foyer, remplacé quand il est trop ancien ou que la position change
+create table public.weather_cache (
+  home_id uuid primary key references public.homes (id) on delete cascade,
+  provider text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  report jsonb not null check (jsonb_typeof(report) = 'object'),
+  fetched_at timestamptz not null default now()
+);
+
+alter table public.weather_cache enable row level security;
+
+create policy "Members read their home's weather" on public.weather_cache
+  for select to authenticated using (public.has_home_access(home_id));
@@ -0,0 +1,61 @@
+-- ✏️ Renommage d'une pièce en une seule transaction : toutes les références changent, ou aucune.
+-- Les tables liées à room_temperatures par clé étrangère suivent par "on update cascade" ;
+-- les autres (planification, historique, appareils, règles) sont mises à jour ici.
+
+-- Référence de pièce dans un élément de règle ({"room": …}) ou un tableau d'éléments
+create function public.rename_room_reference(item jsonb, old_name text, new_name text)
+returns jsonb
+language sql
+immutable
+set search_path = ''
+as $$
+  select case
+    when jsonb_typeof(item) = 'array' then (
+      select coalesce(
+        jsonb_agg(public.rename_room_reference(element, old_name, new_name) order by position),
+        '[]'::jsonb
+      )
+      from jsonb_array_elements(item) with ordinality as elements (element, position)
+    )
+    when item ->> 'room' = old_name then jsonb_set(item, '{room}', to_jsonb(new_name))
+    else item
+  end;
+$$;
+
+create function public.rename_room(target_home uuid, old_name text, new_name text)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+begin
+  update public.room_temperatures
+  set room = new_name
+  where home_id = target_home and room = old_name;
+
+  if not found then
+    raise exception 'Unknown room %', old_name using errcode = 'no_data_found';
+  end if;
+
+  update public.scheduled_temperatures
+  set room = new_name
+  where home_id = target_home and room = old_name;
+
+  update public.temperature_history
+  set room = new_name
+  where home_id = target_home and room = old_name;
+
+  update public.devices
+  set room = new_name
+  where home_id = target_home and room = old_name;
+
+  update public.automation_rules
+  set
+    trigger = public.rename_room_reference(trigger, old_name, new_name),
+    conditions = public.rename_room_reference(conditions, old_name, new_name),
+    actions = public.rename_room_reference(actions, old_name, new_name)
+  where home_id = target_home;
+end;
+$$;
+
+-- Écritures réservées au serveur (clé de service) : les membres passent par l'API
+revoke execute on function public.rename_room(uuid, text, text) from public, anon, authenticated;
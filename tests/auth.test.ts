@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  authenticateCronRequest,
+  authenticateRequest,
+  verifySupabaseToken,
+  type TokenVerifier,
+} from '@/lib/auth'
+
+const USER = { id: 'user-alice', email: 'alice@example.com' }
+
+// Session lue dans le cookie par le client des auth-helpers (null : pas de cookie)
+const cookieSession = vi.hoisted(() => ({ accessToken: null as string | null }))
+
+vi.mock('next/headers', () => ({ cookies: () => ({}) }))
+vi.mock('@supabase/auth-helpers-nextjs', () => ({
+  createRouteHandlerClient: () => ({
+    auth: {
+      getSession: async () => ({
+        data: {
+          session: cookieSession.accessToken
+            ? { access_token: cookieSession.accessToken }
+            : null,
+        },
+      }),
+    },
+  }),
+}))
+
+// Client serveur factice : Supabase ne reconnaît que "supabase-token"
+vi.mock('@/lib/supabaseServer', () => ({
+  supabaseServer: {
+    auth: {
+      getUser: async (token: string) =>
+        token === 'supabase-token'
+          ? { data: { user: { id: 'user-alice', email: 'alice@example.com' } }, error: null }
+          : { data: { user: null }, error: { message: 'invalid JWT' } },
+    },
+  },
+}))
+
+// Vérificateur factice : seul "valid-token" correspond à un utilisateur
+const verifyToken = vi.fn<TokenVerifier>(async (token) =>
+  token === 'valid-token' ? USER : null
+)
+
+function request(headers: Record<string, string> = {}) {
+  return new Request('http://localhost/api/rooms', { headers })
+}
+
+afterEach(() => {
+  cookieSession.accessToken = null
+  verifyToken.mockClear()
+})
+
+describe('authenticateRequest', () => {
+  it('answers 401 without a token', async () => {
+    const auth = await authenticateRequest(request(), verifyToken)
+
+    expect(auth.user).toBeNull()
+    expect(auth.response?.status).toBe(401)
+    expect(verifyToken).not.toHaveBeenCalled()
+  })
+
+  it('answers 401 for a token the verifier rejects', async () => {
+    const auth = await authenticateRequest(
+      request({ Authorization: 'Bearer expired-token' }),
+      verifyToken
+    )
+
+    expect(auth.user).toBeNull()
+    expect(auth.response?.status).toBe(401)
+    expect(verifyToken).toHaveBeenCalledWith('expired-token')
+  })
+
+  it('reads the token from the Bearer header', async () => {
+    const auth = await authenticateRequest(
+      request({ Authorization: 'Bearer valid-token' }),
+      verifyToken
+    )
+    expect(auth.user).toEqual(USER)
+  })
+
+  it('falls back to the session cookie', async () => {
+    cookieSession.accessToken = 'valid-token'
+
+    const auth = await authenticateRequest(request(), verifyToken)
+
+    expect(auth.user).toEqual(USER)
+    expect(verifyToken).toHaveBeenCalledWith('valid-token')
+  })
+
+  it('prefers the Bearer header over the cookie', async () => {
+    cookieSession.accessToken = 'valid-token'
+
+    const auth = await authenticateRequest(
+      request({ Authorization: 'Bearer expired-token' }),
+      verifyToken
+    )
+
+    expect(auth.response?.status).toBe(401)
+    expect(verifyToken).toHaveBeenCalledTimes(1)
+    expect(verifyToken).toHaveBeenCalledWith('expired-token')
+  })
+
+  it('verifies tokens with Supabase by default', async () => {
+    expect(await verifySupabaseToken('supabase-token')).toEqual(USER)
+    expect(await verifySupabaseToken('forged')).toBeNull()
+
+    const auth = await authenticateRequest(request({ Authorization: 'Bearer supabase-token' }))
+    expect(auth.user).toEqual(USER)
+  })
+})
+
+describe('authenticateCronRequest', () => {
+  const secret = 'cron-secret'
+
+  beforeEach(() => {
+    delete process.env.CRON_SECRET
+  })
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET
+  })
+
+  it('disables the endpoint when CRON_SECRET is not set', () => {
+    const response = authenticateCronRequest(request({ Authorization: 'Bearer anything' }))
+    expect(response?.status).toBe(403)
+  })
+
+  it('accepts the configured secret', () => {
+    process.env.CRON_SECRET = secret
+    expect(authenticateCronRequest(request({ Authorization: `Bearer ${secret}` }))).toBeNull()
+  })
+
+  it('answers 401 for a missing or wrong secret', () => {
+    process.env.CRON_SECRET = secret
+    expect(authenticateCronRequest(request())?.status).toBe(401)
+    expect(authenticateCronRequest(request({ Authorization: 'Bearer wrong' }))?.status).toBe(401)
+  })
+})
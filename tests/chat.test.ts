@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/chat/route'
+import { setLLMProvider } from '@/lib/llm'
+import { FallbackProvider } from '@/lib/llm/fallback'
+import { ScriptedProvider } from '@/lib/testing/scriptedProvider'
+import {
+  HOME_ID,
+  OTHER_TOKEN,
+  OTHER_USER,
+  USER,
+  createTestDatabase,
+  jsonRequest,
+  resetStandIns,
+} from '@/tests/support'
+
+afterEach(resetStandIns)
+
+function chat(body: Record<string, unknown>, options?: Parameters<typeof jsonRequest>[2]) {
+  return POST(jsonRequest('/api/chat', body, options))
+}
+
+describe('POST /api/chat', () => {
+  it('creates a room the user asked for', async () => {
+    const db = createTestDatabase()
+    const llm = new ScriptedProvider([
+      { toolCalls: [{ name: 'create_room', arguments: { room: 'Office', confirmed: true } }] },
+      { content: 'The office is ready.' },
+    ])
+    setLLMProvider(llm)
+
+    const response = await chat({ userMessage: 'Create a room called office' })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.message).toBe('The office is ready.')
+    expect(body.actions.map((action: { tool: string }) => action.tool)).toEqual(['create_room'])
+    expect(db.dump('room_temperatures')).toMatchObject([{ home_id: HOME_ID, room: 'Office' }])
+    expect(llm.remaining).toBe(0)
+  })
+
+  it('sets a temperature immediately', async () => {
+    const db = createTestDatabase({ 'Living room': 20 })
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: 'set_temperature', arguments: { room: 'living room', temperature: 21 } }] },
+        { content: 'Done.' },
+      ])
+    )
+
+    const response = await chat({ userMessage: 'Set the living room to 21' })
+
+    expect(response.status).toBe(200)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(21)
+    expect(db.dump('temperature_history')).toMatchObject([
+      { room: 'Living room', temperature: 21, source: 'manual' },
+    ])
+    expect(db.dump('scheduled_temperatures')).toEqual([])
+  })
+
+  it('schedules a delayed temperature change instead of applying it', async () => {
+    const db = createTestDatabase({ Bedroom: 19 })
+    setLLMProvider(
+      new ScriptedProvider([
+        {
+          toolCalls: [
+            {
+              name: 'set_temperature',
+              arguments: { room: 'bedroom', temperature: 21, delayMinutes: 30 },
+            },
+          ],
+        },
+        { content: 'Scheduled.' },
+      ])
+    )
+
+    const before = Date.now()
+    const response = await chat({ userMessage: 'Set the bedroom to 21 in 30 minutes' })
+
+    expect(response.status).toBe(200)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(19)
+
+    const [job] = db.dump('scheduled_temperatures')
+    expect(job).toMatchObject({ home_id: HOME_ID, room: 'Bedroom', temperature: 21, status: 'pending' })
+    const delay = Date.parse(String(job.execute_at)) - before
+    expect(delay).toBeGreaterThanOrEqual(29 * 60 * 1000)
+    expect(delay).toBeLessThanOrEqual(31 * 60 * 1000)
+  })
+
+  it('asks for confirmation before an unusual change', async () => {
+    const db = createTestDatabase({ Office: 20 })
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: 'set_temperature', arguments: { room: 'office', temperature: 27 } }] },
+        { content: 'Please confirm.' },
+      ])
+    )
+
+    const response = await chat({ userMessage: 'Set the office to 27' })
+    const body = await response.json()
+
+    expect(body.pendingActions).toHaveLength(1)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(20)
+    expect(db.dump('pending_actions')).toMatchObject([{ tool: 'set_temperature', status: 'pending' }])
+  })
+
+  it('keeps the browser language after updating other preferences', async () => {
+    const db = createTestDatabase({ Office: 20 })
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: 'update_preferences', arguments: { temperatureUnit: 'fahrenheit' } }] },
+        { toolCalls: [{ name: 'set_temperature', arguments: { room: 'office', temperature: 70 } }] },
+        { content: 'Done.' },
+      ])
+    )
+
+    const response = await chat({ userMessage: 'Use Fahrenheit, then set the office to 70' })
+    const [preferences, temperature] = (await response.json()).actions
+
+    expect(preferences.result).toContain('English')
+    expect(preferences.result).toContain('°F')
+    expect(temperature.result).toMatch(/^✅ .*Office.*70°F/)
+    expect(db.dump('user_preferences')).toMatchObject([
+      { user_id: USER.id, temperature_unit: 'fahrenheit' },
+    ])
+    expect(db.dump('user_preferences')[0].language).toBeUndefined()
+  })
+
+  it('falls back when the primary provider fails after a partial answer', async () => {
+    createTestDatabase()
+    const primary = new ScriptedProvider([
+      (request) => {
+        request.onToken?.('Half an ')
+        throw new Error('Stream interrupted')
+      },
+    ])
+    setLLMProvider(new FallbackProvider(primary, new ScriptedProvider([{ content: 'Hi!' }])))
+
+    const response = await chat({ userMessage: 'Hello' })
+
+    // Sans flux, rien n'est parti vers le client : le second fournisseur peut répondre
+    expect(response.status).toBe(200)
+    expect((await response.json()).message).toBe('Hi!')
+  })
+
+  it.each([{}, { userMessage: '' }, { userMessage: '   ' }, { userMessage: 42 }])(
+    'answers 400 without a message (%j)',
+    async (body) => {
+      const db = createTestDatabase()
+
+      const response = await chat(body)
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).message).toBe('❌ The message is empty.')
+      expect(db.dump('conversations')).toEqual([])
+    }
+  )
+
+  describe('authentication', () => {
+    it('rejects a request without a session', async () => {
+      createTestDatabase()
+      const response = await chat({ userMessage: 'Hello' }, { token: null })
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects an unknown access token', async () => {
+      createTestDatabase()
+      const response = await chat({ userMessage: 'Hello' }, { token: 'forged' })
+      expect(response.status).toBe(401)
+    })
+
+    it('rejects a userId that is not the session user', async () => {
+      const db = createTestDatabase({ Office: 20 })
+      const response = await chat({ userMessage: 'Hello', userId: OTHER_USER.id })
+
+      expect(response.status).toBe(403)
+      expect(db.dump('conversations')).toEqual([])
+    })
+
+    it('rejects a home the user is not a member of', async () => {
+      createTestDatabase()
+      const response = await chat(
+        { userMessage: 'Hello', homeId: HOME_ID },
+        { token: OTHER_TOKEN }
+      )
+      expect(response.status).toBe(403)
+    })
+
+    it('accepts the session user id in the body', async () => {
+      createTestDatabase()
+      setLLMProvider(new ScriptedProvider([{ content: 'Hi!' }]))
+
+      const response = await chat({ userMessage: 'Hello', userId: USER.id })
+      expect(response.status).toBe(200)
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/chat/stream/route'
+import { POST as chat } from '@/app/api/chat/route'
+import { setLLMProvider } from '@/lib/llm'
+import { ScriptedProvider } from '@/lib/testing/scriptedProvider'
+import { createTestDatabase, jsonRequest, resetStandIns } from '@/tests/support'
+
+afterEach(resetStandIns)
+
+// Événements SSE "event: x / data: {...}" du corps de la réponse
+async function readEvents(response: Response) {
+  const text = await response.text()
+  return text
+    .trim()
+    .split('\n\n')
+    .map((block) => {
+      const [event, data] = block.split('\n')
+      return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) }
+    })
+}
+
+describe('POST /api/chat/stream', () => {
+  it('streams tool steps and the final answer', async () => {
+    const db = createTestDatabase({ Office: 20 })
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: 'set_temperature', arguments: { room: 'office', temperature: 21 } }] },
+        { content: 'Office set to 21°C.' },
+      ])
+    )
+
+    const response = await POST(jsonRequest('/api/chat/stream', { userMessage: 'Office to 21' }))
+    const events = await readEvents(response)
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(events.map(({ event }) => event)).toEqual(['tool_start', 'tool_end', 'token', 'done'])
+    expect(events.at(-1)?.data).toMatchObject({ message: 'Office set to 21°C.' })
+    expect(db.dump('room_temperatures')[0].temperature).toBe(21)
+    expect(db.dump('chat_history')).toHaveLength(1)
+  })
+
+  it('answers 400 for a malformed body', async () => {
+    createTestDatabase()
+    const response = await POST(jsonRequest('/api/chat/stream', '{"userMessage": '))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).message).toBe('❌ The message is empty.')
+  })
+
+  it.each([
+    ['/api/chat/stream', POST],
+    ['/api/chat', chat],
+  ])('%s answers a localized 500 when the database fails', async (url, handler) => {
+    const db = createTestDatabase()
+    db.failNext('home_members')
+
+    const response = await handler(
+      jsonRequest(url, { userMessage: 'Bonjour' }, { headers: { 'Accept-Language': 'fr' } })
+    )
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).message).toBe('Erreur serveur, veuillez réessayer plus tard.')
+  })
+})
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { GET } from '@/app/api/cron/route'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const SECRET = 'cron-secret'
+
+function cron(authorization?: string) {
+  return GET(
+    new Request('http://localhost/api/cron', {
+      headers: authorization ? { Authorization: authorization } : {},
+    })
+  )
+}
+
+function scheduledChange(room: string, temperature: number, executeAt: Date) {
+  return {
+    home_id: HOME_ID,
+    user_id: USER.id,
+    room,
+    temperature,
+    execute_at: executeAt.toISOString(),
+  }
+}
+
+beforeEach(() => {
+  process.env.CRON_SECRET = SECRET
+})
+
+afterEach(() => {
+  delete process.env.CRON_SECRET
+  resetStandIns()
+})
+
+describe('GET /api/cron', () => {
+  it('applies due changes and leaves future ones pending', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19, Office: 20 },
+      {
+        scheduled_temperatures: [
+          scheduledChange('Bedroom', 21, new Date(Date.now() - 60 * 1000)),
+          scheduledChange('Office', 18, new Date(Date.now() + 60 * 60 * 1000)),
+        ],
+      }
+    )
+
+    const response = await cron(`Bearer ${SECRET}`)
+
+    expect(response.status).toBe(200)
+    expect(db.dump('room_temperatures')).toMatchObject([
+      { room: 'Bedroom', temperature: 21 },
+      { room: 'Office', temperature: 20 },
+    ])
+    expect(db.dump('scheduled_temperatures')).toMatchObject([
+      { room: 'Bedroom', status: 'done' },
+      { room: 'Office', status: 'pending' },
+    ])
+    expect(db.dump('temperature_history')).toMatchObject([
+      { room: 'Bedroom', temperature: 21, source: 'scheduled' },
+    ])
+  })
+
+  it('applies a due change only once across runs', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19 },
+      { scheduled_temperatures: [scheduledChange('Bedroom', 21, new Date(Date.now() - 1000))] }
+    )
+
+    await cron(`Bearer ${SECRET}`)
+    await cron(`Bearer ${SECRET}`)
+
+    expect(db.dump('temperature_history')).toHaveLength(1)
+  })
+
+  it('rejects a call without the cron secret', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19 },
+      { scheduled_temperatures: [scheduledChange('Bedroom', 21, new Date(Date.now() - 1000))] }
+    )
+
+    expect((await cron()).status).toBe(401)
+    expect((await cron('Bearer wrong')).status).toBe(401)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(19)
+  })
+})
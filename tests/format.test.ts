@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { createFormatter, toCelsius, toCelsiusDifference } from '@/lib/format'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+
+const fahrenheit = createFormatter({
+  ...DEFAULT_PREFERENCES,
+  language: 'en',
+  locale: 'en-US',
+  temperatureUnit: 'fahrenheit',
+})
+
+describe('temperature conversions', () => {
+  it.each([60, 68, 71.5, 80])('shows %s°F back unchanged', (value) => {
+    expect(fahrenheit.temperature(toCelsius(value, 'fahrenheit'))).toBe(`${value}°F`)
+  })
+
+  it('keeps the exact value in °C', () => {
+    expect(toCelsius(80, 'fahrenheit')).toBeCloseTo(26.6667, 4)
+    expect(toCelsiusDifference(3, 'fahrenheit')).toBeCloseTo(1.6667, 4)
+  })
+
+  it('rounds only for display', () => {
+    expect(fahrenheit.temperature(26.66)).toBe('80°F')
+    expect(fahrenheit.difference(toCelsiusDifference(3, 'fahrenheit'))).toBe('3°F')
+  })
+})
@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { POST as invite } from '@/app/api/homes/[id]/invitations/route'
+import { DELETE as removeMember } from '@/app/api/homes/[id]/members/route'
+import { POST as answer } from '@/app/api/invitations/[id]/route'
+import { POST as chat } from '@/app/api/chat/route'
+import { setLLMProvider } from '@/lib/llm'
+import { ScriptedProvider } from '@/lib/testing/scriptedProvider'
+import {
+  HOME_ID,
+  OTHER_TOKEN,
+  OTHER_USER,
+  TOKEN,
+  USER,
+  createTestDatabase,
+  jsonRequest,
+  resetStandIns,
+} from '@/tests/support'
+
+afterEach(resetStandIns)
+
+const INVITATION_ID = 'invitation-1'
+
+function invitation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: INVITATION_ID,
+    home_id: HOME_ID,
+    email: OTHER_USER.email,
+    role: 'guest',
+    read_only: true,
+    invited_by: USER.id,
+    ...overrides,
+  }
+}
+
+function member(overrides: Record<string, unknown> = {}) {
+  return { home_id: HOME_ID, user_id: OTHER_USER.id, role: 'member', ...overrides }
+}
+
+function respond(decision: string, token = OTHER_TOKEN) {
+  return answer(jsonRequest(`/api/invitations/${INVITATION_ID}`, { decision }, { token }), {
+    params: Promise.resolve({ id: INVITATION_ID }),
+  })
+}
+
+function remove(userId: string, token = TOKEN) {
+  return removeMember(
+    new Request(`http://localhost/api/homes/${HOME_ID}/members?userId=${userId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` },
+    }),
+    { params: Promise.resolve({ id: HOME_ID }) }
+  )
+}
+
+describe('home roles', () => {
+  it('lets owners invite people', async () => {
+    const db = createTestDatabase()
+
+    const response = await invite(
+      jsonRequest(`/api/homes/${HOME_ID}/invitations`, { email: 'Bob@Example.com', role: 'guest' }),
+      { params: Promise.resolve({ id: HOME_ID }) }
+    )
+
+    expect(response.status).toBe(201)
+    expect(db.dump('home_invitations')).toMatchObject([
+      { email: OTHER_USER.email, role: 'guest', read_only: true, status: 'pending' },
+    ])
+  })
+
+  it('refuses invitations from members who are not owners', async () => {
+    const db = createTestDatabase({}, { home_members: [member()] })
+
+    const response = await invite(
+      jsonRequest(
+        `/api/homes/${HOME_ID}/invitations`,
+        { email: 'carol@example.com' },
+        { token: OTHER_TOKEN }
+      ),
+      { params: Promise.resolve({ id: HOME_ID }) }
+    )
+
+    expect(response.status).toBe(403)
+    expect(db.dump('home_invitations')).toEqual([])
+  })
+
+  it('only lets owners remove other members and keeps the last owner', async () => {
+    const db = createTestDatabase(
+      {},
+      {
+        home_members: [
+          { home_id: HOME_ID, user_id: USER.id, role: 'owner' },
+          member(),
+        ],
+      }
+    )
+
+    expect((await remove(USER.id, OTHER_TOKEN)).status).toBe(403)
+    expect((await remove(USER.id)).status).toBe(403)
+    expect(db.dump('home_members')).toHaveLength(2)
+
+    expect((await remove(OTHER_USER.id)).status).toBe(200)
+    expect(db.dump('home_members')).toMatchObject([{ user_id: USER.id, role: 'owner' }])
+  })
+
+  it('keeps read-only members from changing temperatures', async () => {
+    const db = createTestDatabase(
+      { Office: 20 },
+      {
+        home_members: [
+          { home_id: HOME_ID, user_id: USER.id, role: 'owner' },
+          member({ role: 'guest', read_only: true }),
+        ],
+      }
+    )
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: 'set_temperature', arguments: { room: 'office', temperature: 23 } }] },
+        { content: 'Done.' },
+      ])
+    )
+
+    const response = await chat(
+      jsonRequest(
+        '/api/chat',
+        { userMessage: 'Set the office to 23', homeId: HOME_ID },
+        { token: OTHER_TOKEN }
+      )
+    )
+    const [action] = (await response.json()).actions
+
+    expect(response.status).toBe(200)
+    expect(action.result).toContain('read-only')
+    expect(db.dump('room_temperatures')[0].temperature).toBe(20)
+  })
+})
+
+describe('POST /api/invitations/[id]', () => {
+  it('adds the invited user with the invitation role', async () => {
+    const db = createTestDatabase({}, { home_invitations: [invitation()] })
+
+    const response = await respond('accept')
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).home).toMatchObject({
+      homeId: HOME_ID,
+      role: 'guest',
+      canWrite: false,
+    })
+    expect(db.dump('home_members')).toMatchObject([
+      { user_id: USER.id, role: 'owner' },
+      { user_id: OTHER_USER.id, role: 'guest', read_only: true },
+    ])
+    expect(db.dump('home_invitations')[0].status).toBe('accepted')
+    expect(db.dump('user_preferences')).toMatchObject([
+      { user_id: OTHER_USER.id, active_home_id: HOME_ID },
+    ])
+  })
+
+  it('declines without joining the home', async () => {
+    const db = createTestDatabase({}, { home_invitations: [invitation()] })
+
+    const response = await respond('decline')
+
+    expect(response.status).toBe(200)
+    expect(db.dump('home_invitations')[0].status).toBe('declined')
+    expect(db.dump('home_members')).toHaveLength(1)
+    expect((await respond('accept')).status).toBe(404)
+  })
+
+  it('keeps the role of someone who is already a member', async () => {
+    const db = createTestDatabase({}, { home_invitations: [invitation({ email: USER.email })] })
+
+    const response = await respond('accept', TOKEN)
+
+    expect(response.status).toBe(200)
+    expect(db.dump('home_members')).toMatchObject([
+      { user_id: USER.id, role: 'owner', read_only: false },
+    ])
+  })
+
+  it('ignores expired invitations', async () => {
+    const db = createTestDatabase(
+      {},
+      { home_invitations: [invitation({ expires_at: new Date(Date.now() - 1000).toISOString() })] }
+    )
+
+    expect((await respond('accept')).status).toBe(404)
+    expect(db.dump('home_members')).toHaveLength(1)
+  })
+
+  it('only lets the invited address answer', async () => {
+    const db = createTestDatabase({}, { home_invitations: [invitation()] })
+
+    expect((await respond('accept', TOKEN)).status).toBe(404)
+    expect(db.dump('home_invitations')[0].status).toBe('pending')
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { parseIntents } from '@/lib/llm'
+
+describe('parseIntents', () => {
+  it.each([
+    ['set kitchen to 21', { room: 'kitchen', temperature: 21 }],
+    ['set kitchen to 21.5 degrees please', { room: 'kitchen', temperature: 21.5 }],
+    ['please set the kitchen to 21', { room: 'kitchen', temperature: 21 }],
+    ['could you set the kitchen to 21, thanks', { room: 'kitchen', temperature: 21 }],
+    ['mets la cuisine à 20 stp', { room: 'cuisine', temperature: 20 }],
+  ])('sets a temperature: "%s"', (text, args) => {
+    expect(parseIntents(text)).toEqual([{ tool: 'set_temperature', args }])
+  })
+
+  it.each([
+    ['temperature in bedroom', 'bedroom'],
+    ['tell me the kitchen temperature', 'kitchen'],
+    ["what's the bedroom temperature?", 'bedroom'],
+    ['quelle est la température du salon', 'salon'],
+    ['how warm is it in the office please', 'office'],
+  ])('reads a temperature: "%s"', (text, room) => {
+    expect(parseIntents(text)).toEqual([{ tool: 'get_temperature', args: { room } }])
+  })
+
+  it('splits several commands and keeps delays', () => {
+    expect(
+      parseIntents('Set kitchen to 21 in 10 minutes, then tell me the kitchen temperature')
+    ).toEqual([
+      { tool: 'set_temperature', args: { room: 'kitchen', temperature: 21, delayMinutes: 10 } },
+      { tool: 'get_temperature', args: { room: 'kitchen' } },
+    ])
+  })
+
+  it.each([
+    ['mets le salon et la cuisine à 20', { temperature: 20 }, ['salon', 'cuisine']],
+    ['set the living room and the kitchen to 20', { temperature: 20 }, ['living room', 'kitchen']],
+    [
+      'set the office, the hall and the kitchen to 19 in 10 minutes',
+      { temperature: 19, delayMinutes: 10 },
+      ['office', 'hall', 'kitchen'],
+    ],
+    ['turn the bedroom and the office down by 2', { delta: -2 }, ['bedroom', 'office']],
+    ['baisse le salon et la cuisine de 1', { delta: -1 }, ['salon', 'cuisine']],
+  ])('applies one change to every listed room: "%s"', (text, change, rooms) => {
+    expect(parseIntents(text)).toEqual(
+      rooms.map((room) => ({ tool: 'set_temperature', args: { room, ...change } }))
+    )
+  })
+
+  it.each(['set my room to 21', 'mets ma pièce à 20', 'set my room and the kitchen to 20'])(
+    'does not guess which room is meant: "%s"',
+    (text) => {
+      expect(parseIntents(text)).toEqual([])
+    }
+  )
+
+  it('reads relative changes', () => {
+    expect(parseIntents('turn everything down by 2 degrees please')).toEqual([
+      { tool: 'set_temperature', args: { room: 'all', delta: -2 } },
+    ])
+    expect(parseIntents('baisse les chambres de 1')).toEqual([
+      { tool: 'set_temperature', args: { room: 'chambres', delta: -1 } },
+    ])
+  })
+})
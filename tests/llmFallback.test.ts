@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest'
+import { FallbackProvider } from '@/lib/llm/fallback'
+import type { CompletionRequest, LLMProvider } from '@/lib/llm'
+import { ScriptedProvider } from '@/lib/testing/scriptedProvider'
+
+// Fournisseur qui envoie des fragments puis échoue (flux coupé en cours de route)
+function failingProvider(tokens: string[]): LLMProvider {
+  return {
+    kind: 'failing',
+    async complete(request: CompletionRequest) {
+      tokens.forEach((token) => request.onToken?.(token))
+      throw new Error('Stream interrupted')
+    },
+  }
+}
+
+describe('FallbackProvider', () => {
+  it('uses the fallback when the primary fails before streaming', async () => {
+    const onToken = vi.fn()
+    const provider = new FallbackProvider(
+      failingProvider([]),
+      new ScriptedProvider([{ content: 'Fallback answer' }])
+    )
+
+    const result = await provider.complete({ messages: [], onToken })
+
+    expect(result.content).toBe('Fallback answer')
+    expect(onToken.mock.calls).toEqual([['Fallback answer']])
+  })
+
+  it('does not mix a partial answer with the fallback', async () => {
+    const onToken = vi.fn()
+    const fallback = new ScriptedProvider([{ content: 'Fallback answer' }])
+    const provider = new FallbackProvider(failingProvider(['Half an ', 'answer']), fallback)
+
+    await expect(provider.complete({ messages: [], onToken })).rejects.toThrow(
+      'Stream interrupted'
+    )
+    expect(onToken.mock.calls).toEqual([['Half an '], ['answer']])
+    expect(fallback.requests).toHaveLength(0)
+  })
+})
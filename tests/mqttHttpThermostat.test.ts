@@ -0,0 +1,102 @@
+import type { AddressInfo } from 'node:net'
+import type { Server } from 'node:http'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { MqttHttpThermostatDriver } from '@/lib/thermostat/mqttHttp'
+import { createThermostatBroker } from '@/lib/testing/thermostatBroker'
+
+let broker: Server
+let brokerUrl: string
+
+beforeAll(async () => {
+  broker = createThermostatBroker()
+  // Port 0 : port libre choisi par le système
+  await new Promise<void>((resolve) => broker.listen(0, '127.0.0.1', resolve))
+  brokerUrl = `http://127.0.0.1:${(broker.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => broker.close(resolve))
+})
+
+function publish(body: unknown) {
+  return fetch(`${brokerUrl}/publish`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+function driver(topicPrefix: string) {
+  return new MqttHttpThermostatDriver({ brokerUrl, topicPrefix, timeoutMs: 2000 })
+}
+
+describe('MqttHttpThermostatDriver against the stand-in broker', () => {
+  it('uses default capabilities until the device publishes its own', async () => {
+    const thermostat = driver('home/office')
+    expect(await thermostat.getCapabilities()).toMatchObject({ minTemperature: 5, maxTemperature: 30 })
+
+    await publish({
+      topic: 'home/office/capabilities',
+      payload: { min: 10, max: 25, step: 1, humidity: true },
+      retain: true,
+    })
+
+    expect(await thermostat.getCapabilities()).toEqual({
+      minTemperature: 10,
+      maxTemperature: 25,
+      step: 1,
+      supportsHumidity: true,
+    })
+    await expect(thermostat.setTarget(28)).rejects.toThrow('outside 10–25°C')
+  })
+
+  it('fails to read a thermostat that never published', async () => {
+    await expect(driver('home/attic').readTemperature()).rejects.toThrow(
+      'No temperature published on home/attic/temperature.'
+    )
+  })
+
+  it('publishes a target that the device confirms', async () => {
+    const thermostat = driver('home/kitchen')
+
+    await thermostat.setTarget(21)
+
+    expect(await thermostat.readTemperature()).toMatchObject({ temperature: 21, target: 21 })
+  })
+
+  it('reads the temperature and humidity the device publishes', async () => {
+    const thermostat = driver('home/bedroom')
+    await thermostat.setTarget(20)
+    await publish({
+      topic: 'home/bedroom/temperature',
+      payload: { value: 18.5, humidity: 45, at: '2026-10-19T06:00:00.000Z' },
+      retain: true,
+    })
+
+    expect(await thermostat.readTemperature()).toEqual({
+      temperature: 18.5,
+      target: 20,
+      humidity: 45,
+      readAt: new Date('2026-10-19T06:00:00.000Z'),
+    })
+  })
+
+  it('fails when the broker does not know the publish path', async () => {
+    const thermostat = new MqttHttpThermostatDriver({
+      brokerUrl: `${brokerUrl}/wrong`,
+      topicPrefix: 'home/garage',
+      timeoutMs: 2000,
+    })
+
+    await expect(thermostat.setTarget(20)).rejects.toThrow('/publish failed with HTTP 404')
+  })
+
+  it('answers 400 to malformed publications and keeps running', async () => {
+    expect((await publish('{"topic": ')).status).toBe(400)
+    expect((await publish({ payload: { value: 20 } })).status).toBe(400)
+    expect((await publish({ topic: 'home/kitchen/target/set' })).status).toBe(400)
+    expect((await publish({ topic: 'home/kitchen/target/set', payload: { value: '20' } })).status).toBe(400)
+
+    expect(await driver('home/kitchen').readTemperature()).toMatchObject({ target: 21 })
+  })
+})
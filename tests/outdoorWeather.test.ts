@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createFormatter } from '@/lib/format'
+import {
+  MissingLocationError,
+  describeWeather,
+  getOutsideTemperature,
+  getWeather,
+} from '@/lib/outdoorWeather'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import { setWeatherProvider, type WeatherLocation } from '@/lib/weather'
+import { DEFAULT_WEATHER_FIXTURE, FixtureWeatherProvider } from '@/lib/weather/fixture'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const scope = { homeId: HOME_ID, userId: USER.id }
+const english = createFormatter({ ...DEFAULT_PREFERENCES, language: 'en', locale: 'en-US' })
+
+afterEach(resetStandIns)
+
+const START = new Date('2026-10-19T08:00:00Z')
+const minutesLater = (minutes: number) => new Date(START.getTime() + minutes * 60 * 1000)
+
+// Météo figée qui compte ses appels et peut tomber en panne ; "clock" date les relevés
+class CountingWeatherProvider extends FixtureWeatherProvider {
+  calls = 0
+  failing = false
+  clock = START
+
+  constructor() {
+    super(DEFAULT_WEATHER_FIXTURE, () => this.clock)
+  }
+
+  async getWeather(location: WeatherLocation, hours: number) {
+    this.calls++
+    if (this.failing) throw new Error('Weather service down')
+    return super.getWeather(location, hours)
+  }
+}
+
+function createHomeAt(latitude: number | null, longitude: number | null) {
+  const db = createTestDatabase(
+    {},
+    {
+      homes: [{ id: HOME_ID, name: 'Home', created_by: USER.id, latitude, longitude }],
+    }
+  )
+  const provider = new CountingWeatherProvider()
+  setWeatherProvider(provider)
+  return { db, provider }
+}
+
+describe('getWeather', () => {
+  it('reuses the cached report within its TTL', async () => {
+    const { db, provider } = createHomeAt(48.85, 2.35)
+
+    const report = await getWeather(scope, START)
+    expect(report.current.temperature).toBe(12)
+    expect(db.dump('weather_cache')).toMatchObject([
+      { home_id: HOME_ID, provider: 'fixture', fetched_at: START.toISOString() },
+    ])
+
+    await getWeather(scope, minutesLater(10))
+    expect(provider.calls).toBe(1)
+
+    provider.clock = minutesLater(20)
+    await getWeather(scope, minutesLater(20))
+    expect(provider.calls).toBe(2)
+    expect(db.dump('weather_cache')[0].fetched_at).toBe(minutesLater(20).toISOString())
+  })
+
+  it('fetches again when the home has moved', async () => {
+    const { db, provider } = createHomeAt(48.85, 2.35)
+
+    await getWeather(scope, START)
+    db.rows('homes')[0].latitude = 45.76
+
+    await getWeather(scope, minutesLater(5))
+    expect(provider.calls).toBe(2)
+    expect(db.dump('weather_cache')[0].latitude).toBe(45.76)
+  })
+
+  it('falls back to a stale report when the provider fails', async () => {
+    const { provider } = createHomeAt(48.85, 2.35)
+
+    await getWeather(scope, START)
+    provider.failing = true
+
+    const report = await getWeather(scope, minutesLater(120))
+
+    expect(provider.calls).toBe(2)
+    expect(report.fetchedAt).toBe(START.toISOString())
+    // Les heures déjà passées ne sont plus des prévisions
+    expect(new Date(report.hourly[0].time).getTime()).toBeGreaterThan(minutesLater(60).getTime())
+  })
+
+  it('fails when the provider fails and nothing is cached', async () => {
+    const { provider } = createHomeAt(48.85, 2.35)
+    provider.failing = true
+
+    await expect(getWeather(scope, START)).rejects.toThrow('Weather service down')
+    expect(await getOutsideTemperature(scope)).toBeNull()
+  })
+})
+
+describe('home without a location', () => {
+  it('reports the missing location without calling the provider', async () => {
+    const { provider } = createHomeAt(null, null)
+
+    await expect(getWeather(scope)).rejects.toBeInstanceOf(MissingLocationError)
+    expect(await getOutsideTemperature(scope)).toBeNull()
+    expect(await describeWeather(scope, 12, english)).toMatch(
+      /^📍 No location is set for this home\. Ask the user where the home is/
+    )
+    expect(provider.calls).toBe(0)
+  })
+})
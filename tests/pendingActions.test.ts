@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/pending-actions/[id]/route'
+import { HOME_ID, USER, createTestDatabase, jsonRequest, resetStandIns } from '@/tests/support'
+
+afterEach(resetStandIns)
+
+const ACTION_ID = 'action-1'
+
+function pendingAction(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ACTION_ID,
+    home_id: HOME_ID,
+    user_id: USER.id,
+    conversation_id: null,
+    tool: 'set_temperature',
+    args: { room: 'Office', temperature: 27 },
+    reason: 'Unusually high temperature',
+    status: 'pending',
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  }
+}
+
+function decide(decision: unknown) {
+  return POST(jsonRequest(`/api/pending-actions/${ACTION_ID}`, { decision }), {
+    params: Promise.resolve({ id: ACTION_ID }),
+  })
+}
+
+describe('POST /api/pending-actions/[id]', () => {
+  it('applies an accepted action once', async () => {
+    const db = createTestDatabase({ Office: 20 }, { pending_actions: [pendingAction()] })
+
+    const response = await decide('accept')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ status: 'accepted' })
+    expect(db.dump('room_temperatures')[0].temperature).toBe(27)
+    expect((await decide('accept')).status).toBe(404)
+  })
+
+  it('leaves the action pending when the user lost access to its home', async () => {
+    const db = createTestDatabase(
+      { Office: 20 },
+      { pending_actions: [pendingAction({ home_id: 'home-former' })] }
+    )
+
+    const response = await decide('accept')
+
+    expect(response.status).toBe(403)
+    expect(db.dump('pending_actions')[0].status).toBe('pending')
+  })
+
+  it('returns the action to pending when the thermostat refuses the change', async () => {
+    const db = createTestDatabase(
+      { Office: 20 },
+      {
+        pending_actions: [pendingAction()],
+        thermostat_bindings: [{ home_id: HOME_ID, room: 'Office', driver: 'unplugged', config: {} }],
+      }
+    )
+
+    const response = await decide('accept')
+    const body = await response.json()
+
+    expect(body).toMatchObject({ status: 'pending', data: { ok: false } })
+    expect(db.dump('pending_actions')[0].status).toBe('pending')
+    expect(db.dump('room_temperatures')[0].temperature).toBe(20)
+  })
+
+  it('returns the action to pending when a group change fails', async () => {
+    const db = createTestDatabase(
+      { Office: 20, Kitchen: 19 },
+      { pending_actions: [pendingAction({ args: { room: 'all', temperature: 27 } })] }
+    )
+    db.failNext('set_room_temperatures')
+
+    const response = await decide('accept')
+    const body = await response.json()
+
+    expect(body).toMatchObject({
+      status: 'pending',
+      data: { ok: false, action: 'group', error: { code: 'update_failed' } },
+    })
+    expect(db.dump('pending_actions')[0].status).toBe('pending')
+    expect(db.dump('room_temperatures').map((row) => row.temperature)).toEqual([20, 19])
+  })
+
+  it('returns the action to pending when execution throws', async () => {
+    const db = createTestDatabase({ Office: 20 }, { pending_actions: [pendingAction()] })
+    db.failNext('room_groups')
+
+    const response = await decide('accept')
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ message: 'Server error, please try again later.' })
+    expect(db.dump('pending_actions')[0].status).toBe('pending')
+  })
+
+  it('answers 400 for an unknown decision', async () => {
+    const db = createTestDatabase({}, { pending_actions: [pendingAction()] })
+
+    expect((await decide('maybe')).status).toBe(400)
+    expect(db.dump('pending_actions')[0].status).toBe('pending')
+  })
+})
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/presence/route'
+import { GET as cron } from '@/app/api/cron/route'
+import { createDevice } from '@/lib/devices'
+import { getHomeAccess } from '@/lib/homes'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const SECRET = 'cron-secret'
+
+afterEach(() => {
+  delete process.env.CRON_SECRET
+  resetStandIns()
+})
+
+// Foyer avec deux pièces, un profil par mode et un appareil de présence
+async function createPresenceDatabase(mode = 'home') {
+  const db = createTestDatabase(
+    { Bedroom: 19, 'Living room': 20 },
+    {
+      homes: [{ id: HOME_ID, name: 'Home', created_by: USER.id, mode }],
+      mode_profiles: [
+        { home_id: HOME_ID, mode: 'home', room: 'Living room', temperature: 21 },
+        { home_id: HOME_ID, mode: 'away', room: 'Living room', temperature: 16 },
+        { home_id: HOME_ID, mode: 'away', room: 'Bedroom', temperature: 15 },
+        { home_id: HOME_ID, mode: 'sleep', room: 'Bedroom', temperature: 17 },
+      ],
+    }
+  )
+  const access = await getHomeAccess(USER.id, HOME_ID)
+  const { apiKey } = await createDevice(access!, 'Front door')
+  return { db, apiKey }
+}
+
+function send(apiKey: string | null, body: unknown) {
+  return POST(
+    new Request('http://localhost/api/presence', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+  )
+}
+
+const temperatures = (rows: Record<string, unknown>[]) =>
+  Object.fromEntries(rows.map((row) => [row.room, row.temperature]))
+
+describe('POST /api/presence', () => {
+  it('applies the profile of the requested mode', async () => {
+    const { db, apiKey } = await createPresenceDatabase()
+
+    const response = await send(apiKey, { mode: 'sleep' })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      mode: 'sleep',
+      previous: 'home',
+      changed: true,
+      applied: [{ room: 'Bedroom', temperature: 17 }],
+    })
+    expect(db.dump('homes')[0].mode).toBe('sleep')
+    expect(temperatures(db.dump('room_temperatures'))).toEqual({ Bedroom: 17, 'Living room': 20 })
+    expect(db.dump('devices')[0].last_seen_at).not.toBeNull()
+  })
+
+  it.each([
+    ['leave', 'home', 'away'],
+    ['arrive', 'away', 'home'],
+    ['sleep', 'home', 'sleep'],
+    ['wake', 'sleep', 'home'],
+  ])('turns "%s" in %s mode into %s mode', async (event, current, expected) => {
+    const { db, apiKey } = await createPresenceDatabase(current)
+
+    const response = await send(apiKey, { event })
+
+    expect(await response.json()).toMatchObject({ mode: expected, changed: true })
+    expect(db.dump('homes')[0].mode).toBe(expected)
+  })
+
+  it.each([
+    ['leave', 'vacation'],
+    ['wake', 'home'],
+    ['arrive', 'home'],
+  ])('ignores "%s" in %s mode', async (event, current) => {
+    const { db, apiKey } = await createPresenceDatabase(current)
+
+    const response = await send(apiKey, { event })
+
+    expect(await response.json()).toEqual({ mode: current, changed: false })
+    expect(db.dump('homes')[0].mode_changed_at).toBeNull()
+  })
+
+  it('reverts a timed mode from the cron', async () => {
+    process.env.CRON_SECRET = SECRET
+    const { db, apiKey } = await createPresenceDatabase()
+    const until = new Date(Date.now() + 60 * 60 * 1000).toISOString()
+
+    const response = await send(apiKey, { mode: 'away', until, revertTo: 'sleep' })
+
+    expect(await response.json()).toMatchObject({ mode: 'away', until, revertTo: 'sleep' })
+    expect(db.dump('homes')[0]).toMatchObject({ mode: 'away', mode_until: until })
+    expect(db.dump('scheduled_temperatures')).toMatchObject([
+      { mode: 'sleep', execute_at: until, status: 'pending' },
+    ])
+
+    // Le retour est dû : le cron rétablit le mode demandé et son profil
+    db.rows('scheduled_temperatures')[0].execute_at = new Date(Date.now() - 1000).toISOString()
+    await cron(
+      new Request('http://localhost/api/cron', { headers: { Authorization: `Bearer ${SECRET}` } })
+    )
+
+    expect(db.dump('homes')[0].mode).toBe('sleep')
+    expect(db.dump('scheduled_temperatures')[0].status).toBe('done')
+    expect(temperatures(db.dump('room_temperatures'))).toEqual({ Bedroom: 17, 'Living room': 16 })
+  })
+
+  it('cancels the pending revert when the mode changes again', async () => {
+    const { db, apiKey } = await createPresenceDatabase()
+    const until = new Date(Date.now() + 60 * 60 * 1000).toISOString()
+
+    await send(apiKey, { mode: 'away', until })
+    await send(apiKey, { event: 'arrive' })
+
+    expect(db.dump('homes')[0]).toMatchObject({ mode: 'home', mode_until: null })
+    expect(db.dump('scheduled_temperatures')).toMatchObject([{ mode: 'home', status: 'cancelled' }])
+  })
+
+  it.each([
+    ['not JSON', 'arrive'],
+    ['null', 'null'],
+    ['a number', '42'],
+    ['an array', '["arrive"]'],
+    ['an unknown event', { event: 'teleport' }],
+    ['an unknown mode', { mode: 'party' }],
+    ['an unknown revert mode', { mode: 'away', revertTo: 'party' }],
+    ['a past end', { mode: 'away', until: '2000-01-01T00:00:00Z' }],
+  ])('answers 400 for %s', async (_, body) => {
+    const { db, apiKey } = await createPresenceDatabase()
+
+    const response = await send(apiKey, body)
+
+    expect(response.status).toBe(400)
+    expect(db.dump('homes')[0].mode).toBe('home')
+  })
+
+  it('rejects requests without a device key', async () => {
+    const { db } = await createPresenceDatabase()
+
+    expect((await send(null, { mode: 'away' })).status).toBe(401)
+    expect((await send('thd_forged', { mode: 'away' })).status).toBe(401)
+    expect(db.dump('homes')[0].mode).toBe('home')
+  })
+})
@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { matchesCron, parseCronExpression } from '@/lib/cronExpression'
+import {
+  expandHeatingPrograms,
+  findLatestOccurrence,
+  toProgramEntry,
+  type HeatingProgram,
+} from '@/lib/programs'
+import { toWallClock } from '@/lib/timeZone'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+afterEach(resetStandIns)
+
+const PARIS = 'Europe/Paris'
+
+function program(overrides: Partial<HeatingProgram> = {}): HeatingProgram {
+  return {
+    id: 'program-1',
+    home_id: HOME_ID,
+    user_id: USER.id,
+    room: 'Bedroom',
+    name: 'Mornings',
+    entries: [{ cron: '0 7 * * *', temperature: 21 }],
+    exceptions: [],
+    enabled: true,
+    last_expanded_at: null,
+    ...overrides,
+  }
+}
+
+// Base avec un programme et le fuseau de son auteur
+function createProgramDatabase(programs: HeatingProgram[], timeZone = PARIS) {
+  return createTestDatabase(
+    { Bedroom: 18 },
+    {
+      heating_programs: programs,
+      user_preferences: [{ user_id: USER.id, time_zone: timeZone }],
+    }
+  )
+}
+
+describe('parseCronExpression', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCronExpression('*/15 8-18/5 1,15 * 1-5')
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45])
+    expect([...cron.hours]).toEqual([8, 13, 18])
+    expect([...cron.daysOfMonth]).toEqual([1, 15])
+    expect(cron.months.size).toBe(12)
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('reads 7 as Sunday', () => {
+    expect([...parseCronExpression('0 9 * * 6,7').daysOfWeek]).toEqual([6, 0])
+  })
+
+  it.each(['* * * *', '60 * * * *', '* 24 * * *', '*/0 * * * *', '5-1 * * * *', 'a * * * *'])(
+    'rejects %j',
+    (source) => {
+      expect(() => parseCronExpression(source)).toThrow()
+    }
+  )
+})
+
+describe('matchesCron', () => {
+  // Lundi 19 octobre 2026, 07:00
+  const monday = { year: 2026, month: 10, day: 19, hour: 7, minute: 0, weekday: 1 }
+
+  it('needs every field to match', () => {
+    expect(matchesCron(parseCronExpression('0 7 * * 1'), monday)).toBe(true)
+    expect(matchesCron(parseCronExpression('0 7 * * 2'), monday)).toBe(false)
+    expect(matchesCron(parseCronExpression('30 7 * * *'), monday)).toBe(false)
+  })
+
+  it('accepts either day field when both are restricted', () => {
+    expect(matchesCron(parseCronExpression('0 7 1 * 1'), monday)).toBe(true)
+    expect(matchesCron(parseCronExpression('0 7 19 * 0'), monday)).toBe(true)
+    expect(matchesCron(parseCronExpression('0 7 1 * 0'), monday)).toBe(false)
+  })
+})
+
+describe('toProgramEntry', () => {
+  it('turns days and a time into a cron expression', () => {
+    expect(toProgramEntry({ days: ['weekdays'], time: '06:30', temperature: 20 })).toEqual({
+      cron: '30 6 * * 1,2,3,4,5',
+      temperature: 20,
+    })
+    expect(toProgramEntry({ time: '22:00', temperature: 17 }).cron).toBe('0 22 * * *')
+  })
+
+  it('rejects an invalid time or day', () => {
+    expect(() => toProgramEntry({ time: '24:00', temperature: 20 })).toThrow('Invalid time')
+    expect(() => toProgramEntry({ days: ['someday'], time: '07:00', temperature: 20 })).toThrow(
+      'Unknown day'
+    )
+  })
+})
+
+describe('findLatestOccurrence', () => {
+  const entries = [{ cron: '0 7 * * *', temperature: 21 }]
+
+  it('reads the entries in the time zone of the program author', () => {
+    const from = new Date('2026-10-19T04:00:00Z')
+    const to = new Date('2026-10-19T06:00:00Z')
+
+    // 07:00 à Paris (UTC+2 en octobre) = 05:00 UTC
+    expect(findLatestOccurrence({ entries, exceptions: [] }, PARIS, from, to)).toEqual({
+      at: new Date('2026-10-19T05:00:00Z'),
+      temperature: 21,
+    })
+    // 07:00 à New York = 11:00 UTC, hors de la fenêtre
+    expect(
+      findLatestOccurrence({ entries, exceptions: [] }, 'America/New_York', from, to)
+    ).toBeNull()
+  })
+
+  it('follows daylight saving time changes', () => {
+    // Passage à l'heure d'hiver le 25 octobre : 07:00 à Paris = 06:00 UTC
+    const occurrence = findLatestOccurrence(
+      { entries, exceptions: [] },
+      PARIS,
+      new Date('2026-10-25T04:00:00Z'),
+      new Date('2026-10-25T08:00:00Z')
+    )
+    expect(occurrence?.at).toEqual(new Date('2026-10-25T06:00:00Z'))
+  })
+
+  it('keeps only the latest occurrence of the window', () => {
+    const occurrence = findLatestOccurrence(
+      {
+        entries: [
+          { cron: '0 7 * * *', temperature: 21 },
+          { cron: '0 9 * * *', temperature: 18 },
+        ],
+        exceptions: [],
+      },
+      PARIS,
+      new Date('2026-10-19T00:00:00Z'),
+      new Date('2026-10-19T10:00:00Z')
+    )
+    expect(occurrence).toEqual({ at: new Date('2026-10-19T07:00:00Z'), temperature: 18 })
+  })
+
+  it('skips paused days', () => {
+    const occurrence = findLatestOccurrence(
+      { entries, exceptions: [{ from: '2026-10-19', to: '2026-10-19' }] },
+      PARIS,
+      new Date('2026-10-18T00:00:00Z'),
+      new Date('2026-10-19T10:00:00Z')
+    )
+    expect(occurrence?.at).toEqual(new Date('2026-10-18T05:00:00Z'))
+  })
+
+  it('excludes the start of the window and includes its end', () => {
+    const at = new Date('2026-10-19T05:00:00Z')
+    const program = { entries, exceptions: [] }
+
+    expect(findLatestOccurrence(program, PARIS, at, new Date(at.getTime() + 30_000))).toBeNull()
+    expect(findLatestOccurrence(program, PARIS, new Date(at.getTime() - 1), at)?.at).toEqual(at)
+  })
+})
+
+describe('expandHeatingPrograms', () => {
+  it('schedules a due occurrence once across consecutive runs', async () => {
+    const db = createProgramDatabase([program()])
+
+    for (const now of ['2026-10-19T05:00:20Z', '2026-10-19T05:01:20Z', '2026-10-19T05:02:20Z']) {
+      await expandHeatingPrograms(new Date(now))
+    }
+
+    expect(db.dump('scheduled_temperatures')).toMatchObject([
+      {
+        home_id: HOME_ID,
+        room: 'Bedroom',
+        temperature: 21,
+        execute_at: '2026-10-19T05:00:00.000Z',
+        program_id: 'program-1',
+      },
+    ])
+    expect(db.dump('heating_programs')[0].last_expanded_at).toBe('2026-10-19T05:02:20.000Z')
+  })
+
+  it('does not miss an occurrence between two runs', async () => {
+    const db = createProgramDatabase([program({ last_expanded_at: '2026-10-19T04:00:00.000Z' })])
+
+    await expandHeatingPrograms(new Date('2026-10-19T04:59:59.500Z'))
+    expect(db.dump('scheduled_temperatures')).toHaveLength(0)
+
+    await expandHeatingPrograms(new Date('2026-10-19T05:00:59Z'))
+    expect(db.dump('scheduled_temperatures')).toMatchObject([
+      { execute_at: '2026-10-19T05:00:00.000Z' },
+    ])
+  })
+
+  it('lets only one of two concurrent runs expand a window', async () => {
+    const db = createProgramDatabase([program({ last_expanded_at: '2026-10-19T04:00:00.000Z' })])
+    const now = new Date('2026-10-19T05:00:30Z')
+
+    await Promise.all([expandHeatingPrograms(now), expandHeatingPrograms(now)])
+
+    expect(db.dump('scheduled_temperatures')).toHaveLength(1)
+  })
+
+  it('looks back at most 24 hours', async () => {
+    // Dernière expansion il y a trois jours ; l'occurrence du dimanche 07:00 a plus de 24 h
+    const db = createProgramDatabase([
+      program({
+        entries: [{ cron: '0 7 * * 0', temperature: 21 }],
+        last_expanded_at: '2026-10-16T00:00:00.000Z',
+      }),
+    ])
+
+    await expandHeatingPrograms(new Date('2026-10-19T06:00:00Z'))
+
+    expect(db.dump('scheduled_temperatures')).toEqual([])
+    expect(db.dump('heating_programs')[0].last_expanded_at).toBe('2026-10-19T06:00:00.000Z')
+  })
+
+  it('retries an occurrence whose change could not be scheduled', async () => {
+    const db = createProgramDatabase([program({ last_expanded_at: '2026-10-19T04:00:00.000Z' })])
+    db.failNext('scheduled_temperatures', { operation: 'insert' })
+
+    await expandHeatingPrograms(new Date('2026-10-19T05:00:30Z'))
+    expect(db.dump('scheduled_temperatures')).toEqual([])
+    expect(db.dump('heating_programs')[0].last_expanded_at).toBe('2026-10-19T04:00:00.000Z')
+
+    await expandHeatingPrograms(new Date('2026-10-19T05:01:30Z'))
+    expect(db.dump('scheduled_temperatures')).toMatchObject([
+      { execute_at: '2026-10-19T05:00:00.000Z' },
+    ])
+  })
+
+  it('skips disabled programs', async () => {
+    const db = createProgramDatabase([program({ enabled: false })])
+
+    await expandHeatingPrograms(new Date('2026-10-19T05:00:30Z'))
+
+    expect(db.dump('scheduled_temperatures')).toEqual([])
+  })
+})
+
+describe('toWallClock', () => {
+  it('decomposes an instant in the given time zone', () => {
+    expect(toWallClock(new Date('2026-10-18T22:30:00Z'), PARIS)).toEqual({
+      year: 2026,
+      month: 10,
+      day: 19,
+      hour: 0,
+      minute: 30,
+      weekday: 1,
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createFormatter } from '@/lib/format'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import {
+  applyGroupChange,
+  renderGroupChangeResult,
+  resolveRoomTarget,
+  setRoomGroup,
+} from '@/lib/roomGroups'
+import { setRoomTargets } from '@/lib/temperature'
+import { SimulatedThermostatDriver } from '@/lib/thermostat/simulated'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const scope = { homeId: HOME_ID, userId: USER.id }
+const english = createFormatter({ ...DEFAULT_PREFERENCES, language: 'en', locale: 'en-US' })
+
+afterEach(resetStandIns)
+
+// Trois pièces, dont deux à l'étage
+function createHouse(tables: Parameters<typeof createTestDatabase>[1] = {}) {
+  return createTestDatabase(
+    { Bedroom: 19, 'Guest room': 18, Kitchen: 20 },
+    {
+      room_groups: [{ id: 'group-1', home_id: HOME_ID, name: 'Upstairs', name_key: 'upstairs' }],
+      room_group_members: [
+        { group_id: 'group-1', home_id: HOME_ID, room: 'Bedroom' },
+        { group_id: 'group-1', home_id: HOME_ID, room: 'Guest room' },
+      ],
+      ...tables,
+    }
+  )
+}
+
+// Cible connue ("all", groupe ou pièce)
+async function targetOf(name: string) {
+  const target = await resolveRoomTarget(scope, name)
+  if (target.kind === null) throw new Error(`Unknown target ${name}`)
+  return target
+}
+
+async function thermostatTarget(room: string) {
+  return (await new SimulatedThermostatDriver(`${HOME_ID}:${room}`).readTemperature()).target
+}
+
+const setpoints = (db: ReturnType<typeof createHouse>) =>
+  Object.fromEntries(db.dump('room_temperatures').map((row) => [row.room, row.temperature]))
+
+describe('resolveRoomTarget', () => {
+  it('resolves "all", then groups, then rooms', async () => {
+    createHouse()
+
+    expect(await resolveRoomTarget(scope, 'All')).toEqual({
+      kind: 'all',
+      name: 'all',
+      rooms: ['Bedroom', 'Guest room', 'Kitchen'],
+    })
+    expect(await resolveRoomTarget(scope, 'upstairs')).toEqual({
+      kind: 'group',
+      name: 'Upstairs',
+      rooms: ['Bedroom', 'Guest room'],
+    })
+    expect(await resolveRoomTarget(scope, 'kitchen')).toEqual({
+      kind: 'room',
+      name: 'Kitchen',
+      rooms: ['Kitchen'],
+    })
+    expect(await resolveRoomTarget(scope, 'attic')).toMatchObject({ kind: null, name: 'attic' })
+  })
+
+  it('refuses group names taken by "all" or a room', async () => {
+    const db = createHouse()
+
+    expect(await setRoomGroup(scope, 'All', ['kitchen'], english)).toMatch(/^❌/)
+    expect(await setRoomGroup(scope, 'kitchen', ['bedroom'], english)).toMatch(/^❌/)
+    expect(db.dump('room_groups')).toHaveLength(1)
+  })
+})
+
+describe('applyGroupChange', () => {
+  it('sets every room of a group', async () => {
+    const db = createHouse()
+
+    const result = await applyGroupChange(scope, await targetOf('upstairs'), { temperature: 21 })
+
+    expect(result).toMatchObject({ ok: true, error: null })
+    expect(setpoints(db)).toEqual({ Bedroom: 21, 'Guest room': 21, Kitchen: 20 })
+    expect(renderGroupChangeResult(result, english)).toBe(
+      [
+        '✅ 2 room(s) updated in group Upstairs:',
+        '- Bedroom: 19°C → 21°C',
+        '- Guest room: 18°C → 21°C',
+      ].join('\n')
+    )
+  })
+
+  it('applies a relative change to each current setpoint', async () => {
+    const db = createHouse()
+
+    const result = await applyGroupChange(scope, await targetOf('all'), { delta: -1.5 })
+
+    expect(result.ok).toBe(true)
+    expect(setpoints(db)).toEqual({ Bedroom: 17.5, 'Guest room': 16.5, Kitchen: 18.5 })
+    expect(await thermostatTarget('Kitchen')).toBe(18.5)
+    expect(db.dump('temperature_history')).toHaveLength(3)
+  })
+
+  it('changes nothing when one room would leave its limits', async () => {
+    const db = createHouse()
+
+    const result = await applyGroupChange(scope, await targetOf('all'), { delta: 9 })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'out_of_range' } })
+    expect(setpoints(db)).toEqual({ Bedroom: 19, 'Guest room': 18, Kitchen: 20 })
+    expect(db.dump('temperature_history')).toEqual([])
+  })
+
+  it('reports a group without rooms', async () => {
+    createHouse({
+      room_groups: [{ id: 'group-2', home_id: HOME_ID, name: 'Attic', name_key: 'attic' }],
+      room_group_members: [],
+    })
+
+    const result = await applyGroupChange(scope, await targetOf('attic'), { temperature: 20 })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'no_rooms' } })
+    expect(renderGroupChangeResult(result, english)).toBe('❌ There is no room in group Attic.')
+  })
+})
+
+describe('setRoomTargets', () => {
+  const targets = [
+    { room: 'Bedroom', temperature: 21 },
+    { room: 'Guest room', temperature: 20 },
+  ]
+
+  it('restores the thermostats already set when the transaction fails', async () => {
+    const db = createHouse()
+    db.failNext('set_room_temperatures')
+
+    await expect(setRoomTargets(scope, targets)).rejects.toThrow('Simulated database failure')
+
+    expect(await thermostatTarget('Bedroom')).toBe(19)
+    expect(await thermostatTarget('Guest room')).toBe(18)
+    expect(setpoints(db)).toEqual({ Bedroom: 19, 'Guest room': 18, Kitchen: 20 })
+    expect(db.dump('temperature_history')).toEqual([])
+    expect(db.dump('audit_log')).toEqual([])
+  })
+
+  it('restores the thermostats already set when a later driver fails', async () => {
+    const db = createHouse({
+      thermostat_bindings: [{ home_id: HOME_ID, room: 'Guest room', driver: 'unplugged' }],
+    })
+
+    await expect(setRoomTargets(scope, targets)).rejects.toThrow()
+
+    expect(await thermostatTarget('Bedroom')).toBe(19)
+    expect(setpoints(db)).toEqual({ Bedroom: 19, 'Guest room': 18, Kitchen: 20 })
+    expect(db.dump('temperature_history')).toEqual([])
+  })
+})
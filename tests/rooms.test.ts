@@ -0,0 +1,234 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  addRoomAlias,
+  createRoom,
+  deleteRoom,
+  normalizeRoomName,
+  removeRoomAlias,
+  renameRoom,
+  resolveRoom,
+} from '@/lib/rooms'
+import { createFormatter } from '@/lib/format'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+afterEach(resetStandIns)
+
+const scope = { homeId: HOME_ID, userId: USER.id }
+const format = createFormatter({ ...DEFAULT_PREFERENCES, language: 'en', locale: 'en-US' })
+
+function scheduledChange(room: string) {
+  return {
+    home_id: HOME_ID,
+    user_id: USER.id,
+    room,
+    temperature: 21,
+    execute_at: '2026-10-20T06:00:00Z',
+  }
+}
+
+function alias(alias: string, room: string) {
+  return { home_id: HOME_ID, user_id: USER.id, alias, alias_key: normalizeRoomName(alias), room }
+}
+
+describe('normalizeRoomName', () => {
+  it('ignores case, accents and separators', () => {
+    expect(normalizeRoomName('  Salle à Manger ')).toBe('salle-a-manger')
+    expect(normalizeRoomName('LIVING_ROOM')).toBe('living-room')
+  })
+})
+
+describe('resolveRoom', () => {
+  it('matches exact names, normalized names and aliases', async () => {
+    createTestDatabase(
+      { 'Living room': 20, Bedroom: 19 },
+      { room_aliases: [alias('Lounge', 'Living room')] }
+    )
+
+    expect(await resolveRoom(scope, 'Bedroom')).toEqual({ room: 'Bedroom', matchedBy: 'exact' })
+    expect(await resolveRoom(scope, 'living-room')).toEqual({
+      room: 'Living room',
+      matchedBy: 'normalized',
+    })
+    expect(await resolveRoom(scope, 'LOUNGE')).toEqual({
+      room: 'Living room',
+      matchedBy: 'alias',
+    })
+  })
+
+  it('corrects a small typo', async () => {
+    createTestDatabase({ Bedroom: 19, Kitchen: 20 })
+
+    expect(await resolveRoom(scope, 'bedrom')).toEqual({ room: 'Bedroom', matchedBy: 'fuzzy' })
+  })
+
+  it('does not mix up numbered rooms', async () => {
+    createTestDatabase({ 'Bedroom 1': 19, 'Bedroom 2': 19 })
+
+    expect(await resolveRoom(scope, 'bedroom 3')).toEqual({
+      room: null,
+      suggestions: ['Bedroom 1', 'Bedroom 2'],
+    })
+  })
+
+  it('suggests close names when nothing matches', async () => {
+    createTestDatabase({ Office: 20, Kitchen: 20 })
+
+    expect(await resolveRoom(scope, 'garage')).toEqual({ room: null, suggestions: [] })
+  })
+})
+
+describe('createRoom', () => {
+  it('asks for confirmation before creating an unknown room', async () => {
+    const db = createTestDatabase({ Office: 20 })
+
+    expect(await createRoom(scope, 'Attic', false, format)).toMatch(/^❓ Room "Attic" does not exist\./)
+    expect(db.dump('room_temperatures')).toHaveLength(1)
+
+    expect(await createRoom(scope, 'Attic', true, format)).toBe('✅ Room Attic has been created.')
+    expect(db.dump('room_temperatures')).toMatchObject([
+      { room: 'Office' },
+      { room: 'Attic', temperature: 22 },
+    ])
+  })
+
+  it('does not duplicate an existing room', async () => {
+    const db = createTestDatabase({ 'Living room': 20 })
+
+    expect(await createRoom(scope, 'living room', true, format)).toBe(
+      'ℹ️ Room Living room already exists.'
+    )
+    expect(db.dump('room_temperatures')).toHaveLength(1)
+  })
+})
+
+describe('room aliases', () => {
+  it('adds and removes an alias', async () => {
+    const db = createTestDatabase({ 'Living room': 20 })
+
+    expect(await addRoomAlias(scope, 'living room', 'Lounge', format)).toBe(
+      '✅ "Lounge" now refers to Living room.'
+    )
+    expect(await resolveRoom(scope, 'lounge')).toMatchObject({ room: 'Living room' })
+
+    expect(await removeRoomAlias(scope, 'LOUNGE', format)).toBe(
+      '🗑️ Alias "LOUNGE" removed from Living room.'
+    )
+    expect(db.dump('room_aliases')).toEqual([])
+  })
+
+  it('refuses an alias that is already a room name', async () => {
+    createTestDatabase({ 'Living room': 20, Office: 19 })
+
+    expect(await addRoomAlias(scope, 'living room', 'office', format)).toBe(
+      '❌ "office" is already the name of a room.'
+    )
+  })
+})
+
+describe('renameRoom', () => {
+  function createRenameDatabase() {
+    return createTestDatabase(
+      { Bedroom: 19, Office: 20 },
+      {
+        room_aliases: [alias('Master', 'Bedroom')],
+        scheduled_temperatures: [
+          scheduledChange('Bedroom'),
+        ],
+        temperature_history: [
+          {
+            home_id: HOME_ID,
+            room: 'Bedroom',
+            temperature: 19,
+            source: 'manual',
+            recorded_at: '2026-10-18T06:00:00Z',
+          },
+        ],
+        automation_rules: [
+          {
+            id: 'rule-1',
+            home_id: HOME_ID,
+            name: 'Cold bedroom',
+            trigger: { type: 'temperature_below', room: 'Bedroom', threshold: 17 },
+            conditions: [{ type: 'time_between', from: '06:00', to: '22:00' }],
+            actions: [
+              { type: 'set_temperature', room: 'Bedroom', temperature: 20 },
+              { type: 'set_temperature', room: 'Office', temperature: 19 },
+            ],
+          },
+        ],
+      }
+    )
+  }
+
+  it('renames every reference to the room', async () => {
+    const db = createRenameDatabase()
+
+    expect(await renameRoom(scope, 'bedroom', 'Guest room', format)).toBe(
+      '✅ Room Bedroom has been renamed to Guest room.'
+    )
+
+    expect(db.dump('room_temperatures').map((row) => row.room)).toEqual(['Guest room', 'Office'])
+    expect(db.dump('room_aliases')).toMatchObject([{ alias: 'Master', room: 'Guest room' }])
+    expect(db.dump('scheduled_temperatures')).toMatchObject([{ room: 'Guest room' }])
+    expect(db.dump('temperature_history')).toMatchObject([{ room: 'Guest room' }])
+
+    const [rule] = db.dump('automation_rules')
+    expect(rule.trigger).toMatchObject({ room: 'Guest room' })
+    expect(rule.actions).toMatchObject([{ room: 'Guest room' }, { room: 'Office' }])
+    expect(db.dump('audit_log')).toMatchObject([
+      { action: 'room.rename', previous: { room: 'Bedroom' }, next: { room: 'Guest room' } },
+    ])
+  })
+
+  it('refuses a name already used by another room', async () => {
+    const db = createRenameDatabase()
+
+    expect(await renameRoom(scope, 'Bedroom', 'office', format)).toBe(
+      '❌ A room named Office already exists.'
+    )
+    expect(db.dump('room_temperatures').map((row) => row.room)).toEqual(['Bedroom', 'Office'])
+  })
+
+  it('changes nothing when the rename fails', async () => {
+    const db = createRenameDatabase()
+    const tables = ['room_temperatures', 'room_aliases', 'scheduled_temperatures', 'automation_rules']
+    const before = tables.map((table) => db.dump(table))
+    db.failNext('rename_room')
+
+    expect(await renameRoom(scope, 'Bedroom', 'Guest room', format)).toBe('❌ Failed to rename Bedroom.')
+
+    expect(tables.map((table) => db.dump(table))).toEqual(before)
+    expect(db.dump('audit_log')).toEqual([])
+  })
+})
+
+describe('deleteRoom', () => {
+  it('removes the room and cancels its pending changes', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19, Office: 20 },
+      {
+        room_aliases: [alias('Master', 'Bedroom')],
+        scheduled_temperatures: [
+          scheduledChange('Bedroom'),
+        ],
+      }
+    )
+
+    await deleteRoom(scope, 'bedroom')
+
+    expect(db.dump('room_temperatures').map((row) => row.room)).toEqual(['Office'])
+    expect(db.dump('room_aliases')).toEqual([])
+    expect(db.dump('scheduled_temperatures')).toMatchObject([
+      { room: 'Bedroom', status: 'cancelled' },
+    ])
+    expect(db.dump('audit_log')).toMatchObject([{ action: 'room.delete', room: 'Bedroom' }])
+  })
+
+  it('does not guess which room to delete', async () => {
+    const db = createTestDatabase({ Bedroom: 19 })
+
+    expect(await deleteRoom(scope, 'attic', format)).toMatch(/^❓ Room "attic" does not exist\./)
+    expect(db.dump('room_temperatures')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { GET as cron } from '@/app/api/cron/route'
+import { POST as ingest } from '@/app/api/sensors/readings/route'
+import { createDevice } from '@/lib/devices'
+import { createFormatter } from '@/lib/format'
+import { getHomeAccess } from '@/lib/homes'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import { dryRunRule, evaluateRules } from '@/lib/rules'
+import type { MemorySupabase } from '@/lib/testing/memorySupabase'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const SECRET = 'cron-secret'
+
+afterEach(() => {
+  delete process.env.CRON_SECRET
+  resetStandIns()
+})
+
+const scope = { homeId: HOME_ID, userId: USER.id }
+const english = createFormatter({ ...DEFAULT_PREFERENCES, language: 'en', locale: 'en-US' })
+
+const START = new Date('2026-10-19T08:00:00Z')
+const minutesLater = (minutes: number) => new Date(START.getTime() + minutes * 60 * 1000)
+
+// Chambre froide : sous 18 °C, la chambre passe à 21 °C
+function coldBedroomRule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'rule-1',
+    home_id: HOME_ID,
+    user_id: USER.id,
+    name: 'Cold bedroom',
+    trigger: { type: 'temperature', room: 'Bedroom', below: 18 },
+    actions: [{ type: 'set_temperature', room: 'Bedroom', temperature: 21 }],
+    ...overrides,
+  }
+}
+
+// Mesure d'un capteur, prise en compte à la place de la lecture du thermostat
+function measure(db: MemorySupabase, room: string, temperature: number, at: Date) {
+  const row = db.rows('room_temperatures').find((other) => other.room === room)!
+  row.measured_temperature = temperature
+  row.measured_at = at.toISOString()
+}
+
+const firings = (db: MemorySupabase) =>
+  db.dump('temperature_history').filter((row) => row.source === 'rule').length
+
+describe('evaluateRules', () => {
+  it('fires once per threshold crossing', async () => {
+    const db = createTestDatabase({ Bedroom: 19 }, { automation_rules: [coldBedroomRule()] })
+
+    measure(db, 'Bedroom', 17, START)
+    expect(await evaluateRules(START)).toEqual({ evaluated: 1, fired: 1, failed: 0 })
+    expect(db.dump('room_temperatures')[0].temperature).toBe(21)
+
+    // Toujours sous le seuil, bien après le délai : pas de nouveau déclenchement
+    expect((await evaluateRules(minutesLater(120))).fired).toBe(0)
+
+    // La valeur repasse au-dessus puis redescend : nouveau franchissement
+    measure(db, 'Bedroom', 19, minutesLater(130))
+    expect((await evaluateRules(minutesLater(130))).fired).toBe(0)
+    measure(db, 'Bedroom', 17.5, minutesLater(140))
+    expect((await evaluateRules(minutesLater(140))).fired).toBe(1)
+
+    expect(firings(db)).toBe(2)
+    expect(db.dump('automation_rules')[0]).toMatchObject({
+      trigger_active: true,
+      last_fired_at: minutesLater(140).toISOString(),
+      last_error: null,
+    })
+  })
+
+  it('waits for the cooldown between two firings', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19 },
+      { automation_rules: [coldBedroomRule({ cooldown_minutes: 30 })] }
+    )
+
+    measure(db, 'Bedroom', 17, START)
+    await evaluateRules(START)
+
+    measure(db, 'Bedroom', 19, minutesLater(5))
+    await evaluateRules(minutesLater(5))
+    measure(db, 'Bedroom', 17, minutesLater(10))
+
+    expect((await evaluateRules(minutesLater(10))).fired).toBe(0)
+    expect(firings(db)).toBe(1)
+
+    // Le franchissement bloqué par le délai est traité dès la fin de celui-ci
+    expect((await evaluateRules(minutesLater(40))).fired).toBe(1)
+    expect(firings(db)).toBe(2)
+  })
+
+  it('fires once a failing condition holds if the threshold is still crossed', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19 },
+      {
+        automation_rules: [
+          coldBedroomRule({ conditions: [{ type: 'mode', modes: ['home', 'sleep'] }] }),
+        ],
+        homes: [{ id: HOME_ID, name: 'Home', created_by: USER.id, mode: 'vacation' }],
+      }
+    )
+
+    measure(db, 'Bedroom', 17, START)
+
+    expect((await evaluateRules(START)).fired).toBe(0)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(19)
+    expect(db.dump('automation_rules')[0].trigger_active).toBe(false)
+
+    db.rows('homes')[0].mode = 'home'
+    expect((await evaluateRules(minutesLater(5))).fired).toBe(1)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(21)
+  })
+
+  it('records the actions that failed', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19 },
+      {
+        automation_rules: [coldBedroomRule()],
+        thermostat_bindings: [{ home_id: HOME_ID, room: 'Bedroom', driver: 'unplugged' }],
+      }
+    )
+
+    measure(db, 'Bedroom', 17, START)
+
+    expect(await evaluateRules(START)).toEqual({ evaluated: 1, fired: 1, failed: 1 })
+    expect(db.dump('automation_rules')[0].last_error).toMatch(/^Bedroom: /)
+  })
+})
+
+describe('dryRunRule', () => {
+  it('reports what a saved rule would do without changing anything', async () => {
+    const db = createTestDatabase({ Bedroom: 19 }, { automation_rules: [coldBedroomRule()] })
+    const before = JSON.stringify(db.dump('automation_rules'))
+
+    const report = await dryRunRule(
+      scope,
+      { ruleId: 'rule-1' },
+      { rooms: [{ room: 'bedroom', temperature: 16 }] },
+      english
+    )
+
+    expect(report).toContain('nothing was changed')
+    expect(report).toContain('⚡ The rule would fire')
+    expect(JSON.stringify(db.dump('automation_rules'))).toBe(before)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(19)
+    expect(db.dump('temperature_history')).toEqual([])
+    expect(db.dump('audit_log')).toEqual([])
+  })
+
+  it('evaluates an unsaved rule without creating it', async () => {
+    const db = createTestDatabase({ Bedroom: 19 })
+
+    const report = await dryRunRule(
+      scope,
+      {
+        rule: {
+          trigger: { type: 'temperature', room: 'bedroom', below: 18 },
+          actions: [{ type: 'set_temperature', room: 'bedroom', temperature: 21 }],
+        },
+      },
+      {},
+      english
+    )
+
+    expect(report).toContain('💤 The rule would not fire.')
+    expect(db.dump('automation_rules')).toEqual([])
+    expect(db.dump('room_temperatures')[0].temperature).toBe(19)
+  })
+})
+
+describe('rule sources', () => {
+  it('fires from the cron on thermostat readings', async () => {
+    process.env.CRON_SECRET = SECRET
+    const db = createTestDatabase({ Bedroom: 17 }, { automation_rules: [coldBedroomRule()] })
+
+    const response = await cron(
+      new Request('http://localhost/api/cron', { headers: { Authorization: `Bearer ${SECRET}` } })
+    )
+
+    expect((await response.json()).rules).toEqual({ evaluated: 1, fired: 1, failed: 0 })
+    expect(db.dump('room_temperatures')[0].temperature).toBe(21)
+  })
+
+  it('fires from sensor readings of the rooms they measure', async () => {
+    const db = createTestDatabase(
+      { Bedroom: 19, Office: 20 },
+      {
+        automation_rules: [
+          coldBedroomRule(),
+          coldBedroomRule({
+            id: 'rule-2',
+            trigger: { type: 'temperature', room: 'Office', below: 25 },
+            actions: [{ type: 'set_temperature', room: 'Office', temperature: 22 }],
+          }),
+        ],
+      }
+    )
+    const access = await getHomeAccess(USER.id, HOME_ID)
+    const { apiKey } = await createDevice(access!, 'Bedroom sensor', 'Bedroom')
+
+    const response = await ingest(
+      new Request('http://localhost/api/sensors/readings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ temperature: 16.5 }),
+      })
+    )
+
+    expect(response.status).toBe(200)
+    const [bedroom, office] = db.dump('automation_rules')
+    expect(bedroom.last_fired_at).not.toBeNull()
+    expect(office.last_evaluated_at).toBeNull()
+    expect(db.dump('room_temperatures')).toMatchObject([
+      { room: 'Bedroom', temperature: 21, measured_temperature: 16.5 },
+      { room: 'Office', temperature: 20 },
+    ])
+  })
+})
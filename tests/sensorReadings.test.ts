@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/sensors/readings/route'
+import { createDevice } from '@/lib/devices'
+import { getHomeAccess } from '@/lib/homes'
+import { deleteRoom, renameRoom } from '@/lib/rooms'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+afterEach(resetStandIns)
+
+const scope = { homeId: HOME_ID, userId: USER.id }
+
+// Base avec deux pièces et un appareil rattaché à la chambre
+async function createSensorDatabase() {
+  const db = createTestDatabase({ Bedroom: 19, 'Living room': 20 })
+  const access = await getHomeAccess(USER.id, HOME_ID)
+  const { device, apiKey } = await createDevice(access!, 'Bedroom sensor', 'Bedroom')
+  return { db, device, apiKey }
+}
+
+function send(
+  apiKey: string | null,
+  body: unknown,
+  contentType = typeof body === 'string' ? 'text/plain' : 'application/json'
+) {
+  return POST(
+    new Request('http://localhost/api/sensors/readings', {
+      method: 'POST',
+      headers: {
+        'Content-Type': contentType,
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+  )
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString()
+
+describe('POST /api/sensors/readings', () => {
+  it('stores only a hash of the device key', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+    const [stored] = db.dump('devices')
+
+    expect(apiKey).toMatch(/^thd_/)
+    expect(stored.key_hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(Object.values(stored)).not.toContain(apiKey)
+    expect(apiKey.startsWith(String(stored.key_prefix))).toBe(true)
+  })
+
+  it('records JSON readings and the latest measurement of each room', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+
+    const response = await send(apiKey, {
+      readings: [
+        { temperature: 18.5, humidity: 50, recordedAt: minutesAgo(10) },
+        { temperature: 18.9, recordedAt: minutesAgo(5) },
+        { room: 'living room', temperature: 21.2 },
+      ],
+    })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ accepted: 3, rejected: [] })
+    expect(db.dump('temperature_history')).toMatchObject([
+      { room: 'Bedroom', temperature: 18.5, humidity: 50, source: 'device', user_id: null },
+      { room: 'Bedroom', temperature: 18.9, humidity: null, source: 'device' },
+      { room: 'Living room', temperature: 21.2, source: 'device' },
+    ])
+    expect(db.dump('room_temperatures')).toMatchObject([
+      { room: 'Bedroom', temperature: 19, measured_temperature: 18.9 },
+      { room: 'Living room', temperature: 20, measured_temperature: 21.2 },
+    ])
+    expect(db.dump('devices')[0].last_seen_at).not.toBeNull()
+  })
+
+  it('parses the line format', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+    const unixTime = Math.floor(Date.now() / 1000) - 60
+
+    const response = await send(
+      apiKey,
+      ['# bedroom sensor', 't=19.2 h=45', `"living room" temperature=21 ${unixTime}`, ''].join('\n')
+    )
+
+    expect(await response.json()).toEqual({ accepted: 2, rejected: [] })
+    expect(db.dump('temperature_history')).toMatchObject([
+      { room: 'Bedroom', temperature: 19.2, humidity: 45 },
+      {
+        room: 'Living room',
+        temperature: 21,
+        recorded_at: new Date(unixTime * 1000).toISOString(),
+      },
+    ])
+  })
+
+  it('answers 400 for a malformed line', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+
+    const response = await send(apiKey, 'bedroom t=19\nkitchen x=3')
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).message).toContain('Line 2')
+    expect(db.dump('temperature_history')).toEqual([])
+  })
+
+  it('rejects readings too far in the future', async () => {
+    const { apiKey } = await createSensorDatabase()
+    const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString()
+
+    const response = await send(apiKey, [
+      { temperature: 19, recordedAt: inMinutes(2) },
+      { temperature: 19, recordedAt: inMinutes(10) },
+    ])
+
+    expect(await response.json()).toEqual({
+      accepted: 1,
+      rejected: [{ index: 1, reason: 'recordedAt must be a past ISO date or Unix time' }],
+    })
+  })
+
+  it('answers 422 when no reading can be used', async () => {
+    const { apiKey } = await createSensorDatabase()
+
+    const response = await send(apiKey, [{ room: 'attic', temperature: 19 }, { temperature: 300 }])
+
+    expect(response.status).toBe(422)
+    expect((await response.json()).rejected).toEqual([
+      { index: 0, reason: 'unknown room "attic"' },
+      { index: 1, reason: 'temperature must be between -50 and 100 °C' },
+    ])
+  })
+
+  it('refuses batches over the limit', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+
+    const response = await send(apiKey, Array.from({ length: 501 }, () => ({ temperature: 19 })))
+
+    expect(response.status).toBe(400)
+    expect(db.dump('temperature_history')).toEqual([])
+  })
+
+  it('answers 401 for a missing, unknown or revoked key', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+
+    expect((await send(null, { temperature: 19 })).status).toBe(401)
+    expect((await send('thd_unknown', { temperature: 19 })).status).toBe(401)
+
+    db.rows('devices')[0].revoked_at = new Date().toISOString()
+    expect((await send(apiKey, { temperature: 19 })).status).toBe(401)
+  })
+
+  it('follows the default room of the device when it is renamed', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+
+    await renameRoom(scope, 'Bedroom', 'Guest room')
+    const response = await send(apiKey, { temperature: 18 })
+
+    expect(await response.json()).toEqual({ accepted: 1, rejected: [] })
+    expect(db.dump('devices')[0].room).toBe('Guest room')
+    expect(db.dump('temperature_history')).toMatchObject([{ room: 'Guest room', temperature: 18 }])
+  })
+
+  it('detaches the device when its room is deleted', async () => {
+    const { db, apiKey } = await createSensorDatabase()
+
+    await deleteRoom(scope, 'Bedroom')
+    const response = await send(apiKey, { temperature: 18 })
+
+    expect(db.dump('devices')[0].room).toBeNull()
+    expect(response.status).toBe(422)
+    expect((await response.json()).rejected).toEqual([
+      { index: 0, reason: 'room is required (the device has no default room)' },
+    ])
+  })
+})
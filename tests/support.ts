@@ -0,0 +1,59 @@
+import { MemorySupabase, type Row } from '@/lib/testing/memorySupabase'
+import { setSupabaseServer } from '@/lib/supabaseServer'
+import { setLLMProvider } from '@/lib/llm'
+import { resetSimulatedThermostats } from '@/lib/thermostat/simulated'
+import { setWeatherProvider } from '@/lib/weather'
+
+export const USER = { id: 'user-alice', email: 'alice@example.com' }
+export const OTHER_USER = { id: 'user-bob', email: 'bob@example.com' }
+export const TOKEN = 'token-alice'
+export const OTHER_TOKEN = 'token-bob'
+export const HOME_ID = 'home-alice'
+
+// 🏠 Base en mémoire : un foyer dont Alice est propriétaire, avec les pièces données (consigne en °C)
+export function createTestDatabase(
+  rooms: Record<string, number> = {},
+  tables: Record<string, Row[]> = {}
+): MemorySupabase {
+  const db = new MemorySupabase({
+    tables: {
+      homes: [{ id: HOME_ID, name: 'Home', created_by: USER.id }],
+      home_members: [{ home_id: HOME_ID, user_id: USER.id, role: 'owner' }],
+      room_temperatures: Object.entries(rooms).map(([room, temperature]) => ({
+        home_id: HOME_ID,
+        user_id: USER.id,
+        room,
+        temperature,
+      })),
+      ...tables,
+    },
+    users: { [TOKEN]: USER, [OTHER_TOKEN]: OTHER_USER },
+  })
+  setSupabaseServer(db.asClient())
+  return db
+}
+
+// Remet les remplacements à zéro entre deux scénarios
+export function resetStandIns() {
+  setSupabaseServer(null)
+  setLLMProvider(null)
+  setWeatherProvider(null)
+  resetSimulatedThermostats()
+}
+
+export function jsonRequest(
+  url: string,
+  body: unknown,
+  { token = TOKEN, headers = {} }: { token?: string | null; headers?: Record<string, string> } = {}
+): Request {
+  return new Request(`http://localhost${url}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept-Language': 'en',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
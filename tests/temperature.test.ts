@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { setRoomTarget } from '@/lib/temperature'
+import { SimulatedThermostatDriver } from '@/lib/thermostat/simulated'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const scope = { homeId: HOME_ID, userId: USER.id }
+
+afterEach(resetStandIns)
+
+async function thermostatTarget(room: string) {
+  return (await new SimulatedThermostatDriver(`${HOME_ID}:${room}`).readTemperature()).target
+}
+
+describe('setRoomTarget', () => {
+  it('sets the thermostat and records the change', async () => {
+    const db = createTestDatabase({ Office: 20 })
+
+    await setRoomTarget(scope, 'Office', 22)
+
+    expect(await thermostatTarget('Office')).toBe(22)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(22)
+    expect(db.dump('temperature_history')).toMatchObject([{ room: 'Office', temperature: 22 }])
+    expect(db.dump('audit_log')).toMatchObject([
+      { action: 'temperature.set', previous: { temperature: 20 } },
+    ])
+  })
+
+  it('restores the thermostat when the setpoint cannot be saved', async () => {
+    const db = createTestDatabase({ Office: 20 })
+    db.failNext('room_temperatures', { operation: 'update' })
+
+    await expect(setRoomTarget(scope, 'Office', 22)).rejects.toThrow('Simulated database failure')
+
+    expect(await thermostatTarget('Office')).toBe(20)
+    expect(db.dump('room_temperatures')[0].temperature).toBe(20)
+    expect(db.dump('temperature_history')).toEqual([])
+    expect(db.dump('audit_log')).toEqual([])
+  })
+
+  it('leaves the thermostat alone when the current setpoint cannot be read', async () => {
+    const db = createTestDatabase({ Office: 20 })
+    db.failNext('room_temperatures')
+
+    await expect(setRoomTarget(scope, 'Office', 22)).rejects.toThrow()
+
+    expect(await thermostatTarget('Office')).toBe(20)
+  })
+})
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { getTemperatureStats } from '@/lib/temperature'
+import { createFormatter } from '@/lib/format'
+import { DEFAULT_PREFERENCES } from '@/lib/preferences'
+import { MAX_ROWS } from '@/lib/testing/memorySupabase'
+import { HOME_ID, USER, createTestDatabase, resetStandIns } from '@/tests/support'
+
+const format = createFormatter({ ...DEFAULT_PREFERENCES, language: 'en', locale: 'en-US' })
+
+afterEach(resetStandIns)
+
+describe('getTemperatureStats', () => {
+  it('reads every sensor reading of a long period, past the row cap', async () => {
+    const start = new Date('2026-10-12T00:00:00Z')
+    const readings = Array.from({ length: 2 * MAX_ROWS + 500 }, (_, index) => ({
+      home_id: HOME_ID,
+      user_id: USER.id,
+      room: 'Bedroom',
+      // 18°C pendant la première moitié, puis 22°C (une mesure toutes les 4 minutes)
+      temperature: index < MAX_ROWS + 250 ? 18 : 22,
+      source: 'device',
+      recorded_at: new Date(start.getTime() + index * 4 * 60 * 1000).toISOString(),
+    }))
+    const end = new Date(start.getTime() + readings.length * 4 * 60 * 1000)
+
+    createTestDatabase({}, {
+      room_temperatures: [
+        {
+          home_id: HOME_ID,
+          user_id: USER.id,
+          room: 'Bedroom',
+          temperature: 20,
+          measured_temperature: 22,
+          measured_at: end.toISOString(),
+        },
+      ],
+      temperature_history: readings,
+    })
+
+    const stats = await getTemperatureStats(
+      { homeId: HOME_ID, userId: USER.id },
+      'bedroom',
+      start.toISOString(),
+      end.toISOString(),
+      format
+    )
+
+    expect(stats).toContain('20°C') // moyenne
+    expect(stats).toContain('18°C')
+    expect(stats).toContain('22°C')
+    expect(stats).toContain(String(readings.length))
+  })
+})